@@ -1,3 +1,8 @@
+const PRODUCTION_API_URL = 'https://cellular-mobile-backened-production.up.railway.app/api';
+
+// Staging builds set NEXT_PUBLIC_API_URL / NEXT_PUBLIC_APP_ENV; public/runtime-config.js can still override at deploy time
+const apiUrl = process.env.NEXT_PUBLIC_API_URL || PRODUCTION_API_URL;
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
@@ -15,10 +20,10 @@ const nextConfig = {
     // webpackBuildWorker: false,
   },
   env: {
-    NEXT_PUBLIC_API_URL: 'https://cellular-mobile-backened-production.up.railway.app/api',
+    NEXT_PUBLIC_API_URL: apiUrl,
   },
   async rewrites() {
-    const apiProxyTarget = process.env.API_PROXY_TARGET || 'https://cellular-mobile-backened-production.up.railway.app/api';
+    const apiProxyTarget = process.env.API_PROXY_TARGET || (/^https?:/.test(apiUrl) ? apiUrl : PRODUCTION_API_URL);
     return [
       {
         source: '/api/:path*',
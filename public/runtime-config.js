@@ -0,0 +1,9 @@
+// Per-deployment overrides for the values baked in at build time (see src/lib/config.ts).
+// Replace this file on the server to point one build at a different backend, e.g.
+//
+//   window.__APP_CONFIG__ = {
+//     environment: 'staging',
+//     apiUrl: 'https://staging-api.example.com/api',
+//     mediaUrl: 'https://staging-api.example.com',
+//   };
+window.__APP_CONFIG__ = window.__APP_CONFIG__ || {};
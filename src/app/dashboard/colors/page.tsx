@@ -9,17 +9,18 @@ import { useMultiSelect } from '@/hooks/useMultiSelect';
 import BulkActionBar from '@/components/BulkActionBar';
 import { formatDate } from '@/lib/date';
 import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
 import FullScreenLoader from '@/components/FullScreenLoader';
 import { HoverBorderGradient } from '@/components/ui/hover-border-gradient';
 import { showToast } from '@/lib/toast';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
 
 export default function ColorsPage() {
-  const [colors, setColors] = useState<Color[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const debouncedSearch = useDebouncedValue(searchTerm);
   const formRef = useRef<HTMLDivElement>(null);
   const [confirmState, setConfirmState] = useState({
     open: false,
@@ -44,29 +45,17 @@ export default function ColorsPage() {
     hex_code: '',
   });
 
-  useEffect(() => {
-    fetchColors();
-  }, []);
-
-  const fetchColors = async () => {
-    try {
-      const response = await colorsAPI.list(searchTerm);
-      setColors(response.data);
-    } catch (error) {
-      console.error('Failed to fetch colors:', error);
-      setColors([]);
-    } finally {
-      setLoading(false);
-    }
-  };
-  useAutoRefresh(fetchColors);
+  // Saves and deletes invalidate the 'colors' tag, so the list refetches on its own
+  const { data: colors = [], isLoading: loading, error: loadError, refresh } = useCachedQuery<Color[]>(
+    `colors:${debouncedSearch}`,
+    () => colorsAPI.list(debouncedSearch).then((response) => response.data),
+    { tags: ['colors'] }
+  );
+  useAutoRefresh(refresh);
 
   useEffect(() => {
-    const timer = setTimeout(() => {
-      fetchColors();
-    }, 300);
-    return () => clearTimeout(timer);
-  }, [searchTerm]);
+    if (loadError) console.error('Failed to fetch colors:', loadError);
+  }, [loadError]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -80,7 +69,6 @@ export default function ColorsPage() {
       }
       setShowForm(false);
       setEditingId(null);
-      fetchColors();
       setFormData({ name: '', hex_code: '' });
     } catch (error: any) {
       console.error('Color save error:', error);
@@ -137,7 +125,6 @@ export default function ColorsPage() {
         showToast.success('Colors deleted successfully!');
       }
       removeSelection(ids);
-      fetchColors();
     } catch (error: any) {
       console.error('Color deletion error:', error);
       const errorMessage = error.response?.data?.error || error.response?.data?.detail || 'Failed to delete color';
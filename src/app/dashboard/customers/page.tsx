@@ -1,11 +1,14 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useRef, useState } from 'react';
 import { customersAPI } from '@/lib/api';
 import type { Customer } from '@/types';
 import { FiEdit, FiTrash, FiPlus, FiSearch } from 'react-icons/fi';
 import TableSearchBar from '@/components/TableSearchBar';
+import TablePagination from '@/components/TablePagination';
 import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
 import FullScreenLoader from '@/components/FullScreenLoader';
 import SearchableSelect from '@/components/SearchableSelect';
 import { HoverBorderGradient } from '@/components/ui/hover-border-gradient';
@@ -15,13 +18,10 @@ import BulkActionBar from '@/components/BulkActionBar';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
 
 export default function CustomersPage() {
-  const [customers, setCustomers] = useState<Customer[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(25);
+  const debouncedSearch = useDebouncedValue(searchTerm);
   const [confirmState, setConfirmState] = useState({
     open: false,
     ids: [] as number[],
@@ -57,33 +57,25 @@ export default function CustomersPage() {
     customer_type: 'individual',
   });
 
-  useEffect(() => {
-    fetchCustomers();
-  }, []);
-
-  const fetchCustomers = async () => {
-    try {
-      const response = await customersAPI.list(searchTerm);
-      setCustomers(response.data);
-    } catch (error) {
-      console.error('Failed to fetch customers:', error);
-      setCustomers([]);
-    } finally {
-      setLoading(false);
-    }
-  };
-  useAutoRefresh(fetchCustomers);
-
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      fetchCustomers();
-    }, 300);
-    return () => clearTimeout(timer);
-  }, [searchTerm]);
-
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, pageSize]);
+  const {
+    items: customers,
+    count,
+    page,
+    pageSize,
+    totalPages,
+    rangeStart,
+    rangeEnd,
+    setPage,
+    setPageSize,
+    isLoading: loading,
+    isValidating,
+    refresh,
+  } = usePaginatedList<Customer>('customers', customersAPI.listPage, {
+    tags: ['customers'],
+    filters: { search: debouncedSearch },
+    initialOrdering: 'name',
+  });
+  useAutoRefresh(refresh);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -106,7 +98,6 @@ export default function CustomersPage() {
       }
       setShowForm(false);
       setEditingId(null);
-      fetchCustomers();
       setFormData({
         name: '',
         phone: '',
@@ -163,7 +154,6 @@ export default function CustomersPage() {
       }
       showToast.success('Customer deleted successfully!');
       removeSelection(confirmState.ids);
-      fetchCustomers();
     } catch (error: any) {
       console.error('Customer deletion error:', error);
       const errorMessage = error.response?.data?.error || error.response?.data?.detail || 'Failed to delete customer';
@@ -179,19 +169,7 @@ export default function CustomersPage() {
     { value: 'business', label: 'Business' },
   ];
 
-  const totalDisplayCount = customers.length;
-  const totalPages = Math.max(1, Math.ceil(totalDisplayCount / pageSize));
-  const pageStart = totalDisplayCount === 0 ? 0 : (currentPage - 1) * pageSize;
-  const pageEnd = Math.min(pageStart + pageSize, totalDisplayCount);
-  const pageLabelStart = totalDisplayCount === 0 ? 0 : pageStart + 1;
-  const paginatedCustomers = customers.slice(pageStart, pageEnd);
-  const paginatedIds = paginatedCustomers.map((customer) => customer.id);
-
-  useEffect(() => {
-    if (currentPage > totalPages) {
-      setCurrentPage(totalPages);
-    }
-  }, [currentPage, totalPages]);
+  const paginatedIds = customers.map((customer) => customer.id);
 
   if (loading) {
     return <FullScreenLoader label="Loading customers" />;
@@ -351,7 +329,7 @@ export default function CustomersPage() {
               </tr>
             </thead>
             <tbody>
-              {paginatedCustomers.map((customer) => (
+              {customers.map((customer) => (
                 <tr key={customer.id}>
                   <td>
                     <input
@@ -415,57 +393,24 @@ export default function CustomersPage() {
             </tbody>
           </table>
 
-          {totalDisplayCount === 0 && (
+          {count === 0 && (
             <div className="text-center py-12 text-slate-600 dark:text-slate-400">
-              No customers found. Add your first customer to get started.
+              {debouncedSearch ? 'No customers match your search.' : 'No customers found. Add your first customer to get started.'}
             </div>
           )}
         </div>
 
-        {totalDisplayCount > 0 && (
-          <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
-            <span className="text-xs text-slate-600 dark:text-slate-400">
-              Showing {pageLabelStart}-{pageEnd} of {totalDisplayCount} rows
-            </span>
-            <div className="flex flex-wrap items-center gap-3">
-              <div className="flex items-center gap-2">
-                <span className="text-xs uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 whitespace-nowrap">Per page</span>
-                <select
-                  id="pageSize"
-                  className="input h-9 py-1.5 min-w-[90px] leading-tight"
-                  value={pageSize}
-                  onChange={(e) => setPageSize(Number(e.target.value))}
-                >
-                  <option value={10}>10</option>
-                  <option value={25}>25</option>
-                  <option value={50}>50</option>
-                  <option value={100}>100</option>
-                </select>
-              </div>
-              <div className="flex items-center gap-2">
-                <button
-                  type="button"
-                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
-                  onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
-                  disabled={currentPage === 1}
-                >
-                  Prev
-                </button>
-                <span className="text-xs text-slate-500 dark:text-slate-400">
-                  Page {currentPage} of {totalPages}
-                </span>
-                <button
-                  type="button"
-                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
-                  onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
-                  disabled={currentPage >= totalPages}
-                >
-                  Next
-                </button>
-              </div>
-            </div>
-          </div>
-        )}
+        <TablePagination
+          page={page}
+          totalPages={totalPages}
+          pageSize={pageSize}
+          count={count}
+          rangeStart={rangeStart}
+          rangeEnd={rangeEnd}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+          loading={isValidating}
+        />
       </div>
 
       <BulkActionBar
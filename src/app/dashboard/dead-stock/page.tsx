@@ -10,10 +10,12 @@ import { showToast } from '@/lib/toast';
 import { formatDate, formatDateTime } from '@/lib/date';
 import { FiX } from 'react-icons/fi';
 import { useAuth } from '@/context/AuthContext';
+import { useCan } from '@/hooks/useCan';
 import SearchableSelect from '@/components/SearchableSelect';
 
 export default function DeadStockPage() {
   const { user } = useAuth();
+  const can = useCan();
   const [deadStock, setDeadStock] = useState<DeadStockBatch[]>([]);
   const [loading, setLoading] = useState(true);
   const [days, setDays] = useState('90');
@@ -42,8 +44,8 @@ export default function DeadStockPage() {
       const safeDays = Number.isFinite(parsedDays) ? parsedDays : 0;
       const safeHours = Number.isFinite(parsedHours) ? parsedHours : 0;
       const safeMinutes = Number.isFinite(parsedMinutes) ? parsedMinutes : 0;
-      const shopId = user?.role === 'sub_stock_manager'
-        ? user.shop
+      const shopId = !can('shop.viewAll')
+        ? user?.shop
         : (selectedShop ? Number.parseInt(selectedShop, 10) : undefined);
       const response = await stockBatchesAPI.deadStock({
         days: safeDays,
@@ -67,14 +69,14 @@ export default function DeadStockPage() {
   useAutoRefresh(fetchDeadStock);
 
   useEffect(() => {
-    if (user?.role === 'sub_stock_manager' && user?.shop) {
+    if (!can('shop.viewAll') && user?.shop) {
       setSelectedShop(String(user.shop));
     }
-  }, [user]);
+  }, [can, user]);
 
   useEffect(() => {
     const loadShops = async () => {
-      if (user?.role === 'sub_stock_manager') {
+      if (!can('shop.viewAll')) {
         return;
       }
       try {
@@ -86,7 +88,7 @@ export default function DeadStockPage() {
       }
     };
     void loadShops();
-  }, [user]);
+  }, [can, user]);
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -100,7 +102,7 @@ export default function DeadStockPage() {
       setAvailableImeis([]);
       return;
     }
-    if (user?.role !== 'sub_stock_manager' && !writeOffShop) {
+    if (can('shop.viewAll') && !writeOffShop) {
       setAvailableImeis([]);
       return;
     }
@@ -129,7 +131,7 @@ export default function DeadStockPage() {
     };
 
     void loadImeis();
-  }, [showWriteOffModal, selectedBatch, writeOffShop, user]);
+  }, [showWriteOffModal, selectedBatch, writeOffShop, user, can]);
 
   const filtered = deadStock.filter((item) => {
     if (!searchTerm) return true;
@@ -141,8 +143,8 @@ export default function DeadStockPage() {
   });
 
   const totalValue = filtered.reduce((sum, item) => sum + (item.stock_value || 0), 0);
-  const canManageBatches = ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'].includes(user?.role || '');
-  const showShopFilter = user?.role !== 'sub_stock_manager';
+  const canManageBatches = can('deadStock.manage');
+  const showShopFilter = can('shop.viewAll');
   const shopOptions = [
     { value: '', label: 'All Shops' },
     ...shops.map((shop) => ({
@@ -160,7 +162,7 @@ export default function DeadStockPage() {
       subLabel: shop.code,
     })),
   ];
-  const remainingLabel = user?.role === 'sub_stock_manager' || selectedShop
+  const remainingLabel = !can('shop.viewAll') || selectedShop
     ? 'Remaining (Shop)'
     : 'Remaining (All)';
 
@@ -243,7 +245,7 @@ export default function DeadStockPage() {
     setSelectedImeis([]);
     setImeiSearch('');
     setAvailableImeis([]);
-    const defaultShop = user?.role === 'sub_stock_manager' && user?.shop
+    const defaultShop = !can('shop.viewAll') && user?.shop
       ? String(user.shop)
       : selectedShop;
     setWriteOffShop(defaultShop);
@@ -272,7 +274,7 @@ export default function DeadStockPage() {
     }
 
     try {
-      if (user?.role !== 'sub_stock_manager' && !writeOffShop) {
+      if (can('shop.viewAll') && !writeOffShop) {
         showToast.info('Select Main Stock or a shop to write off from.');
         return;
       }
@@ -542,7 +544,7 @@ export default function DeadStockPage() {
                   />
                 </div>
               )}
-              {user?.role !== 'sub_stock_manager' && (
+              {can('shop.viewAll') && (
                 <SearchableSelect
                   label="Write off from"
                   placeholder="Main stock"
@@ -551,7 +553,7 @@ export default function DeadStockPage() {
                   options={writeOffShopOptions}
                 />
               )}
-              {user?.role !== 'sub_stock_manager' && (
+              {can('shop.viewAll') && (
                 <p className="text-xs text-slate-500">
                   {isImeiTracked
                     ? 'Select main stock or a shop to load available IMEIs.'
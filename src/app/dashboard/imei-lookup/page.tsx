@@ -0,0 +1,341 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import type { IMEINumber } from '@/types';
+import { FiArrowDownLeft, FiCornerUpLeft, FiPackage, FiSearch, FiShoppingCart, FiSliders, FiTruck } from 'react-icons/fi';
+import { useBarcodeScanner } from '@/hooks/useBarcodeScanner';
+import { useCan } from '@/hooks/useCan';
+import { formatDate, formatDateTime } from '@/lib/date';
+import { describeIMEIStatus, lookupIMEILifecycle, normalizeIMEI, type IMEILifecycle } from '@/lib/imeiLookup';
+import { ADJUSTMENT_TYPES } from '@/lib/adjustments';
+
+interface TimelineEvent {
+  key: string;
+  date: string;
+  title: string;
+  detail?: string;
+  tone: 'sky' | 'amber' | 'emerald' | 'rose' | 'slate';
+  icon: typeof FiPackage;
+  href?: string;
+}
+
+const statusBadgeClasses: Record<IMEINumber['status'], string> = {
+  in_main_stock: 'badge-info',
+  in_transit: 'badge-warning',
+  in_sub_stock: 'badge-success',
+  sold: 'badge-secondary',
+  written_off: 'badge-danger',
+};
+
+const toneClasses: Record<TimelineEvent['tone'], string> = {
+  sky: 'bg-sky-100 text-sky-700 dark:bg-sky-500/20 dark:text-sky-200',
+  amber: 'bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-200',
+  emerald: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-200',
+  rose: 'bg-rose-100 text-rose-700 dark:bg-rose-500/20 dark:text-rose-200',
+  slate: 'bg-slate-100 text-slate-700 dark:bg-white/10 dark:text-slate-200',
+};
+
+const buildTimeline = (lifecycle: IMEILifecycle, showCost: boolean): TimelineEvent[] => {
+  const { batch, imei, purchaseInvoice, supplier } = lifecycle;
+  const events: TimelineEvent[] = [];
+  const supplierName = supplier?.name || purchaseInvoice?.supplier_name || batch.supplier_name;
+
+  events.push({
+    key: `purchase-${batch.id}`,
+    date: batch.purchase_date || batch.created_at,
+    title: `Purchased in batch ${batch.batch_number}`,
+    detail: [
+      supplierName ? `From ${supplierName}` : null,
+      purchaseInvoice?.invoice_number || batch.purchase_invoice_number || batch.invoice_number
+        ? `Invoice ${purchaseInvoice?.invoice_number || batch.purchase_invoice_number || batch.invoice_number}`
+        : null,
+      showCost ? `Cost Rs ${parseFloat(batch.unit_purchase_price || '0').toFixed(2)}` : null,
+    ].filter(Boolean).join(' | '),
+    tone: 'sky',
+    icon: FiPackage,
+    href: supplier ? `/dashboard/suppliers/${supplier.id}` : undefined,
+  });
+
+  lifecycle.transfers.forEach((transfer) => {
+    events.push({
+      key: `transfer-${transfer.id}`,
+      date: transfer.transferred_at,
+      title: `Dispatched to ${transfer.shop_name || 'shop'}`,
+      detail: [
+        transfer.transferred_by_name ? `By ${transfer.transferred_by_name}` : null,
+        transfer.imei_numbers?.length ? null : `Batch transfer of ${transfer.quantity} units`,
+        transfer.stock_request ? `Request #${transfer.stock_request}` : null,
+      ].filter(Boolean).join(' | '),
+      tone: 'slate',
+      icon: FiTruck,
+      href: '/dashboard/stock-transfers',
+    });
+
+    if (transfer.received_at) {
+      const missing = transfer.missing_imeis?.includes(imei.imei);
+      events.push({
+        key: `transfer-received-${transfer.id}`,
+        date: transfer.received_at,
+        title: missing
+          ? `Missing on arrival at ${transfer.shop_name || 'shop'}`
+          : `Received at ${transfer.shop_name || 'shop'}`,
+        detail: [
+          transfer.received_by_name ? `By ${transfer.received_by_name}` : null,
+          missing ? transfer.discrepancy_notes : null,
+        ].filter(Boolean).join(' | '),
+        tone: missing ? 'rose' : 'emerald',
+        icon: FiArrowDownLeft,
+        href: '/dashboard/stock-transfers',
+      });
+    }
+  });
+
+  lifecycle.sales.forEach((sale) => {
+    const item = sale.items?.find((entry) => entry.imei === imei.imei);
+    events.push({
+      key: `sale-${sale.id}`,
+      date: sale.sale_date,
+      title: `Sold to ${sale.customer_name}`,
+      detail: [
+        `Invoice ${sale.invoice_number}`,
+        sale.shop_name,
+        item ? `Rs ${parseFloat(item.total_amount || '0').toFixed(2)}` : null,
+        sale.sold_by_name ? `By ${sale.sold_by_name}` : null,
+      ].filter(Boolean).join(' | '),
+      tone: 'emerald',
+      icon: FiShoppingCart,
+      href: `/dashboard/sales/${sale.id}`,
+    });
+  });
+
+  lifecycle.returns.forEach((saleReturn) => {
+    const item = saleReturn.items?.find((entry) => entry.imei === imei.imei);
+    events.push({
+      key: `return-${saleReturn.id}`,
+      date: saleReturn.created_at,
+      title: `Returned on credit note ${saleReturn.credit_note_number}`,
+      detail: [
+        saleReturn.resolution === 'exchange' ? 'Exchange' : 'Refund',
+        item?.restock_action === 'damaged' ? 'Marked damaged' : 'Restocked',
+        saleReturn.reason,
+      ].filter(Boolean).join(' | '),
+      tone: 'amber',
+      icon: FiCornerUpLeft,
+      href: `/dashboard/sales/credit-notes/${saleReturn.id}`,
+    });
+  });
+
+  lifecycle.adjustments.forEach((adjustment) => {
+    const typeMeta = ADJUSTMENT_TYPES[adjustment.adjustment_type];
+    events.push({
+      key: `adjustment-${adjustment.id}`,
+      date: adjustment.created_at,
+      title: `${typeMeta?.label || adjustment.adjustment_type} at ${adjustment.shop_name || 'Main Stock'}`,
+      detail: [
+        adjustment.created_by_name ? `By ${adjustment.created_by_name}` : null,
+        adjustment.notes,
+      ].filter(Boolean).join(' | '),
+      tone: adjustment.adjustment_type === 'return' ? 'amber' : 'rose',
+      icon: FiSliders,
+      href: '/dashboard/stock-adjustments',
+    });
+  });
+
+  return events.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+export default function IMEILookupPage() {
+  const can = useCan();
+  const [query, setQuery] = useState('');
+  const [searchedCode, setSearchedCode] = useState('');
+  const [lifecycle, setLifecycle] = useState<IMEILifecycle | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const runLookup = async (rawCode: string) => {
+    const code = normalizeIMEI(rawCode);
+    if (!code || searching) return;
+
+    setQuery(code);
+    setSearchedCode(code);
+    setSearching(true);
+    setError('');
+    setLifecycle(null);
+    window.history.replaceState(null, '', `/dashboard/imei-lookup?imei=${encodeURIComponent(code)}`);
+    try {
+      const result = await lookupIMEILifecycle(code);
+      if (!result) {
+        setError(`No record of IMEI ${code} in any stock batch.`);
+      }
+      setLifecycle(result);
+    } catch (lookupError) {
+      console.error('Failed to look up IMEI:', lookupError);
+      setError(`Could not look up IMEI ${code}. Please try again.`);
+    } finally {
+      setSearching(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  useEffect(() => {
+    const initial = new URLSearchParams(window.location.search).get('imei');
+    if (initial) {
+      void runLookup(initial);
+    }
+  }, []);
+
+  useBarcodeScanner(runLookup, { enabled: !searching });
+
+  const timeline = lifecycle ? buildTimeline(lifecycle, can('batch.viewCost')) : [];
+  const latestSale = lifecycle?.sales[lifecycle.sales.length - 1];
+  const supplierName = lifecycle
+    ? lifecycle.supplier?.name || lifecycle.purchaseInvoice?.supplier_name || lifecycle.batch.supplier_name
+    : '';
+  const latestTransfer = lifecycle?.transfers.length
+    ? [...lifecycle.transfers].sort(
+        (a, b) => new Date(b.transferred_at).getTime() - new Date(a.transferred_at).getTime()
+      )[0]
+    : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="section-header">
+        <div>
+          <p className="text-[11px] uppercase tracking-[0.3em] text-slate-600 dark:text-slate-400">Traceability</p>
+          <h1 className="text-3xl font-semibold text-slate-900 dark:text-slate-100">IMEI Lookup</h1>
+          <p className="text-slate-700 dark:text-slate-300">Where a handset came from and where it went</p>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            void runLookup(query);
+          }}
+          className="flex flex-col sm:flex-row gap-3"
+        >
+          <input
+            ref={inputRef}
+            id="imeiQuery"
+            name="imeiQuery"
+            type="text"
+            inputMode="numeric"
+            data-barcode-input
+            className="input font-mono flex-1"
+            placeholder="Scan or type an IMEI"
+            value={query}
+            autoComplete="off"
+            autoFocus
+            onChange={(e) => setQuery(e.target.value)}
+            readOnly={searching}
+          />
+          <button type="submit" className="btn btn-primary flex items-center justify-center" disabled={searching || !query.trim()}>
+            <FiSearch className="mr-2" />
+            {searching ? 'Searching...' : 'Look up'}
+          </button>
+        </form>
+        {error && (
+          <div className="mt-3 rounded-xl border border-rose-400 bg-rose-100 px-3 py-2 text-sm font-medium text-rose-700 dark:border-rose-400/30 dark:bg-rose-500/15 dark:text-rose-200" role="alert">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {searching && (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500 mx-auto"></div>
+          <p className="text-slate-600 dark:text-slate-400 mt-4">Tracing IMEI {searchedCode}...</p>
+        </div>
+      )}
+
+      {lifecycle && !searching && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+            <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-5 text-slate-900 dark:text-slate-100 shadow-lg">
+              <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">Product</p>
+              <p className="mt-1 font-semibold">{lifecycle.batch.product_name || '-'}</p>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                Batch {lifecycle.batch.batch_number}
+                {lifecycle.batch.condition_display ? ` | ${lifecycle.batch.condition_display}` : ''}
+              </p>
+              <p className="mt-1 font-mono text-xs">{lifecycle.imei.imei}</p>
+            </div>
+            <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-5 text-slate-900 dark:text-slate-100 shadow-lg">
+              <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">Source</p>
+              <p className="mt-1 font-semibold">
+                {lifecycle.supplier ? (
+                  <Link href={`/dashboard/suppliers/${lifecycle.supplier.id}`} className="hover:underline">
+                    {supplierName}
+                  </Link>
+                ) : supplierName || 'Unknown supplier'}
+              </p>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {lifecycle.purchaseInvoice
+                  ? `Invoice ${lifecycle.purchaseInvoice.invoice_number} (${lifecycle.purchaseInvoice.status})`
+                  : lifecycle.batch.invoice_number ? `Invoice ${lifecycle.batch.invoice_number}` : 'No purchase invoice'}
+              </p>
+              <p className="text-sm text-slate-600 dark:text-slate-400">Purchased {formatDate(lifecycle.batch.purchase_date)}</p>
+            </div>
+            <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-5 text-slate-900 dark:text-slate-100 shadow-lg">
+              <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">Current Status</p>
+              <span className={`badge mt-2 ${statusBadgeClasses[lifecycle.imei.status] || 'badge-secondary'}`}>
+                {describeIMEIStatus(lifecycle.imei.status)}
+              </span>
+              {latestTransfer && lifecycle.imei.status !== 'in_main_stock' && (
+                <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">Last sent to {latestTransfer.shop_name}</p>
+              )}
+              <p className="text-xs text-slate-500 dark:text-slate-400">Updated {formatDateTime(lifecycle.imei.updated_at)}</p>
+            </div>
+            <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-5 text-slate-900 dark:text-slate-100 shadow-lg">
+              <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">Customer</p>
+              {latestSale ? (
+                <>
+                  <p className="mt-1 font-semibold">{latestSale.customer_name}</p>
+                  <p className="text-sm text-slate-600 dark:text-slate-400">{latestSale.customer_phone || 'No phone'}</p>
+                  <Link href={`/dashboard/sales/${latestSale.id}`} className="text-sm font-semibold text-sky-700 hover:underline dark:text-sky-300">
+                    Invoice {latestSale.invoice_number} | {formatDate(latestSale.sale_date)}
+                  </Link>
+                </>
+              ) : (
+                <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">Not sold yet</p>
+              )}
+            </div>
+          </div>
+
+          <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+            <h2 className="text-xl font-semibold mb-4">Timeline</h2>
+            <ol className="relative border-l border-slate-200 dark:border-white/10 ml-4 space-y-6">
+              {timeline.map((event) => {
+                const Icon = event.icon;
+                const body = (
+                  <>
+                    <p className="font-semibold">{event.title}</p>
+                    {event.detail && <p className="text-sm text-slate-600 dark:text-slate-400">{event.detail}</p>}
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{formatDateTime(event.date)}</p>
+                  </>
+                );
+                return (
+                  <li key={event.key} className="ml-6">
+                    <span className={`absolute -left-4 flex h-8 w-8 items-center justify-center rounded-full ring-4 ring-white dark:ring-slate-950 ${toneClasses[event.tone]}`}>
+                      <Icon size={14} />
+                    </span>
+                    {event.href ? (
+                      <Link href={event.href} className="block rounded-xl px-2 py-1 -mx-2 hover:bg-slate-50 dark:hover:bg-white/5">
+                        {body}
+                      </Link>
+                    ) : (
+                      <div className="px-2 py-1 -mx-2">{body}</div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
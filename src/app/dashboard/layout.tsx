@@ -1,16 +1,22 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
 import { useDataStore } from '@/stores/dataStore';
 import Sidebar from '@/components/Sidebar';
 import Header from '@/components/Header';
 import FullScreenLoader from '@/components/FullScreenLoader';
+import SessionExpiredModal from '@/components/SessionExpiredModal';
+import AccessDenied from '@/components/AccessDenied';
+import LockScreen from '@/components/LockScreen';
+import { useOfflineSaleSync } from '@/hooks/useOfflineSaleSync';
+import { getRouteAccess } from '@/lib/permissions';
 
 function DashboardContent({ children }: { children: React.ReactNode }) {
   const { user, isAuthenticated, loading: authLoading } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
 
   const {
     preloadStatus,
@@ -21,6 +27,8 @@ function DashboardContent({ children }: { children: React.ReactNode }) {
     resetPreload,
   } = useDataStore();
 
+  useOfflineSaleSync(isAuthenticated);
+
   // Start preload when user is authenticated and not yet preloaded
   useEffect(() => {
     if (!authLoading && isAuthenticated && user && !isPreloaded && preloadStatus === 'idle') {
@@ -65,6 +73,9 @@ function DashboardContent({ children }: { children: React.ReactNode }) {
     );
   }
 
+  // Checked before the page mounts, so a page the user cannot open never starts fetching
+  const access = getRouteAccess(user, pathname);
+
   // Preload complete - show dashboard
   return (
     <>
@@ -77,11 +88,15 @@ function DashboardContent({ children }: { children: React.ReactNode }) {
             <Header />
           </div>
           <main className="relative flex-1 overflow-y-auto scrollbar-hide bg-transparent px-3 pb-6 pt-4 text-slate-900 dark:text-slate-100 sm:px-6 sm:pb-10 sm:pt-8 lg:px-10 print:p-0 print:bg-white">
-            {children}
+            {access === 'allowed' ? children : <AccessDenied reason={access} />}
           </main>
         </div>
       </div>
 
+      {/* Both overlay the page instead of replacing it, so open work such as a POS cart survives */}
+      <LockScreen />
+      <SessionExpiredModal />
+
       {/* Global Print Styles */}
       <style jsx global>{`
         @media print {
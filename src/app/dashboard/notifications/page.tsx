@@ -1,48 +1,72 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useState } from 'react';
 import { notificationsAPI } from '@/lib/api';
 import type { Notification } from '@/types';
 import { FiBell, FiCheck, FiCheckCircle, FiAlertTriangle, FiX } from 'react-icons/fi';
 import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
 import { formatDateTime, formatTime } from '@/lib/date';
 import FullScreenLoader from '@/components/FullScreenLoader';
 
+const PAGE_STEP = 12;
+
 export default function NotificationsPage() {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
   const [filter, setFilter] = useState<'all' | 'unread' | 'read'>('all');
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [pageSize, setPageSize] = useState(12);
+  // Optimistic read marks until the refetch triggered by the mutation lands
+  const [markedRead, setMarkedRead] = useState<Set<number> | 'all'>(new Set());
 
-  useEffect(() => {
-    fetchNotifications();
-  }, []);
+  // "Load more" grows the first page instead of stacking pages, so refetches stay one request
+  const {
+    items,
+    count: filteredCount,
+    pageSize,
+    setPageSize,
+    isLoading: loading,
+    isValidating: refreshing,
+    refresh,
+  } = usePaginatedList<Notification>('notifications', notificationsAPI.listPage, {
+    tags: ['notifications'],
+    filters: { is_read: filter === 'all' ? undefined : filter === 'read' },
+    initialPageSize: PAGE_STEP,
+    initialOrdering: '-created_at',
+  });
 
-  const fetchNotifications = async () => {
-    try {
-      setRefreshing(true);
-      const response = await notificationsAPI.list();
-      setNotifications(response.data);
-      setLastUpdated(new Date());
-    } catch (error) {
-      console.error('Failed to fetch notifications:', error);
-      setNotifications([]);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
+  const { data: counts, refresh: refreshCounts } = useCachedQuery(
+    'notification-counts',
+    async () => {
+      const [all, unread] = await Promise.all([
+        notificationsAPI.listPage({ page_size: 1 }),
+        notificationsAPI.unreadCount(),
+      ]);
+      return { total: all.count, unread: unread.data.count };
+    },
+    { tags: ['notifications'] }
+  );
+
+  const fetchNotifications = () => {
+    refresh();
+    refreshCounts();
   };
   useAutoRefresh(fetchNotifications, { intervalMs: 20000 });
 
+  useEffect(() => {
+    if (!refreshing) {
+      setLastUpdated(new Date());
+      setMarkedRead(new Set());
+    }
+  }, [refreshing, items]);
+
+  const notifications = items.map((notif) => (
+    markedRead === 'all' || markedRead.has(notif.id) ? { ...notif, is_read: true } : notif
+  ));
+
   const handleMarkRead = async (id: number) => {
-    setNotifications((prev) =>
-      prev.map((notif) => (notif.id === id ? { ...notif, is_read: true } : notif))
-    );
+    setMarkedRead((prev) => (prev === 'all' ? prev : new Set(prev).add(id)));
     try {
       await notificationsAPI.markRead(id);
-      setLastUpdated(new Date());
     } catch (error) {
       console.error('Failed to mark notification as read:', error);
       fetchNotifications();
@@ -50,10 +74,9 @@ export default function NotificationsPage() {
   };
 
   const handleMarkAllRead = async () => {
-    setNotifications((prev) => prev.map((notif) => ({ ...notif, is_read: true })));
+    setMarkedRead('all');
     try {
       await notificationsAPI.markAllRead();
-      setLastUpdated(new Date());
     } catch (error) {
       console.error('Failed to mark all as read:', error);
       fetchNotifications();
@@ -70,6 +93,8 @@ export default function NotificationsPage() {
         return <FiCheckCircle className="text-green-600" size={24} />;
       case 'stock_rejected':
         return <FiX className="text-red-600" size={24} />;
+      case 'transfer_discrepancy':
+        return <FiAlertTriangle className="text-amber-600" size={24} />;
       default:
         return <FiBell className="text-slate-700 dark:text-slate-300" size={24} />;
     }
@@ -81,6 +106,7 @@ export default function NotificationsPage() {
       stock_request: 'Stock Request',
       stock_approved: 'Request Approved',
       stock_rejected: 'Request Rejected',
+      transfer_discrepancy: 'Transfer Discrepancy',
     };
     return labels[type] || type;
   };
@@ -95,25 +121,15 @@ export default function NotificationsPage() {
         return 'badge-success';
       case 'stock_rejected':
         return 'badge-warning';
+      case 'transfer_discrepancy':
+        return 'badge-danger';
       default:
         return 'badge-info';
     }
   };
 
-  const filteredNotifications = useMemo(() => notifications.filter((notif) => {
-    if (filter === 'unread') return !notif.is_read;
-    if (filter === 'read') return notif.is_read;
-    return true;
-  }), [notifications, filter]);
-
-  const unreadCount = useMemo(
-    () => notifications.filter((n) => !n.is_read).length,
-    [notifications]
-  );
-  const visibleNotifications = useMemo(
-    () => filteredNotifications.slice(0, pageSize),
-    [filteredNotifications, pageSize]
-  );
+  const totalCount = counts?.total ?? 0;
+  const unreadCount = markedRead === 'all' ? 0 : Math.max(0, (counts?.unread ?? 0) - markedRead.size);
 
   const formatRelativeTime = (dateString: string) => {
     const now = Date.now();
@@ -168,7 +184,7 @@ export default function NotificationsPage() {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
         <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
           <div className="text-sm text-slate-600 dark:text-slate-400">Total</div>
-          <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">{notifications.length}</div>
+          <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">{totalCount}</div>
         </div>
         <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
           <div className="text-sm text-slate-600 dark:text-slate-400">Unread</div>
@@ -177,7 +193,7 @@ export default function NotificationsPage() {
         <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
           <div className="text-sm text-slate-600 dark:text-slate-400">Read</div>
           <div className="text-2xl font-bold text-gray-800 dark:text-gray-200">
-            {notifications.length - unreadCount}
+            {totalCount - unreadCount}
           </div>
         </div>
       </div>
@@ -192,7 +208,7 @@ export default function NotificationsPage() {
                 : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700'
             }`}
           >
-            All ({notifications.length})
+            All ({totalCount})
           </button>
           <button
             onClick={() => setFilter('unread')}
@@ -212,13 +228,13 @@ export default function NotificationsPage() {
                 : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700'
             }`}
           >
-            Read ({notifications.length - unreadCount})
+            Read ({totalCount - unreadCount})
           </button>
         </div>
       </div>
 
       <div className="space-y-4">
-        {visibleNotifications.map((notification) => (
+        {notifications.map((notification) => (
           <div
             key={notification.id}
             className={`card ${!notification.is_read ? 'border-l-4 border-primary bg-slate-50 dark:bg-transparent' : ''}`}
@@ -272,7 +288,7 @@ export default function NotificationsPage() {
         ))}
       </div>
 
-      {filteredNotifications.length === 0 && (
+      {filteredCount === 0 && (
         <div className="card text-center py-12">
           <FiBell className="mx-auto mb-4 text-gray-600 dark:text-gray-400" size={48} />
           <p className="text-slate-600 dark:text-slate-400 text-lg">
@@ -285,11 +301,12 @@ export default function NotificationsPage() {
         </div>
       )}
 
-      {filteredNotifications.length > pageSize && (
+      {filteredCount > pageSize && (
         <div className="flex justify-center mt-6">
           <button
-            onClick={() => setPageSize((prev) => prev + 12)}
+            onClick={() => setPageSize((prev) => prev + PAGE_STEP)}
             className="btn btn-outline"
+            disabled={refreshing}
           >
             Load more
           </button>
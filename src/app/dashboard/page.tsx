@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import { dashboardAPI } from '@/lib/api';
 import { useAuth } from '@/context/AuthContext';
+import { useCan } from '@/hooks/useCan';
 import { useDataStore } from '@/stores/dataStore';
 import type { Product } from '@/types';
 import { FiDollarSign, FiTrendingUp, FiShoppingCart, FiPercent, FiUsers, FiTag, FiBarChart2 } from 'react-icons/fi';
@@ -180,6 +181,7 @@ ChartJS.register(
 );
 export default function DashboardPage() {
   const { user } = useAuth();
+  const can = useCan();
 
   // Use preloaded data from store for instant load
   const { shops: storeShops, products: storeProducts } = useDataStore();
@@ -202,10 +204,10 @@ export default function DashboardPage() {
 
   // Auto-set shop for sub-stock managers
   useEffect(() => {
-    if (user?.role === 'sub_stock_manager' && user?.shop) {
+    if (!can('shop.viewAll') && user?.shop) {
       setShopId(user.shop.toString());
     }
-  }, [user]);
+  }, [can, user]);
 
   useEffect(() => {
     fetchAnalytics();
@@ -886,7 +888,7 @@ export default function DashboardPage() {
           </div>
 
           {/* Shop Filter - Only for Admins */}
-          {user?.role !== 'sub_stock_manager' && (
+          {can('shop.viewAll') && (
             <div>
               <SearchableSelect
                 label="Shop"
@@ -1,13 +1,35 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
-import { salesAPI, customersAPI, stockBatchesAPI, shopsAPI, subStocksAPI } from '@/lib/api';
+import { useEffect, useRef, useState } from 'react';
+import { salesAPI, customersAPI, stockBatchesAPI, shopsAPI, subStocksAPI, saleReturnsAPI, parkedCartsAPI, companyProfileAPI } from '@/lib/api';
 import { useAuth } from '@/context/AuthContext';
-import type { Customer, StockBatch, Shop, IMEINumber, SubStock } from '@/types';
-import { FiShoppingCart, FiTrash, FiSearch, FiPlus, FiMinus, FiPrinter, FiTruck, FiX } from 'react-icons/fi';
+import { useCan } from '@/hooks/useCan';
+import type { Customer, StockBatch, Shop, IMEINumber, SubStock, Sale, SalePayment, SaleReturn, ParkedCart, CompanyProfile } from '@/types';
+import { FiShoppingCart, FiTrash, FiSearch, FiPlus, FiMinus, FiPrinter, FiTruck, FiX, FiMaximize, FiRotateCcw, FiWifiOff, FiRefreshCw, FiPause, FiPlay, FiSmartphone } from 'react-icons/fi';
 import SearchableSelect from '@/components/SearchableSelect';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import ProvisionalReceipt from '@/components/ProvisionalReceipt';
+import UpiQrCode from '@/components/UpiQrCode';
+import UpiQrOverlay from '@/components/UpiQrOverlay';
 import { showToast } from '@/lib/toast';
+import { useBarcodeScanner } from '@/hooks/useBarcodeScanner';
+import { findIMEI, normalizeIMEI } from '@/lib/imeiLookup';
+import { playScanTone } from '@/lib/scanFeedback';
+import { resolveUpiId, type UpiPayment } from '@/lib/upi';
+import { computeTaxSummary, DEFAULT_STATE_CODE, getStateName, resolveBuyerStateCode, roundCurrency } from '@/lib/tax';
+import {
+  createIdempotencyKey,
+  getShopCatalog,
+  isOfflineError,
+  listShopCatalogs,
+  reserveCatalogStock,
+  saveShopCatalog,
+  type ProvisionalReceipt as ProvisionalReceiptData,
+  type QueuedSale,
+  type SaleCreatePayload,
+} from '@/lib/offlineDb';
+import { useOfflineSalesStore } from '@/stores/offlineSalesStore';
+import { notifySyncResult } from '@/hooks/useOfflineSaleSync';
 
 interface CartItem {
   stock_batch_id: number;
@@ -22,9 +44,19 @@ interface CartItem {
   available_quantity: number;
 }
 
+// How long a cached shop catalog is trusted before it is refreshed in the background
+const CATALOG_REFRESH_MS = 5 * 60 * 1000;
+
+interface TenderLine {
+  id: number;
+  method: SalePayment['payment_method'];
+  amount: string;
+  reference: string;
+}
+
 export default function POSPage() {
   const { user } = useAuth();
-  const router = useRouter();
+  const can = useCan();
   const [cart, setCart] = useState<CartItem[]>([]);
   const [batches, setBatches] = useState<StockBatch[]>([]);
   const [filteredBatches, setFilteredBatches] = useState<StockBatch[]>([]);
@@ -37,10 +69,10 @@ export default function POSPage() {
   const [customerEmail, setCustomerEmail] = useState('');
   const [customerGstin, setCustomerGstin] = useState('');
   const [customerAddress, setCustomerAddress] = useState('');
-  const [stateCode, setStateCode] = useState('32');
+  const [stateCode, setStateCode] = useState('');
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
-  const [paymentMethod, setPaymentMethod] = useState<string>('cash');
-  const [paymentReference, setPaymentReference] = useState('');
+  const [tenders, setTenders] = useState<TenderLine[]>([{ id: 1, method: 'cash', amount: '', reference: '' }]);
+  const nextTenderIdRef = useRef(2);
   const [discount, setDiscount] = useState('0');
   const [transportCharge, setTransportCharge] = useState('0');
   const [loadingCharge, setLoadingCharge] = useState('0');
@@ -61,6 +93,11 @@ export default function POSPage() {
   const [lastSaleId, setLastSaleId] = useState<number | null>(null);
   const [lastSaleAmount, setLastSaleAmount] = useState<number>(0);
   const [lastSaleItemCount, setLastSaleItemCount] = useState<number>(0);
+  const [lastSaleBalance, setLastSaleBalance] = useState<number>(0);
+  const [lastSaleInvoiceNumber, setLastSaleInvoiceNumber] = useState('');
+  const [lastSaleUpiAmount, setLastSaleUpiAmount] = useState<number>(0);
+  const [companyProfile, setCompanyProfile] = useState<CompanyProfile | null>(null);
+  const [upiOverlay, setUpiOverlay] = useState<UpiPayment | null>(null);
   const [showBillSummary, setShowBillSummary] = useState(false);
   const [showImeiModal, setShowImeiModal] = useState(false);
   const [imeiBatch, setImeiBatch] = useState<StockBatch | null>(null);
@@ -68,32 +105,101 @@ export default function POSPage() {
   const [imeiSearch, setImeiSearch] = useState('');
   const [selectedImei, setSelectedImei] = useState('');
   const [loadingImeis, setLoadingImeis] = useState(false);
+  const [scanInput, setScanInput] = useState('');
+  const [scanning, setScanning] = useState(false);
+  const [scanStatus, setScanStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const shopImeiIndexRef = useRef<{ shop: number; entries: Map<string, IMEINumber> } | null>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const [exchangeCredit, setExchangeCredit] = useState<SaleReturn | null>(null);
+  const checkoutKeyRef = useRef<string | null>(null);
+  const catalogCachedRef = useRef<{ shop: number; at: number } | null>(null);
+  const [provisionalReceipt, setProvisionalReceipt] = useState<ProvisionalReceiptData | null>(null);
+  const [discardTarget, setDiscardTarget] = useState<QueuedSale | null>(null);
+  const [discarding, setDiscarding] = useState(false);
+  const [parkedCarts, setParkedCarts] = useState<ParkedCart[]>([]);
+  const [showParkModal, setShowParkModal] = useState(false);
+  const [parkLabel, setParkLabel] = useState('');
+  const [parking, setParking] = useState(false);
+  const [resumingCartId, setResumingCartId] = useState<number | null>(null);
+  const [discardCartTarget, setDiscardCartTarget] = useState<ParkedCart | null>(null);
+  const [discardingCart, setDiscardingCart] = useState(false);
+  const {
+    isOnline,
+    queue: offlineQueue,
+    syncing,
+    lastSyncedAt,
+    enqueueSale,
+    syncQueue,
+    retrySale,
+    discardSale,
+  } = useOfflineSalesStore();
 
   useEffect(() => {
     fetchShops();
-    fetchSubStocks();
+    companyProfileAPI.get()
+      .then(response => setCompanyProfile(response.data))
+      .catch(error => console.error('Failed to fetch company profile:', error));
   }, []);
 
+  // Runs on mount, on reconnect and after queued sales replay, so stock reflects the server again
   useEffect(() => {
-    if (user?.role === 'admin' || !user?.shop) {
-      router.replace('/dashboard');
+    if (isOnline) {
+      shopImeiIndexRef.current = null;
+      catalogCachedRef.current = null;
     }
-  }, [router, user]);
+    fetchSubStocks();
+  }, [isOnline, lastSyncedAt]);
 
-  if (user?.role === 'admin' || !user?.shop) {
-    return (
-      <div className="text-center py-12">
-        Point of Sale requires an assigned shop.
-      </div>
-    );
-  }
+  // Exchanges arrive from Sales History as /dashboard/pos?exchange=<sale return id>
+  useEffect(() => {
+    const exchangeId = Number(new URLSearchParams(window.location.search).get('exchange'));
+    if (!exchangeId) return;
+
+    saleReturnsAPI.get(exchangeId)
+      .then((response) => {
+        const saleReturn = response.data;
+        if (saleReturn.resolution !== 'exchange' || saleReturn.exchange_sale) {
+          showToast.info(`Credit note ${saleReturn.credit_note_number} has already been settled`);
+          return;
+        }
+        setExchangeCredit(saleReturn);
+        setCustomerName((prev) => prev || saleReturn.customer_name || '');
+        setCustomerPhone((prev) => prev || saleReturn.customer_phone || '');
+      })
+      .catch((error) => {
+        console.error('Failed to load exchange credit note:', error);
+        showToast.error('Failed to load exchange credit note');
+      });
+  }, []);
+
+  const clearExchangeCredit = () => {
+    setExchangeCredit(null);
+    window.history.replaceState(null, '', '/dashboard/pos');
+  };
 
-  // Auto-select user's shop ONLY for sub-stock managers
+  // Auto-select the user's shop ONLY for shop-scoped users
   useEffect(() => {
-    if (user?.role === 'sub_stock_manager' && user?.shop && shops.length > 0) {
+    if (!can('shop.viewAll') && user?.shop && shops.length > 0) {
       setSelectedShop(user.shop);
     }
-  }, [user, shops]);
+  }, [can, user, shops]);
+
+  useEffect(() => {
+    if (selectedShop && isOnline && shops.length > 0) {
+      cacheShopCatalog(Number(selectedShop));
+    }
+  }, [selectedShop, subStocks, shops, isOnline]);
+
+  useEffect(() => {
+    if (!selectedShop) {
+      setParkedCarts([]);
+      return;
+    }
+    if (!isOnline) return;
+    parkedCartsAPI.list({ shop: Number(selectedShop) })
+      .then(response => setParkedCarts(response.data))
+      .catch(error => console.error('Failed to fetch parked carts:', error));
+  }, [selectedShop, isOnline]);
 
   useEffect(() => {
     if (searchTerm && selectedShop) {
@@ -132,6 +238,10 @@ export default function POSPage() {
       // Sub-stock managers get their shop auto-selected in useEffect above
     } catch (error) {
       console.error('Failed to fetch shops:', error);
+      if (isOfflineError(error)) {
+        const catalogs = await listShopCatalogs().catch(() => []);
+        setShops(catalogs.map(catalog => catalog.shop));
+      }
     }
   };
 
@@ -141,16 +251,84 @@ export default function POSPage() {
       setSubStocks(response.data);
     } catch (error) {
       console.error('Failed to fetch sub-stocks:', error);
+      if (isOfflineError(error)) {
+        const catalogs = await listShopCatalogs().catch(() => []);
+        setSubStocks(catalogs.flatMap(catalog => catalog.sub_stocks));
+      }
     }
   };
 
-  const fetchBatches = async () => {
+  // Falls back to the shop catalog saved on this device when a request never reached the server
+  const getOfflineCatalog = async (error: unknown, shopId = Number(selectedShop)) => {
+    if (!isOfflineError(error)) throw error;
+    const catalog = await getShopCatalog(shopId);
+    if (!catalog) throw error;
+    return catalog;
+  };
+
+  const searchBatches = async () => {
     try {
       const response = await stockBatchesAPI.list(searchTerm);
+      return response.data;
+    } catch (error) {
+      const catalog = await getOfflineCatalog(error);
+      const term = searchTerm.trim().toLowerCase();
+      return catalog.batches.filter(batch =>
+        [batch.product_name, batch.batch_number, batch.product_brand_name]
+          .some(value => value?.toLowerCase().includes(term))
+      );
+    }
+  };
+
+  const getBatch = async (batchId: number) => {
+    try {
+      const response = await stockBatchesAPI.get(batchId);
+      return response.data;
+    } catch (error) {
+      const catalog = await getOfflineCatalog(error);
+      const cached = catalog.batches.find(batch => batch.id === batchId);
+      if (!cached) throw error;
+      return cached;
+    }
+  };
+
+  // Keep a local copy of what this shop can sell so checkout survives a dropped connection
+  const cacheShopCatalog = async (shopId: number) => {
+    const shop = shops.find(s => s.id === shopId);
+    const lastCached = catalogCachedRef.current;
+    if (!shop || !navigator.onLine) return;
+    if (lastCached?.shop === shopId && Date.now() - lastCached.at < CATALOG_REFRESH_MS) return;
+
+    catalogCachedRef.current = { shop: shopId, at: Date.now() };
+    try {
+      // Every page, so stock past the first one can still be sold offline
+      const [allSubStocks, allBatches, imeiIndex] = await Promise.all([
+        subStocksAPI.listAll({ shop: shopId }),
+        stockBatchesAPI.listAll(),
+        loadShopImeiIndex(shopId),
+      ]);
+      const shopSubStocks = allSubStocks.filter(ss => ss.shop === shopId && ss.quantity > 0);
+      const batchIds = new Set(shopSubStocks.map(ss => ss.stock_batch));
+      await saveShopCatalog({
+        shop,
+        batches: allBatches.filter(batch => batchIds.has(batch.id)),
+        sub_stocks: shopSubStocks,
+        imeis: Array.from(imeiIndex.values()),
+        cached_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      catalogCachedRef.current = null;
+      console.error('Failed to cache shop catalog for offline use:', error);
+    }
+  };
+
+  const fetchBatches = async () => {
+    try {
+      const results = await searchBatches();
 
       // CRITICAL FILTER: Only show batches that have sub-stock in the current shop
       // This ensures POS only shows products physically available in the shop
-      const batchesWithStock = response.data.filter(batch => {
+      const batchesWithStock = results.filter(batch => {
         // Check if this batch has sub-stock in the selected shop with quantity > 0
         const subStock = subStocks.find(
           ss => ss.stock_batch === batch.id && ss.shop === Number(selectedShop)
@@ -161,12 +339,13 @@ export default function POSPage() {
       });
 
       setBatches(batchesWithStock);
-      console.log(`Filtered ${response.data.length} batches to ${batchesWithStock.length} with stock in shop`);
+      console.log(`Filtered ${results.length} batches to ${batchesWithStock.length} with stock in shop`);
     } catch (error) {
       console.error('Failed to fetch batches:', error);
     }
   };
 
+  /** Returns false when the item was refused; the reason has already been shown as a toast. */
   const addBatchToCart = (batch: StockBatch, imei?: string) => {
     const subStock = subStocks.find(
       ss => ss.stock_batch === batch.id && ss.shop === Number(selectedShop)
@@ -175,7 +354,12 @@ export default function POSPage() {
 
     if (shopQuantity <= 0) {
       showToast.info('This product is not available in the selected shop');
-      return;
+      return false;
+    }
+
+    if (imei && cart.some(item => item.stock_batch_id === batch.id && item.imei === imei)) {
+      showToast.info('This IMEI is already in the cart');
+      return false;
     }
 
     const newItem: CartItem = {
@@ -191,13 +375,21 @@ export default function POSPage() {
       available_quantity: shopQuantity,
     };
 
-    setCart((prev) => {
-      if (imei && prev.some(item => item.stock_batch_id === batch.id && item.imei === imei)) {
-        showToast.info('This IMEI is already in the cart');
-        return prev;
-      }
-      return [...prev, newItem];
-    });
+    setCart((prev) => [...prev, newItem]);
+    return true;
+  };
+
+  // Other counters park and resume carts too, so holds are re-read whenever an IMEI is picked
+  const refreshParkedCarts = async (shopId = Number(selectedShop)) => {
+    if (!navigator.onLine) return parkedCarts;
+    try {
+      const response = await parkedCartsAPI.list({ shop: shopId });
+      setParkedCarts(response.data);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch parked carts:', error);
+      return parkedCarts;
+    }
   };
 
   const openImeiSelector = async (batch: StockBatch) => {
@@ -214,18 +406,28 @@ export default function POSPage() {
     setLoadingImeis(true);
 
     try {
-      const response = await stockBatchesAPI.getIMEINumbers(batch.id, {
-        shop: Number(selectedShop),
-        location: 'shop',
-      });
+      let shopImeis: IMEINumber[];
+      try {
+        const response = await stockBatchesAPI.getIMEINumbers(batch.id, {
+          shop: Number(selectedShop),
+          location: 'shop',
+        });
+        shopImeis = response.data;
+      } catch (error) {
+        const catalog = await getOfflineCatalog(error);
+        shopImeis = catalog.imeis.filter(imeiObj => imeiObj.stock_batch === batch.id);
+      }
 
       const selectedIMEIs = cart
         .filter(item => item.stock_batch_id === batch.id && item.imei)
         .map(item => item.imei);
+      const heldIMEIs = new Set((await refreshParkedCarts()).flatMap(parked => parked.imeis));
 
-      const availableIMEIs = response.data.filter(
+      const availableIMEIs = shopImeis.filter(
         (imeiObj: IMEINumber) =>
-          imeiObj.status === 'in_sub_stock' && !selectedIMEIs.includes(imeiObj.imei)
+          imeiObj.status === 'in_sub_stock'
+          && !selectedIMEIs.includes(imeiObj.imei)
+          && !heldIMEIs.has(imeiObj.imei)
       );
 
       setImeiOptions(availableIMEIs);
@@ -263,6 +465,115 @@ export default function POSPage() {
     closeImeiModal();
   };
 
+  // Index of sellable IMEIs in the selected shop, built once per shop and reset after each sale
+  const loadShopImeiIndex = async (shopId: number) => {
+    if (shopImeiIndexRef.current?.shop === shopId) {
+      return shopImeiIndexRef.current.entries;
+    }
+
+    const shopBatchIds = Array.from(new Set(
+      subStocks
+        .filter(ss => ss.shop === shopId && ss.quantity > 0)
+        .map(ss => ss.stock_batch)
+    ));
+
+    const results = await Promise.allSettled(
+      shopBatchIds.map(batchId => stockBatchesAPI.getIMEINumbers(batchId, { shop: shopId, location: 'shop' }))
+    );
+
+    const entries = new Map<string, IMEINumber>();
+    results.forEach((result) => {
+      if (result.status !== 'fulfilled') return;
+      result.value.data
+        .filter(imeiObj => imeiObj.status === 'in_sub_stock')
+        .forEach(imeiObj => entries.set(imeiObj.imei, imeiObj));
+    });
+
+    if (shopBatchIds.length > 0 && results.every(result => result.status === 'rejected')) {
+      const catalog = await getShopCatalog(shopId).catch(() => null);
+      catalog?.imeis.forEach(imeiObj => entries.set(imeiObj.imei, imeiObj));
+    }
+
+    shopImeiIndexRef.current = { shop: shopId, entries };
+    return entries;
+  };
+
+  const rejectScan = (message: string) => {
+    playScanTone('error');
+    setScanStatus({ type: 'error', message });
+    showToast.error(message);
+  };
+
+  const handleScan = async (rawCode: string) => {
+    const code = normalizeIMEI(rawCode);
+    setScanInput('');
+    if (!code || scanning) return;
+
+    if (!selectedShop) {
+      rejectScan('Select a shop before scanning');
+      return;
+    }
+
+    if (cart.some(item => item.imei === code)) {
+      rejectScan(`IMEI ${code} is already in the cart`);
+      return;
+    }
+
+    const shopId = Number(selectedShop);
+    setScanning(true);
+    try {
+      const shopIndex = await loadShopImeiIndex(shopId);
+      const shopMatch = shopIndex.get(code);
+
+      if (shopMatch) {
+        const holder = (await refreshParkedCarts(shopId)).find(parked => parked.imeis.includes(code));
+        if (holder) {
+          rejectScan(`IMEI ${code} is held in parked cart "${holder.label}"`);
+          return;
+        }
+        const batch = await getBatch(shopMatch.stock_batch);
+        if (!addBatchToCart(batch, code)) {
+          playScanTone('error');
+          setScanStatus({ type: 'error', message: `IMEI ${code} was not added` });
+          return;
+        }
+        playScanTone('success');
+        setScanStatus({
+          type: 'success',
+          message: `Added ${batch.product_name || 'item'} · IMEI ${code}`,
+        });
+        return;
+      }
+
+      if (!navigator.onLine) {
+        rejectScan(`IMEI ${code} is not in this shop's offline stock`);
+        return;
+      }
+
+      // Not sellable here - find out why so the cashier gets a useful message
+      const found = await findIMEI(code);
+      if (!found) {
+        rejectScan(`Unknown IMEI ${code}`);
+      } else if (found.imei.status === 'sold') {
+        rejectScan(`IMEI ${code} has already been sold`);
+      } else if (found.imei.status === 'written_off') {
+        rejectScan(`IMEI ${code} has been written off`);
+      } else if (found.imei.status === 'in_main_stock') {
+        rejectScan(`IMEI ${code} is still in main stock and has not been transferred to this shop`);
+      } else {
+        rejectScan(`IMEI ${code} belongs to another shop`);
+      }
+    } catch (error) {
+      console.error('Failed to resolve scanned IMEI:', error);
+      rejectScan(`Could not look up IMEI ${code}. Please try again.`);
+    } finally {
+      setScanning(false);
+      scanInputRef.current?.focus();
+    }
+  };
+
+  useBarcodeScanner(handleScan, { enabled: !!selectedShop && !showImeiModal && !showParkModal && !showBillSummary && !provisionalReceipt && !upiOverlay });
+
   const handleSearchCustomer = async () => {
     if (!customerPhone.trim()) {
       showToast.info('Please enter a phone number');
@@ -346,21 +657,24 @@ export default function POSPage() {
     }));
   };
 
-  const calculateSubtotal = () => {
-    return cart.reduce((sum, item) => {
-      const itemAmount = item.unit_price * item.quantity;
-      const itemGst = (itemAmount * item.gst_rate) / (100 + item.gst_rate);
-      return sum + (itemAmount - itemGst);
-    }, 0);
-  };
+  const currentShop = shops.find(shop => shop.id === Number(selectedShop));
+  const sellerStateCode = currentShop?.state_code || DEFAULT_STATE_CODE;
+  const upiId = resolveUpiId(currentShop?.upi_id, companyProfile?.upi_id);
+  const upiPaymentFor = (amount: number, note?: string): UpiPayment => ({
+    vpa: upiId,
+    payeeName: companyProfile?.legal_name || currentShop?.name || 'Shop',
+    amount,
+    note,
+  });
+  const buyerStateCode = resolveBuyerStateCode({ buyerStateCode: stateCode, buyerGstin: customerGstin }) || sellerStateCode;
+  const taxSummary = computeTaxSummary(
+    cart.map(item => ({ amount: item.unit_price * item.quantity, gstRate: item.gst_rate })),
+    { sellerStateCode, buyerStateCode }
+  );
 
-  const calculateTotalGST = () => {
-    return cart.reduce((sum, item) => {
-      const itemAmount = item.unit_price * item.quantity;
-      const itemGst = (itemAmount * item.gst_rate) / (100 + item.gst_rate);
-      return sum + itemGst;
-    }, 0);
-  };
+  const calculateSubtotal = () => taxSummary.taxableValue;
+
+  const calculateTotalGST = () => taxSummary.totalTax;
 
   const calculateGrandTotal = () => {
     const subtotal = calculateSubtotal();
@@ -371,6 +685,82 @@ export default function POSPage() {
     return subtotal + gst - discountAmount + transport + loadingChrg;
   };
 
+  const exchangeCreditAmount = exchangeCredit ? parseFloat(exchangeCredit.total_amount) || 0 : 0;
+
+  const calculateAmountPayable = () => Math.max(0, calculateGrandTotal() - exchangeCreditAmount);
+
+  // Credit notes are redeemed whole, so the new bill has to absorb all of it
+  const exchangeCreditExcess = roundCurrency(Math.max(0, exchangeCreditAmount - calculateGrandTotal()));
+
+  const amountPayable = roundCurrency(calculateAmountPayable());
+
+  // A single tender left blank settles the whole bill, so a plain one-method checkout needs no typing
+  const getTenderAmount = (tender: TenderLine) => (
+    tender.amount === '' && tenders.length === 1 ? amountPayable : parseFloat(tender.amount) || 0
+  );
+
+  const totalTendered = roundCurrency(tenders.reduce((sum, tender) => sum + getTenderAmount(tender), 0));
+  const cashTendered = roundCurrency(tenders
+    .filter(tender => tender.method === 'cash')
+    .reduce((sum, tender) => sum + getTenderAmount(tender), 0));
+  const changeDue = roundCurrency(Math.max(0, totalTendered - amountPayable));
+  const balanceDue = roundCurrency(Math.max(0, amountPayable - totalTendered));
+  const paymentStatus: Sale['payment_status'] = balanceDue <= 0
+    ? 'paid'
+    : totalTendered > 0 ? 'partial' : 'unpaid';
+
+  const addTender = () => {
+    const id = nextTenderIdRef.current++;
+    setTenders(prev => {
+      // Pin the first line to the bill total before splitting so it stops auto-filling
+      const pinned = prev.length === 1 && prev[0].amount === ''
+        ? [{ ...prev[0], amount: amountPayable.toFixed(2) }]
+        : prev;
+      const remaining = roundCurrency(Math.max(0, amountPayable - pinned.reduce((sum, tender) => sum + (parseFloat(tender.amount) || 0), 0)));
+      return [...pinned, { id, method: 'upi', amount: remaining > 0 ? remaining.toFixed(2) : '', reference: '' }];
+    });
+  };
+
+  const updateTender = (id: number, changes: Partial<TenderLine>) => {
+    setTenders(prev => prev.map(tender => (tender.id === id ? { ...tender, ...changes } : tender)));
+  };
+
+  const removeTender = (id: number) => {
+    setTenders(prev => (prev.length > 1 ? prev.filter(tender => tender.id !== id) : prev));
+  };
+
+  const fillTenderBalance = (id: number) => {
+    const others = tenders
+      .filter(tender => tender.id !== id)
+      .reduce((sum, tender) => sum + getTenderAmount(tender), 0);
+    updateTender(id, { amount: roundCurrency(Math.max(0, amountPayable - others)).toFixed(2) });
+  };
+
+  const resetTenders = () => {
+    nextTenderIdRef.current = 2;
+    setTenders([{ id: 1, method: 'cash', amount: '', reference: '' }]);
+  };
+
+  // Change handed back comes out of the cash tenders, so recorded payments never exceed the bill
+  const buildSalePayments = () => {
+    let changeLeft = changeDue;
+    return tenders
+      .map(tender => {
+        let amount = getTenderAmount(tender);
+        if (tender.method === 'cash' && changeLeft > 0) {
+          const deducted = Math.min(amount, changeLeft);
+          amount = roundCurrency(amount - deducted);
+          changeLeft = roundCurrency(changeLeft - deducted);
+        }
+        return {
+          payment_method: tender.method,
+          amount: amount.toFixed(2),
+          reference_number: tender.reference.trim() || undefined,
+        };
+      })
+      .filter(payment => parseFloat(payment.amount) > 0);
+  };
+
   const handleSubmitSale = async () => {
     if (!selectedShop) {
       showToast.info('Please select a shop');
@@ -407,49 +797,92 @@ export default function POSPage() {
       return;
     }
 
+    if (exchangeCreditExcess > 0) {
+      showToast.info(`The credit note is Rs ${exchangeCreditExcess.toFixed(2)} more than this bill. Add items to use the full credit.`);
+      return;
+    }
+
+    if (tenders.some(tender => (parseFloat(tender.amount) || 0) < 0)) {
+      showToast.info('Payment amounts cannot be negative');
+      return;
+    }
+
+    if (changeDue > cashTendered) {
+      showToast.info('Card, UPI and bank payments cannot exceed the amount payable');
+      return;
+    }
+
+    if (tenders.some(tender => tender.method !== 'cash' && getTenderAmount(tender) > 0 && !tender.reference.trim())) {
+      showToast.info('Please enter the reference number for each non-cash payment');
+      return;
+    }
+
+    const salePayments = buildSalePayments();
+    const primaryPayment = [...salePayments].sort((a, b) => parseFloat(b.amount) - parseFloat(a.amount))[0];
+
+    // One key per checkout, so a retry after a dropped response cannot record the sale twice
+    if (!checkoutKeyRef.current) {
+      checkoutKeyRef.current = createIdempotencyKey();
+    }
+    const idempotencyKey = checkoutKeyRef.current;
+
+    const saleData = {
+      shop: parseInt(selectedShop as string),
+      customer_name: customerName,
+      customer_phone: customerPhone || undefined,
+      customer_email: customerEmail.trim(),
+      customer_gstin: customerGstin.trim(),
+      customer_address: customerAddress || undefined,
+      customer: selectedCustomer?.id,
+      state_code: buyerStateCode,
+      items: cart.map(item => {
+        const itemData: any = {
+          stock_batch: item.stock_batch_id,
+          quantity: item.quantity,
+        };
+        // Only include IMEI if it's defined
+        if (item.imei) {
+          itemData.imei = item.imei;
+        }
+        return itemData;
+      }),
+      payment_method: primaryPayment?.payment_method || tenders[0].method,
+      payment_reference: primaryPayment?.reference_number,
+      payment_status: paymentStatus,
+      payments: salePayments,
+      discount: discount || '0',
+      reverse_charge: reverseCharge === 'yes',
+      vehicle_no: vehicleNo || undefined,
+      place_of_supply: placeOfSupply || undefined,
+      consignee_name: consigneeName || undefined,
+      consignee_address: consigneeAddress || undefined,
+      transport_charge: transportCharge || '0',
+      loading_charge: loadingCharge || '0',
+      notes: notes || undefined,
+      credit_note: exchangeCredit?.id,
+      idempotency_key: idempotencyKey,
+    };
+
     setLoading(true);
     try {
-      const saleData = {
-        shop: parseInt(selectedShop as string),
-        customer_name: customerName,
-        customer_phone: customerPhone || undefined,
-        customer_email: customerEmail.trim(),
-        customer_gstin: customerGstin.trim(),
-        customer_address: customerAddress || undefined,
-        customer: selectedCustomer?.id,
-        state_code: stateCode || '32',
-        items: cart.map(item => {
-          const itemData: any = {
-            stock_batch: item.stock_batch_id,
-            quantity: item.quantity,
-          };
-          // Only include IMEI if it's defined
-          if (item.imei) {
-            itemData.imei = item.imei;
-          }
-          return itemData;
-        }),
-        payment_method: paymentMethod,
-        payment_reference: paymentReference || undefined,
-        discount: discount || '0',
-        reverse_charge: reverseCharge === 'yes',
-        vehicle_no: vehicleNo || undefined,
-        place_of_supply: placeOfSupply || undefined,
-        consignee_name: consigneeName || undefined,
-        consignee_address: consigneeAddress || undefined,
-        transport_charge: transportCharge || '0',
-        loading_charge: loadingCharge || '0',
-        notes: notes || undefined,
-      };
+      if (!navigator.onLine) {
+        await queueOfflineSale(saleData, idempotencyKey);
+        return;
+      }
 
       const response = await salesAPI.create(saleData);
 
       // Store sale details for bill summary
-      const finalTotal = calculateGrandTotal();
+      const finalTotal = calculateAmountPayable();
       const itemCount = cart.length;
       setLastSaleId(response.data.id);
       setLastSaleAmount(finalTotal);
       setLastSaleItemCount(itemCount);
+      setLastSaleBalance(balanceDue);
+      setLastSaleInvoiceNumber(response.data.invoice_number);
+      setLastSaleUpiAmount(salePayments
+        .filter(payment => payment.payment_method === 'upi')
+        .reduce((sum, payment) => sum + parseFloat(payment.amount), 0));
       setShowBillSummary(true);
 
       // Auto-open print window immediately after sale completion
@@ -457,6 +890,8 @@ export default function POSPage() {
       printWindow?.focus();
 
       // CRITICAL: Refresh sub-stocks to update available quantities
+      shopImeiIndexRef.current = null;
+      catalogCachedRef.current = null;
       await fetchSubStocks();
 
       // Force re-fetch batches if there's a search term
@@ -465,28 +900,12 @@ export default function POSPage() {
       }
 
       // Reset form but keep sale info visible
-      setCart([]);
-      setCustomerPhone('');
-      setCustomerName('');
-      setCustomerEmail('');
-      setCustomerGstin('');
-      setCustomerAddress('');
-      setStateCode('32');
-      setSelectedCustomer(null);
-      setPaymentMethod('cash');
-      setPaymentReference('');
-      setDiscount('0');
-      setTransportCharge('0');
-      setLoadingCharge('0');
-      setNotes('');
-      setReverseCharge('');
-      setVehicleNo('');
-      setPlaceOfSupply('');
-      setConsigneeName('');
-      setConsigneeAddress('');
-      setSearchTerm('');
-      setBatches([]); // Clear batches to force re-search
+      resetSaleForm();
     } catch (error: any) {
+      if (isOfflineError(error)) {
+        await queueOfflineSale(saleData, idempotencyKey);
+        return;
+      }
       console.error('Failed to create sale:', error);
       const errorMessage = error.response?.data
         ? JSON.stringify(error.response.data, null, 2)
@@ -497,6 +916,257 @@ export default function POSPage() {
     }
   };
 
+  const resetSaleForm = () => {
+    checkoutKeyRef.current = null;
+    setCart([]);
+    setCustomerPhone('');
+    setCustomerName('');
+    setCustomerEmail('');
+    setCustomerGstin('');
+    setCustomerAddress('');
+    setStateCode('');
+    setSelectedCustomer(null);
+    resetTenders();
+    setDiscount('0');
+    setTransportCharge('0');
+    setLoadingCharge('0');
+    setNotes('');
+    setReverseCharge('');
+    setVehicleNo('');
+    setPlaceOfSupply('');
+    setConsigneeName('');
+    setConsigneeAddress('');
+    setSearchTerm('');
+    setBatches([]); // Clear batches to force re-search
+    if (exchangeCredit) {
+      clearExchangeCredit();
+    }
+  };
+
+  const openParkModal = () => {
+    if (cart.length === 0) {
+      showToast.info('Add items to the cart before parking it');
+      return;
+    }
+    if (!isOnline) {
+      showToast.info('Parking needs a connection so the cart\'s IMEIs can be held');
+      return;
+    }
+    setParkLabel(customerName.trim() || customerPhone.trim());
+    setShowParkModal(true);
+  };
+
+  const handleParkCart = async () => {
+    if (!selectedShop) return;
+    setParking(true);
+    try {
+      const response = await parkedCartsAPI.create({
+        shop: Number(selectedShop),
+        label: parkLabel.trim() || `Parked at ${new Date().toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`,
+        items: cart,
+        details: {
+          customer: selectedCustomer,
+          customer_phone: customerPhone,
+          customer_name: customerName,
+          customer_email: customerEmail,
+          customer_gstin: customerGstin,
+          customer_address: customerAddress,
+          state_code: stateCode,
+          discount,
+          transport_charge: transportCharge,
+          loading_charge: loadingCharge,
+          notes,
+          reverse_charge: reverseCharge,
+          vehicle_no: vehicleNo,
+          place_of_supply: placeOfSupply,
+          consignee_name: consigneeName,
+          consignee_address: consigneeAddress,
+          tenders: tenders.map(({ method, amount, reference }) => ({ method, amount, reference })),
+          credit_note: exchangeCredit?.id ?? null,
+        },
+      });
+      setParkedCarts(prev => [response.data, ...prev.filter(parked => parked.id !== response.data.id)]);
+      setShowParkModal(false);
+      setParkLabel('');
+      resetSaleForm();
+      showToast.success(`Cart parked as "${response.data.label}"`);
+    } catch (error: any) {
+      console.error('Failed to park cart:', error);
+      showToast.error(error.response?.data?.error || 'Failed to park cart');
+    } finally {
+      setParking(false);
+    }
+  };
+
+  const handleResumeCart = async (parked: ParkedCart) => {
+    if (cart.length > 0) {
+      showToast.info('Park or clear the current cart before resuming another');
+      return;
+    }
+    setResumingCartId(parked.id);
+    try {
+      // Removing it from the server releases the IMEI holds; the items are back in this cart instead
+      await parkedCartsAPI.delete(parked.id);
+    } catch (error: any) {
+      console.error('Failed to resume parked cart:', error);
+      if (error.response?.status === 404) {
+        showToast.error('This cart was already resumed or discarded at another counter');
+        setParkedCarts(prev => prev.filter(entry => entry.id !== parked.id));
+      } else {
+        showToast.error('Failed to resume parked cart');
+      }
+      setResumingCartId(null);
+      return;
+    }
+
+    const { details } = parked;
+    setParkedCarts(prev => prev.filter(entry => entry.id !== parked.id));
+    checkoutKeyRef.current = null;
+    setCart(parked.items);
+    setSelectedCustomer(details.customer ?? null);
+    setCustomerPhone(details.customer_phone);
+    setCustomerName(details.customer_name);
+    setCustomerEmail(details.customer_email);
+    setCustomerGstin(details.customer_gstin);
+    setCustomerAddress(details.customer_address);
+    setStateCode(details.state_code);
+    setDiscount(details.discount);
+    setTransportCharge(details.transport_charge);
+    setLoadingCharge(details.loading_charge);
+    setNotes(details.notes);
+    setReverseCharge(details.reverse_charge);
+    setVehicleNo(details.vehicle_no);
+    setPlaceOfSupply(details.place_of_supply);
+    setConsigneeName(details.consignee_name);
+    setConsigneeAddress(details.consignee_address);
+    if (details.tenders.length > 0) {
+      nextTenderIdRef.current = details.tenders.length + 1;
+      setTenders(details.tenders.map((tender, index) => ({ id: index + 1, ...tender })));
+    } else {
+      resetTenders();
+    }
+    if (details.credit_note) {
+      saleReturnsAPI.get(details.credit_note)
+        .then(response => setExchangeCredit(response.data))
+        .catch((error) => {
+          console.error('Failed to reload exchange credit note:', error);
+          showToast.error('Failed to reload the exchange credit note for this cart');
+        });
+    }
+    setResumingCartId(null);
+    showToast.success(`Resumed "${parked.label}"`);
+  };
+
+  const handleDiscardParkedCart = async () => {
+    if (!discardCartTarget) return;
+    setDiscardingCart(true);
+    try {
+      await parkedCartsAPI.delete(discardCartTarget.id);
+      showToast.success(`Discarded "${discardCartTarget.label}"`);
+    } catch (error: any) {
+      if (error.response?.status !== 404) {
+        console.error('Failed to discard parked cart:', error);
+        showToast.error('Failed to discard parked cart');
+        return;
+      }
+    } finally {
+      setDiscardingCart(false);
+    }
+    setParkedCarts(prev => prev.filter(entry => entry.id !== discardCartTarget.id));
+    setDiscardCartTarget(null);
+  };
+
+  // No connection: keep the sale on this device, print a provisional receipt and sync it later
+  const queueOfflineSale = async (payload: SaleCreatePayload, idempotencyKey: string) => {
+    const shop = shops.find(s => s.id === payload.shop);
+    const createdAt = new Date().toISOString();
+    const receipt: ProvisionalReceiptData = {
+      provisional_number: `OFF-${idempotencyKey.slice(0, 8).toUpperCase()}`,
+      created_at: createdAt,
+      shop_name: shop?.name || user?.shop_name || 'Shop',
+      shop_address: shop?.address,
+      shop_phone: shop?.phone,
+      customer_name: payload.customer_name,
+      customer_phone: payload.customer_phone,
+      cashier_name: user ? `${user.first_name} ${user.last_name}`.trim() || user.username : undefined,
+      items: cart.map(item => ({
+        product_name: item.product_name,
+        batch_number: item.batch_number,
+        imei: item.imei,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        gst_rate: item.gst_rate,
+        amount: roundCurrency(item.unit_price * item.quantity),
+      })),
+      taxable_value: roundCurrency(calculateSubtotal()),
+      total_tax: roundCurrency(calculateTotalGST()),
+      discount: parseFloat(discount) || 0,
+      other_charges: (parseFloat(transportCharge) || 0) + (parseFloat(loadingCharge) || 0),
+      exchange_credit: exchangeCreditAmount,
+      amount_payable: amountPayable,
+      payments: payload.payments || [],
+      balance_due: balanceDue,
+    };
+
+    try {
+      await enqueueSale({
+        idempotency_key: idempotencyKey,
+        shop: payload.shop,
+        created_at: createdAt,
+        status: 'pending',
+        attempts: 0,
+        // Replayed later, maybe while another cashier is signed in, so record who rang it up
+        payload: { ...payload, sale_date: createdAt, sold_by: user?.id },
+        receipt,
+      });
+    } catch (error) {
+      console.error('Failed to queue offline sale:', error);
+      showToast.error('Could not save the sale on this device. Please try again.');
+      return;
+    }
+
+    // Hold the sold units back locally so they cannot be sold twice before the queue syncs
+    const catalog = await reserveCatalogStock(payload.shop, payload.items).catch(() => null);
+    if (catalog) {
+      setSubStocks(prev => prev.map(ss => catalog.sub_stocks.find(cached => cached.id === ss.id) || ss));
+    }
+    shopImeiIndexRef.current = null;
+
+    setProvisionalReceipt(receipt);
+    resetSaleForm();
+    showToast.info('No connection. The sale was saved offline and will sync automatically.');
+  };
+
+  const handleSyncNow = async () => {
+    const result = await syncQueue();
+    notifySyncResult(result);
+    if (result.synced === 0 && result.conflicts === 0) {
+      showToast.info('Still unable to reach the server. Sales stay queued.');
+    }
+  };
+
+  const handleRetrySale = async (idempotencyKey: string) => {
+    notifySyncResult(await retrySale(idempotencyKey));
+  };
+
+  const handleDiscardSale = async () => {
+    if (!discardTarget) return;
+    setDiscarding(true);
+    try {
+      await discardSale(discardTarget.idempotency_key);
+      showToast.success(`Queued sale ${discardTarget.receipt.provisional_number} discarded`);
+      setDiscardTarget(null);
+    } catch (error) {
+      console.error('Failed to discard queued sale:', error);
+      showToast.error('Failed to discard queued sale');
+    } finally {
+      setDiscarding(false);
+    }
+  };
+
+  const pendingSales = offlineQueue.filter(sale => sale.status === 'pending');
+  const conflictSales = offlineQueue.filter(sale => sale.status === 'conflict');
+
   const conditionOptions = [
     { value: '', label: 'All Conditions' },
     ...Array.from(
@@ -543,19 +1213,25 @@ export default function POSPage() {
     })),
   ];
 
-  const paymentOptions = [
+  const paymentOptions: Array<{ value: SalePayment['payment_method']; label: string }> = [
     { value: 'cash', label: 'Cash' },
     { value: 'upi', label: 'UPI' },
-    { value: 'bank_transfer', label: 'Net Banking' },
+    { value: 'net_banking', label: 'Net Banking' },
     { value: 'card', label: 'Card' },
+    { value: 'cheque', label: 'Cheque' },
   ];
 
   const filteredImeiOptions = imeiOptions.filter((imei) =>
     imei.imei.toLowerCase().includes(imeiSearch.toLowerCase())
   );
 
+  // The QR after a sale asks for what is still owed, or for what the customer chose to pay by UPI
+  const summaryUpiAmount = lastSaleBalance > 0 ? lastSaleBalance : lastSaleUpiAmount;
+
   return (
     <div className="space-y-6">
+      <UpiQrOverlay payment={upiOverlay} onClose={() => setUpiOverlay(null)} />
+
       {/* Bill Success Modal */}
       {showBillSummary && lastSaleId && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
@@ -580,7 +1256,29 @@ export default function POSPage() {
                   <span className="text-slate-600 dark:text-slate-400">Items:</span>
                   <span className="font-semibold">{lastSaleItemCount} item(s)</span>
                 </div>
+                {lastSaleBalance > 0 && (
+                  <div className="flex justify-between items-center text-sm mt-2">
+                    <span className="text-slate-600 dark:text-slate-400">Balance Due:</span>
+                    <span className="font-semibold text-rose-700 dark:text-rose-300">Rs {lastSaleBalance.toFixed(2)}</span>
+                  </div>
+                )}
               </div>
+              {upiId && summaryUpiAmount > 0 && (
+                <div className="flex flex-col items-center gap-2 rounded-xl border border-slate-200/80 dark:border-white/10 p-4">
+                  <UpiQrCode
+                    payment={upiPaymentFor(summaryUpiAmount, `Invoice ${lastSaleInvoiceNumber}`)}
+                    caption={lastSaleBalance > 0 ? 'Scan to pay the balance' : 'Scan to pay with UPI'}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setUpiOverlay(upiPaymentFor(summaryUpiAmount, `Invoice ${lastSaleInvoiceNumber}`))}
+                    className="inline-flex items-center gap-1 rounded-full border border-slate-200/80 dark:border-white/10 px-3 py-1 text-xs font-semibold hover:bg-slate-100 dark:hover:bg-white/5"
+                  >
+                    <FiMaximize size={12} />
+                    Show full screen
+                  </button>
+                </div>
+              )}
             </div>
 
             <div className="space-y-3">
@@ -610,6 +1308,130 @@ export default function POSPage() {
         </div>
       )}
 
+      {/* Provisional Receipt Modal - offline sales */}
+      {provisionalReceipt && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent shadow-[0_20px_60px_rgba(2,6,23,0.65)] max-w-md w-full max-h-[90vh] overflow-y-auto scrollbar-hide p-6 text-slate-900 dark:text-slate-100">
+            <div className="flex items-center justify-between mb-4 print:hidden">
+              <div>
+                <h3 className="text-lg font-semibold">Sale Saved Offline</h3>
+                <p className="text-sm text-slate-600 dark:text-slate-400">It will sync and get its invoice number once the connection returns.</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setProvisionalReceipt(null)}
+                className="text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-100 transition-colors"
+              >
+                <FiX />
+              </button>
+            </div>
+
+            <ProvisionalReceipt receipt={provisionalReceipt} />
+
+            <div className="mt-5 space-y-3 print:hidden">
+              <button
+                onClick={() => window.print()}
+                className="btn btn-primary w-full flex items-center justify-center"
+              >
+                <FiPrinter className="mr-2" />
+                Print Provisional Receipt
+              </button>
+              <button
+                onClick={() => setProvisionalReceipt(null)}
+                className="btn btn-outline w-full"
+              >
+                Continue Selling
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!discardTarget}
+        title="Discard Queued Sale"
+        message={discardTarget
+          ? `Discard offline sale ${discardTarget.receipt.provisional_number} for ${discardTarget.receipt.customer_name} (Rs ${discardTarget.receipt.amount_payable.toFixed(2)})? It will not be recorded, so settle it with the customer first.`
+          : ''}
+        confirmText="Discard"
+        variant="danger"
+        loading={discarding}
+        onConfirm={handleDiscardSale}
+        onCancel={() => setDiscardTarget(null)}
+      />
+
+      <ConfirmDialog
+        isOpen={!!discardCartTarget}
+        title="Discard Parked Cart"
+        message={discardCartTarget
+          ? `Discard parked cart "${discardCartTarget.label}" (${discardCartTarget.items.length} item(s))? Its IMEIs become available to sell again.`
+          : ''}
+        confirmText="Discard"
+        variant="danger"
+        loading={discardingCart}
+        onConfirm={handleDiscardParkedCart}
+        onCancel={() => setDiscardCartTarget(null)}
+      />
+
+      {showParkModal && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent shadow-[0_20px_60px_rgba(2,6,23,0.65)] max-w-md w-full p-6 text-slate-900 dark:text-slate-100">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold">Park Cart</h3>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {cart.length} item(s) · Rs {calculateGrandTotal().toFixed(2)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setShowParkModal(false)}
+                className="text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+              >
+                <FiX size={20} />
+              </button>
+            </div>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleParkCart();
+              }}
+            >
+              <label className="block text-sm font-medium mb-2">Label</label>
+              <input
+                type="text"
+                value={parkLabel}
+                onChange={(e) => setParkLabel(e.target.value)}
+                autoFocus
+                className="input"
+                placeholder="e.g. Customer name or 'Blue shirt, trying covers'"
+              />
+              <p className="mt-2 text-xs text-slate-600 dark:text-slate-400">
+                IMEIs in this cart are held for this shop until it is resumed or discarded.
+              </p>
+
+              <div className="mt-5 flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowParkModal(false)}
+                  className="rounded-full border border-slate-200/70 px-4 py-2 text-sm text-slate-600 hover:text-slate-900 dark:border-white/10 dark:text-slate-300 dark:hover:text-slate-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={parking}
+                  className="rounded-full bg-amber-500 px-4 py-2 text-sm font-semibold text-white hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {parking ? 'Parking...' : 'Park Cart'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {showImeiModal && imeiBatch && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
           <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent shadow-[0_20px_60px_rgba(2,6,23,0.65)] max-w-lg w-full p-6 text-slate-900 dark:text-slate-100">
@@ -693,6 +1515,103 @@ export default function POSPage() {
         </div>
       )}
 
+      {(!isOnline || offlineQueue.length > 0) && (
+        <div className={`rounded-2xl border px-4 py-3 text-sm ${
+          isOnline
+            ? 'border-sky-300 dark:border-sky-400/30 bg-sky-50 dark:bg-sky-500/10 text-sky-800 dark:text-sky-200'
+            : 'border-amber-300 dark:border-amber-400/30 bg-amber-50 dark:bg-amber-500/10 text-amber-800 dark:text-amber-200'
+        }`}>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              {isOnline ? <FiRefreshCw className={syncing ? 'animate-spin' : ''} /> : <FiWifiOff />}
+              <span>
+                {isOnline
+                  ? 'Back online.'
+                  : 'Offline. Sales are saved on this device and sync when the connection returns.'}
+                {' '}
+                <span className="font-semibold">{pendingSales.length}</span> queued
+                {conflictSales.length > 0 && (
+                  <> &middot; <span className="font-semibold text-rose-700 dark:text-rose-300">{conflictSales.length}</span> need attention</>
+                )}
+              </span>
+            </div>
+            <button
+              type="button"
+              onClick={handleSyncNow}
+              disabled={!isOnline || syncing || pendingSales.length === 0}
+              className="inline-flex items-center gap-1 rounded-full border border-current px-3 py-1 text-xs font-semibold disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <FiRefreshCw size={12} className={syncing ? 'animate-spin' : ''} />
+              {syncing ? 'Syncing...' : 'Sync now'}
+            </button>
+          </div>
+
+          {conflictSales.length > 0 && (
+            <div className="mt-3 space-y-2">
+              {conflictSales.map((sale) => (
+                <div
+                  key={sale.idempotency_key}
+                  className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-rose-200 dark:border-rose-400/30 bg-white/80 dark:bg-black/30 px-3 py-2 text-slate-800 dark:text-slate-200"
+                >
+                  <div className="min-w-0">
+                    <p className="font-semibold">
+                      <span className="font-mono">{sale.receipt.provisional_number}</span>
+                      {' '}&middot; {sale.receipt.customer_name} &middot; Rs {sale.receipt.amount_payable.toFixed(2)}
+                    </p>
+                    <p className="text-xs text-rose-700 dark:text-rose-300 break-words">{sale.error || 'Rejected by the server'}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleRetrySale(sale.idempotency_key)}
+                      disabled={!isOnline || syncing}
+                      className="rounded-full border border-slate-200/70 dark:border-white/10 px-3 py-1 text-xs font-semibold hover:bg-slate-100 dark:hover:bg-white/5 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setProvisionalReceipt(sale.receipt)}
+                      className="rounded-full border border-slate-200/70 dark:border-white/10 px-3 py-1 text-xs font-semibold hover:bg-slate-100 dark:hover:bg-white/5"
+                    >
+                      Reprint
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDiscardTarget(sale)}
+                      className="rounded-full border border-rose-200 dark:border-rose-400/30 px-3 py-1 text-xs font-semibold text-rose-700 dark:text-rose-300 hover:bg-rose-50 dark:hover:bg-rose-500/10"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {exchangeCredit && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-amber-300 dark:border-amber-400/30 bg-amber-50 dark:bg-amber-500/10 px-4 py-3 text-sm text-amber-800 dark:text-amber-200">
+          <div className="flex items-center gap-2">
+            <FiRotateCcw />
+            <span>
+              Exchange against credit note <span className="font-semibold">{exchangeCredit.credit_note_number}</span>
+              {exchangeCredit.invoice_number ? ` (invoice ${exchangeCredit.invoice_number})` : ''}
+              {' '}&mdash; credit of <span className="font-semibold">Rs {exchangeCreditAmount.toFixed(2)}</span> will be applied
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={clearExchangeCredit}
+            className="inline-flex items-center gap-1 rounded-full border border-amber-300 dark:border-amber-400/30 px-3 py-1 text-xs font-semibold hover:bg-amber-100 dark:hover:bg-amber-500/20"
+          >
+            <FiX size={12} />
+            Remove credit
+          </button>
+        </div>
+      )}
+
       <div className="relative overflow-hidden rounded-3xl border border-slate-200/70 dark:border-white/10 bg-gradient-to-br from-amber-50 via-white to-sky-50 dark:from-slate-900 dark:via-slate-950 dark:to-slate-900 p-6 shadow-xl">
         <div className="absolute -right-16 -top-16 h-40 w-40 rounded-full bg-amber-200/40 blur-3xl dark:bg-amber-400/10" />
         <div className="absolute -left-20 -bottom-16 h-48 w-48 rounded-full bg-sky-200/40 blur-3xl dark:bg-sky-400/10" />
@@ -719,8 +1638,8 @@ export default function POSPage() {
       {/* Left Column - Product Search & Cart */}
       <div className="space-y-6">
         {/* Shop Selection */}
-        {user?.role === 'sub_stock_manager' ? (
-          // Show current shop as read-only for sub-stock managers
+        {!can('shop.viewAll') ? (
+          // Show current shop as read-only for shop-scoped users
           <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
             <h2 className="text-xl font-semibold mb-4">Current Shop</h2>
             <div className="rounded-xl border border-slate-200/80 dark:border-white/10 bg-slate-50 dark:bg-transparent p-4">
@@ -747,6 +1666,51 @@ export default function POSPage() {
           </div>
         )}
 
+        {/* IMEI Scanner */}
+        <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+          <h2 className="text-xl font-semibold mb-1 flex items-center">
+            <FiMaximize className="mr-2" />
+            Scan IMEI
+          </h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+            Scan the box barcode to add the unit straight to the cart
+          </p>
+          <input
+            ref={scanInputRef}
+            id="scanInput"
+            name="scanInput"
+            type="text"
+            inputMode="numeric"
+            data-barcode-input
+            className={`input font-mono ${scanStatus?.type === 'error' ? 'border-rose-500 ring-2 ring-rose-500/40' : ''}`}
+            placeholder={scanning ? 'Looking up IMEI...' : 'Scan or type IMEI and press Enter'}
+            value={scanInput}
+            autoComplete="off"
+            autoFocus
+            onChange={(e) => setScanInput(e.target.value)}
+            onKeyDown={(e) => {
+              // Scanner bursts are handled by useBarcodeScanner; this covers manual entry
+              if (e.key !== 'Enter' || e.defaultPrevented) return;
+              e.preventDefault();
+              handleScan(scanInput);
+            }}
+            readOnly={scanning}
+            disabled={!selectedShop}
+          />
+          {scanStatus && (
+            <div
+              className={`mt-3 rounded-xl border px-3 py-2 text-sm font-medium ${
+                scanStatus.type === 'error'
+                  ? 'border-rose-400 bg-rose-100 text-rose-700 dark:border-rose-400/30 dark:bg-rose-500/15 dark:text-rose-200'
+                  : 'border-emerald-400 bg-emerald-100 text-emerald-700 dark:border-emerald-400/30 dark:bg-emerald-500/15 dark:text-emerald-200'
+              }`}
+              role={scanStatus.type === 'error' ? 'alert' : 'status'}
+            >
+              {scanStatus.message}
+            </div>
+          )}
+        </div>
+
         {/* Product Search */}
         <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
           <h2 className="text-xl font-semibold mb-4 flex items-center">
@@ -879,12 +1843,73 @@ export default function POSPage() {
           )}
         </div>
 
+        {/* Parked Carts */}
+        {parkedCarts.length > 0 && (
+          <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+            <h2 className="text-xl font-semibold mb-4 flex items-center">
+              <FiPause className="mr-2" />
+              Parked Carts ({parkedCarts.length})
+            </h2>
+            <div className="space-y-2">
+              {parkedCarts.map((parked) => (
+                <div
+                  key={parked.id}
+                  className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-200/80 dark:border-white/10 bg-slate-50 dark:bg-transparent px-3 py-2"
+                >
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{parked.label}</p>
+                    <p className="text-xs text-slate-600 dark:text-slate-400">
+                      {parked.items.length} item(s)
+                      {' '}&middot; Rs {parked.items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0).toFixed(2)}
+                      {parked.parked_by_name ? ` · ${parked.parked_by_name}` : ''}
+                      {' '}&middot; held until {new Date(parked.expires_at).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleResumeCart(parked)}
+                      disabled={!isOnline || resumingCartId !== null}
+                      className="inline-flex items-center gap-1 rounded-full border border-emerald-300 dark:border-emerald-400/30 px-3 py-1 text-xs font-semibold text-emerald-700 dark:text-emerald-300 hover:bg-emerald-50 dark:hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      <FiPlay size={12} />
+                      {resumingCartId === parked.id ? 'Resuming...' : 'Resume'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDiscardCartTarget(parked)}
+                      disabled={!isOnline}
+                      className="rounded-full border border-rose-200 dark:border-rose-400/30 px-3 py-1 text-xs font-semibold text-rose-700 dark:text-rose-300 hover:bg-rose-50 dark:hover:bg-rose-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Cart */}
         <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
-          <h2 className="text-xl font-semibold mb-4 flex items-center">
-            <FiShoppingCart className="mr-2" />
-            Cart ({cart.length} items)
-          </h2>
+          <div className="mb-4 flex items-center justify-between gap-3">
+            <h2 className="text-xl font-semibold flex items-center">
+              <FiShoppingCart className="mr-2" />
+              Cart ({cart.length} items)
+            </h2>
+            {cart.length > 0 && (
+              <button
+                type="button"
+                onClick={openParkModal}
+                disabled={!isOnline}
+                title={isOnline ? 'Set this cart aside and serve the next customer' : 'Parking needs a connection'}
+                className="inline-flex items-center gap-1 rounded-full border border-amber-300 dark:border-amber-400/30 px-3 py-1 text-xs font-semibold text-amber-700 dark:text-amber-300 hover:bg-amber-50 dark:hover:bg-amber-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <FiPause size={12} />
+                Park cart
+              </button>
+            )}
+          </div>
           {cart.length === 0 ? (
             <p className="text-slate-600 dark:text-slate-400 text-center py-8">Cart is empty</p>
           ) : (
@@ -1031,10 +2056,14 @@ export default function POSPage() {
                   name="stateCode"
                   type="text"
                   className="input"
-                  placeholder="32"
+                  placeholder={sellerStateCode}
                   value={stateCode}
                   onChange={(event) => setStateCode(event.target.value)}
                 />
+                <p className="mt-1 text-xs text-slate-600 dark:text-slate-400">
+                  {getStateName(buyerStateCode) || buyerStateCode} ·{' '}
+                  {taxSummary.supplyType === 'inter_state' ? 'Inter-state supply (IGST)' : 'Intra-state supply (CGST + SGST)'}
+                </p>
               </div>
 
             {selectedCustomer && (
@@ -1148,28 +2177,119 @@ export default function POSPage() {
         <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
           <h2 className="text-xl font-semibold mb-4">Payment Details</h2>
           <div className="space-y-3">
-            <SearchableSelect
-              label="Payment Method"
-              placeholder="Select payment method..."
-              required
-              value={paymentMethod}
-              onChange={(value) => setPaymentMethod(String(value))}
-              options={paymentOptions}
-            />
+            <div className="space-y-3">
+              {tenders.map((tender, index) => (
+                <div
+                  key={tender.id}
+                  className="rounded-xl border border-slate-200/80 dark:border-white/10 bg-slate-50 dark:bg-transparent p-3 space-y-2"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                      Payment {index + 1}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      {tender.method === 'upi' && upiId && (
+                        <button
+                          type="button"
+                          onClick={() => setUpiOverlay(upiPaymentFor(getTenderAmount(tender), currentShop ? `Purchase at ${currentShop.name}` : undefined))}
+                          disabled={getTenderAmount(tender) <= 0}
+                          title="Show the UPI QR to the customer"
+                          className="inline-flex items-center gap-1 rounded-full border border-slate-200/80 dark:border-white/10 px-2 py-0.5 text-[11px] font-semibold text-slate-700 dark:text-slate-200 hover:bg-white dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          <FiSmartphone size={11} />
+                          Show QR
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => fillTenderBalance(tender.id)}
+                        className="rounded-full border border-slate-200/80 dark:border-white/10 px-2 py-0.5 text-[11px] font-semibold text-slate-700 dark:text-slate-200 hover:bg-white dark:hover:bg-white/10"
+                      >
+                        Fill balance
+                      </button>
+                      {tenders.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeTender(tender.id)}
+                          className="text-rose-600 hover:text-rose-500 dark:text-rose-300"
+                          title="Remove payment"
+                        >
+                          <FiTrash size={14} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      className="input"
+                      value={tender.method}
+                      onChange={(e) => updateTender(tender.id, { method: e.target.value as SalePayment['payment_method'] })}
+                      aria-label={`Payment ${index + 1} method`}
+                    >
+                      {paymentOptions.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className="input"
+                      placeholder={tenders.length === 1 ? amountPayable.toFixed(2) : '0.00'}
+                      value={tender.amount}
+                      onChange={(e) => updateTender(tender.id, { amount: e.target.value })}
+                      aria-label={`Payment ${index + 1} amount`}
+                    />
+                  </div>
+                  {tender.method !== 'cash' && (
+                    <input
+                      type="text"
+                      className="input"
+                      placeholder="Transaction/Reference ID"
+                      value={tender.reference}
+                      autoComplete="off"
+                      onChange={(e) => updateTender(tender.id, { reference: e.target.value })}
+                      aria-label={`Payment ${index + 1} reference`}
+                    />
+                  )}
+                </div>
+              ))}
 
-            {(paymentMethod !== 'cash') && (
-              <div>
-                <label htmlFor="paymentReference" className="block text-sm font-medium mb-1">Reference Number</label>
-                <input id="paymentReference" name="paymentReference"
-                  type="text"
-                  className="input"
-                  placeholder="Transaction/Reference ID"
-                  value={paymentReference}
-                  autoComplete="off"
-                onChange={(e) => setPaymentReference(e.target.value)}
-                />
+              <button
+                type="button"
+                onClick={addTender}
+                className="inline-flex items-center gap-2 rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10"
+              >
+                <FiPlus size={12} />
+                Split payment
+              </button>
+
+              <div className="rounded-xl border border-slate-200/80 dark:border-white/10 p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-slate-600 dark:text-slate-400">Tendered:</span>
+                  <span className="font-semibold">Rs {totalTendered.toFixed(2)}</span>
+                </div>
+                {changeDue > 0 ? (
+                  <div className="flex justify-between text-sky-700 dark:text-sky-300">
+                    <span>Change Due:</span>
+                    <span className="font-semibold">Rs {changeDue.toFixed(2)}</span>
+                  </div>
+                ) : (
+                  <div className={`flex justify-between ${balanceDue > 0 ? 'text-rose-700 dark:text-rose-300' : 'text-emerald-700 dark:text-emerald-300'}`}>
+                    <span>Remaining:</span>
+                    <span className="font-semibold">Rs {balanceDue.toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between items-center">
+                  <span className="text-slate-600 dark:text-slate-400">Status:</span>
+                  <span className={`badge ${
+                    paymentStatus === 'paid' ? 'badge-success' : paymentStatus === 'partial' ? 'badge-warning' : 'badge-danger'
+                  }`}>
+                    {paymentStatus.toUpperCase()}
+                  </span>
+                </div>
               </div>
-            )}
+            </div>
 
             <div>
               <label htmlFor="discount" className="block text-sm font-medium mb-1">Discount (Rs)</label>
@@ -1231,10 +2351,23 @@ export default function POSPage() {
               <span>Subtotal:</span>
               <span>Rs {calculateSubtotal().toFixed(2)}</span>
             </div>
-            <div className="flex justify-between">
-              <span>GST:</span>
-              <span>Rs {calculateTotalGST().toFixed(2)}</span>
-            </div>
+            {taxSummary.supplyType === 'inter_state' ? (
+              <div className="flex justify-between">
+                <span>IGST:</span>
+                <span>Rs {taxSummary.igst.toFixed(2)}</span>
+              </div>
+            ) : (
+              <>
+                <div className="flex justify-between">
+                  <span>CGST:</span>
+                  <span>Rs {taxSummary.cgst.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>SGST:</span>
+                  <span>Rs {taxSummary.sgst.toFixed(2)}</span>
+                </div>
+              </>
+            )}
             {parseFloat(discount) > 0 && (
               <div className="flex justify-between text-rose-700 dark:text-rose-300">
                 <span>Discount:</span>
@@ -1257,6 +2390,23 @@ export default function POSPage() {
               <span>Grand Total:</span>
               <span className="text-emerald-700 dark:text-emerald-300">Rs {calculateGrandTotal().toFixed(2)}</span>
             </div>
+            {exchangeCredit && (
+              <>
+                <div className="flex justify-between text-amber-700 dark:text-amber-300">
+                  <span>Exchange Credit ({exchangeCredit.credit_note_number}):</span>
+                  <span>- Rs {exchangeCreditAmount.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-lg font-bold">
+                  <span>Amount Payable:</span>
+                  <span className="text-emerald-700 dark:text-emerald-300">Rs {calculateAmountPayable().toFixed(2)}</span>
+                </div>
+                {exchangeCreditExcess > 0 && (
+                  <p className="rounded-lg border border-rose-400/40 bg-rose-50 dark:bg-rose-500/10 px-3 py-2 text-sm text-rose-700 dark:text-rose-200">
+                    Credit exceeds this bill by Rs {exchangeCreditExcess.toFixed(2)}. Add items worth at least that much; unused credit is not carried over.
+                  </p>
+                )}
+              </>
+            )}
           </div>
 
           <button
@@ -1270,6 +2420,7 @@ export default function POSPage() {
               || !customerEmail.trim()
               || !customerGstin.trim()
               || !reverseCharge
+              || exchangeCreditExcess > 0
             }
             className="btn btn-primary w-full mt-4 flex items-center justify-center"
           >
@@ -2,15 +2,21 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { productsAPI, categoriesAPI, brandsAPI, variantsAPI, colorsAPI, conditionsAPI, sourcesAPI, stockBatchesAPI, gstSlabsAPI, subStocksAPI, shopsAPI } from '@/lib/api';
+import { productsAPI, categoriesAPI, brandsAPI, variantsAPI, colorsAPI, conditionsAPI, sourcesAPI, stockBatchesAPI, gstSlabsAPI, subStocksAPI, shopsAPI, suppliersAPI } from '@/lib/api';
 import { useAuth } from '@/context/AuthContext';
-import type { Product, Category, Brand, Variant, Color, Condition, Source, GSTSlab, StockBatch, SubStock, Shop } from '@/types';
+import { useCan } from '@/hooks/useCan';
+import type { Product, Category, Brand, Variant, Color, Condition, Source, GSTSlab, StockBatch, SubStock, Shop, Supplier } from '@/types';
 import { FiEdit, FiTrash, FiPlus, FiPackage, FiEye, FiX, FiFilter, FiInfo, FiAlertCircle, FiArrowRight, FiDollarSign, FiUploadCloud } from 'react-icons/fi';
 import SearchableSelect from '@/components/SearchableSelect';
 import TableSearchBar from '@/components/TableSearchBar';
+import TablePagination from '@/components/TablePagination';
 import { useMultiSelect } from '@/hooks/useMultiSelect';
 import BulkActionBar from '@/components/BulkActionBar';
 import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
+import { buildCacheKey } from '@/lib/queryCache';
 import { formatDate } from '@/lib/date';
 import { showToast } from '@/lib/toast';
 import QuickAddModal from '@/components/QuickAddModal';
@@ -18,17 +24,20 @@ import FullScreenLoader from '@/components/FullScreenLoader';
 import { HoverBorderGradient } from '@/components/ui/hover-border-gradient';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
 
+const AVAILABILITY_SAMPLE_SIZE = 100;
+
 export default function ProductsPage() {
   const router = useRouter();
   const { user } = useAuth();
-  const [products, setProducts] = useState<Product[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
+  const can = useCan();
+  const canViewCost = can('batch.viewCost');
   const [categories, setCategories] = useState<Category[]>([]);
   const [brands, setBrands] = useState<Brand[]>([]);
   const [variants, setVariants] = useState<Variant[]>([]);
   const [colors, setColors] = useState<Color[]>([]);
   const [conditions, setConditions] = useState<Condition[]>([]);
   const [sources, setSources] = useState<Source[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [gstSlabs, setGstSlabs] = useState<GSTSlab[]>([]);
   const [shops, setShops] = useState<Shop[]>([]);
   const [subStocks, setSubStocks] = useState<SubStock[]>([]);
@@ -41,10 +50,7 @@ export default function ProductsPage() {
   const [loadingBatches, setLoadingBatches] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [editableBatches, setEditableBatches] = useState<StockBatch[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(25);
   const [priceRangesByProduct, setPriceRangesByProduct] = useState<Record<number, { min: number; max: number }>>({});
   const formRef = useRef<HTMLDivElement>(null);
   const [confirmState, setConfirmState] = useState({
@@ -83,11 +89,49 @@ export default function ProductsPage() {
   const [selectedProductCondition, setSelectedProductCondition] = useState<string>(''); // For product condition filter
   const [selectedShop, setSelectedShop] = useState<string>('');
 
-  // Product availability suggestions
-  const [availabilitySuggestions, setAvailabilitySuggestions] = useState<{
-    mainStock: number;
-    shops: { shopId: number; shopName: string; count: number }[];
-  } | null>(null);
+  const debouncedSearch = useDebouncedValue(searchTerm);
+  const catalogFilters = {
+    search: debouncedSearch,
+    brand_name: selectedBrand,
+    variant_name: selectedVariant,
+    color_name: selectedColor,
+    category_name: selectedCategory,
+  };
+  // The view mode decides where a product must be in stock to be listed
+  const stockFilters = viewMode === 'main'
+    ? { stock_location: 'main', stock_condition: selectedProductCondition }
+    : {
+      stock_shop: viewMode === 'current_shop' ? (user?.shop || undefined) : (selectedShop || undefined),
+      stock_condition: selectedProductCondition,
+    };
+
+  const {
+    items: filteredProducts,
+    count: productCount,
+    page,
+    pageSize,
+    totalPages,
+    rangeStart,
+    rangeEnd,
+    setPage,
+    setPageSize,
+    error: productsError,
+    isLoading: loading,
+    isValidating,
+    refresh: refreshProducts,
+  } = usePaginatedList<Product>('products', productsAPI.listPage, {
+    tags: ['products'],
+    filters: { ...catalogFilters, ...stockFilters },
+    initialOrdering: 'name',
+  });
+
+  // When the current shop has none of the matching products, sample where else they are stocked
+  const needsAvailability = viewMode === 'current_shop' && !!user?.shop && !loading && productCount === 0;
+  const { data: productsMatchingFilters } = useCachedQuery(
+    buildCacheKey('products-availability', catalogFilters),
+    () => productsAPI.listPage({ ...catalogFilters, page_size: AVAILABILITY_SAMPLE_SIZE }),
+    { tags: ['products'], enabled: needsAvailability }
+  );
 
   const [stockFormData, setStockFormData] = useState({
     batch_number: '',
@@ -100,6 +144,7 @@ export default function ProductsPage() {
     update_existing_price: false,
     is_interstate: false,
     purchase_date: new Date().toISOString().split('T')[0],
+    supplier: '' as string | number,
     supplier_name: '',
     invoice_number: '',
     initial_payment_amount: '',
@@ -143,12 +188,12 @@ export default function ProductsPage() {
   });
 
   useEffect(() => {
-    fetchData();
+    fetchSubStocks();
   }, []);
 
   useEffect(() => {
-    applyFilters();
-  }, [products, searchTerm, selectedBrand, selectedVariant, selectedColor, selectedCategory, selectedProductCondition, viewMode, subStocks, selectedShop]);
+    if (productsError) console.error('Failed to fetch products:', productsError);
+  }, [productsError]);
 
   // Helper function to get stock locations for a product
   const getProductStockLocations = (product: Product) => {
@@ -268,177 +313,62 @@ export default function ProductsPage() {
     }, 0);
   };
 
-  const applyFilters = () => {
-    let filtered = [...products];
-
-    // Apply all filters first
-    // Text search
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(
-        (product) =>
-          product.name?.toLowerCase().includes(term) ||
-          product.brand_name?.toLowerCase().includes(term) ||
-          product.variant_name?.toLowerCase().includes(term) ||
-          product.hsn_code?.toLowerCase().includes(term)
-      );
-    }
-
-    // Brand filter
-    if (selectedBrand) {
-      filtered = filtered.filter((p) => p.brand_name === selectedBrand);
-    }
-
-    // Variant filter
-    if (selectedVariant) {
-      filtered = filtered.filter((p) => p.variant_name === selectedVariant);
-    }
+  // Where the filtered products are in stock when none are in the current shop
+  const buildAvailabilitySuggestions = (productsMatchingFilters: Product[], currentShopId: number) => {
+    const suggestions = {
+      mainStock: 0,
+      shops: [] as { shopId: number; shopName: string; count: number }[],
+    };
 
-    // Color filter
-    if (selectedColor) {
-      filtered = filtered.filter((p) => p.color_name === selectedColor);
-    }
+    const shopCountMap = new Map<number, { shopName: string; count: number }>();
 
-    // Category filter
-    if (selectedCategory) {
-      filtered = filtered.filter((p) => p.category_name === selectedCategory);
-    }
-
-    // Save filtered products before applying shop/view filters
-    const productsMatchingFilters = [...filtered];
-
-    // View mode and shop filtering
-    if (viewMode === 'current_shop') {
-      // Current shop view - show only products in user's shop
-      const currentShopId = user?.shop;
-
-      if (currentShopId) {
-        filtered = filtered.filter((product) => {
-          const conditionStock = selectedProductCondition
-            ? getConditionStock(product, selectedProductCondition)
-            : undefined;
-          if (selectedProductCondition && !conditionStock) {
-            return false;
-          }
+    productsMatchingFilters.forEach((product) => {
+      const conditionStock = selectedProductCondition
+        ? getConditionStock(product, selectedProductCondition)
+        : undefined;
+      if (selectedProductCondition && !conditionStock) {
+        return;
+      }
 
-          const locations = getProductStockLocations(product);
-          const currentShopQty = selectedProductCondition
-            ? getConditionShopQty(conditionStock, currentShopId)
-            : (locations.shopStocks.find((shop) => shop.shopId === currentShopId)?.quantity || 0);
+      const locations = getProductStockLocations(product);
+      const mainQty = selectedProductCondition
+        ? (conditionStock?.main_stock || 0)
+        : locations.mainStock;
 
-          return currentShopQty > 0;
-        });
+      // Count main stock
+      if (mainQty > 0) {
+        suggestions.mainStock += 1;
+      }
 
-        // Calculate suggestions if no products found in current shop
-        if (filtered.length === 0 && productsMatchingFilters.length > 0) {
-          const suggestions = {
-            mainStock: 0,
-            shops: [] as { shopId: number; shopName: string; count: number }[],
-          };
-
-          const shopCountMap = new Map<number, { shopName: string; count: number }>();
-
-          productsMatchingFilters.forEach((product) => {
-            const conditionStock = selectedProductCondition
-              ? getConditionStock(product, selectedProductCondition)
-              : undefined;
-            if (selectedProductCondition && !conditionStock) {
-              return;
-            }
-
-            const locations = getProductStockLocations(product);
-            const mainQty = selectedProductCondition
-              ? (conditionStock?.main_stock || 0)
-              : locations.mainStock;
-
-            // Count main stock
-            if (mainQty > 0) {
-              suggestions.mainStock += 1;
-            }
-
-            // Count shop stocks (excluding current shop)
-            const shopsForSuggestions = selectedProductCondition
-              ? (conditionStock?.shops || []).map((shop) => ({
-                shopId: shop.shop_id,
-                shopName: shop.shop_name,
-                quantity: shop.quantity,
-              }))
-              : locations.shopStocks;
-
-            shopsForSuggestions.forEach((shop) => {
-              if (shop.shopId !== currentShopId && shop.quantity > 0) {
-                const existing = shopCountMap.get(shop.shopId);
-                if (existing) {
-                  existing.count += 1;
-                } else {
-                  shopCountMap.set(shop.shopId, {
-                    shopName: shop.shopName,
-                    count: 1,
-                  });
-                }
-              }
+      // Count shop stocks (excluding current shop)
+      const shopsForSuggestions = selectedProductCondition
+        ? (conditionStock?.shops || []).map((shop) => ({
+          shopId: shop.shop_id,
+          shopName: shop.shop_name,
+          quantity: shop.quantity,
+        }))
+        : locations.shopStocks;
+
+      shopsForSuggestions.forEach((shop) => {
+        if (shop.shopId !== currentShopId && shop.quantity > 0) {
+          const existing = shopCountMap.get(shop.shopId);
+          if (existing) {
+            existing.count += 1;
+          } else {
+            shopCountMap.set(shop.shopId, {
+              shopName: shop.shopName,
+              count: 1,
             });
-          });
-
-          suggestions.shops = Array.from(shopCountMap.entries())
-            .map(([shopId, data]) => ({ shopId, ...data }))
-            .sort((a, b) => b.count - a.count);
-
-          setAvailabilitySuggestions(suggestions);
-        } else {
-          setAvailabilitySuggestions(null);
-        }
-      }
-    } else if (viewMode === 'all_shops') {
-      // All shops view
-      if (selectedShop) {
-        // Specific shop selected - filter by that shop
-        filtered = filtered.filter((product) => {
-          const conditionStock = selectedProductCondition
-            ? getConditionStock(product, selectedProductCondition)
-            : undefined;
-          if (selectedProductCondition && !conditionStock) {
-            return false;
           }
-
-          const shopId = parseInt(selectedShop);
-          const locations = getProductStockLocations(product);
-          const shopQty = selectedProductCondition
-            ? getConditionShopQty(conditionStock, shopId)
-            : (locations.shopStocks.find((shop) => shop.shopId === shopId)?.quantity || 0);
-
-          return shopQty > 0;
-        });
-      } else if (selectedProductCondition) {
-        // Condition filter applied - only show products with that condition
-        filtered = filtered.filter((product) => {
-          const conditionStock = getConditionStock(product, selectedProductCondition);
-          return conditionStock !== undefined;
-        });
-      }
-      // If no shop and no condition selected, show ALL products (including those with 0 stock)
-      setAvailabilitySuggestions(null);
-    } else {
-      // Main stock view - show products with main stock only
-      filtered = filtered.filter((product) => {
-        const conditionStock = selectedProductCondition
-          ? getConditionStock(product, selectedProductCondition)
-          : undefined;
-        if (selectedProductCondition && !conditionStock) {
-          return false;
         }
-
-        const locations = getProductStockLocations(product);
-        const mainQty = selectedProductCondition
-          ? (conditionStock?.main_stock || 0)
-          : locations.mainStock;
-
-        return mainQty > 0;
       });
-      setAvailabilitySuggestions(null);
-    }
+    });
 
-    setFilteredProducts(filtered);
+    suggestions.shops = Array.from(shopCountMap.entries())
+      .map(([shopId, data]) => ({ shopId, ...data }))
+      .sort((a, b) => b.count - a.count);
+
+    return suggestions;
   };
 
   const loadSupportingData = async () => {
@@ -452,6 +382,7 @@ export default function ProductsPage() {
       gstSlabsAPI.list(),
       shopsAPI.list(),
       stockBatchesAPI.list(),
+      suppliersAPI.list(),
     ]);
 
     const [
@@ -464,6 +395,7 @@ export default function ProductsPage() {
       gstSlabsRes,
       shopsRes,
       stockBatchesRes,
+      suppliersRes,
     ] = results;
 
     if (categoriesRes.status === 'fulfilled') {
@@ -521,25 +453,16 @@ export default function ProductsPage() {
       setPriceRangesByProduct({});
       setAllStockBatches([]);
     }
-  };
 
-  const fetchData = async () => {
-    try {
-      const [productsRes, subStocksRes] = await Promise.all([
-        productsAPI.list(),
-        subStocksAPI.list(),
-      ]);
-
-      setProducts(productsRes.data);
-      setSubStocks(subStocksRes.data);
-    } catch (error) {
-      console.error('Failed to fetch data:', error);
-      setProducts([]);
-      setSubStocks([]);
-    } finally {
-      setLoading(false);
+    if (suppliersRes.status === 'fulfilled') {
+      setSuppliers(suppliersRes.value.data);
+    } else {
+      setSuppliers([]);
     }
+  };
 
+  const fetchData = async () => {
+    await Promise.all([refreshProducts(), fetchSubStocks()]);
   };
   useAutoRefresh(fetchData);
 
@@ -547,16 +470,6 @@ export default function ProductsPage() {
     void loadSupportingData();
   }, []);
 
-  const fetchProducts = async (useSearch: boolean = true) => {
-    try {
-      const response = await productsAPI.list(useSearch ? searchTerm : '');
-      setProducts(response.data);
-    } catch (error) {
-      console.error('Failed to fetch products:', error);
-      setProducts([]);
-    }
-  };
-
   const fetchSubStocks = async () => {
     try {
       const response = await subStocksAPI.list();
@@ -739,23 +652,11 @@ export default function ProductsPage() {
 
   // Get the display products (either split or normal)
   const displayProducts = getProductsByPrice(filteredProducts);
-  const totalDisplayCount = displayProducts.length;
-  const totalPages = Math.max(1, Math.ceil(totalDisplayCount / pageSize));
-  const pageStart = totalDisplayCount === 0 ? 0 : (currentPage - 1) * pageSize;
-  const pageEnd = Math.min(pageStart + pageSize, totalDisplayCount);
-  const pageLabelStart = totalDisplayCount === 0 ? 0 : pageStart + 1;
-  const paginatedProducts = displayProducts.slice(pageStart, pageEnd);
-  const paginatedIds = Array.from(new Set(paginatedProducts.map((product) => product.id)));
-
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, selectedBrand, selectedVariant, selectedColor, selectedCategory, selectedProductCondition, viewMode, selectedShop, splitByPrice, pageSize]);
-
-  useEffect(() => {
-    if (currentPage > totalPages) {
-      setCurrentPage(totalPages);
-    }
-  }, [currentPage, totalPages]);
+  const paginatedIds = Array.from(new Set(displayProducts.map((product) => product.id)));
+  const availabilitySuggestions = needsAvailability && productsMatchingFilters?.results.length && user?.shop
+    ? buildAvailabilitySuggestions(productsMatchingFilters.results, user.shop)
+    : null;
+  const hasCatalogFilters = Object.values(catalogFilters).some(Boolean);
 
   const scrollToForm = () => {
     setTimeout(() => {
@@ -763,13 +664,6 @@ export default function ProductsPage() {
     }, 100);
   };
 
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      fetchProducts();
-    }, 300);
-    return () => clearTimeout(timer);
-  }, [searchTerm]);
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -816,7 +710,7 @@ export default function ProductsPage() {
       setSelectedCategory('');
       setSelectedProductCondition('');
       setSelectedShop('');
-      await fetchProducts(false);
+      await refreshProducts();
     } catch (error: any) {
       const errorData = error.response?.data;
       const nonFieldError = Array.isArray(errorData?.non_field_errors) ? errorData.non_field_errors[0] : null;
@@ -941,7 +835,7 @@ export default function ProductsPage() {
       setShowEditModal(false);
       setEditingId(null);
       setEditableBatches([]);
-      await Promise.all([fetchProducts(false), fetchPriceRanges()]);
+      await Promise.all([refreshProducts(), fetchPriceRanges()]);
     } catch (error: any) {
       console.error('Update error:', error);
       const errorMessage = error.response?.data
@@ -1015,7 +909,7 @@ export default function ProductsPage() {
         showToast.success('Products deleted successfully!');
       }
       removeSelection(ids);
-      await fetchProducts(false);
+      await refreshProducts();
     } catch (error: any) {
       console.error('Product deletion error:', error);
       const errorMessage = error.response?.data?.error || error.response?.data?.detail || 'Failed to delete product';
@@ -1045,6 +939,7 @@ export default function ProductsPage() {
         update_existing_price: false,
         is_interstate: false,
         purchase_date: new Date().toISOString().split('T')[0],
+        supplier: '',
         supplier_name: '',
         invoice_number: '',
         initial_payment_amount: '',
@@ -1065,6 +960,7 @@ export default function ProductsPage() {
         // Auto-fill from most recent batch
         autoFillData = {
           ...autoFillData,
+          supplier: mostRecentBatch.supplier || '',
           supplier_name: mostRecentBatch.supplier_name || '',
           gst_slab: mostRecentBatch.gst_slab.toString(),
           is_interstate: mostRecentBatch.is_interstate,
@@ -1111,6 +1007,7 @@ export default function ProductsPage() {
         update_existing_price: false,
         is_interstate: false,
         purchase_date: new Date().toISOString().split('T')[0],
+        supplier: '',
         supplier_name: '',
         invoice_number: '',
         initial_payment_amount: '',
@@ -1343,6 +1240,7 @@ export default function ProductsPage() {
         update_existing_price: stockFormData.update_existing_price,
         is_interstate: stockFormData.is_interstate,
         purchase_date: stockFormData.purchase_date,
+        supplier: stockFormData.supplier ? Number(stockFormData.supplier) : null,
         supplier_name: stockFormData.supplier_name,
         invoice_number: stockFormData.invoice_number,
         notes: stockFormData.notes,
@@ -1381,6 +1279,7 @@ export default function ProductsPage() {
         update_existing_price: false,
         is_interstate: false,
         purchase_date: new Date().toISOString().split('T')[0],
+        supplier: '',
         supplier_name: '',
         invoice_number: '',
         initial_payment_amount: '',
@@ -1391,7 +1290,7 @@ export default function ProductsPage() {
         distributions: [],
       });
       setAutoAllocate(false);
-      await Promise.all([fetchProducts(false), fetchPriceRanges(), fetchSubStocks()]);
+      await Promise.all([refreshProducts(), fetchPriceRanges(), fetchSubStocks()]);
     } catch (error: any) {
       console.error('Add stock error:', error);
       const errorMessage = error.response?.data
@@ -1503,33 +1402,33 @@ export default function ProductsPage() {
 
   const brandOptions = [
     { value: '', label: 'All Brands' },
-    ...Array.from(new Set(products.map((p) => p.brand_name).filter(Boolean))).map((brand) => ({
-      value: brand as string,
-      label: brand as string,
+    ...brands.map((brand) => ({
+      value: brand.name,
+      label: brand.name,
     })),
   ];
 
   const variantOptions = [
     { value: '', label: 'All Variants' },
-    ...Array.from(new Set(products.map((p) => p.variant_name).filter(Boolean))).map((variant) => ({
-      value: variant as string,
-      label: variant as string,
+    ...variants.map((variant) => ({
+      value: variant.name,
+      label: variant.name,
     })),
   ];
 
   const colorOptions = [
     { value: '', label: 'All Colors' },
-    ...Array.from(new Set(products.map((p) => p.color_name).filter(Boolean))).map((color) => ({
-      value: color as string,
-      label: color as string,
+    ...colors.map((color) => ({
+      value: color.name,
+      label: color.name,
     })),
   ];
 
   const categoryOptions = [
     { value: '', label: 'All Categories' },
-    ...Array.from(new Set(products.map((p) => p.category_name).filter(Boolean))).map((category) => ({
-      value: category as string,
-      label: category as string,
+    ...categories.map((category) => ({
+      value: category.name,
+      label: category.name,
     })),
   ];
 
@@ -1574,17 +1473,17 @@ export default function ProductsPage() {
               <p className="text-[11px] uppercase tracking-[0.3em] text-slate-600 dark:text-slate-400">Inventory Nexus</p>
               <h1 className="text-3xl font-semibold text-slate-900 dark:text-slate-100">Products</h1>
               <p className="text-slate-700 dark:text-slate-300">
-                {user?.role === 'sub_stock_manager'
+                {!can('product.manage')
                   ? 'View products and check stock availability'
                   : 'Manage your product catalog'
                 }
               </p>
               <p className="text-sm text-slate-600 dark:text-slate-400">
-                Total products: {products.length}
+                Total products: {productCount}
               </p>
             </div>
-            {/* Only show Add Product button for non-sub-stock managers */}
-            {user?.role !== 'sub_stock_manager' && (
+            {/* Only show Add Product button to users who manage the catalog */}
+            {can('product.manage') && (
               <div className="flex flex-wrap items-center gap-2">
                 <HoverBorderGradient
                   as="button"
@@ -1882,7 +1781,7 @@ export default function ProductsPage() {
                       Quick tip
                     </p>
                     <p className="mt-1 text-sm text-amber-800 dark:text-amber-100/90">
-                      {user?.role === 'sub_stock_manager'
+                      {!can('shop.viewAll')
                         ? 'If products are not in your shop, we will show where they are available. Use "Main Stock" to browse warehouse inventory and request transfers.'
                         : 'If products are not in your shop, we will show where they are available. Use "All Shops" to browse other branches or "Main Stock" to request transfers.'}
                     </p>
@@ -1954,8 +1853,8 @@ export default function ProductsPage() {
               <table className="table table-frost min-w-full">
                 <thead>
                   <tr>
-                    {/* Hide checkbox column for sub-stock managers */}
-                    {user?.role !== 'sub_stock_manager' && (
+                    {/* Hide checkbox column for read-only users */}
+                    {can('product.manage') && (
                       <th className="w-12">
                         <input name="rowSelect"
                           type="checkbox"
@@ -1978,15 +1877,15 @@ export default function ProductsPage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {paginatedProducts.map((product, index) => {
+                  {displayProducts.map((product, index) => {
                     const uniqueKey = splitByPrice && product._splitPrice
                       ? `${product.id}_${product._splitPrice}_${product._splitCondition}_${index}`
                       : product.id;
 
                     return (
                       <tr key={uniqueKey} className={isSelected(product.id) ? 'bg-slate-50 dark:bg-transparent' : ''}>
-                        {/* Hide checkbox column for sub-stock managers */}
-                        {user?.role !== 'sub_stock_manager' && (
+                        {/* Hide checkbox column for read-only users */}
+                        {can('product.manage') && (
                           <td>
                             <input name="rowSelect"
                               type="checkbox"
@@ -2271,8 +2170,8 @@ export default function ProductsPage() {
                               <FiEye size={14} />
                               View
                             </button>
-                            {/* Hide edit/delete buttons for sub-stock managers */}
-                            {user?.role !== 'sub_stock_manager' && (
+                            {/* Hide edit/delete buttons for read-only users */}
+                            {can('product.manage') && (
                               <>
                                 <button
                                   onClick={() => handleOpenStockModal(product)}
@@ -2310,50 +2209,18 @@ export default function ProductsPage() {
             </div>
           </div>
 
-          {totalDisplayCount > 0 && (
-            <div className="flex flex-wrap items-center justify-between gap-3 border-t border-slate-200/80 dark:border-white/10 bg-slate-50 dark:bg-transparent px-4 py-3 text-sm text-slate-600 dark:text-slate-300">
-              <span>
-                Showing {pageLabelStart}-{pageEnd} of {totalDisplayCount} rows
-              </span>
-              <div className="flex flex-wrap items-center gap-3">
-                <div className="flex items-center gap-2">
-                  <span className="text-xs uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 whitespace-nowrap">Per page</span>
-                  <select
-                    id="pageSize"
-                    className="input h-9 py-1.5 min-w-[90px] leading-tight"
-                    value={pageSize}
-                    onChange={(e) => setPageSize(Number(e.target.value))}
-                  >
-                    <option value={10}>10</option>
-                    <option value={25}>25</option>
-                    <option value={50}>50</option>
-                    <option value={100}>100</option>
-                  </select>
-                </div>
-                <div className="flex items-center gap-2">
-                  <button
-                    type="button"
-                    className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
-                    onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
-                    disabled={currentPage === 1}
-                  >
-                    Prev
-                  </button>
-                  <span className="text-xs text-slate-500 dark:text-slate-400">
-                    Page {currentPage} of {totalPages}
-                  </span>
-                  <button
-                    type="button"
-                    className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
-                    onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
-                    disabled={currentPage >= totalPages}
-                  >
-                    Next
-                  </button>
-                </div>
-              </div>
-            </div>
-          )}
+          <TablePagination
+            className="border-t border-slate-200/80 dark:border-white/10 bg-slate-50 dark:bg-transparent px-4 py-3"
+            page={page}
+            totalPages={totalPages}
+            pageSize={pageSize}
+            count={productCount}
+            rangeStart={rangeStart}
+            rangeEnd={rangeEnd}
+            onPageChange={setPage}
+            onPageSizeChange={setPageSize}
+            loading={isValidating}
+          />
 
           {displayProducts.length === 0 && (
             <div className="py-12 text-center text-slate-700 dark:text-slate-300">
@@ -2369,7 +2236,7 @@ export default function ProductsPage() {
                     Turn off price split mode
                   </button>
                 </div>
-              ) : products.length === 0 ? (
+              ) : productCount === 0 && !hasCatalogFilters && !productsMatchingFilters?.count ? (
                 <div className="text-slate-700 dark:text-slate-300">
                   <p className="mb-2">No products found. Add your first product to get started.</p>
                 </div>
@@ -2495,9 +2362,9 @@ export default function ProductsPage() {
             </div>
           )}
 
-          {/* Hide bulk action bar for sub-stock managers */}
+          {/* Hide bulk action bar for read-only users */}
           {
-            user?.role !== 'sub_stock_manager' && (
+            can('product.manage') && (
               <BulkActionBar
                 selectedCount={selectedIds.length}
                 onDelete={handleBulkDelete}
@@ -2671,16 +2538,23 @@ export default function ProductsPage() {
                       />
                     </div>
 
-                    <div>
-                      <label htmlFor="supplier_name" className="block text-sm font-medium mb-1">Supplier Name</label>
-                      <input id="supplier_name" name="supplier_name"
-                        type="text"
-                        className="input"
-                        value={stockFormData.supplier_name}
-                        autoComplete="organization"
-                        onChange={(e) => setStockFormData({ ...stockFormData, supplier_name: e.target.value })}
-                      />
-                    </div>
+                    <SearchableSelect
+                      label="Supplier"
+                      placeholder={stockFormData.supplier_name && !stockFormData.supplier ? stockFormData.supplier_name : 'Select supplier...'}
+                      value={stockFormData.supplier}
+                      onChange={(value) => {
+                        const supplier = suppliers.find((item) => item.id === Number(value));
+                        setStockFormData({ ...stockFormData, supplier: value, supplier_name: supplier?.name || '' });
+                      }}
+                      options={suppliers
+                        .filter((supplier) => supplier.is_active || supplier.id === Number(stockFormData.supplier))
+                        .map((supplier) => ({
+                          value: supplier.id,
+                          label: supplier.name,
+                          subLabel: supplier.gstin || supplier.phone || undefined,
+                          searchText: [supplier.gstin, supplier.phone].filter(Boolean).join(' '),
+                        }))}
+                    />
 
                     <div>
                       <label htmlFor="invoice_number" className="block text-sm font-medium mb-1">Invoice Number</label>
@@ -3066,10 +2940,14 @@ export default function ProductsPage() {
                                   <th>Source</th>
                                   <th>Purchased</th>
                                   <th>Available</th>
-                                  <th>Cost/Unit</th>
+                                  {canViewCost && <th>Cost/Unit</th>}
                                   <th>Selling Price</th>
-                                  <th>Profit/Unit</th>
-                                  <th>Margin %</th>
+                                  {canViewCost && (
+                                    <>
+                                      <th>Profit/Unit</th>
+                                      <th>Margin %</th>
+                                    </>
+                                  )}
                                   <th>Purchase Date</th>
                                   {selectedProduct.is_imei_tracked && <th>IMEI Info</th>}
                                 </tr>
@@ -3090,14 +2968,18 @@ export default function ProductsPage() {
                                       <td className="text-sm">{formatSourceLabel(batch.source)}</td>
                                       <td className="text-center">{batch.purchased_quantity}</td>
                                       <td className="text-center font-semibold">{batch.available_quantity}</td>
-                                      <td className="text-sm">₹{parseFloat(batch.unit_purchase_price).toFixed(2)}</td>
+                                      {canViewCost && <td className="text-sm">₹{parseFloat(batch.unit_purchase_price).toFixed(2)}</td>}
                                       <td className="text-sm font-semibold text-emerald-700 dark:text-emerald-300">₹{parseFloat(batch.selling_price).toFixed(2)}</td>
-                                      <td className={`text-sm font-semibold ${profitPerUnit >= 0 ? 'text-emerald-700 dark:text-emerald-300' : 'text-rose-700 dark:text-rose-300'}`}>
-                                        ₹{profitPerUnit.toFixed(2)}
-                                      </td>
-                                      <td className={`text-sm font-semibold ${profitMargin >= 0 ? 'text-emerald-700 dark:text-emerald-300' : 'text-rose-700 dark:text-rose-300'}`}>
-                                        {profitMargin.toFixed(1)}%
-                                      </td>
+                                      {canViewCost && (
+                                        <>
+                                          <td className={`text-sm font-semibold ${profitPerUnit >= 0 ? 'text-emerald-700 dark:text-emerald-300' : 'text-rose-700 dark:text-rose-300'}`}>
+                                            ₹{profitPerUnit.toFixed(2)}
+                                          </td>
+                                          <td className={`text-sm font-semibold ${profitMargin >= 0 ? 'text-emerald-700 dark:text-emerald-300' : 'text-rose-700 dark:text-rose-300'}`}>
+                                            {profitMargin.toFixed(1)}%
+                                          </td>
+                                        </>
+                                      )}
                                       <td className="text-sm">{formatDate(batch.purchase_date)}</td>
                                       {selectedProduct.is_imei_tracked && (
                                         <td className="text-xs">
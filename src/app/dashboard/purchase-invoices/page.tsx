@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { purchaseInvoicesAPI, purchasePaymentsAPI } from '@/lib/api';
 import type { PurchaseInvoice } from '@/types';
 import { useAutoRefresh } from '@/hooks/useAutoRefresh';
@@ -184,7 +185,15 @@ export default function PurchaseInvoicesPage() {
               return (
                 <tr key={invoice.id}>
                   <td className="font-medium">{invoice.invoice_number}</td>
-                  <td>{invoice.supplier_name || '-'}</td>
+                  <td>
+                    {invoice.supplier ? (
+                      <Link href={`/dashboard/suppliers/${invoice.supplier}`} className="hover:underline">
+                        {invoice.supplier_name || '-'}
+                      </Link>
+                    ) : (
+                      invoice.supplier_name || '-'
+                    )}
+                  </td>
                   <td>{formatDate(invoice.invoice_date)}</td>
                   <td>Rs {parseFloat(invoice.total_amount || '0').toFixed(2)}</td>
                   <td>Rs {parseFloat(invoice.amount_paid || '0').toFixed(2)}</td>
@@ -0,0 +1,529 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { salePaymentsAPI, salesAPI } from '@/lib/api';
+import type { Sale, SalePayment } from '@/types';
+import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import TableSearchBar from '@/components/TableSearchBar';
+import FullScreenLoader from '@/components/FullScreenLoader';
+import { showToast } from '@/lib/toast';
+import { formatDate } from '@/lib/date';
+import { AGING_BUCKETS, emptyAgingTotals, getAgeInDays, getAgingBucket } from '@/lib/aging';
+import { getSaleAmountPaid, getSaleBalance, getSaleCustomerKey } from '@/lib/receivables';
+import { FiDollarSign, FiFileText, FiX } from 'react-icons/fi';
+
+interface CustomerBalance {
+  key: string;
+  name: string;
+  phone?: string;
+  invoiceCount: number;
+  outstanding: number;
+  oldestDays: number;
+}
+
+export default function ReceivablesPage() {
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedCustomerKey, setSelectedCustomerKey] = useState('');
+  const [selectedBucket, setSelectedBucket] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize, setPageSize] = useState(25);
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [selectedSale, setSelectedSale] = useState<Sale | null>(null);
+  const [savingPayment, setSavingPayment] = useState(false);
+  const [paymentData, setPaymentData] = useState<{
+    amount: string;
+    method: SalePayment['payment_method'] | '';
+    reference: string;
+    notes: string;
+  }>({
+    amount: '',
+    method: '',
+    reference: '',
+    notes: '',
+  });
+
+  const fetchSales = async () => {
+    try {
+      // Settled sales never owe anything, so only open ones are fetched, across every page
+      setSales(await salesAPI.listAll({ search: searchTerm, payment_status__in: 'unpaid,partial' }));
+    } catch (error) {
+      console.error('Failed to fetch receivables:', error);
+      setSales([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSales();
+  }, []);
+
+  useAutoRefresh(fetchSales);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      fetchSales();
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchTerm, selectedCustomerKey, selectedBucket, pageSize]);
+
+  const dueSales = useMemo(() => (
+    sales
+      .filter((sale) => getSaleBalance(sale) > 0)
+      .sort((a, b) => new Date(a.sale_date).getTime() - new Date(b.sale_date).getTime())
+  ), [sales]);
+
+  const customerBalances = useMemo(() => {
+    const map = new Map<string, CustomerBalance>();
+    dueSales.forEach((sale) => {
+      const key = getSaleCustomerKey(sale);
+      const entry = map.get(key) || {
+        key,
+        name: sale.customer_name || 'Walk-in Customer',
+        phone: sale.customer_phone,
+        invoiceCount: 0,
+        outstanding: 0,
+        oldestDays: 0,
+      };
+      entry.invoiceCount += 1;
+      entry.outstanding += getSaleBalance(sale);
+      entry.oldestDays = Math.max(entry.oldestDays, getAgeInDays(sale.sale_date));
+      map.set(key, entry);
+    });
+    return Array.from(map.values()).sort((a, b) => b.outstanding - a.outstanding);
+  }, [dueSales]);
+
+  const agingTotals = useMemo(() => {
+    const totals = emptyAgingTotals();
+    dueSales.forEach((sale) => {
+      totals[getAgingBucket(getAgeInDays(sale.sale_date)).key] += getSaleBalance(sale);
+    });
+    return totals;
+  }, [dueSales]);
+
+  const totalOutstanding = customerBalances.reduce((sum, customer) => sum + customer.outstanding, 0);
+
+  const visibleSales = dueSales.filter((sale) => {
+    if (selectedCustomerKey && getSaleCustomerKey(sale) !== selectedCustomerKey) return false;
+    if (selectedBucket && getAgingBucket(getAgeInDays(sale.sale_date)).key !== selectedBucket) return false;
+    return true;
+  });
+
+  const totalDisplayCount = visibleSales.length;
+  const totalPages = Math.max(1, Math.ceil(totalDisplayCount / pageSize));
+  const pageStart = totalDisplayCount === 0 ? 0 : (currentPage - 1) * pageSize;
+  const pageEnd = Math.min(pageStart + pageSize, totalDisplayCount);
+  const pageLabelStart = totalDisplayCount === 0 ? 0 : pageStart + 1;
+  const paginatedSales = visibleSales.slice(pageStart, pageEnd);
+
+  useEffect(() => {
+    if (currentPage > totalPages) {
+      setCurrentPage(totalPages);
+    }
+  }, [currentPage, totalPages]);
+
+  const openPaymentModal = (sale: Sale) => {
+    setSelectedSale(sale);
+    setPaymentData({
+      amount: getSaleBalance(sale).toFixed(2),
+      method: '',
+      reference: '',
+      notes: '',
+    });
+    setShowPaymentModal(true);
+  };
+
+  const openStatement = (customerKey: string) => {
+    window.open(`/dashboard/receivables/statement?customer=${encodeURIComponent(customerKey)}`, '_blank');
+  };
+
+  const handlePaymentSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedSale) return;
+
+    const amount = parseFloat(paymentData.amount || '0');
+    if (amount <= 0) {
+      showToast.info('Enter a valid payment amount.');
+      return;
+    }
+    if (!paymentData.method) {
+      showToast.info('Select a payment method.');
+      return;
+    }
+    if (amount > getSaleBalance(selectedSale) + 0.005) {
+      showToast.info('Payment exceeds the current balance due.');
+      return;
+    }
+    if (paymentData.method !== 'cash' && !paymentData.reference.trim()) {
+      showToast.info('Enter the reference number for non-cash payments.');
+      return;
+    }
+
+    setSavingPayment(true);
+    try {
+      await salePaymentsAPI.create({
+        sale: selectedSale.id,
+        payment_method: paymentData.method,
+        amount: amount.toFixed(2),
+        reference_number: paymentData.reference.trim() || undefined,
+        notes: paymentData.notes.trim() || undefined,
+      });
+      showToast.success('Payment recorded successfully.');
+      setShowPaymentModal(false);
+      setSelectedSale(null);
+      fetchSales();
+    } catch (error) {
+      console.error('Failed to record sale payment:', error);
+      showToast.error('Failed to record payment.');
+    } finally {
+      setSavingPayment(false);
+    }
+  };
+
+  if (loading) {
+    return <FullScreenLoader label="Loading receivables" />;
+  }
+
+  const selectedCustomer = customerBalances.find((customer) => customer.key === selectedCustomerKey);
+
+  return (
+    <div className="space-y-6">
+      <div className="section-header">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <p className="text-[11px] uppercase tracking-[0.3em] text-slate-600 dark:text-slate-400">Customer Dues</p>
+            <h1 className="text-3xl font-semibold text-slate-900 dark:text-slate-100">Receivables</h1>
+            <p className="text-slate-700 dark:text-slate-300">Track what customers owe and collect pending balances</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="rounded-2xl border border-amber-200/60 bg-amber-50 px-4 py-2 text-sm text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-200">
+              Total Outstanding: Rs {totalOutstanding.toFixed(2)}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Aging Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {AGING_BUCKETS.map((bucket) => (
+          <button
+            key={bucket.key}
+            type="button"
+            onClick={() => setSelectedBucket((prev) => (prev === bucket.key ? '' : bucket.key))}
+            className={`rounded-2xl border p-4 text-left transition ${
+              selectedBucket === bucket.key
+                ? 'border-sky-400 bg-sky-50 dark:border-sky-400/40 dark:bg-sky-500/10'
+                : 'border-slate-200/80 bg-white/90 dark:border-white/10 dark:bg-transparent hover:bg-slate-50 dark:hover:bg-white/5'
+            }`}
+          >
+            <span className={`badge ${bucket.badgeClass}`}>{bucket.label}</span>
+            <p className="mt-2 text-xl font-semibold text-slate-900 dark:text-slate-100">
+              Rs {agingTotals[bucket.key].toFixed(2)}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {/* Customer Balances */}
+      <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+        <h2 className="text-xl font-semibold mb-4">Outstanding by Customer</h2>
+        <div className="overflow-x-auto">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Customer</th>
+                <th>Phone</th>
+                <th>Invoices Due</th>
+                <th>Oldest</th>
+                <th>Outstanding</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {customerBalances.map((customer) => (
+                <tr
+                  key={customer.key}
+                  className={selectedCustomerKey === customer.key ? 'bg-sky-50 dark:bg-sky-500/10' : ''}
+                >
+                  <td className="font-medium">{customer.name}</td>
+                  <td>{customer.phone || '-'}</td>
+                  <td>{customer.invoiceCount}</td>
+                  <td>
+                    <span className={`badge ${getAgingBucket(customer.oldestDays).badgeClass}`}>
+                      {customer.oldestDays} days
+                    </span>
+                  </td>
+                  <td className="text-rose-600 font-semibold">Rs {customer.outstanding.toFixed(2)}</td>
+                  <td>
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setSelectedCustomerKey((prev) => (prev === customer.key ? '' : customer.key))}
+                        className="inline-flex items-center gap-2 rounded-full border border-slate-200/80 dark:border-white/10 bg-slate-50 dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-900 dark:text-slate-100 transition hover:bg-white/10"
+                      >
+                        {selectedCustomerKey === customer.key ? 'Show All' : 'Invoices'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => openStatement(customer.key)}
+                        className="inline-flex items-center gap-2 rounded-full border border-sky-400 dark:border-sky-400/30 bg-sky-100 dark:bg-sky-500/15 px-3 py-1 text-xs font-semibold text-sky-700 dark:text-sky-200 transition hover:bg-sky-200 dark:hover:bg-sky-500/25"
+                      >
+                        <FiFileText size={14} />
+                        Statement
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {customerBalances.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="text-center text-slate-500">
+                    No outstanding customer balances.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <TableSearchBar
+          value={searchTerm}
+          onChange={(value) => setSearchTerm(value)}
+          placeholder="Search by invoice, customer or phone..."
+        />
+        {(selectedCustomer || selectedBucket) && (
+          <button
+            type="button"
+            onClick={() => {
+              setSelectedCustomerKey('');
+              setSelectedBucket('');
+            }}
+            className="inline-flex items-center gap-2 rounded-full border border-slate-200/80 dark:border-white/10 px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200"
+          >
+            <FiX size={12} />
+            Clear filters
+            {selectedCustomer ? ` · ${selectedCustomer.name}` : ''}
+          </button>
+        )}
+      </div>
+
+      <div className="table-card">
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Invoice</th>
+              <th>Customer</th>
+              <th>Date</th>
+              <th>Age</th>
+              <th>Total</th>
+              <th>Paid</th>
+              <th>Balance</th>
+              <th>Status</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {paginatedSales.map((sale) => {
+              const days = getAgeInDays(sale.sale_date);
+              const bucket = getAgingBucket(days);
+              const balance = getSaleBalance(sale);
+              return (
+                <tr key={sale.id}>
+                  <td className="font-medium">
+                    <button
+                      type="button"
+                      onClick={() => window.open(`/dashboard/sales/${sale.id}`, '_blank')}
+                      className="hover:underline"
+                    >
+                      {sale.invoice_number}
+                    </button>
+                  </td>
+                  <td>
+                    <div>{sale.customer_name}</div>
+                    {sale.customer_phone && (
+                      <div className="text-xs text-slate-500 dark:text-slate-400">{sale.customer_phone}</div>
+                    )}
+                  </td>
+                  <td>{formatDate(sale.sale_date)}</td>
+                  <td>
+                    <span className={`badge ${bucket.badgeClass}`}>{days} days</span>
+                  </td>
+                  <td>Rs {parseFloat(sale.grand_total || '0').toFixed(2)}</td>
+                  <td>Rs {getSaleAmountPaid(sale).toFixed(2)}</td>
+                  <td className="text-rose-600 font-semibold">Rs {balance.toFixed(2)}</td>
+                  <td>
+                    <span className={`badge ${sale.payment_status === 'partial' ? 'badge-warning' : 'badge-danger'}`}>
+                      {sale.payment_status}
+                    </span>
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      onClick={() => openPaymentModal(sale)}
+                      className="inline-flex items-center gap-2 rounded-full border border-emerald-400/70 bg-emerald-100 px-3 py-1 text-xs font-semibold text-emerald-700 transition hover:bg-emerald-200 dark:border-emerald-400/30 dark:bg-emerald-500/15 dark:text-emerald-200"
+                    >
+                      <FiDollarSign size={14} />
+                      Record Payment
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            {totalDisplayCount === 0 && (
+              <tr>
+                <td colSpan={9} className="text-center text-slate-500">
+                  No unpaid invoices found.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {totalDisplayCount > 0 && (
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+          <span className="text-xs text-slate-600 dark:text-slate-400">
+            Showing {pageLabelStart}-{pageEnd} of {totalDisplayCount} rows
+          </span>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-2">
+              <span className="text-xs uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 whitespace-nowrap">Per page</span>
+              <select
+                id="pageSize"
+                className="input h-9 py-1.5 min-w-[90px] leading-tight"
+                value={pageSize}
+                onChange={(e) => setPageSize(Number(e.target.value))}
+              >
+                <option value={10}>10</option>
+                <option value={25}>25</option>
+                <option value={50}>50</option>
+                <option value={100}>100</option>
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
+                disabled={currentPage === 1}
+              >
+                Prev
+              </button>
+              <span className="text-xs text-slate-500 dark:text-slate-400">
+                Page {currentPage} of {totalPages}
+              </span>
+              <button
+                type="button"
+                className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
+                disabled={currentPage >= totalPages}
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showPaymentModal && selectedSale && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+          <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent w-full max-w-lg p-6 text-slate-900 dark:text-slate-100 shadow-[0_20px_60px_rgba(2,6,23,0.65)]">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-xl font-semibold">Record Payment</h2>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  Invoice {selectedSale.invoice_number} ({selectedSale.customer_name}) - Balance Rs {getSaleBalance(selectedSale).toFixed(2)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setShowPaymentModal(false)}
+                className="text-slate-600 dark:text-slate-400 hover:text-slate-200 transition-colors"
+              >
+                <FiX />
+              </button>
+            </div>
+            <form onSubmit={handlePaymentSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="payment_amount" className="block text-sm font-medium mb-1">Amount *</label>
+                <input
+                  id="payment_amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  className="input"
+                  value={paymentData.amount}
+                  onChange={(e) => setPaymentData({ ...paymentData, amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="payment_method" className="block text-sm font-medium mb-1">Payment Method *</label>
+                <select
+                  id="payment_method"
+                  className="input"
+                  value={paymentData.method}
+                  onChange={(e) =>
+                    setPaymentData({ ...paymentData, method: e.target.value as typeof paymentData.method })
+                  }
+                  required
+                >
+                  <option value="">Select method</option>
+                  <option value="cash">Cash</option>
+                  <option value="card">Card</option>
+                  <option value="upi">UPI</option>
+                  <option value="net_banking">Net Banking</option>
+                  <option value="cheque">Cheque</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="payment_reference" className="block text-sm font-medium mb-1">Reference</label>
+                <input
+                  id="payment_reference"
+                  type="text"
+                  className="input"
+                  value={paymentData.reference}
+                  onChange={(e) => setPaymentData({ ...paymentData, reference: e.target.value })}
+                />
+              </div>
+              <div>
+                <label htmlFor="payment_notes" className="block text-sm font-medium mb-1">Notes</label>
+                <textarea
+                  id="payment_notes"
+                  className="input"
+                  value={paymentData.notes}
+                  onChange={(e) => setPaymentData({ ...paymentData, notes: e.target.value })}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowPaymentModal(false)}
+                  className="rounded-full border border-slate-200/70 px-4 py-2 text-sm text-slate-600 hover:text-slate-900 dark:border-white/10 dark:text-slate-300 dark:hover:text-slate-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={savingPayment}
+                  className="rounded-full bg-emerald-600 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {savingPayment ? 'Saving...' : 'Save Payment'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
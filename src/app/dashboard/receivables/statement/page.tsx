@@ -0,0 +1,327 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { salesAPI } from '@/lib/api';
+import type { Sale } from '@/types';
+import { FiPrinter, FiX } from 'react-icons/fi';
+import { formatDate } from '@/lib/date';
+import { AGING_BUCKETS, emptyAgingTotals, getAgeInDays, getAgingBucket } from '@/lib/aging';
+import { getSaleAmountPaid, getSaleBalance, getSaleCustomerKey, getSaleFiltersForCustomerKey } from '@/lib/receivables';
+
+interface LedgerEntry {
+  date: string;
+  particulars: string;
+  debit: number;
+  credit: number;
+}
+
+const paymentMethodLabels: Record<string, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  upi: 'UPI',
+  net_banking: 'Net Banking',
+  cheque: 'Cheque',
+};
+
+const buildLedger = (sales: Sale[]) => {
+  const entries: LedgerEntry[] = [];
+
+  sales.forEach((sale) => {
+    entries.push({
+      date: sale.sale_date,
+      particulars: `Invoice ${sale.invoice_number}`,
+      debit: parseFloat(sale.grand_total) || 0,
+      credit: 0,
+    });
+
+    if (sale.payments && sale.payments.length > 0) {
+      sale.payments.forEach((payment) => {
+        const method = paymentMethodLabels[payment.payment_method] || payment.payment_method;
+        entries.push({
+          date: payment.payment_date,
+          particulars: `Payment (${method}${payment.reference_number ? ` - ${payment.reference_number}` : ''}) against ${sale.invoice_number}`,
+          debit: 0,
+          credit: parseFloat(payment.amount) || 0,
+        });
+      });
+    } else {
+      const paid = getSaleAmountPaid(sale);
+      if (paid > 0) {
+        entries.push({
+          date: sale.sale_date,
+          particulars: `Payment against ${sale.invoice_number}`,
+          debit: 0,
+          credit: paid,
+        });
+      }
+    }
+  });
+
+  return entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+export default function CustomerStatementPage() {
+  const [customerKey, setCustomerKey] = useState<string | null>(null);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setCustomerKey(new URLSearchParams(window.location.search).get('customer') || '');
+  }, []);
+
+  useEffect(() => {
+    if (customerKey === null) return;
+    if (!customerKey) {
+      setLoading(false);
+      return;
+    }
+    fetchStatement(customerKey);
+  }, [customerKey]);
+
+  const fetchStatement = async (key: string) => {
+    try {
+      const customerSales = await salesAPI.listAll(getSaleFiltersForCustomerKey(key));
+      setSales(customerSales.filter((sale) => getSaleCustomerKey(sale) === key));
+    } catch (error) {
+      console.error('Failed to fetch customer statement:', error);
+      setSales([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePrint = () => {
+    const originalTitle = document.title;
+    document.title = '';
+    const handleAfterPrint = () => {
+      document.title = originalTitle;
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+    window.addEventListener('afterprint', handleAfterPrint);
+    window.print();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto"></div>
+          <p className="text-slate-600 dark:text-slate-400 mt-4">Loading statement...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (sales.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-500 text-xl">No transactions found for this customer</p>
+          <button onClick={() => window.close()} className="btn btn-primary mt-4">
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const latestSale = sales.reduce((latest, sale) => (
+    new Date(sale.sale_date).getTime() > new Date(latest.sale_date).getTime() ? sale : latest
+  ), sales[0]);
+  const ledger = buildLedger(sales);
+  const totalDebit = ledger.reduce((sum, entry) => sum + entry.debit, 0);
+  const totalCredit = ledger.reduce((sum, entry) => sum + entry.credit, 0);
+  const closingBalance = totalDebit - totalCredit;
+
+  const agingTotals = emptyAgingTotals();
+  sales.forEach((sale) => {
+    const balance = getSaleBalance(sale);
+    if (balance > 0) {
+      agingTotals[getAgingBucket(getAgeInDays(sale.sale_date)).key] += balance;
+    }
+  });
+
+  let runningBalance = 0;
+
+  return (
+    <>
+      {/* Print Controls - Hidden when printing */}
+      <div className="no-print fixed top-4 right-4 z-50 flex items-center gap-3 rounded-2xl border border-slate-200/70 dark:border-white/10 bg-white/90 dark:bg-slate-900/80 px-4 py-3 shadow-xl backdrop-blur">
+        <button
+          onClick={handlePrint}
+          className="inline-flex items-center gap-2 rounded-xl bg-emerald-600 px-4 py-2 text-sm font-semibold text-white shadow-lg transition hover:bg-emerald-700"
+        >
+          <FiPrinter />
+          Print Statement
+        </button>
+        <button
+          onClick={() => window.close()}
+          className="inline-flex items-center gap-2 rounded-xl border border-slate-200 dark:border-white/20 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow transition hover:-translate-y-0.5 hover:bg-slate-100 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-white/10"
+        >
+          <FiX />
+          Close
+        </button>
+      </div>
+
+      <div className="min-h-screen bg-gradient-to-br from-slate-100 via-white to-sky-50 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950 p-6 sm:p-8 print:p-0 print:bg-white print:min-h-0">
+        <div className="max-w-[210mm] mx-auto rounded-2xl bg-white dark:bg-slate-950 border border-slate-300 dark:border-slate-700 print:border print:border-black shadow-2xl print:shadow-none bill-text print:rounded-none">
+          {/* Header */}
+          <div className="border-b border-slate-300 dark:border-slate-700 print:border-black p-4 flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-wide text-slate-900 dark:text-slate-100">
+                {latestSale.shop_name || 'Shop'}
+              </h1>
+              {latestSale.shop_address && (
+                <p className="text-[11px] text-slate-600 dark:text-slate-300">{latestSale.shop_address}</p>
+              )}
+            </div>
+            <div className="text-right">
+              <h2 className="text-sm font-semibold uppercase tracking-wider border border-slate-300 dark:border-slate-600 print:border-black px-4 py-1 text-slate-900 dark:text-slate-100">
+                Statement of Account
+              </h2>
+              <p className="text-[10px] mt-1 text-slate-600 dark:text-slate-300">As on {formatDate(new Date())}</p>
+            </div>
+          </div>
+
+          {/* Customer */}
+          <div className="border-b border-slate-300 dark:border-slate-700 print:border-black p-3">
+            <table className="text-[11px]">
+              <tbody>
+                <tr>
+                  <td className="py-1 font-semibold w-24">Customer:</td>
+                  <td className="py-1">{latestSale.customer_name}</td>
+                </tr>
+                <tr>
+                  <td className="py-1 font-semibold">Phone:</td>
+                  <td className="py-1">{latestSale.customer_phone || '-'}</td>
+                </tr>
+                <tr>
+                  <td className="py-1 font-semibold">Address:</td>
+                  <td className="py-1">{latestSale.customer_address || '-'}</td>
+                </tr>
+                <tr>
+                  <td className="py-1 font-semibold">GST NO:</td>
+                  <td className="py-1">{latestSale.customer_gstin || '-'}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {/* Ledger */}
+          <div className="border-b border-slate-300 dark:border-slate-700 print:border-black">
+            <table className="w-full text-[11px]">
+              <thead className="text-[10px] uppercase tracking-wide text-slate-700 dark:text-slate-200">
+                <tr className="bg-slate-100 dark:bg-slate-900 print:bg-gray-300 border-b border-slate-300 dark:border-slate-700 print:border-black">
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-2 text-left w-24">Date</th>
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-2 text-left">Particulars</th>
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-2 text-right w-24">Debit</th>
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-2 text-right w-24">Credit</th>
+                  <th className="py-2 px-2 text-right w-28">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.map((entry, index) => {
+                  runningBalance += entry.debit - entry.credit;
+                  return (
+                    <tr key={index} className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1.5 px-2">{formatDate(entry.date)}</td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1.5 px-2">{entry.particulars}</td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1.5 px-2 text-right">
+                        {entry.debit > 0 ? entry.debit.toFixed(2) : ''}
+                      </td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1.5 px-2 text-right">
+                        {entry.credit > 0 ? entry.credit.toFixed(2) : ''}
+                      </td>
+                      <td className="py-1.5 px-2 text-right">{runningBalance.toFixed(2)}</td>
+                    </tr>
+                  );
+                })}
+                <tr className="font-semibold border-t-2 border-slate-400 dark:border-slate-600 print:border-black">
+                  <td className="py-2 px-2" colSpan={2}>Total</td>
+                  <td className="py-2 px-2 text-right">{totalDebit.toFixed(2)}</td>
+                  <td className="py-2 px-2 text-right">{totalCredit.toFixed(2)}</td>
+                  <td className="py-2 px-2 text-right">Rs {closingBalance.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {/* Aging */}
+          <div className="p-3">
+            <h3 className="font-bold text-sm mb-2">Outstanding Aging</h3>
+            <table className="w-full text-[11px]">
+              <thead>
+                <tr className="border-b border-slate-300 dark:border-slate-700 print:border-black">
+                  {AGING_BUCKETS.map((bucket) => (
+                    <th key={bucket.key} className="py-1 text-right">{bucket.label}</th>
+                  ))}
+                  <th className="py-1 text-right">Total Due</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <td key={bucket.key} className="py-1 text-right">{agingTotals[bucket.key].toFixed(2)}</td>
+                  ))}
+                  <td className="py-1 text-right font-bold">Rs {closingBalance.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Print Styles */}
+      <style jsx global>{`
+        @media print {
+          .no-print {
+            display: none !important;
+          }
+
+          html, body {
+            background: white !important;
+            margin: 0 !important;
+            padding: 0 !important;
+            width: 210mm !important;
+            height: auto !important;
+            overflow: visible !important;
+          }
+
+          * {
+            print-color-adjust: exact;
+            -webkit-print-color-adjust: exact;
+            overflow: visible !important;
+          }
+
+          .min-h-screen {
+            min-height: 0 !important;
+            height: auto !important;
+          }
+
+          .max-w-\\[210mm\\] {
+            max-width: 100% !important;
+            margin: 0 !important;
+            border: 1px solid black !important;
+          }
+
+          @page {
+            margin: 10mm;
+            size: A4 portrait;
+          }
+        }
+
+        .bill-text {
+          font-family: "Times New Roman", Times, serif;
+          font-size: 11px;
+          line-height: 1.4;
+          font-variant-numeric: tabular-nums;
+          color: #111827;
+        }
+
+        .dark .bill-text {
+          color: #e2e8f0;
+        }
+      `}</style>
+    </>
+  );
+}
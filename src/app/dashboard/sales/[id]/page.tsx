@@ -4,19 +4,37 @@ import { useEffect, useMemo, useState } from 'react';
 import { useParams, useSearchParams } from 'next/navigation';
 import { companyProfileAPI, salesAPI } from '@/lib/api';
 import type { CompanyProfile, Sale } from '@/types';
-import { FiPrinter, FiX } from 'react-icons/fi';
+import { FiFileText, FiPrinter, FiTruck, FiX } from 'react-icons/fi';
 import { formatDate, formatDateTime } from '@/lib/date';
-
-const getMediaBase = () => {
-  const apiUrl = '/api';
-  return apiUrl.replace(/\/api\/?$/, '');
+import { buildMediaUrl } from '@/lib/config';
+import { computeRoundOff, computeTaxSummary, DEFAULT_STATE_CODE, getStateName, resolveBuyerStateCode, summarizeByHsn } from '@/lib/tax';
+import { amountInWords } from '@/lib/amountInWords';
+import { resolveUpiId } from '@/lib/upi';
+import { getSaleAmountPaid, getSaleBalance, getSaleExchangeCredit } from '@/lib/receivables';
+import UpiQrCode from '@/components/UpiQrCode';
+import EInvoiceIssuesDialog from '@/components/EInvoiceIssuesDialog';
+import EwayBillDialog from '@/components/EwayBillDialog';
+import { buildEInvoiceBatch, type EInvoiceBatch } from '@/lib/eInvoice';
+import { downloadJson, toFileSafe } from '@/lib/download';
+import { showToast } from '@/lib/toast';
+
+const paymentMethodLabels: Record<string, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  upi: 'UPI',
+  net_banking: 'Net Banking',
+  cheque: 'Cheque',
 };
 
-const buildMediaUrl = (path?: string | null) => {
-  if (!path) return '';
-  if (path.startsWith('http')) return path;
-  return `${getMediaBase()}${path}`;
-};
+// Printed until the company profile has its own declaration and terms
+const DEFAULT_DECLARATION = 'Certified that the particulars given above are true and correct and the amount indicated represents the price actually charged, with no additional consideration flowing directly or indirectly from the buyer.';
+
+const DEFAULT_INVOICE_TERMS = [
+  'Goods once sold will not be taken back or exchanged',
+  'Seller is not responsible for any loss or damage of goods in transit',
+  'Buyer undertakes to submit prescribed ST declaration to sender on demand',
+  'Disputes if any will be subject to seller court jurisdiction',
+].join('\n');
 
 export default function BillPage() {
   const params = useParams();
@@ -28,10 +46,19 @@ export default function BillPage() {
   const [profileLoaded, setProfileLoaded] = useState(false);
   const [logoLoaded, setLogoLoaded] = useState(false);
   const [logoError, setLogoError] = useState(false);
+  const [signatoryLoaded, setSignatoryLoaded] = useState(false);
+  const [signatoryError, setSignatoryError] = useState(false);
   const [autoPrintTriggered, setAutoPrintTriggered] = useState(false);
+  const [eInvoiceBatch, setEInvoiceBatch] = useState<EInvoiceBatch | null>(null);
+  const [showEwayBill, setShowEwayBill] = useState(false);
 
   const logoUrl = useMemo(() => buildMediaUrl(companyProfile?.logo || null), [companyProfile?.logo]);
   const logoReady = !logoUrl || logoLoaded || logoError;
+  const signatoryUrl = useMemo(
+    () => buildMediaUrl(companyProfile?.signatory_image || null),
+    [companyProfile?.signatory_image]
+  );
+  const signatoryReady = !signatoryUrl || signatoryLoaded || signatoryError;
 
   useEffect(() => {
     if (params.id) {
@@ -51,6 +78,11 @@ export default function BillPage() {
     setLogoError(false);
   }, [logoUrl]);
 
+  useEffect(() => {
+    setSignatoryLoaded(false);
+    setSignatoryError(false);
+  }, [signatoryUrl]);
+
   const fetchBill = async () => {
     try {
       const response = await salesAPI.invoice(Number(params.id));
@@ -92,8 +124,19 @@ export default function BillPage() {
     triggerPrint();
   };
 
+  const handleEInvoiceExport = () => {
+    if (!sale) return;
+    const batch = buildEInvoiceBatch([sale], companyProfile);
+    if (batch.invalid.length > 0) {
+      setEInvoiceBatch(batch);
+      return;
+    }
+    downloadJson(`einvoice-${toFileSafe(sale.invoice_number)}.json`, batch.payloads);
+    showToast.success('e-Invoice JSON downloaded');
+  };
+
   useEffect(() => {
-    if (!autoPrint || !sale || !profileLoaded || !logoReady || autoPrintTriggered) return;
+    if (!autoPrint || !sale || !profileLoaded || !logoReady || !signatoryReady || autoPrintTriggered) return;
     setAutoPrintTriggered(true);
 
     const timer = setTimeout(() => {
@@ -103,7 +146,7 @@ export default function BillPage() {
     return () => {
       clearTimeout(timer);
     };
-  }, [autoPrint, sale, profileLoaded, logoReady, autoPrintTriggered]);
+  }, [autoPrint, sale, profileLoaded, logoReady, signatoryReady, autoPrintTriggered]);
 
   if (loading) {
     return (
@@ -129,27 +172,102 @@ export default function BillPage() {
     );
   }
 
-  // Calculate CGST and SGST from total GST
-  const calculateGSTBreakdown = (item: any) => {
-    const totalGST = parseFloat(item.gst_amount);
-    const gstRate = parseFloat(item.gst_rate);
-    // Assuming domestic transaction, split GST equally into CGST and SGST
-    const cgst = totalGST / 2;
-    const sgst = totalGST / 2;
-    const cgstRate = gstRate / 2;
-    const sgstRate = gstRate / 2;
-    return { cgst, sgst, cgstRate, sgstRate };
-  };
+  const sellerStateCode = sale.shop_state_code || DEFAULT_STATE_CODE;
+  const buyerStateCode = resolveBuyerStateCode({
+    buyerStateCode: sale.state_code,
+    buyerGstin: sale.customer_gstin,
+  }) || sellerStateCode;
+  const taxSummary = computeTaxSummary(
+    (sale.items || []).map((item) => ({
+      amount: parseFloat(item.total_amount),
+      gstRate: parseFloat(item.gst_rate),
+      gstAmount: parseFloat(item.gst_amount),
+    })),
+    { sellerStateCode, buyerStateCode }
+  );
+  const isInterState = taxSummary.supplyType === 'inter_state';
+  const hsnSummary = summarizeByHsn(
+    (sale.items || []).map((item, index) => ({ hsnCode: item.hsn_code, tax: taxSummary.lines[index] }))
+  );
+
+  const grandTotal = parseFloat(sale.grand_total) || 0;
+  const { rounded: invoiceTotal, roundOff } = computeRoundOff(grandTotal);
+  const exchangeCredit = getSaleExchangeCredit(sale);
+  // Older sales carry no payment rows; treat a paid one as a single tender of whatever the credit note did not cover
+  const tenders = sale.payments && sale.payments.length > 0
+    ? sale.payments.map((payment) => ({
+      method: payment.payment_method,
+      amount: parseFloat(payment.amount) || 0,
+      reference: payment.reference_number,
+    }))
+    : sale.payment_status === 'paid' && grandTotal > exchangeCredit
+      ? [{ method: sale.payment_method, amount: invoiceTotal - exchangeCredit, reference: sale.payment_reference }]
+      : [];
+  // The bill is printed to the whole rupee, so what is owed is rounded the same way and paid is whatever that leaves
+  const { rounded: balanceDue } = computeRoundOff(getSaleBalance(sale));
+  const amountPaid = balanceDue > 0 ? invoiceTotal - balanceDue : Math.max(invoiceTotal, getSaleAmountPaid(sale));
 
   const shopContact = [
     sale.shop_phone ? `Phone: ${sale.shop_phone}` : null,
     sale.shop_email ? `Email: ${sale.shop_email}` : null,
   ].filter((value): value is string => Boolean(value)).join(' | ');
 
+  // A shop's own terms replace the company-wide ones
+  const invoiceTerms = (sale.shop_invoice_terms || companyProfile?.invoice_terms || DEFAULT_INVOICE_TERMS)
+    .split('\n')
+    .map((term) => term.trim())
+    .filter(Boolean);
+  const bankDetails = [
+    { label: 'Account Name', value: companyProfile?.bank_account_name },
+    { label: 'Bank', value: companyProfile?.bank_name },
+    { label: 'Account No', value: companyProfile?.bank_account_number },
+    { label: 'IFSC', value: companyProfile?.bank_ifsc },
+    { label: 'UPI ID', value: companyProfile?.upi_id },
+  ].filter((detail): detail is { label: string; value: string } => Boolean(detail.value));
+  const signingEntity = companyProfile?.legal_name || sale.shop_name || 'Shop';
+
+  // UPI sales and anything still owed get a QR the customer can scan to pay
+  const upiId = resolveUpiId(sale.shop_upi_id, companyProfile?.upi_id);
+  const upiTendered = tenders
+    .filter((tender) => tender.method === 'upi')
+    .reduce((sum, tender) => sum + tender.amount, 0);
+  const upiAmount = balanceDue > 0 ? balanceDue : upiTendered;
+  const upiPayment = upiId && upiAmount > 0
+    ? { vpa: upiId, payeeName: signingEntity, amount: upiAmount, note: `Invoice ${sale.invoice_number}` }
+    : null;
+
   return (
     <>
+      <EInvoiceIssuesDialog batch={eInvoiceBatch} onClose={() => setEInvoiceBatch(null)} />
+      <EwayBillDialog
+        isOpen={showEwayBill}
+        sale={sale}
+        profile={companyProfile}
+        onClose={() => setShowEwayBill(false)}
+      />
+
       {/* Print Controls - Hidden when printing */}
       <div className="no-print fixed top-4 right-4 z-50 flex items-center gap-3 rounded-2xl border border-slate-200/70 dark:border-white/10 bg-white/90 dark:bg-slate-900/80 px-4 py-3 shadow-xl backdrop-blur">
+        {sale.customer_gstin && (
+          <button
+            onClick={handleEInvoiceExport}
+            disabled={!profileLoaded}
+            title="Download the GST e-invoice JSON for the IRN portal"
+            className="inline-flex items-center gap-2 rounded-xl border border-slate-200 dark:border-white/20 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow transition hover:-translate-y-0.5 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-white/10"
+          >
+            <FiFileText />
+            e-Invoice JSON
+          </button>
+        )}
+        <button
+          onClick={() => setShowEwayBill(true)}
+          disabled={!profileLoaded}
+          title="Generate the e-way bill JSON for this dispatch"
+          className="inline-flex items-center gap-2 rounded-xl border border-slate-200 dark:border-white/20 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow transition hover:-translate-y-0.5 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-white/10"
+        >
+          <FiTruck />
+          e-Way Bill JSON
+        </button>
         <button
           onClick={handlePrint}
           className="inline-flex items-center gap-2 rounded-xl bg-emerald-600 px-4 py-2 text-sm font-semibold text-white shadow-lg transition hover:bg-emerald-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-400 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:focus-visible:ring-offset-slate-900"
@@ -195,6 +313,12 @@ export default function BillPage() {
                   {shopContact && (
                     <p className="text-[10px] text-slate-600 dark:text-slate-300">{shopContact}</p>
                   )}
+                  {companyProfile?.legal_name && (
+                    <p className="text-[10px] font-semibold text-slate-700 dark:text-slate-200">{companyProfile.legal_name}</p>
+                  )}
+                  {companyProfile?.registered_address && (
+                    <p className="text-[10px] text-slate-600 dark:text-slate-300">Regd. Office: {companyProfile.registered_address}</p>
+                  )}
                 </div>
               </div>
               <div className="text-right">
@@ -222,7 +346,7 @@ export default function BillPage() {
                   </tr>
                   <tr>
                     <td className="py-1 font-semibold">GST Number:</td>
-                    <td className="py-1">32EMRPK5012B1ZG</td>
+                    <td className="py-1">{companyProfile?.gstin || '-'}</td>
                   </tr>
                 </tbody>
               </table>
@@ -272,9 +396,9 @@ export default function BillPage() {
                   </tr>
                   <tr>
                     <td className="py-1 font-semibold">State:</td>
-                    <td className="py-1">Kerala</td>
+                    <td className="py-1">{getStateName(buyerStateCode) || '-'}</td>
                     <td className="py-1 font-semibold">State Code:</td>
-                    <td className="py-1">{sale.state_code || '32'}</td>
+                    <td className="py-1">{buyerStateCode}</td>
                   </tr>
                   <tr>
                     <td className="py-1 font-semibold">Mobile No:</td>
@@ -323,24 +447,32 @@ export default function BillPage() {
                   <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-right w-20">Unit Price</th>
                   <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-center w-20">Cash Discount</th>
                   <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-right w-24">Taxable Value</th>
-                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-center" colSpan={2}>CGST</th>
-                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-center" colSpan={2}>SGST</th>
+                  {isInterState ? (
+                    <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-center" colSpan={2}>IGST</th>
+                  ) : (
+                    <>
+                      <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-center" colSpan={2}>CGST</th>
+                      <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-center" colSpan={2}>SGST</th>
+                    </>
+                  )}
                   <th className="py-2 px-1 text-right w-24">Total</th>
                 </tr>
                 <tr className="bg-slate-100 dark:bg-slate-900 print:bg-gray-300 border-b border-slate-300 dark:border-slate-700 print:border-black text-[10px]">
                   <th colSpan={8} className="border-r border-slate-300 dark:border-slate-700 print:border-black"></th>
                   <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-center">%</th>
                   <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-center">Amt</th>
-                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-center">%</th>
-                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-center">Amt</th>
+                  {!isInterState && (
+                    <>
+                      <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-center">%</th>
+                      <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-center">Amt</th>
+                    </>
+                  )}
                   <th></th>
                 </tr>
               </thead>
               <tbody>
                 {sale.items && sale.items.map((item, index) => {
-                  const { cgst, sgst, cgstRate, sgstRate } = calculateGSTBreakdown(item);
-                  const taxableValue = parseFloat(item.total_amount) - parseFloat(item.gst_amount);
-                  const discountPerUnit = 0; // Can be calculated if needed
+                  const tax = taxSummary.lines[index];
 
                   return (
                     <tr key={index} className="border-b border-slate-200 dark:border-slate-700">
@@ -356,7 +488,7 @@ export default function BillPage() {
                           <div className="text-[10px] text-slate-600 dark:text-slate-300 font-medium">IMEI: {item.imei}</div>
                         )}
                       </td>
-                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">-</td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">{item.hsn_code || '-'}</td>
                       <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">{item.quantity}</td>
                       <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">Nos</td>
                       <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top">
@@ -364,20 +496,33 @@ export default function BillPage() {
                       </td>
                       <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">0</td>
                       <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top font-semibold">
-                        {taxableValue.toFixed(2)}
-                      </td>
-                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">
-                        {cgstRate.toFixed(2)}%
-                      </td>
-                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top">
-                        {cgst.toFixed(2)}
-                      </td>
-                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">
-                        {sgstRate.toFixed(2)}%
-                      </td>
-                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top">
-                        {sgst.toFixed(2)}
+                        {tax.taxableValue.toFixed(2)}
                       </td>
+                      {isInterState ? (
+                        <>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">
+                            {tax.igstRate.toFixed(2)}%
+                          </td>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top">
+                            {tax.igst.toFixed(2)}
+                          </td>
+                        </>
+                      ) : (
+                        <>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">
+                            {tax.cgstRate.toFixed(2)}%
+                          </td>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top">
+                            {tax.cgst.toFixed(2)}
+                          </td>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">
+                            {tax.sgstRate.toFixed(2)}%
+                          </td>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top">
+                            {tax.sgst.toFixed(2)}
+                          </td>
+                        </>
+                      )}
                       <td className="py-2 px-1 text-right align-top font-semibold">
                         {parseFloat(item.total_amount).toFixed(2)}
                       </td>
@@ -396,8 +541,12 @@ export default function BillPage() {
                   <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-right">0</td>
                   <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-center"></td>
                   <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-right">0</td>
-                  <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-center"></td>
-                  <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-right">0</td>
+                  {!isInterState && (
+                    <>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-center"></td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-right">0</td>
+                    </>
+                  )}
                   <td className="py-1 px-1 text-right">0</td>
                 </tr>
               </tbody>
@@ -406,12 +555,88 @@ export default function BillPage() {
 
           {/* Totals Section */}
           <div className="grid grid-cols-2 border-b border-slate-300 dark:border-slate-700 print:border-black">
-            <div className="border-r border-slate-300 dark:border-slate-700 print:border-black p-3">
-              {/* Left side can show additional info */}
+            <div className="border-r border-slate-300 dark:border-slate-700 print:border-black p-3 flex items-start gap-3">
+              <div className="flex-1">
+                <h3 className="font-bold text-sm mb-2">Payment Details</h3>
+                <table className="w-full text-[11px]">
+                  <tbody>
+                    {tenders.length === 0 && exchangeCredit <= 0 && (
+                      <tr>
+                        <td className="py-1" colSpan={2}>No payment received</td>
+                      </tr>
+                    )}
+                    {tenders.map((tender, index) => (
+                      <tr key={index}>
+                        <td className="py-1">
+                          <span className="font-semibold">{paymentMethodLabels[tender.method] || tender.method}</span>
+                          {tender.reference && (
+                            <span className="text-[10px] text-slate-600 dark:text-slate-300"> (Ref: {tender.reference})</span>
+                          )}
+                        </td>
+                        <td className="py-1 text-right w-24">Rs {tender.amount.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                    {exchangeCredit > 0 && (
+                      <tr>
+                        <td className="py-1">
+                          <span className="font-semibold">Credit Note</span>
+                          {sale.exchange_credit_note_number && (
+                            <span className="text-[10px] text-slate-600 dark:text-slate-300"> ({sale.exchange_credit_note_number})</span>
+                          )}
+                        </td>
+                        <td className="py-1 text-right w-24">Rs {exchangeCredit.toFixed(2)}</td>
+                      </tr>
+                    )}
+                    <tr className="border-t border-slate-200 dark:border-slate-700">
+                      <td className="py-1 font-semibold">Amount Paid:</td>
+                      <td className="py-1 text-right font-semibold">Rs {amountPaid.toFixed(2)}</td>
+                    </tr>
+                    {balanceDue > 0 && (
+                      <tr>
+                        <td className="py-1 font-semibold">Balance Due ({sale.payment_status.toUpperCase()}):</td>
+                        <td className="py-1 text-right font-semibold">Rs {balanceDue.toFixed(2)}</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              {upiPayment && (
+                <UpiQrCode
+                  payment={upiPayment}
+                  size={88}
+                  caption={balanceDue > 0 ? 'Scan to pay the balance' : 'Scan to pay with UPI'}
+                  className="w-28 flex-shrink-0"
+                />
+              )}
             </div>
             <div className="p-3">
               <table className="w-full text-[11px]">
                 <tbody>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="py-1"></td>
+                    <td className="py-1 text-right font-semibold">Taxable Value:</td>
+                    <td className="py-1 text-right w-24">Rs {taxSummary.taxableValue.toFixed(2)}</td>
+                  </tr>
+                  {isInterState ? (
+                    <tr className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="py-1"></td>
+                      <td className="py-1 text-right font-semibold">IGST:</td>
+                      <td className="py-1 text-right w-24">Rs {taxSummary.igst.toFixed(2)}</td>
+                    </tr>
+                  ) : (
+                    <>
+                      <tr className="border-b border-slate-200 dark:border-slate-700">
+                        <td className="py-1"></td>
+                        <td className="py-1 text-right font-semibold">CGST:</td>
+                        <td className="py-1 text-right w-24">Rs {taxSummary.cgst.toFixed(2)}</td>
+                      </tr>
+                      <tr className="border-b border-slate-200 dark:border-slate-700">
+                        <td className="py-1"></td>
+                        <td className="py-1 text-right font-semibold">SGST:</td>
+                        <td className="py-1 text-right w-24">Rs {taxSummary.sgst.toFixed(2)}</td>
+                      </tr>
+                    </>
+                  )}
                   {sale.discount && parseFloat(sale.discount) > 0 && (
                     <tr className="border-b border-slate-200 dark:border-slate-700">
                       <td className="py-1"></td>
@@ -435,11 +660,23 @@ export default function BillPage() {
                       Rs {sale.loading_charge ? parseFloat(sale.loading_charge).toFixed(2) : '0.00'}
                     </td>
                   </tr>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="py-1"></td>
+                    <td className="py-1 text-right font-semibold">Total:</td>
+                    <td className="py-1 text-right">Rs {grandTotal.toFixed(2)}</td>
+                  </tr>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="py-1"></td>
+                    <td className="py-1 text-right font-semibold">Round Off:</td>
+                    <td className="py-1 text-right">
+                      {roundOff < 0 ? '-' : '+'} Rs {Math.abs(roundOff).toFixed(2)}
+                    </td>
+                  </tr>
                   <tr className="border-b-2 border-slate-400 dark:border-slate-600 print:border-black">
                     <td className="py-2"></td>
                     <td className="py-2 text-right font-bold text-sm">Grand Total:</td>
                     <td className="py-2 text-right font-bold text-sm">
-                      Rs {parseFloat(sale.grand_total).toFixed(2)}
+                      Rs {invoiceTotal.toFixed(2)}
                     </td>
                   </tr>
                 </tbody>
@@ -447,30 +684,130 @@ export default function BillPage() {
             </div>
           </div>
 
-          {/* Terms and Conditions */}
-          <div className="border-b border-slate-300 dark:border-slate-700 print:border-black p-3">
-            <p className="text-[11px] font-semibold mb-2">
-              Certified that the Particulars given above are true and correct and the amount indicated
+          {/* Amount in Words */}
+          <div className="border-b border-slate-300 dark:border-slate-700 print:border-black px-3 py-2 text-[11px]">
+            <span className="font-semibold">Amount Chargeable (in words): </span>
+            <span className="italic">{amountInWords(invoiceTotal)}</span>
+          </div>
+
+          {/* HSN-wise Tax Summary */}
+          <div className="bill-keep-together border-b border-slate-300 dark:border-slate-700 print:border-black">
+            <table className="w-full text-[11px]">
+              <thead className="text-[10px] uppercase tracking-wide text-slate-700 dark:text-slate-200">
+                <tr className="bg-slate-100 dark:bg-slate-900 print:bg-gray-300 border-b border-slate-300 dark:border-slate-700 print:border-black">
+                  <th rowSpan={2} className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-2 text-left">HSN/SAC</th>
+                  <th rowSpan={2} className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-2 text-right w-28">Taxable Value</th>
+                  {isInterState ? (
+                    <th colSpan={2} className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-center">IGST</th>
+                  ) : (
+                    <>
+                      <th colSpan={2} className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-center">CGST</th>
+                      <th colSpan={2} className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-center">SGST</th>
+                    </>
+                  )}
+                  <th rowSpan={2} className="py-1 px-2 text-right w-28">Total Tax</th>
+                </tr>
+                <tr className="bg-slate-100 dark:bg-slate-900 print:bg-gray-300 border-b border-slate-300 dark:border-slate-700 print:border-black">
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-center w-14">Rate</th>
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-right w-24">Amt</th>
+                  {!isInterState && (
+                    <>
+                      <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-center w-14">Rate</th>
+                      <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-1 px-1 text-right w-24">Amt</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {hsnSummary.map((row) => (
+                  <tr key={`${row.hsnCode}-${row.gstRate}`} className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-2">{row.hsnCode || '-'}</td>
+                    <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-2 text-right">{row.taxableValue.toFixed(2)}</td>
+                    {isInterState ? (
+                      <>
+                        <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-center">{row.gstRate.toFixed(2)}%</td>
+                        <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-right">{row.igst.toFixed(2)}</td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-center">{(row.gstRate / 2).toFixed(2)}%</td>
+                        <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-right">{row.cgst.toFixed(2)}</td>
+                        <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-center">{(row.gstRate / 2).toFixed(2)}%</td>
+                        <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-right">{row.sgst.toFixed(2)}</td>
+                      </>
+                    )}
+                    <td className="py-1 px-2 text-right">{row.totalTax.toFixed(2)}</td>
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-2 text-right">Total</td>
+                  <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-2 text-right">{taxSummary.taxableValue.toFixed(2)}</td>
+                  {isInterState ? (
+                    <>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1"></td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-right">{taxSummary.igst.toFixed(2)}</td>
+                    </>
+                  ) : (
+                    <>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1"></td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-right">{taxSummary.cgst.toFixed(2)}</td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1"></td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-1 px-1 text-right">{taxSummary.sgst.toFixed(2)}</td>
+                    </>
+                  )}
+                  <td className="py-1 px-2 text-right">{taxSummary.totalTax.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+            <p className="px-3 py-1 text-[10px] text-slate-600 dark:text-slate-300 border-t border-slate-200 dark:border-slate-700">
+              Tax Amount (in words): <span className="italic">{amountInWords(taxSummary.totalTax)}</span>
             </p>
-            <ol className="text-[10px] space-y-0.5 list-decimal list-inside text-slate-700 dark:text-slate-300">
-              <li>
-                i) Represent the price actually charged and that there is no flow additional consideration directly or
-                indirectly from the buyer or
-              </li>
-              <li>ii) in provincial is said/some consideration directly or indirectly from the buyer</li>
-              <li className="font-semibold">Terms of Sale</li>
-              <li>1. Goods once sold will not be taken back or exchanged</li>
-              <li>2. Seller is not responsible for any loss or damaged of goods in transit</li>
-              <li>3. Buyer undertakes to submit prescribed ST declaration to sender on demand.</li>
-              <li>Disputed if any will be subject to seller court jurisdiction.</li>
-            </ol>
+          </div>
+
+          {/* Terms and Conditions */}
+          <div className={`bill-keep-together border-b border-slate-300 dark:border-slate-700 print:border-black ${bankDetails.length > 0 ? 'grid grid-cols-[1fr_auto]' : ''}`}>
+            <div className="p-3">
+              <p className="text-[11px] font-semibold mb-2">
+                {companyProfile?.declaration || DEFAULT_DECLARATION}
+              </p>
+              <p className="text-[10px] font-semibold">Terms of Sale</p>
+              <ol className="text-[10px] space-y-0.5 list-decimal list-inside text-slate-700 dark:text-slate-300">
+                {invoiceTerms.map((term, index) => (
+                  <li key={index}>{term}</li>
+                ))}
+              </ol>
+            </div>
+            {bankDetails.length > 0 && (
+              <div className="border-l border-slate-300 dark:border-slate-700 print:border-black p-3 min-w-[14rem]">
+                <h3 className="font-bold text-sm mb-2">Bank Details</h3>
+                <table className="text-[10px]">
+                  <tbody>
+                    {bankDetails.map((detail) => (
+                      <tr key={detail.label}>
+                        <td className="py-0.5 pr-2 font-semibold whitespace-nowrap">{detail.label}:</td>
+                        <td className="py-0.5">{detail.value}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
 
           {/* Signature Section */}
           <div className="p-4">
             <div className="flex justify-end">
               <div className="text-center">
-                <p className="text-sm font-semibold mb-8">For {sale.shop_name || 'Shop'}</p>
+                <p className={`text-sm font-semibold ${signatoryUrl && !signatoryError ? 'mb-1' : 'mb-8'}`}>For {signingEntity}</p>
+                {signatoryUrl && !signatoryError && (
+                  <img
+                    src={signatoryUrl}
+                    alt="Authorised signature"
+                    className="mx-auto mb-1 h-12 max-w-[10rem] object-contain"
+                    onLoad={() => setSignatoryLoaded(true)}
+                    onError={() => setSignatoryError(true)}
+                  />
+                )}
                 <div className="border-t border-slate-300 dark:border-slate-700 print:border-black pt-1">
                   <p className="text-xs font-semibold">Authorised Signatory</p>
                 </div>
@@ -504,6 +841,12 @@ export default function BillPage() {
             hyphens: none !important;
           }
 
+          /* Keep the HSN summary and the terms block each on one page */
+          .bill-keep-together {
+            break-inside: avoid;
+            page-break-inside: avoid;
+          }
+
           * {
             print-color-adjust: exact;
             -webkit-print-color-adjust: exact;
@@ -0,0 +1,437 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import { companyProfileAPI, saleReturnsAPI } from '@/lib/api';
+import type { CompanyProfile, SaleReturn } from '@/types';
+import { FiPrinter, FiX } from 'react-icons/fi';
+import { formatDate, formatDateTime } from '@/lib/date';
+import { computeTaxSummary, DEFAULT_STATE_CODE, getStateName, resolveBuyerStateCode } from '@/lib/tax';
+
+const refundMethodLabels: Record<string, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  upi: 'UPI',
+  net_banking: 'Net Banking',
+  cheque: 'Cheque',
+};
+
+export default function CreditNotePage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const autoPrint = searchParams?.get('autoprint') === '1';
+  const [creditNote, setCreditNote] = useState<SaleReturn | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [autoPrintTriggered, setAutoPrintTriggered] = useState(false);
+  const [companyProfile, setCompanyProfile] = useState<CompanyProfile | null>(null);
+  const [profileLoaded, setProfileLoaded] = useState(false);
+
+  useEffect(() => {
+    if (params.id) {
+      setLoading(true);
+      fetchCreditNote();
+    }
+  }, [params.id]);
+
+  useEffect(() => {
+    companyProfileAPI.get()
+      .then((response) => setCompanyProfile(response.data))
+      .catch((error) => console.error('Failed to fetch company profile:', error))
+      .finally(() => setProfileLoaded(true));
+  }, []);
+
+  const fetchCreditNote = async () => {
+    try {
+      const response = await saleReturnsAPI.creditNote(Number(params.id));
+      setCreditNote(response.data);
+    } catch (error) {
+      console.error('Failed to fetch credit note:', error);
+      setCreditNote(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const triggerPrint = (afterPrint?: () => void) => {
+    const originalTitle = document.title;
+    document.title = '';
+    const handleAfterPrint = () => {
+      document.title = originalTitle;
+      window.removeEventListener('afterprint', handleAfterPrint);
+      if (afterPrint) afterPrint();
+    };
+    window.addEventListener('afterprint', handleAfterPrint);
+    window.print();
+  };
+
+  useEffect(() => {
+    if (!autoPrint || !creditNote || !profileLoaded || autoPrintTriggered) return;
+    setAutoPrintTriggered(true);
+
+    const timer = setTimeout(() => {
+      triggerPrint(() => window.close());
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [autoPrint, creditNote, profileLoaded, autoPrintTriggered]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto"></div>
+          <p className="text-slate-600 dark:text-slate-400 mt-4">Loading credit note...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!creditNote) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-500 text-xl">Credit note not found</p>
+          <button onClick={() => window.close()} className="btn btn-primary mt-4">
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const sellerStateCode = creditNote.shop_state_code || DEFAULT_STATE_CODE;
+  const buyerStateCode = resolveBuyerStateCode({
+    buyerStateCode: creditNote.state_code,
+    buyerGstin: creditNote.customer_gstin,
+  }) || sellerStateCode;
+  const taxSummary = computeTaxSummary(
+    (creditNote.items || []).map((item) => ({
+      amount: parseFloat(item.total_amount),
+      gstRate: parseFloat(item.gst_rate),
+      gstAmount: parseFloat(item.gst_amount),
+    })),
+    { sellerStateCode, buyerStateCode }
+  );
+  const isInterState = taxSummary.supplyType === 'inter_state';
+
+  const shopContact = [
+    creditNote.shop_phone ? `Phone: ${creditNote.shop_phone}` : null,
+    creditNote.shop_email ? `Email: ${creditNote.shop_email}` : null,
+  ].filter((value): value is string => Boolean(value)).join(' | ');
+
+  return (
+    <>
+      {/* Print Controls - Hidden when printing */}
+      <div className="no-print fixed top-4 right-4 z-50 flex items-center gap-3 rounded-2xl border border-slate-200/70 dark:border-white/10 bg-white/90 dark:bg-slate-900/80 px-4 py-3 shadow-xl backdrop-blur">
+        <button
+          onClick={() => triggerPrint()}
+          className="inline-flex items-center gap-2 rounded-xl bg-emerald-600 px-4 py-2 text-sm font-semibold text-white shadow-lg transition hover:bg-emerald-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-400 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:focus-visible:ring-offset-slate-900"
+        >
+          <FiPrinter />
+          Print Credit Note
+        </button>
+        <button
+          onClick={() => window.close()}
+          className="inline-flex items-center gap-2 rounded-xl border border-slate-200 dark:border-white/20 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow transition hover:-translate-y-0.5 hover:bg-slate-100 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-white/10"
+        >
+          <FiX />
+          Close
+        </button>
+      </div>
+
+      {/* Credit Note Container */}
+      <div className="min-h-screen bg-gradient-to-br from-slate-100 via-white to-amber-50 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950 p-6 sm:p-8 print:p-0 print:bg-white print:min-h-0">
+        <div className="max-w-[210mm] mx-auto rounded-2xl bg-white dark:bg-slate-950 border border-slate-300 dark:border-slate-700 print:border print:border-black shadow-2xl print:shadow-none bill-text print:rounded-none">
+          {/* Header */}
+          <div className="border-b border-slate-300 dark:border-slate-700 print:border-black p-4">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-semibold tracking-wide text-slate-900 dark:text-slate-100">
+                  {creditNote.shop_name || 'Shop'}
+                </h1>
+                {creditNote.shop_address && (
+                  <p className="text-[11px] text-slate-600 dark:text-slate-300">{creditNote.shop_address}</p>
+                )}
+                {shopContact && (
+                  <p className="text-[10px] text-slate-600 dark:text-slate-300">{shopContact}</p>
+                )}
+              </div>
+              <div className="text-right">
+                <h2 className="text-sm font-semibold uppercase tracking-wider border border-slate-300 dark:border-slate-600 print:border-black px-4 py-1 text-slate-900 dark:text-slate-100">
+                  Credit Note
+                </h2>
+                <p className="text-[10px] mt-1 text-slate-600 dark:text-slate-300">(Original for Recipient)</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Credit Note Info & Customer Details */}
+          <div className="grid grid-cols-2 border-b border-slate-300 dark:border-slate-700 print:border-black">
+            <div className="border-r border-slate-300 dark:border-slate-700 print:border-black p-3">
+              <table className="w-full text-[11px]">
+                <tbody>
+                  <tr>
+                    <td className="py-1 font-semibold w-36">Credit Note Number:</td>
+                    <td className="py-1">{creditNote.credit_note_number}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 font-semibold">Credit Note Date:</td>
+                    <td className="py-1">{formatDateTime(creditNote.created_at)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 font-semibold">Original Invoice:</td>
+                    <td className="py-1">{creditNote.invoice_number || '-'}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 font-semibold">Invoice Date:</td>
+                    <td className="py-1">{creditNote.invoice_date ? formatDate(creditNote.invoice_date) : '-'}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 font-semibold">GST Number:</td>
+                    <td className="py-1">{companyProfile?.gstin || '-'}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-3">
+              <h3 className="font-bold text-sm mb-2">Details of Receiver</h3>
+              <table className="w-full text-[11px]">
+                <tbody>
+                  <tr>
+                    <td className="py-1 font-semibold w-24">Name:</td>
+                    <td className="py-1">{creditNote.customer_name || 'Walk-in Customer'}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 font-semibold">Address:</td>
+                    <td className="py-1 break-words whitespace-normal">{creditNote.customer_address || '-'}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 font-semibold">State:</td>
+                    <td className="py-1">
+                      {getStateName(buyerStateCode) || '-'} ({buyerStateCode})
+                    </td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 font-semibold">Mobile No:</td>
+                    <td className="py-1">{creditNote.customer_phone || '-'}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 font-semibold">GST NO:</td>
+                    <td className="py-1">{creditNote.customer_gstin || '-'}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Items Table */}
+          <div className="border-b border-slate-300 dark:border-slate-700 print:border-black">
+            <table className="w-full text-[11px]">
+              <thead className="text-[10px] uppercase tracking-wide text-slate-700 dark:text-slate-200">
+                <tr className="bg-slate-100 dark:bg-slate-900 print:bg-gray-300 border-b border-slate-300 dark:border-slate-700 print:border-black">
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-2 text-center w-12">Sl.No</th>
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-2 text-left">Description of Goods Returned</th>
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-center w-16">HSN Code</th>
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-center w-12">Qty</th>
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-right w-20">Unit Price</th>
+                  <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-right w-24">Taxable Value</th>
+                  {isInterState ? (
+                    <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-center" colSpan={2}>IGST</th>
+                  ) : (
+                    <>
+                      <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-center" colSpan={2}>CGST</th>
+                      <th className="border-r border-slate-300 dark:border-slate-700 print:border-black py-2 px-1 text-center" colSpan={2}>SGST</th>
+                    </>
+                  )}
+                  <th className="py-2 px-1 text-right w-24">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(creditNote.items || []).map((item, index) => {
+                  const tax = taxSummary.lines[index];
+
+                  return (
+                    <tr key={item.id} className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-2 text-center align-top">{index + 1}</td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-2 align-top break-normal whitespace-normal hyphens-none">
+                        <div className="font-semibold">{item.product_name}</div>
+                        {item.imei && (
+                          <div className="text-[10px] text-slate-600 dark:text-slate-300 font-medium">IMEI: {item.imei}</div>
+                        )}
+                        {item.restock_action === 'damaged' && (
+                          <div className="text-[10px] text-slate-600 dark:text-slate-300">Returned damaged</div>
+                        )}
+                      </td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">{item.hsn_code || '-'}</td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">{item.quantity}</td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top">
+                        {parseFloat(item.unit_price).toFixed(2)}
+                      </td>
+                      <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top font-semibold">
+                        {tax.taxableValue.toFixed(2)}
+                      </td>
+                      {isInterState ? (
+                        <>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">
+                            {tax.igstRate.toFixed(2)}%
+                          </td>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top">
+                            {tax.igst.toFixed(2)}
+                          </td>
+                        </>
+                      ) : (
+                        <>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">
+                            {tax.cgstRate.toFixed(2)}%
+                          </td>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top">
+                            {tax.cgst.toFixed(2)}
+                          </td>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-center align-top">
+                            {tax.sgstRate.toFixed(2)}%
+                          </td>
+                          <td className="border-r border-slate-200 dark:border-slate-700 py-2 px-1 text-right align-top">
+                            {tax.sgst.toFixed(2)}
+                          </td>
+                        </>
+                      )}
+                      <td className="py-2 px-1 text-right align-top font-semibold">
+                        {parseFloat(item.total_amount).toFixed(2)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Totals Section */}
+          <div className="grid grid-cols-2 border-b border-slate-300 dark:border-slate-700 print:border-black">
+            <div className="border-r border-slate-300 dark:border-slate-700 print:border-black p-3 text-[11px] space-y-1">
+              <p>
+                <span className="font-semibold">Resolution: </span>
+                {creditNote.resolution === 'exchange' ? 'Exchange against new purchase' : 'Refund'}
+              </p>
+              {creditNote.resolution === 'refund' && creditNote.refund_method && (
+                <p>
+                  <span className="font-semibold">Refunded via: </span>
+                  {refundMethodLabels[creditNote.refund_method] || creditNote.refund_method}
+                  {creditNote.refund_reference ? ` (${creditNote.refund_reference})` : ''}
+                </p>
+              )}
+              {creditNote.reason && (
+                <p>
+                  <span className="font-semibold">Reason: </span>
+                  {creditNote.reason}
+                </p>
+              )}
+            </div>
+            <div className="p-3">
+              <table className="w-full text-[11px]">
+                <tbody>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="py-1 text-right font-semibold">Taxable Value:</td>
+                    <td className="py-1 text-right w-24">Rs {taxSummary.taxableValue.toFixed(2)}</td>
+                  </tr>
+                  {isInterState ? (
+                    <tr className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="py-1 text-right font-semibold">IGST:</td>
+                      <td className="py-1 text-right w-24">Rs {taxSummary.igst.toFixed(2)}</td>
+                    </tr>
+                  ) : (
+                    <>
+                      <tr className="border-b border-slate-200 dark:border-slate-700">
+                        <td className="py-1 text-right font-semibold">CGST:</td>
+                        <td className="py-1 text-right w-24">Rs {taxSummary.cgst.toFixed(2)}</td>
+                      </tr>
+                      <tr className="border-b border-slate-200 dark:border-slate-700">
+                        <td className="py-1 text-right font-semibold">SGST:</td>
+                        <td className="py-1 text-right w-24">Rs {taxSummary.sgst.toFixed(2)}</td>
+                      </tr>
+                    </>
+                  )}
+                  <tr className="border-b-2 border-slate-400 dark:border-slate-600 print:border-black">
+                    <td className="py-2 text-right font-bold text-sm">Total Credit:</td>
+                    <td className="py-2 text-right font-bold text-sm">
+                      Rs {parseFloat(creditNote.total_amount).toFixed(2)}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Signature Section */}
+          <div className="p-4">
+            <div className="flex justify-between items-end">
+              <p className="text-[10px] text-slate-600 dark:text-slate-300">
+                Issued by {creditNote.created_by_name || '-'}
+              </p>
+              <div className="text-center">
+                <p className="text-sm font-semibold mb-8">For {creditNote.shop_name || 'Shop'}</p>
+                <div className="border-t border-slate-300 dark:border-slate-700 print:border-black pt-1">
+                  <p className="text-xs font-semibold">Authorised Signatory</p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Print Styles */}
+      <style jsx global>{`
+        @media print {
+          .no-print {
+            display: none !important;
+          }
+
+          html, body {
+            background: white !important;
+            margin: 0 !important;
+            padding: 0 !important;
+            width: 210mm !important;
+            height: auto !important;
+            overflow: visible !important;
+          }
+
+          * {
+            print-color-adjust: exact;
+            -webkit-print-color-adjust: exact;
+            overflow: visible !important;
+          }
+
+          .min-h-screen {
+            min-height: 0 !important;
+            height: auto !important;
+          }
+
+          .max-w-\\[210mm\\] {
+            max-width: 100% !important;
+            margin: 0 !important;
+            border: 1px solid black !important;
+          }
+
+          @page {
+            margin: 10mm;
+            size: A4 portrait;
+          }
+        }
+
+        .bill-text {
+          font-family: "Times New Roman", Times, serif;
+          font-size: 11px;
+          line-height: 1.4;
+          font-variant-numeric: tabular-nums;
+          color: #111827;
+        }
+
+        .dark .bill-text {
+          color: #e2e8f0;
+        }
+      `}</style>
+    </>
+  );
+}
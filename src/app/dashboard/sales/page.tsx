@@ -1,44 +1,71 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
-import { salesAPI } from '@/lib/api';
-import type { Sale } from '@/types';
-import { FiEye, FiPrinter, FiCalendar, FiDollarSign, FiTrendingUp, FiShoppingBag, FiX } from 'react-icons/fi';
+import { useState } from 'react';
+import { companyProfileAPI, salesAPI } from '@/lib/api';
+import type { Sale, SaleReturn } from '@/types';
+import { FiEye, FiPrinter, FiCalendar, FiDollarSign, FiTrendingUp, FiShoppingBag, FiX, FiRotateCcw, FiChevronUp, FiChevronDown, FiFileText } from 'react-icons/fi';
 import TableSearchBar from '@/components/TableSearchBar';
+import TablePagination from '@/components/TablePagination';
+import SaleReturnModal from '@/components/SaleReturnModal';
+import EInvoiceIssuesDialog from '@/components/EInvoiceIssuesDialog';
 import { useAutoRefresh } from '@/hooks/useAutoRefresh';
-import { formatDate, formatTime } from '@/lib/date';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
+import { formatDate, formatTime, toDateInputValue } from '@/lib/date';
 import FullScreenLoader from '@/components/FullScreenLoader';
 import { showToast } from '@/lib/toast';
+import { buildEInvoiceBatch, type EInvoiceBatch } from '@/lib/eInvoice';
+import { downloadJson, toFileSafe } from '@/lib/download';
+
+// The report endpoint aggregates on the server, so the summary covers every sale, not just this page
+const ALL_TIME_START = '2000-01-01';
+// Invoice details are fetched a few at a time so a month-long export does not flood the backend
+const INVOICE_FETCH_BATCH = 5;
 
 export default function SalesPage() {
-  const [sales, setSales] = useState<Sale[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(25);
+  const [paymentStatus, setPaymentStatus] = useState<'' | Sale['payment_status']>('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [showReport, setShowReport] = useState(false);
   const [reportData, setReportData] = useState<any>(null);
+  const [returnSaleId, setReturnSaleId] = useState<number | null>(null);
+  const [eInvoiceBatch, setEInvoiceBatch] = useState<EInvoiceBatch | null>(null);
+  const [eInvoiceFileName, setEInvoiceFileName] = useState('');
+  const [exportingEInvoices, setExportingEInvoices] = useState(false);
 
-  useEffect(() => {
-    fetchSales();
-  }, []);
+  const debouncedSearch = useDebouncedValue(searchTerm);
+  const {
+    items: sales,
+    count,
+    page,
+    pageSize,
+    totalPages,
+    rangeStart,
+    rangeEnd,
+    ordering,
+    setPage,
+    setPageSize,
+    toggleOrdering,
+    isLoading: loading,
+    isValidating,
+    refresh,
+  } = usePaginatedList<Sale>('sales', salesAPI.listPage, {
+    tags: ['sales'],
+    filters: { search: debouncedSearch, payment_status: paymentStatus },
+    initialOrdering: '-sale_date',
+  });
 
-  const fetchSales = async () => {
-    try {
-      const response = await salesAPI.list(searchTerm);
-      setSales(response.data);
-    } catch (error) {
-      console.error('Failed to fetch sales:', error);
-      setSales([]);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: summaryReport, refresh: refreshSummary } = useCachedQuery(
+    'sales-summary',
+    () => salesAPI.salesReport({ start_date: ALL_TIME_START, end_date: toDateInputValue(new Date()) }).then((response) => response.data),
+    { tags: ['sales'] }
+  );
 
   useAutoRefresh(() => {
-    fetchSales();
+    refresh();
+    refreshSummary();
   });
 
   const fetchSalesReport = async () => {
@@ -60,27 +87,65 @@ export default function SalesPage() {
     }
   };
 
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      fetchSales();
-    }, 300);
-    return () => clearTimeout(timer);
-  }, [searchTerm]);
-
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, pageSize]);
-
-  const salesSummary = useMemo(() => {
-    const totalSales = sales.length;
-    const totalRevenue = sales.reduce((sum, sale) => (
-      sum + Number.parseFloat(sale.grand_total || '0')
-    ), 0);
-    const totalProfit = sales.reduce((sum, sale) => (
-      sum + (sale.items || []).reduce((itemSum, item) => (
-        itemSum + Number.parseFloat(item.total_profit || '0')
-      ), 0)
-    ), 0);
+  // Invoices that pass download straight away; otherwise the dialog lists what the portal would reject
+  const exportEInvoices = async (salesToExport: Sale[], fileName: string) => {
+    setExportingEInvoices(true);
+    try {
+      const profile = await companyProfileAPI.get();
+      // List rows may leave out line items, so build each payload from the full invoice
+      const invoices: Sale[] = [];
+      for (let start = 0; start < salesToExport.length; start += INVOICE_FETCH_BATCH) {
+        const responses = await Promise.all(
+          salesToExport.slice(start, start + INVOICE_FETCH_BATCH).map((sale) => salesAPI.invoice(sale.id))
+        );
+        invoices.push(...responses.map((response) => response.data));
+      }
+      const batch = buildEInvoiceBatch(invoices, profile.data);
+      if (batch.invalid.length > 0) {
+        setEInvoiceFileName(fileName);
+        setEInvoiceBatch(batch);
+        return;
+      }
+      downloadJson(fileName, batch.payloads);
+      showToast.success(`${batch.payloads.length} e-invoice${batch.payloads.length === 1 ? '' : 's'} exported`);
+    } catch (error) {
+      console.error('Failed to export e-invoices:', error);
+      showToast.error('Failed to export e-invoices');
+    } finally {
+      setExportingEInvoices(false);
+    }
+  };
+
+  const handleBulkEInvoiceExport = async () => {
+    if (!startDate || !endDate) {
+      showToast.info('Please select both start and end dates');
+      return;
+    }
+
+    try {
+      const b2bSales = await salesAPI.b2bSales({ start_date: startDate, end_date: endDate });
+      if (b2bSales.length === 0) {
+        showToast.info('No sales to GST-registered customers in this period');
+        return;
+      }
+      await exportEInvoices(b2bSales, `einvoices-${startDate}-to-${endDate}.json`);
+    } catch (error) {
+      console.error('Failed to fetch B2B sales:', error);
+      showToast.error('Failed to export e-invoices');
+    }
+  };
+
+  const handleDownloadReadyEInvoices = () => {
+    if (!eInvoiceBatch) return;
+    downloadJson(eInvoiceFileName, eInvoiceBatch.payloads);
+    showToast.success(`${eInvoiceBatch.payloads.length} e-invoice${eInvoiceBatch.payloads.length === 1 ? '' : 's'} exported`);
+    setEInvoiceBatch(null);
+  };
+
+  const salesSummary = (() => {
+    const totalSales = summaryReport?.total_sales ?? 0;
+    const totalRevenue = Number.parseFloat(summaryReport?.total_revenue || '0');
+    const totalProfit = Number.parseFloat(summaryReport?.total_profit || '0');
     const avgSaleValue = totalSales > 0 ? totalRevenue / totalSales : 0;
 
     return {
@@ -89,24 +154,30 @@ export default function SalesPage() {
       totalProfit,
       avgSaleValue,
     };
-  }, [sales]);
+  })();
+
+  const sortIcon = (field: string) => {
+    if (ordering === field) return <FiChevronUp className="inline" size={12} />;
+    if (ordering === `-${field}`) return <FiChevronDown className="inline" size={12} />;
+    return null;
+  };
 
   const handleViewInvoice = (saleId: number) => {
     window.open(`/dashboard/sales/${saleId}`, '_blank');
   };
 
-  const totalDisplayCount = sales.length;
-  const totalPages = Math.max(1, Math.ceil(totalDisplayCount / pageSize));
-  const pageStart = totalDisplayCount === 0 ? 0 : (currentPage - 1) * pageSize;
-  const pageEnd = Math.min(pageStart + pageSize, totalDisplayCount);
-  const pageLabelStart = totalDisplayCount === 0 ? 0 : pageStart + 1;
-  const paginatedSales = sales.slice(pageStart, pageEnd);
-
-  useEffect(() => {
-    if (currentPage > totalPages) {
-      setCurrentPage(totalPages);
+  const handleReturned = (saleReturn: SaleReturn) => {
+    setReturnSaleId(null);
+    window.open(`/dashboard/sales/credit-notes/${saleReturn.id}?autoprint=1`, '_blank');
+    if (saleReturn.resolution === 'exchange') {
+      window.location.href = `/dashboard/pos?exchange=${saleReturn.id}`;
     }
-  }, [currentPage, totalPages]);
+  };
+
+  const isFullyReturned = (sale: Sale) => (
+    (sale.items || []).length > 0
+    && (sale.items || []).every((item) => (item.returned_quantity || 0) >= item.quantity)
+  );
 
   if (loading) {
     return <FullScreenLoader label="Loading sales" />;
@@ -180,7 +251,7 @@ export default function SalesPage() {
       {/* Sales Report Generator */}
       <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
         <h2 className="text-xl font-semibold mb-4">Generate Sales Report</h2>
-        <div className="grid grid-cols-3 gap-4">
+        <div className="grid grid-cols-4 gap-4">
           <div>
             <label htmlFor="startDate" className="block text-sm font-medium mb-1">Start Date</label>
             <input id="startDate" name="startDate"
@@ -207,6 +278,17 @@ export default function SalesPage() {
               Generate Report
             </button>
           </div>
+          <div className="flex items-end">
+            <button
+              onClick={handleBulkEInvoiceExport}
+              disabled={exportingEInvoices}
+              className="btn btn-secondary w-full inline-flex items-center justify-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+              title="GST e-invoice JSON for every B2B sale in the period"
+            >
+              <FiFileText />
+              {exportingEInvoices ? 'Exporting...' : 'Export e-Invoices'}
+            </button>
+          </div>
         </div>
       </div>
 
@@ -299,29 +381,50 @@ export default function SalesPage() {
 
       {/* Sales Table */}
       <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
-        <div className="mb-4">
+        <div className="mb-4 flex flex-wrap items-center gap-3">
           <TableSearchBar
+            className="min-w-[240px] flex-1"
             onSearch={setSearchTerm}
             placeholder="Search sales by invoice number, customer name, phone..."
           />
+          <select
+            id="salesPaymentStatus"
+            name="salesPaymentStatus"
+            className="input w-auto"
+            value={paymentStatus}
+            onChange={(e) => setPaymentStatus(e.target.value as typeof paymentStatus)}
+          >
+            <option value="">All payment statuses</option>
+            <option value="paid">Paid</option>
+            <option value="partial">Partial</option>
+            <option value="unpaid">Unpaid</option>
+          </select>
         </div>
         <div className="overflow-x-auto scrollbar-hide rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent">
           <table className="table table-frost">
             <thead>
               <tr>
                 <th>Invoice #</th>
-                <th>Date & Time</th>
+                <th>
+                  <button type="button" className="inline-flex items-center gap-1" onClick={() => toggleOrdering('sale_date')}>
+                    Date & Time {sortIcon('sale_date')}
+                  </button>
+                </th>
                 <th>Customer</th>
                 <th>Items</th>
                 <th>Payment Method</th>
-                <th>Grand Total</th>
+                <th>
+                  <button type="button" className="inline-flex items-center gap-1" onClick={() => toggleOrdering('grand_total')}>
+                    Grand Total {sortIcon('grand_total')}
+                  </button>
+                </th>
                 <th>Status</th>
                 <th>Sold By</th>
                 <th>Actions</th>
               </tr>
             </thead>
             <tbody>
-              {paginatedSales.map((sale) => (
+              {sales.map((sale) => (
                 <tr key={sale.id}>
                   <td className="font-medium">{sale.invoice_number}</td>
                   <td>
@@ -375,6 +478,26 @@ export default function SalesPage() {
                         <FiPrinter size={14} />
                         Print
                       </button>
+                      {sale.customer_gstin && (
+                        <button
+                          onClick={() => exportEInvoices([sale], `einvoice-${toFileSafe(sale.invoice_number)}.json`)}
+                          disabled={exportingEInvoices}
+                          className="inline-flex items-center gap-2 rounded-full border border-sky-400 dark:border-sky-400/30 bg-sky-100 dark:bg-sky-500/15 px-3 py-1 text-xs font-semibold text-sky-700 dark:text-sky-200 transition hover:bg-sky-200 dark:hover:bg-sky-500/25 disabled:cursor-not-allowed disabled:opacity-50"
+                          title="Download GST e-invoice JSON"
+                        >
+                          <FiFileText size={14} />
+                          e-Invoice
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setReturnSaleId(sale.id)}
+                        disabled={isFullyReturned(sale)}
+                        className="inline-flex items-center gap-2 rounded-full border border-amber-400 dark:border-amber-400/30 bg-amber-100 dark:bg-amber-500/15 px-3 py-1 text-xs font-semibold text-amber-700 dark:text-amber-200 transition hover:bg-amber-200 dark:hover:bg-amber-500/25 disabled:cursor-not-allowed disabled:opacity-50"
+                        title={isFullyReturned(sale) ? 'All items already returned' : 'Return / Exchange'}
+                      >
+                        <FiRotateCcw size={14} />
+                        Return
+                      </button>
                     </div>
                   </td>
                 </tr>
@@ -382,58 +505,39 @@ export default function SalesPage() {
             </tbody>
           </table>
 
-          {totalDisplayCount === 0 && (
+          {count === 0 && (
             <div className="text-center py-12 text-slate-600 dark:text-slate-400">
-              No sales found. Create your first sale from the POS page.
+              {debouncedSearch || paymentStatus
+                ? 'No sales match your search.'
+                : 'No sales found. Create your first sale from the POS page.'}
             </div>
           )}
         </div>
 
-        {totalDisplayCount > 0 && (
-          <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
-            <span className="text-xs text-slate-600 dark:text-slate-400">
-              Showing {pageLabelStart}-{pageEnd} of {totalDisplayCount} rows
-            </span>
-            <div className="flex flex-wrap items-center gap-3">
-              <div className="flex items-center gap-2">
-                <span className="text-xs uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 whitespace-nowrap">Per page</span>
-                <select
-                  id="pageSize"
-                  className="input h-9 py-1.5 min-w-[90px] leading-tight"
-                  value={pageSize}
-                  onChange={(e) => setPageSize(Number(e.target.value))}
-                >
-                  <option value={10}>10</option>
-                  <option value={25}>25</option>
-                  <option value={50}>50</option>
-                  <option value={100}>100</option>
-                </select>
-              </div>
-              <div className="flex items-center gap-2">
-                <button
-                  type="button"
-                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
-                  onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
-                  disabled={currentPage === 1}
-                >
-                  Prev
-                </button>
-                <span className="text-xs text-slate-500 dark:text-slate-400">
-                  Page {currentPage} of {totalPages}
-                </span>
-                <button
-                  type="button"
-                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
-                  onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
-                  disabled={currentPage >= totalPages}
-                >
-                  Next
-                </button>
-              </div>
-            </div>
-          </div>
-        )}
+        <TablePagination
+          page={page}
+          totalPages={totalPages}
+          pageSize={pageSize}
+          count={count}
+          rangeStart={rangeStart}
+          rangeEnd={rangeEnd}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+          loading={isValidating}
+        />
       </div>
+
+      <SaleReturnModal
+        saleId={returnSaleId}
+        onClose={() => setReturnSaleId(null)}
+        onReturned={handleReturned}
+      />
+
+      <EInvoiceIssuesDialog
+        batch={eInvoiceBatch}
+        onDownload={handleDownloadReadyEInvoices}
+        onClose={() => setEInvoiceBatch(null)}
+      />
     </div>
   );
 }
@@ -5,51 +5,60 @@ import { companyProfileAPI, shopsAPI } from '@/lib/api';
 import type { CompanyProfile, Shop } from '@/types';
 import { useAuth } from '@/context/AuthContext';
 import { showToast } from '@/lib/toast';
+import { buildMediaUrl } from '@/lib/config';
+import { validateGSTIN } from '@/lib/tax';
+import { isValidUpiId } from '@/lib/upi';
 import FullScreenLoader from '@/components/FullScreenLoader';
-import { FiUploadCloud, FiSave, FiRefreshCcw, FiImage, FiMail, FiPhone } from 'react-icons/fi';
+import { FiUploadCloud, FiSave, FiRefreshCcw, FiImage, FiMail, FiPhone, FiFileText, FiTrash } from 'react-icons/fi';
 
-const getMediaBase = () => {
-  const apiUrl = '/api';
-  return apiUrl.replace(/\/api\/?$/, '');
-};
+type BrandingField =
+  | 'legal_name'
+  | 'gstin'
+  | 'registered_address'
+  | 'bank_name'
+  | 'bank_account_name'
+  | 'bank_account_number'
+  | 'bank_ifsc'
+  | 'upi_id'
+  | 'invoice_terms'
+  | 'declaration';
 
-const buildMediaUrl = (path?: string | null) => {
-  if (!path) return '';
-  if (path.startsWith('http')) return path;
-  return `${getMediaBase()}${path}`;
-};
+const BRANDING_FIELDS: Array<{ key: BrandingField; label: string; placeholder?: string; multiline?: boolean }> = [
+  { key: 'legal_name', label: 'Legal name', placeholder: 'Registered business name' },
+  { key: 'gstin', label: 'GSTIN', placeholder: '32ABCDE1234F1Z5' },
+  { key: 'registered_address', label: 'Registered address', multiline: true },
+  { key: 'bank_name', label: 'Bank and branch' },
+  { key: 'bank_account_name', label: 'Account holder' },
+  { key: 'bank_account_number', label: 'Account number' },
+  { key: 'bank_ifsc', label: 'IFSC', placeholder: 'SBIN0001234' },
+  { key: 'upi_id', label: 'UPI ID', placeholder: 'business@bank' },
+  { key: 'invoice_terms', label: 'Terms and conditions', placeholder: 'One term per line', multiline: true },
+  { key: 'declaration', label: 'Declaration', multiline: true },
+];
+
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+const brandingFormOf = (profile: CompanyProfile | null) =>
+  Object.fromEntries(BRANDING_FIELDS.map(({ key }) => [key, profile?.[key] || ''])) as Record<BrandingField, string>;
 
 export default function SettingsPage() {
   const { user } = useAuth();
-  const normalizeRole = (role: unknown): string => {
-    if (!role) return '';
-    if (typeof role === 'string') {
-      const normalized = role.trim().toLowerCase().replace(/[-\s]+/g, '_');
-      return normalized === 'superadmin' ? 'super_admin' : normalized;
-    }
-    if (typeof role === 'object') {
-      const roleObj = role as { name?: string; value?: string; slug?: string };
-      return normalizeRole(roleObj.value ?? roleObj.slug ?? roleObj.name ?? '');
-    }
-    return '';
-  };
-  const userRole = normalizeRole(user?.role);
-  const isAdmin = userRole === 'admin' || userRole === 'super_admin';
   const [loading, setLoading] = useState(true);
   const [companyProfile, setCompanyProfile] = useState<CompanyProfile | null>(null);
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [logoPreview, setLogoPreview] = useState<string | null>(null);
   const [shops, setShops] = useState<Shop[]>([]);
-  const [shopEdits, setShopEdits] = useState<Record<number, { phone: string; email: string }>>({});
+  const [shopEdits, setShopEdits] = useState<Record<number, { phone: string; email: string; upi_id: string; invoice_terms: string }>>({});
   const [savingLogo, setSavingLogo] = useState(false);
+  const [brandingForm, setBrandingForm] = useState<Record<BrandingField, string>>(brandingFormOf(null));
+  const [signatoryFile, setSignatoryFile] = useState<File | null>(null);
+  const [signatoryPreview, setSignatoryPreview] = useState<string | null>(null);
+  const [removeSignatory, setRemoveSignatory] = useState(false);
+  const [savingBranding, setSavingBranding] = useState(false);
   const [savingShopId, setSavingShopId] = useState<number | null>(null);
 
   useEffect(() => {
     if (!user) return;
-    if (!isAdmin) {
-      setLoading(false);
-      return;
-    }
 
     const fetchData = async () => {
       try {
@@ -58,11 +67,12 @@ export default function SettingsPage() {
           shopsAPI.list(),
         ]);
         setCompanyProfile(companyResponse.data);
+        setBrandingForm(brandingFormOf(companyResponse.data));
         setShops(shopsResponse.data);
         const initialEdits = Object.fromEntries(
           shopsResponse.data.map((shop) => [
             shop.id,
-            { phone: shop.phone || '', email: shop.email || '' },
+            { phone: shop.phone || '', email: shop.email || '', upi_id: shop.upi_id || '', invoice_terms: shop.invoice_terms || '' },
           ])
         );
         setShopEdits(initialEdits);
@@ -75,7 +85,7 @@ export default function SettingsPage() {
     };
 
     fetchData();
-  }, [isAdmin, user]);
+  }, [user]);
 
   useEffect(() => {
     return () => {
@@ -85,11 +95,25 @@ export default function SettingsPage() {
     };
   }, [logoPreview]);
 
+  useEffect(() => {
+    return () => {
+      if (signatoryPreview) {
+        URL.revokeObjectURL(signatoryPreview);
+      }
+    };
+  }, [signatoryPreview]);
+
   const logoUrl = useMemo(() => {
     if (logoPreview) return logoPreview;
     return buildMediaUrl(companyProfile?.logo || null);
   }, [companyProfile?.logo, logoPreview]);
 
+  const signatoryUrl = useMemo(() => {
+    if (signatoryPreview) return signatoryPreview;
+    if (removeSignatory) return null;
+    return buildMediaUrl(companyProfile?.signatory_image || null);
+  }, [companyProfile?.signatory_image, removeSignatory, signatoryPreview]);
+
   const handleLogoChange = (file?: File) => {
     if (!file) return;
     setLogoFile(file);
@@ -119,7 +143,68 @@ export default function SettingsPage() {
     }
   };
 
-  const updateShopField = (shopId: number, field: 'phone' | 'email', value: string) => {
+  const handleSignatoryChange = (file?: File) => {
+    if (!file) return;
+    setSignatoryFile(file);
+    setSignatoryPreview(URL.createObjectURL(file));
+    setRemoveSignatory(false);
+  };
+
+  const handleSignatoryRemove = () => {
+    setSignatoryFile(null);
+    setSignatoryPreview(null);
+    setRemoveSignatory(true);
+  };
+
+  const updateBrandingField = (field: BrandingField, value: string) => {
+    setBrandingForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleBrandingSave = async () => {
+    const gstin = brandingForm.gstin.trim().toUpperCase();
+    const ifsc = brandingForm.bank_ifsc.trim().toUpperCase();
+    const upiId = brandingForm.upi_id.trim();
+    const gstinError = gstin ? validateGSTIN(gstin) : '';
+    if (gstinError) {
+      showToast.error(gstinError);
+      return;
+    }
+    if (ifsc && !IFSC_PATTERN.test(ifsc)) {
+      showToast.error('IFSC must be 11 characters: 4 letters, 0, then 6 letters or digits.');
+      return;
+    }
+    if (upiId && !isValidUpiId(upiId)) {
+      showToast.error('UPI ID should look like name@bank.');
+      return;
+    }
+
+    setSavingBranding(true);
+    try {
+      const formData = new FormData();
+      BRANDING_FIELDS.forEach(({ key }) => formData.append(key, brandingForm[key].trim()));
+      formData.set('gstin', gstin);
+      formData.set('bank_ifsc', ifsc);
+      if (signatoryFile) {
+        formData.append('signatory_image', signatoryFile);
+      } else if (removeSignatory) {
+        formData.append('signatory_image', '');
+      }
+      const response = await companyProfileAPI.update(formData);
+      setCompanyProfile(response.data);
+      setBrandingForm(brandingFormOf(response.data));
+      setSignatoryFile(null);
+      setSignatoryPreview(null);
+      setRemoveSignatory(false);
+      showToast.success('Invoice details updated.');
+    } catch (error) {
+      console.error('Failed to update invoice details:', error);
+      showToast.error('Failed to update invoice details.');
+    } finally {
+      setSavingBranding(false);
+    }
+  };
+
+  const updateShopField = (shopId: number, field: 'phone' | 'email' | 'upi_id' | 'invoice_terms', value: string) => {
     setShopEdits((prev) => ({
       ...prev,
       [shopId]: {
@@ -132,12 +217,18 @@ export default function SettingsPage() {
   const handleShopSave = async (shop: Shop) => {
     const edits = shopEdits[shop.id];
     if (!edits) return;
+    if (edits.upi_id.trim() && !isValidUpiId(edits.upi_id)) {
+      showToast.error(`UPI ID for ${shop.name} should look like name@bank.`);
+      return;
+    }
 
     setSavingShopId(shop.id);
     try {
       await shopsAPI.update(shop.id, {
         phone: edits.phone || null,
         email: edits.email || null,
+        upi_id: edits.upi_id.trim() || null,
+        invoice_terms: edits.invoice_terms.trim() || null,
       });
       showToast.success(`${shop.name} updated.`);
     } catch (error) {
@@ -152,17 +243,6 @@ export default function SettingsPage() {
     return <FullScreenLoader label="Loading settings" />;
   }
 
-  if (!isAdmin) {
-    return (
-      <div className="text-center py-16">
-        <h2 className="text-2xl font-semibold text-slate-900 dark:text-slate-100">Admin settings only</h2>
-        <p className="text-slate-600 dark:text-slate-400 mt-2">
-          Contact your administrator to update company or shop settings.
-        </p>
-      </div>
-    );
-  }
-
   return (
     <div className="space-y-8">
       <div className="relative overflow-hidden rounded-3xl border border-slate-200/70 dark:border-white/10 bg-gradient-to-br from-slate-50 via-white to-emerald-50 dark:from-slate-900 dark:via-slate-950 dark:to-slate-900 p-6 shadow-xl">
@@ -172,7 +252,7 @@ export default function SettingsPage() {
           <p className="text-[11px] uppercase tracking-[0.35em] text-slate-500 dark:text-slate-400">Admin Settings</p>
           <h1 className="mt-2 text-3xl font-semibold text-slate-900 dark:text-slate-100">Brand + Shop Controls</h1>
           <p className="mt-2 text-sm text-slate-700 dark:text-slate-300">
-            Manage the logo and shop contact details used on customer bills.
+            Manage the logo, invoice details and shop contact details used on customer bills.
           </p>
         </div>
       </div>
@@ -271,6 +351,28 @@ export default function SettingsPage() {
                       />
                     </div>
                   </div>
+
+                  <div className="md:col-span-2">
+                    <label className="block text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">UPI ID override</label>
+                    <input
+                      type="text"
+                      className="w-full rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-slate-900 px-3 py-2 text-sm focus:outline-none"
+                      placeholder="Leave empty to collect into the company UPI ID"
+                      value={shopEdits[shop.id]?.upi_id || ''}
+                      onChange={(event) => updateShopField(shop.id, 'upi_id', event.target.value)}
+                    />
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className="block text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">Bill terms override</label>
+                    <textarea
+                      rows={3}
+                      className="w-full rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-slate-900 px-3 py-2 text-sm focus:outline-none"
+                      placeholder="Leave empty to use the company terms. One term per line."
+                      value={shopEdits[shop.id]?.invoice_terms || ''}
+                      onChange={(event) => updateShopField(shop.id, 'invoice_terms', event.target.value)}
+                    />
+                  </div>
                 </div>
               </div>
             ))}
@@ -280,6 +382,93 @@ export default function SettingsPage() {
           </div>
         </div>
       </div>
+
+      <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-slate-900/80 p-6 text-slate-900 dark:text-slate-100 shadow-lg">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold">Invoice Details</h2>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              Legal identity, bank details, terms and signature printed on every tax invoice.
+            </p>
+          </div>
+          <button
+            onClick={handleBrandingSave}
+            disabled={savingBranding}
+            className="inline-flex items-center gap-2 rounded-xl bg-emerald-600 px-4 py-2 text-sm font-semibold text-white shadow-lg transition hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <FiSave />
+            {savingBranding ? 'Saving...' : 'Save invoice details'}
+          </button>
+        </div>
+
+        <div className="mt-6 grid grid-cols-1 xl:grid-cols-[1fr_16rem] gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {BRANDING_FIELDS.map(({ key, label, placeholder, multiline }) => (
+              <div key={key} className={multiline ? 'md:col-span-2' : undefined}>
+                <label htmlFor={`branding-${key}`} className="block text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">
+                  {label}
+                </label>
+                {multiline ? (
+                  <textarea
+                    id={`branding-${key}`}
+                    rows={key === 'invoice_terms' ? 4 : 2}
+                    className="w-full rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-slate-900 px-3 py-2 text-sm focus:outline-none"
+                    placeholder={placeholder}
+                    value={brandingForm[key]}
+                    onChange={(event) => updateBrandingField(key, event.target.value)}
+                  />
+                ) : (
+                  <input
+                    id={`branding-${key}`}
+                    type="text"
+                    className="w-full rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-slate-900 px-3 py-2 text-sm focus:outline-none"
+                    placeholder={placeholder}
+                    value={brandingForm[key]}
+                    onChange={(event) => updateBrandingField(key, event.target.value)}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">Authorised signatory</p>
+            <div className="flex flex-col items-center gap-3 rounded-xl border border-slate-200/80 dark:border-white/10 bg-slate-50 dark:bg-transparent p-4">
+              <div className="flex h-24 w-full items-center justify-center rounded-xl border border-dashed border-slate-300 dark:border-white/20 bg-white dark:bg-white/5">
+                {signatoryUrl ? (
+                  <img src={signatoryUrl} alt="Authorised signature" className="max-h-20 max-w-full object-contain" />
+                ) : (
+                  <span className="text-xs text-slate-500 dark:text-slate-400">No signature</span>
+                )}
+              </div>
+              <label className="inline-flex cursor-pointer items-center gap-2 rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-slate-900 px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-100 shadow-sm transition hover:-translate-y-0.5 hover:bg-slate-100 dark:hover:bg-white/10">
+                <FiUploadCloud />
+                <span>Select signature</span>
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(event) => handleSignatoryChange(event.target.files?.[0])}
+                />
+              </label>
+              {signatoryUrl && (
+                <button
+                  type="button"
+                  onClick={handleSignatoryRemove}
+                  className="inline-flex items-center gap-2 text-xs font-semibold text-rose-600 dark:text-rose-300 hover:underline"
+                >
+                  <FiTrash />
+                  Remove signature
+                </button>
+              )}
+              <p className="flex items-start gap-2 text-[11px] text-slate-500 dark:text-slate-400">
+                <FiFileText className="mt-0.5 flex-shrink-0" />
+                A transparent PNG prints best above the signatory line.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
     </div>
   );
 }
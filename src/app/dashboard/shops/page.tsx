@@ -12,6 +12,7 @@ import FullScreenLoader from '@/components/FullScreenLoader';
 import { HoverBorderGradient } from '@/components/ui/hover-border-gradient';
 
 import { showToast } from '@/lib/toast';
+import { DEFAULT_STATE_CODE, GST_STATES, getStateName } from '@/lib/tax';
 export default function ShopsPage() {
   const [shops, setShops] = useState<Shop[]>([]);
   const [showForm, setShowForm] = useState(false);
@@ -34,6 +35,7 @@ export default function ShopsPage() {
     name: '',
     code: '',
     address: '',
+    state_code: DEFAULT_STATE_CODE,
     phone: '',
     email: '',
     is_active: true,
@@ -77,6 +79,7 @@ export default function ShopsPage() {
         name: '',
         code: '',
         address: '',
+        state_code: DEFAULT_STATE_CODE,
         phone: '',
         email: '',
         is_active: true,
@@ -92,6 +95,7 @@ export default function ShopsPage() {
       name: shop.name,
       code: shop.code,
       address: shop.address,
+      state_code: shop.state_code || DEFAULT_STATE_CODE,
       phone: shop.phone || '',
       email: shop.email || '',
       is_active: shop.is_active,
@@ -138,6 +142,7 @@ export default function ShopsPage() {
       name: '',
       code: '',
       address: '',
+      state_code: DEFAULT_STATE_CODE,
       phone: '',
       email: '',
       is_active: true,
@@ -212,6 +217,23 @@ export default function ShopsPage() {
               />
             </div>
 
+            <div className="col-span-2">
+              <label htmlFor="state_code" className="block text-sm font-medium mb-1">State *</label>
+              <select id="state_code" name="state_code"
+                className="input"
+                value={formData.state_code}
+                onChange={(e) => setFormData({ ...formData, state_code: e.target.value })}
+                required
+              >
+                {Object.entries(GST_STATES).map(([code, name]) => (
+                  <option key={code} value={code}>{code} - {name}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                Decides whether sales are billed as CGST + SGST or IGST
+              </p>
+            </div>
+
             <div>
               <label htmlFor="phone" className="block text-sm font-medium mb-1">Phone</label>
               <input id="phone" name="phone"
@@ -322,6 +344,11 @@ export default function ShopsPage() {
               <p className="text-sm text-slate-700 dark:text-slate-300">
                 <strong>Address:</strong> {shop.address}
               </p>
+              {shop.state_code && (
+                <p className="text-sm text-slate-700 dark:text-slate-300">
+                  <strong>State:</strong> {getStateName(shop.state_code) || shop.state_code} ({shop.state_code})
+                </p>
+              )}
               {shop.phone && (
                 <p className="text-sm text-slate-700 dark:text-slate-300">
                   <strong>Phone:</strong> {shop.phone}
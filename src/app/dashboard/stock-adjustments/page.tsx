@@ -0,0 +1,700 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { shopsAPI, stockAdjustmentsAPI, stockBatchesAPI } from '@/lib/api';
+import { useAuth } from '@/context/AuthContext';
+import { useCan } from '@/hooks/useCan';
+import type { IMEINumber, Shop, StockAdjustment, StockBatch } from '@/types';
+import { FiPlus, FiTrash, FiX } from 'react-icons/fi';
+import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import { formatDate, toDateInputValue } from '@/lib/date';
+import { ADJUSTMENT_TYPES, getAdjustmentValueImpact, getSignedAdjustmentQuantity } from '@/lib/adjustments';
+import FullScreenLoader from '@/components/FullScreenLoader';
+import TableSearchBar from '@/components/TableSearchBar';
+import SearchableSelect from '@/components/SearchableSelect';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { showToast } from '@/lib/toast';
+
+type AdjustmentType = StockAdjustment['adjustment_type'];
+
+const emptyForm = {
+  stock_batch: '',
+  location: '',
+  direction: 'remove' as 'remove' | 'add',
+  quantity: '',
+  reason: '',
+};
+
+const formatSignedCurrency = (value: number) => `${value < 0 ? '-' : value > 0 ? '+' : ''}Rs ${Math.abs(value).toFixed(2)}`;
+
+export default function StockAdjustmentsPage() {
+  const { user } = useAuth();
+  const can = useCan();
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [batches, setBatches] = useState<StockBatch[]>([]);
+  const [shops, setShops] = useState<Shop[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [typeFilter, setTypeFilter] = useState<AdjustmentType | ''>('');
+  const [shopFilter, setShopFilter] = useState('');
+  const [userFilter, setUserFilter] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize, setPageSize] = useState(25);
+
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [availableImeis, setAvailableImeis] = useState<IMEINumber[]>([]);
+  const [selectedImeis, setSelectedImeis] = useState<string[]>([]);
+  const [imeiSearch, setImeiSearch] = useState('');
+  const [loadingImeis, setLoadingImeis] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<StockAdjustment | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const isShopScoped = !can('shop.viewAll');
+  const canCreate = can('stockAdjustment.create');
+  const canDelete = can('stockAdjustment.delete');
+
+  const fetchAdjustments = async () => {
+    try {
+      // Filters and totals run in the browser, so they need every page
+      setAdjustments(await stockAdjustmentsAPI.listAll());
+    } catch (error) {
+      console.error('Failed to fetch stock adjustments:', error);
+      setAdjustments([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSupportingData = async () => {
+    const [batchesRes, shopsRes] = await Promise.allSettled([
+      // Every batch can be adjusted, not just the ones on the first page
+      stockBatchesAPI.listAll(),
+      isShopScoped ? Promise.resolve(null) : shopsAPI.list(),
+    ]);
+
+    setBatches(batchesRes.status === 'fulfilled' ? batchesRes.value : []);
+    if (shopsRes.status === 'fulfilled' && shopsRes.value) {
+      setShops(shopsRes.value.data);
+    } else {
+      setShops([]);
+    }
+  };
+
+  useEffect(() => {
+    fetchAdjustments();
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    void loadSupportingData();
+  }, [user]);
+
+  useAutoRefresh(fetchAdjustments);
+
+  const batchMap = useMemo(() => new Map(batches.map((batch) => [batch.id, batch])), [batches]);
+
+  const getUnitPrice = (adjustment: StockAdjustment) => (
+    adjustment.unit_purchase_price ?? batchMap.get(adjustment.stock_batch)?.unit_purchase_price
+  );
+
+  const userOptions = useMemo(
+    () => Array.from(new Set(adjustments.map((adjustment) => adjustment.created_by_name).filter(Boolean))) as string[],
+    [adjustments]
+  );
+  const locationOptions = useMemo(
+    () => Array.from(new Set(adjustments.map((adjustment) => adjustment.shop_name || 'Main Stock'))),
+    [adjustments]
+  );
+
+  const filteredAdjustments = useMemo(() => {
+    const normalizedTerm = searchTerm.trim().toLowerCase();
+    return adjustments
+      .filter((adjustment) => {
+        if (typeFilter && adjustment.adjustment_type !== typeFilter) return false;
+        if (shopFilter && (adjustment.shop_name || 'Main Stock') !== shopFilter) return false;
+        if (userFilter && adjustment.created_by_name !== userFilter) return false;
+        const dateKey = toDateInputValue(adjustment.created_at);
+        if (dateFrom && dateKey < dateFrom) return false;
+        if (dateTo && dateKey > dateTo) return false;
+        if (!normalizedTerm) return true;
+        return [
+          adjustment.product_name,
+          adjustment.stock_batch_number,
+          adjustment.shop_name,
+          adjustment.created_by_name,
+          adjustment.notes,
+          ...(adjustment.imei_numbers || []),
+        ]
+          .filter(Boolean)
+          .some((value) => String(value).toLowerCase().includes(normalizedTerm));
+      })
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  }, [adjustments, searchTerm, typeFilter, shopFilter, userFilter, dateFrom, dateTo]);
+
+  const totalValueImpact = filteredAdjustments.reduce(
+    (sum, adjustment) => sum + getAdjustmentValueImpact(adjustment, getUnitPrice(adjustment)),
+    0
+  );
+
+  const totalDisplayCount = filteredAdjustments.length;
+  const totalPages = Math.max(1, Math.ceil(totalDisplayCount / pageSize));
+  const pageStart = totalDisplayCount === 0 ? 0 : (currentPage - 1) * pageSize;
+  const pageEnd = Math.min(pageStart + pageSize, totalDisplayCount);
+  const pageLabelStart = totalDisplayCount === 0 ? 0 : pageStart + 1;
+  const paginatedAdjustments = filteredAdjustments.slice(pageStart, pageEnd);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchTerm, typeFilter, shopFilter, userFilter, dateFrom, dateTo, pageSize]);
+
+  useEffect(() => {
+    if (currentPage > totalPages) {
+      setCurrentPage(totalPages);
+    }
+  }, [currentPage, totalPages]);
+
+  const selectedBatch = formData.stock_batch ? batchMap.get(Number(formData.stock_batch)) : undefined;
+  const isImeiTracked = Boolean(selectedBatch?.product_is_imei_tracked);
+  const formLocation = isShopScoped && user?.shop ? String(user.shop) : formData.location;
+
+  useEffect(() => {
+    if (!showForm || !selectedBatch || !isImeiTracked || !formLocation) {
+      setAvailableImeis([]);
+      setSelectedImeis([]);
+      return;
+    }
+
+    const loadImeis = async () => {
+      setLoadingImeis(true);
+      setSelectedImeis([]);
+      setImeiSearch('');
+      try {
+        const response = await stockBatchesAPI.getIMEINumbers(selectedBatch.id, {
+          location: formLocation === 'main' ? 'main' : 'shop',
+          shop: formLocation === 'main' ? undefined : Number.parseInt(formLocation, 10),
+        });
+        setAvailableImeis(response.data);
+      } catch (error) {
+        console.error('Failed to load IMEI numbers:', error);
+        setAvailableImeis([]);
+      } finally {
+        setLoadingImeis(false);
+      }
+    };
+
+    void loadImeis();
+  }, [showForm, selectedBatch, isImeiTracked, formLocation]);
+
+  const filteredImeis = availableImeis.filter((imei) => (
+    imei.imei.toLowerCase().includes(imeiSearch.toLowerCase())
+  ));
+
+  const toggleImeiSelection = (imei: string) => {
+    setSelectedImeis((prev) => (
+      prev.includes(imei) ? prev.filter((item) => item !== imei) : [...prev, imei]
+    ));
+  };
+
+  // Tracked units can only leave stock here; new IMEIs come in through stock batches
+  const direction = isImeiTracked ? 'remove' : formData.direction;
+  const formQuantity = isImeiTracked ? selectedImeis.length : parseInt(formData.quantity || '0', 10) || 0;
+  const signedFormQuantity = direction === 'remove' ? -formQuantity : formQuantity;
+  const formValueImpact = getAdjustmentValueImpact(
+    { adjustment_type: 'manual', quantity: signedFormQuantity },
+    selectedBatch?.unit_purchase_price
+  );
+
+  const openForm = () => {
+    setFormData(emptyForm);
+    setSelectedImeis([]);
+    setAvailableImeis([]);
+    setImeiSearch('');
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    if (saving) return;
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedBatch) {
+      showToast.info('Select a stock batch to adjust.');
+      return;
+    }
+    if (!formLocation) {
+      showToast.info('Select Main Stock or a shop to adjust.');
+      return;
+    }
+    if (isImeiTracked && selectedImeis.length === 0) {
+      showToast.info('Select the IMEI numbers being adjusted.');
+      return;
+    }
+    if (!isImeiTracked && formQuantity <= 0) {
+      showToast.info('Enter a valid quantity.');
+      return;
+    }
+    if (!formData.reason.trim()) {
+      showToast.info('Enter a reason for this adjustment.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await stockAdjustmentsAPI.create({
+        stock_batch: selectedBatch.id,
+        shop: formLocation === 'main' ? null : Number.parseInt(formLocation, 10),
+        adjustment_type: 'manual',
+        quantity: signedFormQuantity,
+        notes: formData.reason.trim(),
+        imei_list: isImeiTracked ? selectedImeis : undefined,
+      });
+      showToast.success('Stock adjustment recorded.');
+      setShowForm(false);
+      fetchAdjustments();
+      void loadSupportingData();
+    } catch (error: any) {
+      console.error('Failed to create stock adjustment:', error);
+      const errorMessage = error.response?.data?.error || error.response?.data?.detail || 'Failed to record adjustment';
+      showToast.error(`Failed to record adjustment:\n${errorMessage}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget || deleting) return;
+    setDeleting(true);
+    try {
+      await stockAdjustmentsAPI.delete(deleteTarget.id);
+      showToast.success('Stock adjustment deleted successfully.');
+      fetchAdjustments();
+    } catch (error: any) {
+      console.error('Stock adjustment deletion error:', error);
+      const errorMessage = error.response?.data?.error || error.response?.data?.detail || 'Failed to delete adjustment';
+      showToast.error(`Failed to delete adjustment:\n${errorMessage}`);
+    } finally {
+      setDeleting(false);
+      setDeleteTarget(null);
+    }
+  };
+
+  if (loading) {
+    return <FullScreenLoader label="Loading stock adjustments" />;
+  }
+
+  const hasFilters = Boolean(typeFilter || shopFilter || userFilter || dateFrom || dateTo);
+  const batchOptions = batches.map((batch) => ({
+    value: batch.id,
+    label: `${batch.product_name || 'Product'} - ${batch.batch_number}`,
+    subLabel: `Available: ${batch.available_quantity} | Cost: Rs ${parseFloat(batch.unit_purchase_price || '0').toFixed(2)}`,
+    searchText: [batch.product_name, batch.batch_number, batch.product_brand_name].filter(Boolean).join(' '),
+  }));
+  const locationSelectOptions = [
+    { value: 'main', label: 'Main Stock' },
+    ...shops.map((shop) => ({ value: String(shop.id), label: shop.name, subLabel: shop.code })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="section-header">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <p className="text-[11px] uppercase tracking-[0.3em] text-slate-600 dark:text-slate-400">Inventory Health</p>
+            <h1 className="text-3xl font-semibold text-slate-900 dark:text-slate-100">Stock Adjustments</h1>
+            <p className="text-slate-700 dark:text-slate-300">Write-offs, damages, returns and manual corrections</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className={`rounded-2xl border px-4 py-2 text-sm ${
+              totalValueImpact < 0
+                ? 'border-rose-200/60 bg-rose-50 text-rose-800 dark:border-rose-500/30 dark:bg-rose-500/10 dark:text-rose-200'
+                : 'border-emerald-200/60 bg-emerald-50 text-emerald-800 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-200'
+            }`}>
+              Value Impact: {formatSignedCurrency(totalValueImpact)}
+            </div>
+            {canCreate && (
+              <button onClick={openForm} className="btn btn-primary flex items-center">
+                <FiPlus className="mr-2" />
+                New Adjustment
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+        <div className="mb-4 space-y-3">
+          <TableSearchBar
+            onSearch={setSearchTerm}
+            placeholder="Search adjustments by product, batch, reason, or IMEI..."
+          />
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            <select
+              id="typeFilter"
+              className="input text-sm"
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as AdjustmentType | '')}
+            >
+              <option value="">All Types</option>
+              {(Object.keys(ADJUSTMENT_TYPES) as AdjustmentType[]).map((type) => (
+                <option key={type} value={type}>{ADJUSTMENT_TYPES[type].label}</option>
+              ))}
+            </select>
+            {!isShopScoped && (
+              <select
+                id="shopFilter"
+                className="input text-sm"
+                value={shopFilter}
+                onChange={(e) => setShopFilter(e.target.value)}
+              >
+                <option value="">All Locations</option>
+                {locationOptions.map((location) => (
+                  <option key={location} value={location}>{location}</option>
+                ))}
+              </select>
+            )}
+            <select
+              id="userFilter"
+              className="input text-sm"
+              value={userFilter}
+              onChange={(e) => setUserFilter(e.target.value)}
+            >
+              <option value="">All Users</option>
+              {userOptions.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <input
+              id="dateFrom"
+              type="date"
+              className="input text-sm"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+              aria-label="Adjusted from"
+            />
+            <input
+              id="dateTo"
+              type="date"
+              className="input text-sm"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+              aria-label="Adjusted to"
+            />
+          </div>
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={() => {
+                setTypeFilter('');
+                setShopFilter('');
+                setUserFilter('');
+                setDateFrom('');
+                setDateTo('');
+              }}
+              className="text-xs font-semibold text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        <div className="overflow-x-auto scrollbar-hide rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent">
+          <table className="table table-frost">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Product</th>
+                <th>Location</th>
+                <th>Type</th>
+                <th>Quantity</th>
+                <th>Unit Cost</th>
+                <th>Value Impact</th>
+                <th>Reason</th>
+                <th>By</th>
+                {canDelete && <th>Actions</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {paginatedAdjustments.map((adjustment) => {
+                const signedQuantity = getSignedAdjustmentQuantity(adjustment);
+                const unitPrice = getUnitPrice(adjustment);
+                const valueImpact = getAdjustmentValueImpact(adjustment, unitPrice);
+                const typeMeta = ADJUSTMENT_TYPES[adjustment.adjustment_type];
+                return (
+                  <tr key={adjustment.id}>
+                    <td>{formatDate(adjustment.created_at)}</td>
+                    <td>
+                      <div className="font-medium">{adjustment.product_name || '-'}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">{adjustment.stock_batch_number}</div>
+                      {adjustment.imei_numbers && adjustment.imei_numbers.length > 0 && (
+                        <div className="text-[11px] font-mono text-slate-500 dark:text-slate-400" title={adjustment.imei_numbers.join(', ')}>
+                          {adjustment.imei_numbers.length} IMEI{adjustment.imei_numbers.length === 1 ? '' : 's'}
+                        </div>
+                      )}
+                    </td>
+                    <td>{adjustment.shop_name || 'Main Stock'}</td>
+                    <td>
+                      <span className={`badge ${typeMeta?.badgeClass || 'badge-secondary'}`}>
+                        {typeMeta?.label || adjustment.adjustment_type}
+                      </span>
+                    </td>
+                    <td className={signedQuantity < 0 ? 'text-rose-600 font-semibold' : 'text-emerald-600 font-semibold'}>
+                      {signedQuantity > 0 ? `+${signedQuantity}` : signedQuantity}
+                    </td>
+                    <td>{unitPrice ? `Rs ${parseFloat(unitPrice).toFixed(2)}` : '-'}</td>
+                    <td className={valueImpact < 0 ? 'text-rose-600 font-semibold' : 'text-emerald-600 font-semibold'}>
+                      {unitPrice ? formatSignedCurrency(valueImpact) : '-'}
+                    </td>
+                    <td className="max-w-xs whitespace-pre-line text-sm">{adjustment.notes || '-'}</td>
+                    <td>{adjustment.created_by_name || '-'}</td>
+                    {canDelete && (
+                      <td>
+                        <button
+                          onClick={() => setDeleteTarget(adjustment)}
+                          className="btn btn-outline flex items-center text-sm py-1 px-2"
+                        >
+                          <FiTrash className="mr-1" />
+                          Delete
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {totalDisplayCount === 0 && (
+            <div className="text-center py-12 text-slate-600 dark:text-slate-400">
+              No stock adjustments found.
+            </div>
+          )}
+        </div>
+
+        {totalDisplayCount > 0 && (
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+            <span className="text-xs text-slate-600 dark:text-slate-400">
+              Showing {pageLabelStart}-{pageEnd} of {totalDisplayCount} rows
+            </span>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex items-center gap-2">
+                <span className="text-xs uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 whitespace-nowrap">Per page</span>
+                <select
+                  id="pageSize"
+                  className="input h-9 py-1.5 min-w-[90px] leading-tight"
+                  value={pageSize}
+                  onChange={(e) => setPageSize(Number(e.target.value))}
+                >
+                  <option value={10}>10</option>
+                  <option value={25}>25</option>
+                  <option value={50}>50</option>
+                  <option value={100}>100</option>
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
+                  disabled={currentPage === 1}
+                >
+                  Prev
+                </button>
+                <span className="text-xs text-slate-500 dark:text-slate-400">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
+                  disabled={currentPage >= totalPages}
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+          <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-slate-900 w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 text-slate-900 dark:text-slate-100 shadow-[0_20px_60px_rgba(2,6,23,0.65)]">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-xl font-semibold">New Stock Adjustment</h2>
+                <p className="text-sm text-slate-600 dark:text-slate-400">Correct stock counts with an audited reason</p>
+              </div>
+              <button
+                type="button"
+                onClick={closeForm}
+                className="text-slate-600 dark:text-slate-400 hover:text-slate-200 transition-colors"
+              >
+                <FiX />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <SearchableSelect
+                label="Stock Batch"
+                placeholder="Search product or batch..."
+                required
+                value={formData.stock_batch}
+                onChange={(value) => setFormData({ ...formData, stock_batch: String(value) })}
+                options={batchOptions}
+              />
+              {!isShopScoped && (
+                <SearchableSelect
+                  label="Location"
+                  placeholder="Main stock or shop"
+                  required
+                  value={formData.location}
+                  onChange={(value) => setFormData({ ...formData, location: String(value) })}
+                  options={locationSelectOptions}
+                />
+              )}
+
+              {isImeiTracked ? (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <label className="block text-sm font-medium">IMEIs to remove *</label>
+                    <span className="text-xs text-slate-500">Selected: {selectedImeis.length}</span>
+                  </div>
+                  <input
+                    type="text"
+                    className="input text-sm"
+                    placeholder="Search IMEI..."
+                    value={imeiSearch}
+                    onChange={(e) => setImeiSearch(e.target.value)}
+                  />
+                  <div className="max-h-40 overflow-y-auto scrollbar-hide rounded-lg border border-slate-200/80 dark:border-white/10 bg-slate-50 dark:bg-black/40 p-3 space-y-2">
+                    {!formLocation && (
+                      <p className="text-xs text-slate-500">Select a location to load available IMEIs.</p>
+                    )}
+                    {formLocation && loadingImeis && (
+                      <p className="text-xs text-slate-500">Loading IMEIs...</p>
+                    )}
+                    {formLocation && !loadingImeis && filteredImeis.length === 0 && (
+                      <p className="text-xs text-slate-500">
+                        {availableImeis.length === 0 ? 'No IMEIs available for this location.' : 'No IMEIs match your search.'}
+                      </p>
+                    )}
+                    {!loadingImeis && filteredImeis.map((imei) => {
+                      const isSelected = selectedImeis.includes(imei.imei);
+                      return (
+                        <button
+                          key={imei.id}
+                          type="button"
+                          onClick={() => toggleImeiSelection(imei.imei)}
+                          className={`w-full flex items-center justify-between rounded-lg border px-3 py-2 text-left text-xs transition ${
+                            isSelected
+                              ? 'border-rose-400 bg-rose-50 text-rose-700 dark:border-rose-400/50 dark:bg-rose-500/10 dark:text-rose-200'
+                              : 'border-slate-200/80 bg-white/80 text-slate-700 hover:bg-slate-100 dark:border-white/10 dark:bg-black/30 dark:text-slate-200 dark:hover:bg-white/5'
+                          }`}
+                        >
+                          <span className="font-mono">{imei.imei}</span>
+                          {isSelected && (
+                            <span className="text-[10px] font-semibold uppercase tracking-wide">Remove</span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    IMEI-tracked units can only be removed here. Add new units through Stock Batches.
+                  </p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="adjustment_direction" className="block text-sm font-medium mb-1">Direction *</label>
+                    <select
+                      id="adjustment_direction"
+                      className="input"
+                      value={formData.direction}
+                      onChange={(e) => setFormData({ ...formData, direction: e.target.value as 'remove' | 'add' })}
+                    >
+                      <option value="remove">Remove from stock</option>
+                      <option value="add">Add to stock</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="adjustment_quantity" className="block text-sm font-medium mb-1">Quantity *</label>
+                    <input
+                      id="adjustment_quantity"
+                      type="number"
+                      min="1"
+                      className="input"
+                      value={formData.quantity}
+                      onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="adjustment_reason" className="block text-sm font-medium mb-1">Reason *</label>
+                <textarea
+                  id="adjustment_reason"
+                  className="input"
+                  rows={3}
+                  placeholder="e.g. Found during shelf check, box damaged in storage"
+                  value={formData.reason}
+                  onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                  required
+                />
+              </div>
+
+              {selectedBatch && formQuantity > 0 && (
+                <div className={`rounded-xl border px-3 py-2 text-sm ${
+                  formValueImpact < 0
+                    ? 'border-rose-200/60 bg-rose-50 text-rose-800 dark:border-rose-500/30 dark:bg-rose-500/10 dark:text-rose-200'
+                    : 'border-emerald-200/60 bg-emerald-50 text-emerald-800 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-200'
+                }`}>
+                  {signedFormQuantity > 0 ? `+${signedFormQuantity}` : signedFormQuantity} x Rs {parseFloat(selectedBatch.unit_purchase_price || '0').toFixed(2)}
+                  {' = '}
+                  <span className="font-semibold">{formatSignedCurrency(formValueImpact)}</span>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="rounded-full border border-slate-200/70 px-4 py-2 text-sm text-slate-600 hover:text-slate-900 dark:border-white/10 dark:text-slate-300 dark:hover:text-slate-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="rounded-full bg-slate-800 px-4 py-2 text-sm font-semibold text-white hover:bg-slate-700 disabled:opacity-60"
+                >
+                  {saving ? 'Saving...' : 'Record Adjustment'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={Boolean(deleteTarget)}
+        title="Delete stock adjustment"
+        message="Delete this stock adjustment? This cannot be undone."
+        confirmText="Delete"
+        variant="danger"
+        loading={deleting}
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  );
+}
@@ -2,14 +2,18 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { stockBatchesAPI, productsAPI, gstSlabsAPI, shopsAPI, categoriesAPI, brandsAPI, variantsAPI, colorsAPI, conditionsAPI, sourcesAPI } from '@/lib/api';
-import type { StockBatch, Product, GSTSlab, Shop, Category, Brand, Variant, Color, Condition, Source } from '@/types';
+import { stockBatchesAPI, productsAPI, gstSlabsAPI, shopsAPI, categoriesAPI, brandsAPI, variantsAPI, colorsAPI, conditionsAPI, sourcesAPI, suppliersAPI } from '@/lib/api';
+import type { StockBatch, Product, GSTSlab, Shop, Category, Brand, Variant, Color, Condition, Source, Supplier } from '@/types';
+import { validateGSTIN } from '@/lib/tax';
 import { FiPlus, FiEye, FiTrash, FiEdit, FiX, FiDollarSign, FiUploadCloud } from 'react-icons/fi';
 import SearchableSelect from '@/components/SearchableSelect';
 import TableSearchBar from '@/components/TableSearchBar';
+import TablePagination from '@/components/TablePagination';
 import { useMultiSelect } from '@/hooks/useMultiSelect';
 import BulkActionBar from '@/components/BulkActionBar';
 import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
 import { formatDate } from '@/lib/date';
 import FullScreenLoader from '@/components/FullScreenLoader';
 import { showToast } from '@/lib/toast';
@@ -19,7 +23,6 @@ import { ConfirmDialog } from '@/components/ConfirmDialog';
 
 export default function StockBatchesPage() {
   const router = useRouter();
-  const [batches, setBatches] = useState<StockBatch[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [gstSlabs, setGstSlabs] = useState<GSTSlab[]>([]);
   const [shops, setShops] = useState<Shop[]>([]);
@@ -29,6 +32,7 @@ export default function StockBatchesPage() {
   const [colors, setColors] = useState<Color[]>([]);
   const [conditions, setConditions] = useState<Condition[]>([]);
   const [sources, setSources] = useState<Source[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [showQuickAdd, setShowQuickAdd] = useState(false);
   const [showCategoryModal, setShowCategoryModal] = useState(false);
@@ -37,13 +41,12 @@ export default function StockBatchesPage() {
   const [showColorModal, setShowColorModal] = useState(false);
   const [showConditionModal, setShowConditionModal] = useState(false);
   const [showSourceModal, setShowSourceModal] = useState(false);
+  const [showSupplierModal, setShowSupplierModal] = useState(false);
   const [quickAddInitialValue, setQuickAddInitialValue] = useState('');
   const [showViewModal, setShowViewModal] = useState(false);
   const [viewBatch, setViewBatch] = useState<StockBatch | null>(null);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(25);
+  const [lastSellingPrice, setLastSellingPrice] = useState<number | null>(null);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [loadingEdit, setLoadingEdit] = useState(false);
   const [loadingView, setLoadingView] = useState(false);
@@ -85,6 +88,7 @@ export default function StockBatchesPage() {
     source: 'distributor' | 'wholesaler' | 'customer' | 'other' | '';
     is_interstate: boolean;
     purchase_date: string;
+    supplier: string | number;
     supplier_name: string;
     invoice_number: string;
     initial_payment_amount: string;
@@ -109,6 +113,7 @@ export default function StockBatchesPage() {
     source: 'distributor',
     is_interstate: false,
     purchase_date: new Date().toISOString().split('T')[0],
+    supplier: '',
     supplier_name: '',
     invoice_number: '',
     initial_payment_amount: '',
@@ -142,6 +147,15 @@ export default function StockBatchesPage() {
     label: formatConditionLabel(condition.name),
     subLabel: condition.description || undefined,
   }));
+  const supplierOptions = suppliers
+    .filter((supplier) => supplier.is_active || supplier.id === Number(formData.supplier))
+    .map((supplier) => ({
+      value: supplier.id,
+      label: supplier.name,
+      subLabel: supplier.gstin || supplier.phone || undefined,
+      searchText: [supplier.gstin, supplier.phone].filter(Boolean).join(' '),
+    }));
+
   const sourceOptions = sources.map((source) => ({
     value: source.name,
     label: formatSourceLabel(source.name),
@@ -163,6 +177,7 @@ export default function StockBatchesPage() {
       colorsAPI.list(),
       conditionsAPI.list(),
       sourcesAPI.list(),
+      suppliersAPI.list(),
     ]);
 
     const [
@@ -175,6 +190,7 @@ export default function StockBatchesPage() {
       colorsRes,
       conditionsRes,
       sourcesRes,
+      suppliersRes,
     ] = results;
 
     if (productsRes.status === 'fulfilled') {
@@ -230,57 +246,46 @@ export default function StockBatchesPage() {
     } else {
       setSources([]);
     }
-  };
-
-  const fetchData = async () => {
-    try {
-      const response = await stockBatchesAPI.list();
-      setBatches(response.data);
-    } catch (error) {
-      console.error('Failed to fetch data:', error);
-      setBatches([]);
-    } finally {
-      setLoading(false);
-    }
 
-    void loadSupportingData();
-  };
-  useAutoRefresh(fetchData);
-
-  const fetchBatches = async () => {
-    try {
-      const response = await stockBatchesAPI.list(searchTerm);
-      setBatches(response.data);
-    } catch (error) {
-      console.error('Failed to fetch batches:', error);
-      setBatches([]);
+    if (suppliersRes.status === 'fulfilled') {
+      setSuppliers(suppliersRes.value.data);
+    } else {
+      setSuppliers([]);
     }
   };
 
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      fetchBatches();
-    }, 300);
-    return () => clearTimeout(timer);
-  }, [searchTerm]);
+  const debouncedSearch = useDebouncedValue(searchTerm);
+  const {
+    items: batches,
+    count,
+    page,
+    pageSize,
+    totalPages,
+    rangeStart,
+    rangeEnd,
+    setPage,
+    setPageSize,
+    error: batchesError,
+    isLoading: loading,
+    isValidating,
+    refresh,
+  } = usePaginatedList<StockBatch>('stock-batches', stockBatchesAPI.listPage, {
+    tags: ['stock-batches'],
+    filters: { search: debouncedSearch },
+    initialOrdering: '-created_at',
+  });
 
   useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, pageSize]);
+    if (batchesError) console.error('Failed to fetch batches:', batchesError);
+  }, [batchesError]);
 
-  const totalDisplayCount = batches.length;
-  const totalPages = Math.max(1, Math.ceil(totalDisplayCount / pageSize));
-  const pageStart = totalDisplayCount === 0 ? 0 : (currentPage - 1) * pageSize;
-  const pageEnd = Math.min(pageStart + pageSize, totalDisplayCount);
-  const pageLabelStart = totalDisplayCount === 0 ? 0 : pageStart + 1;
-  const paginatedBatches = batches.slice(pageStart, pageEnd);
-  const paginatedIds = Array.from(new Set(paginatedBatches.map((batch) => batch.id)));
+  const fetchData = async () => {
+    await refresh();
+    void loadSupportingData();
+  };
+  useAutoRefresh(fetchData);
 
-  useEffect(() => {
-    if (currentPage > totalPages) {
-      setCurrentPage(totalPages);
-    }
-  }, [currentPage, totalPages]);
+  const paginatedIds = Array.from(new Set(batches.map((batch) => batch.id)));
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -410,6 +415,7 @@ export default function StockBatchesPage() {
         source: formData.source,
         is_interstate: formData.is_interstate,
         purchase_date: formData.purchase_date,
+        supplier: formData.supplier ? Number(formData.supplier) : null,
         supplier_name: formData.supplier_name,
         invoice_number: formData.invoice_number,
         notes: formData.notes,
@@ -443,7 +449,6 @@ export default function StockBatchesPage() {
       }
       setShowForm(false);
       setEditingId(null);
-      fetchBatches();
       setFormData({
         batch_number: '',
         product: '',
@@ -455,6 +460,7 @@ export default function StockBatchesPage() {
         source: 'distributor',
         is_interstate: false,
         purchase_date: new Date().toISOString().split('T')[0],
+        supplier: '',
         supplier_name: '',
         invoice_number: '',
         initial_payment_amount: '',
@@ -574,6 +580,7 @@ export default function StockBatchesPage() {
         source: fullBatch.source as 'distributor' | 'wholesaler' | 'customer' | 'other' | '',
         is_interstate: fullBatch.is_interstate,
         purchase_date: fullBatch.purchase_date,
+        supplier: fullBatch.supplier || '',
         supplier_name: fullBatch.supplier_name || '',
         invoice_number: fullBatch.invoice_number || '',
         initial_payment_amount: lastPaymentAmount,
@@ -660,7 +667,6 @@ export default function StockBatchesPage() {
       }
       showToast.success('Stock batch deleted successfully!');
       removeSelection(confirmState.ids);
-      fetchBatches();
     } catch (error: any) {
       console.error('Stock batch deletion error:', error);
       const errorMessage = error.response?.data?.error || error.response?.data?.detail || 'Failed to delete stock batch';
@@ -747,6 +753,19 @@ export default function StockBatchesPage() {
     showToast.success('Condition added successfully!');
   };
 
+  const handleQuickAddSupplier = async (data: any) => {
+    const gstin = (data.gstin || '').trim().toUpperCase();
+    const gstinError = gstin ? validateGSTIN(gstin) : '';
+    if (gstinError) {
+      showToast.error(gstinError);
+      throw new Error(gstinError);
+    }
+    const response = await suppliersAPI.create({ ...data, gstin: gstin || undefined });
+    setSuppliers([...suppliers, response.data]);
+    setFormData((prev) => ({ ...prev, supplier: response.data.id, supplier_name: response.data.name }));
+    showToast.success('Supplier added successfully!');
+  };
+
   const handleQuickAddSource = async (data: any) => {
     const response = await sourcesAPI.create(data);
     setSources([...sources, response.data]);
@@ -803,16 +822,30 @@ export default function StockBatchesPage() {
   }, 0);
   const remainingQuantity = purchasedQuantity - allocatedQuantity;
 
-  const getLastSellingPrice = () => {
-    if (!formData.product) return null;
-    const productId = parseInt(String(formData.product));
-    const condition = formData.condition || 'fresh';
-    const candidates = batches
-      .filter((batch) => batch.product === productId && batch.condition === condition)
-      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-    return candidates.length ? parseFloat(candidates[0].selling_price) : null;
-  };
-  const lastSellingPrice = getLastSellingPrice();
+  // The table only holds one page, so ask the server for the newest batch of this product
+  useEffect(() => {
+    if (!formData.product) {
+      setLastSellingPrice(null);
+      return;
+    }
+    let cancelled = false;
+    stockBatchesAPI
+      .listPage({
+        product: parseInt(String(formData.product)),
+        condition: formData.condition || 'fresh',
+        ordering: '-created_at',
+        page_size: 1,
+      })
+      .then(({ results }) => {
+        if (!cancelled) setLastSellingPrice(results.length ? parseFloat(results[0].selling_price) : null);
+      })
+      .catch(() => {
+        if (!cancelled) setLastSellingPrice(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.product, formData.condition]);
   const parsedTotalPurchaseAmount = parseFloat(formData.total_purchase_amount || '0');
   const displayPaidAmount = paymentStatus === 'paid'
     ? (editingId ? (invoiceBalance ?? parsedTotalPurchaseAmount) : parsedTotalPurchaseAmount)
@@ -888,6 +921,7 @@ export default function StockBatchesPage() {
                     source: 'distributor',
                     is_interstate: false,
                     purchase_date: new Date().toISOString().split('T')[0],
+                    supplier: '',
                     supplier_name: '',
                     invoice_number: '',
                     initial_payment_amount: '',
@@ -916,6 +950,7 @@ export default function StockBatchesPage() {
                     source: 'distributor',
                     is_interstate: false,
                     purchase_date: new Date().toISOString().split('T')[0],
+                    supplier: '',
                     supplier_name: '',
                     invoice_number: '',
                     initial_payment_amount: '',
@@ -1277,16 +1312,21 @@ export default function StockBatchesPage() {
               />
             </div>
 
-            <div>
-              <label htmlFor="supplier_name" className="block text-sm font-medium mb-1">Supplier Name</label>
-              <input id="supplier_name" name="supplier_name"
-                type="text"
-                className="input"
-                value={formData.supplier_name}
-                autoComplete="organization"
-                onChange={(e) => setFormData({ ...formData, supplier_name: e.target.value })}
-              />
-            </div>
+            <SearchableSelect
+              label="Supplier"
+              placeholder={formData.supplier_name && !formData.supplier ? formData.supplier_name : 'Select supplier...'}
+              value={formData.supplier}
+              onChange={(value) => {
+                const supplier = suppliers.find((item) => item.id === Number(value));
+                setFormData({ ...formData, supplier: value, supplier_name: supplier?.name || '' });
+              }}
+              options={supplierOptions}
+              onAddNew={(searchTerm) => {
+                setQuickAddInitialValue(searchTerm);
+                setShowSupplierModal(true);
+              }}
+              addNewLabel="Add Supplier"
+            />
 
             <div>
               <label htmlFor="invoice_number" className="block text-sm font-medium mb-1">Invoice Number</label>
@@ -1742,7 +1782,7 @@ export default function StockBatchesPage() {
               </tr>
             </thead>
             <tbody>
-              {paginatedBatches.map((batch) => (
+              {batches.map((batch) => (
                 <tr key={batch.id} className={isSelected(batch.id) ? 'bg-slate-50 dark:bg-transparent' : ''}>
                   <td>
                     <input name="rowSelect"
@@ -1813,57 +1853,24 @@ export default function StockBatchesPage() {
             </tbody>
           </table>
 
-          {totalDisplayCount === 0 && (
+          {count === 0 && (
             <div className="text-center py-12 text-slate-600 dark:text-slate-400">
-              No stock batches found. Create your first batch to get started.
+              {debouncedSearch ? 'No stock batches match your search.' : 'No stock batches found. Create your first batch to get started.'}
             </div>
           )}
         </div>
 
-        {totalDisplayCount > 0 && (
-          <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
-            <span className="text-xs text-slate-600 dark:text-slate-400">
-              Showing {pageLabelStart}-{pageEnd} of {totalDisplayCount} rows
-            </span>
-            <div className="flex flex-wrap items-center gap-3">
-              <div className="flex items-center gap-2">
-                <span className="text-xs uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 whitespace-nowrap">Per page</span>
-                <select
-                  id="pageSize"
-                  className="input h-9 py-1.5 min-w-[90px] leading-tight"
-                  value={pageSize}
-                  onChange={(e) => setPageSize(Number(e.target.value))}
-                >
-                  <option value={10}>10</option>
-                  <option value={25}>25</option>
-                  <option value={50}>50</option>
-                  <option value={100}>100</option>
-                </select>
-              </div>
-              <div className="flex items-center gap-2">
-                <button
-                  type="button"
-                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
-                  onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
-                  disabled={currentPage === 1}
-                >
-                  Prev
-                </button>
-                <span className="text-xs text-slate-500 dark:text-slate-400">
-                  Page {currentPage} of {totalPages}
-                </span>
-                <button
-                  type="button"
-                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
-                  onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
-                  disabled={currentPage >= totalPages}
-                >
-                  Next
-                </button>
-              </div>
-            </div>
-          </div>
-        )}
+        <TablePagination
+          page={page}
+          totalPages={totalPages}
+          pageSize={pageSize}
+          count={count}
+          rangeStart={rangeStart}
+          rangeEnd={rangeEnd}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+          loading={isValidating}
+        />
       </div>
 
       <BulkActionBar
@@ -1943,6 +1950,19 @@ export default function StockBatchesPage() {
         ]}
       />
 
+      <QuickAddModal
+        isOpen={showSupplierModal}
+        onClose={() => setShowSupplierModal(false)}
+        onSave={handleQuickAddSupplier}
+        title="Add New Supplier"
+        initialValue={quickAddInitialValue}
+        fields={[
+          { name: 'name', label: 'Supplier Name', placeholder: 'e.g., Sunrise Distributors' },
+          { name: 'phone', label: 'Phone', placeholder: 'Optional phone number', required: false },
+          { name: 'gstin', label: 'GSTIN', placeholder: 'Optional 15-character GSTIN', required: false },
+        ]}
+      />
+
       <QuickAddModal
         isOpen={showSourceModal}
         onClose={() => setShowSourceModal(false)}
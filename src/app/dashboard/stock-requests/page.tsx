@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { stockRequestsAPI, stockBatchesAPI, shopsAPI } from '@/lib/api';
 import { useAuth } from '@/context/AuthContext';
+import { useCan } from '@/hooks/useCan';
 import type { StockRequest, StockBatch, Shop } from '@/types';
 import { FiPlus, FiCheck, FiX, FiSearch, FiTrash } from 'react-icons/fi';
 import SearchableSelect from '@/components/SearchableSelect';
@@ -17,6 +18,7 @@ import { ConfirmDialog } from '@/components/ConfirmDialog';
 
 export default function StockRequestsPage() {
   const { user } = useAuth();
+  const can = useCan();
   const [requests, setRequests] = useState<StockRequest[]>([]);
   const [batches, setBatches] = useState<StockBatch[]>([]);
   const [filteredBatches, setFilteredBatches] = useState<StockBatch[]>([]);
@@ -158,8 +160,8 @@ export default function StockRequestsPage() {
         notes: formData.notes,
       };
 
-      // Only include shop if user is not a sub_stock_manager
-      if (user?.role !== 'sub_stock_manager' && formData.shop) {
+      // Shop-scoped users always request for their own shop
+      if (can('shop.viewAll') && formData.shop) {
         submitData.shop = parseInt(formData.shop as string);
       }
 
@@ -191,7 +193,7 @@ export default function StockRequestsPage() {
       });
       setShowApprovalModal(false);
       fetchData();
-      showToast.info(approvalData.approved ? 'Request approved and stock transferred' : 'Request rejected');
+      showToast.info(approvalData.approved ? 'Request approved; stock is in transit to the shop' : 'Request rejected');
     } catch (error: any) {
       showToast.error(error.response?.data?.error || 'Failed to process request');
     }
@@ -202,8 +204,8 @@ export default function StockRequestsPage() {
     setShowApprovalModal(true);
   };
 
-  const canCreateRequest = user?.role === 'sub_stock_manager' || user?.role === 'super_admin';
-  const canApprove = user?.role === 'main_inventory_manager' || user?.role === 'super_admin';
+  const canCreateRequest = can('stockRequest.create');
+  const canApprove = can('stockRequest.approve');
   const canDelete = Boolean(user);
 
   const normalizedRequestTerm = requestSearchTerm.trim().toLowerCase();
@@ -304,7 +306,7 @@ export default function StockRequestsPage() {
           <h2 className="text-xl font-semibold mb-4">Create Stock Request</h2>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
-              {user?.role !== 'sub_stock_manager' && (
+              {can('shop.viewAll') && (
                 <SearchableSelect
                   label="Shop"
                   placeholder="Search and select shop..."
@@ -0,0 +1,651 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { shopsAPI, stockAdjustmentsAPI, stockBatchesAPI, subStocksAPI } from '@/lib/api';
+import { useAuth } from '@/context/AuthContext';
+import { useCan } from '@/hooks/useCan';
+import type { IMEINumber, Shop } from '@/types';
+import { FiAlertTriangle, FiCheckCircle, FiClipboard, FiTrash, FiUpload } from 'react-icons/fi';
+import { useBarcodeScanner } from '@/hooks/useBarcodeScanner';
+import { formatDateTime } from '@/lib/date';
+import { describeIMEIStatus, findIMEI, normalizeIMEI } from '@/lib/imeiLookup';
+import { playScanTone } from '@/lib/scanFeedback';
+import { roundCurrency } from '@/lib/tax';
+import SearchableSelect from '@/components/SearchableSelect';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { showToast } from '@/lib/toast';
+
+interface StockTakeLine {
+  stock_batch: number;
+  product_name: string;
+  batch_number: string;
+  unit_purchase_price: string;
+  is_imei_tracked: boolean;
+  expected_quantity: number;
+  expected_imeis: string[];
+  counted_quantity: number | null;
+  approved: boolean;
+  posted: boolean;
+}
+
+interface UnexpectedIMEI {
+  imei: string;
+  note: string;
+}
+
+interface StockTakeSession {
+  location: string;
+  location_label: string;
+  started_at: string;
+  lines: StockTakeLine[];
+  scanned_imeis: string[];
+  unexpected_imeis: UnexpectedIMEI[];
+}
+
+// Counts can run over several hours, so the session survives reloads on this device
+const SESSION_STORAGE_KEY = 'stock-take-session';
+
+const loadStoredSession = (): StockTakeSession | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StockTakeSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+const getCountedQuantity = (line: StockTakeLine, scanned: Set<string>) => (
+  line.is_imei_tracked
+    ? line.expected_imeis.filter((imei) => scanned.has(imei)).length
+    : line.counted_quantity
+);
+
+export default function StockTakePage() {
+  const { user } = useAuth();
+  const can = useCan();
+  const [session, setSession] = useState<StockTakeSession | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const [shops, setShops] = useState<Shop[]>([]);
+  const [location, setLocation] = useState('');
+  const [starting, setStarting] = useState(false);
+  const [scanInput, setScanInput] = useState('');
+  const [scanStatus, setScanStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [lineSearch, setLineSearch] = useState('');
+  const [showVarianceOnly, setShowVarianceOnly] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const isShopScoped = !can('shop.viewAll');
+
+  useEffect(() => {
+    setSession(loadStoredSession());
+    setSessionLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!sessionLoaded) return;
+    if (session) {
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  }, [session, sessionLoaded]);
+
+  useEffect(() => {
+    if (!user) return;
+    if (isShopScoped) {
+      setLocation(user.shop ? String(user.shop) : '');
+      return;
+    }
+    const loadShops = async () => {
+      try {
+        const response = await shopsAPI.list();
+        setShops(response.data);
+      } catch (error) {
+        console.error('Failed to load shops:', error);
+        setShops([]);
+      }
+    };
+    void loadShops();
+  }, [isShopScoped, user]);
+
+  const startSession = async () => {
+    if (!location) {
+      showToast.info('Select Main Stock or a shop to count.');
+      return;
+    }
+
+    setStarting(true);
+    try {
+      const isMain = location === 'main';
+      const shopId = isMain ? undefined : Number.parseInt(location, 10);
+      // Every page, so stock beyond the first one is not reported as unexpected
+      const batches = await stockBatchesAPI.listAll();
+      const batchMap = new Map(batches.map((batch) => [batch.id, batch]));
+
+      const expected = isMain
+        ? batches
+            .filter((batch) => batch.available_quantity > 0)
+            .map((batch) => ({ batch, quantity: batch.available_quantity }))
+        : (await subStocksAPI.listAll({ shop: shopId }))
+            .filter((subStock) => subStock.shop === shopId && subStock.quantity > 0)
+            .map((subStock) => ({ batch: batchMap.get(subStock.stock_batch), quantity: subStock.quantity }))
+            .filter((entry): entry is { batch: NonNullable<typeof entry.batch>; quantity: number } => Boolean(entry.batch));
+
+      const imeiResults = await Promise.allSettled(
+        expected.map(({ batch }) => (
+          batch.product_is_imei_tracked
+            ? stockBatchesAPI.getIMEINumbers(batch.id, { location: isMain ? 'main' : 'shop', shop: shopId })
+            : Promise.resolve({ data: [] as IMEINumber[] })
+        ))
+      );
+
+      const inStockStatus: IMEINumber['status'] = isMain ? 'in_main_stock' : 'in_sub_stock';
+      const lines: StockTakeLine[] = expected.map(({ batch, quantity }, index) => {
+        const imeiResult = imeiResults[index];
+        const expectedImeis = imeiResult.status === 'fulfilled'
+          ? imeiResult.value.data.filter((entry) => entry.status === inStockStatus).map((entry) => entry.imei)
+          : [];
+        return {
+          stock_batch: batch.id,
+          product_name: batch.product_name || 'Product',
+          batch_number: batch.batch_number,
+          unit_purchase_price: batch.unit_purchase_price,
+          is_imei_tracked: Boolean(batch.product_is_imei_tracked),
+          expected_quantity: batch.product_is_imei_tracked ? expectedImeis.length : quantity,
+          expected_imeis: expectedImeis,
+          counted_quantity: null,
+          approved: true,
+          posted: false,
+        };
+      });
+
+      const locationLabel = isMain
+        ? 'Main Stock'
+        : shops.find((shop) => shop.id === shopId)?.name || user?.shop_name || 'Shop';
+
+      setSession({
+        location,
+        location_label: locationLabel,
+        started_at: new Date().toISOString(),
+        lines: lines.sort((a, b) => a.product_name.localeCompare(b.product_name)),
+        scanned_imeis: [],
+        unexpected_imeis: [],
+      });
+      setScanStatus(null);
+    } catch (error) {
+      console.error('Failed to start stock take:', error);
+      showToast.error('Failed to load expected stock for this location.');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const scannedSet = useMemo(() => new Set(session?.scanned_imeis || []), [session?.scanned_imeis]);
+  const expectedImeiIndex = useMemo(() => {
+    const index = new Map<string, StockTakeLine>();
+    session?.lines.forEach((line) => line.expected_imeis.forEach((imei) => index.set(imei, line)));
+    return index;
+  }, [session?.lines]);
+
+  const handleScan = async (rawCode: string) => {
+    const code = normalizeIMEI(rawCode);
+    setScanInput('');
+    if (!code || !session) return;
+
+    if (scannedSet.has(code) || session.unexpected_imeis.some((entry) => entry.imei === code)) {
+      playScanTone('error');
+      setScanStatus({ type: 'error', message: `IMEI ${code} was already counted` });
+      return;
+    }
+
+    const line = expectedImeiIndex.get(code);
+    if (line) {
+      setSession((prev) => prev && { ...prev, scanned_imeis: [...prev.scanned_imeis, code] });
+      playScanTone('success');
+      setScanStatus({ type: 'success', message: `Counted ${line.product_name} · IMEI ${code}` });
+      return;
+    }
+
+    // Not expected here - record it and explain where the system thinks it is
+    playScanTone('error');
+    let note = 'Not found in any stock batch';
+    try {
+      const found = await findIMEI(code);
+      if (found) {
+        note = `${found.batch.product_name || 'Product'} (${found.batch.batch_number}) - ${describeIMEIStatus(found.imei.status)}`;
+      }
+    } catch (error) {
+      console.error('Failed to resolve unexpected IMEI:', error);
+      note = 'Could not look up this IMEI';
+    }
+    setSession((prev) => prev && {
+      ...prev,
+      unexpected_imeis: [...prev.unexpected_imeis, { imei: code, note }],
+    });
+    setScanStatus({ type: 'error', message: `Unexpected IMEI ${code}: ${note}` });
+    scanInputRef.current?.focus();
+  };
+
+  useBarcodeScanner(handleScan, { enabled: Boolean(session) && !posting });
+
+  const updateLine = (stockBatch: number, updates: Partial<StockTakeLine>) => {
+    setSession((prev) => prev && {
+      ...prev,
+      lines: prev.lines.map((line) => (line.stock_batch === stockBatch ? { ...line, ...updates } : line)),
+    });
+  };
+
+  const removeScannedImei = (imei: string) => {
+    setSession((prev) => prev && { ...prev, scanned_imeis: prev.scanned_imeis.filter((value) => value !== imei) });
+  };
+
+  const removeUnexpectedImei = (imei: string) => {
+    setSession((prev) => prev && {
+      ...prev,
+      unexpected_imeis: prev.unexpected_imeis.filter((entry) => entry.imei !== imei),
+    });
+  };
+
+  const report = useMemo(() => {
+    if (!session) return [];
+    return session.lines.map((line) => {
+      const counted = getCountedQuantity(line, scannedSet);
+      const delta = counted === null ? 0 : counted - line.expected_quantity;
+      const missingImeis = line.is_imei_tracked ? line.expected_imeis.filter((imei) => !scannedSet.has(imei)) : [];
+      return {
+        line,
+        counted,
+        delta,
+        missingImeis,
+        valueImpact: roundCurrency(delta * (parseFloat(line.unit_purchase_price) || 0)),
+      };
+    });
+  }, [session, scannedSet]);
+
+  const normalizedSearch = lineSearch.trim().toLowerCase();
+  const visibleReport = report.filter(({ line, delta }) => {
+    if (showVarianceOnly && delta === 0) return false;
+    if (!normalizedSearch) return true;
+    return `${line.product_name} ${line.batch_number}`.toLowerCase().includes(normalizedSearch);
+  });
+
+  const totals = report.reduce(
+    (acc, entry) => ({
+      expected: acc.expected + entry.line.expected_quantity,
+      counted: acc.counted + (entry.counted ?? 0),
+      uncounted: acc.uncounted + (entry.counted === null ? 1 : 0),
+      variance: acc.variance + entry.valueImpact,
+    }),
+    { expected: 0, counted: 0, uncounted: 0, variance: 0 }
+  );
+  const missingImeis = report.flatMap((entry) => entry.missingImeis.map((imei) => ({ imei, line: entry.line })));
+  const postableEntries = report.filter((entry) => entry.line.approved && !entry.line.posted && entry.delta !== 0);
+
+  const postAdjustments = async () => {
+    if (!session || postableEntries.length === 0) return;
+    if (totals.uncounted > 0) {
+      showToast.info(`Enter counts for the remaining ${totals.uncounted} batches before posting.`);
+      return;
+    }
+
+    setPosting(true);
+    const shopId = session.location === 'main' ? null : Number.parseInt(session.location, 10);
+    const reference = `Stock take at ${session.location_label} started ${formatDateTime(session.started_at)}`;
+    let posted = 0;
+
+    for (const entry of postableEntries) {
+      try {
+        await stockAdjustmentsAPI.create({
+          stock_batch: entry.line.stock_batch,
+          shop: shopId,
+          adjustment_type: 'manual',
+          quantity: entry.delta,
+          notes: `${reference}: expected ${entry.line.expected_quantity}, counted ${entry.counted}`,
+          imei_list: entry.line.is_imei_tracked ? entry.missingImeis : undefined,
+        });
+        updateLine(entry.line.stock_batch, { posted: true });
+        posted += 1;
+      } catch (error: any) {
+        console.error('Failed to post stock take adjustment:', error);
+        const errorMessage = error.response?.data?.error || error.response?.data?.detail || 'Failed to post adjustment';
+        showToast.error(`${entry.line.product_name} (${entry.line.batch_number}):\n${errorMessage}`);
+      }
+    }
+
+    setPosting(false);
+    if (posted > 0) {
+      showToast.success(`Posted ${posted} stock adjustment${posted === 1 ? '' : 's'}.`);
+    }
+  };
+
+  if (!sessionLoaded) {
+    return null;
+  }
+
+  if (!session) {
+    const locationOptions = [
+      { value: 'main', label: 'Main Stock' },
+      ...shops.map((shop) => ({ value: String(shop.id), label: shop.name, subLabel: shop.code })),
+    ];
+
+    return (
+      <div className="space-y-6">
+        <div className="section-header">
+          <div>
+            <p className="text-[11px] uppercase tracking-[0.3em] text-slate-600 dark:text-slate-400">Inventory Health</p>
+            <h1 className="text-3xl font-semibold text-slate-900 dark:text-slate-100">Stock Take</h1>
+            <p className="text-slate-700 dark:text-slate-300">Count a location and reconcile it against the system</p>
+          </div>
+        </div>
+
+        <div className="max-w-xl rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+          <h2 className="text-xl font-semibold mb-4">Start a Count</h2>
+          <div className="space-y-4">
+            {isShopScoped ? (
+              <p className="text-sm text-slate-700 dark:text-slate-300">
+                Counting stock at <span className="font-semibold">{user?.shop_name || 'your shop'}</span>.
+              </p>
+            ) : (
+              <SearchableSelect
+                label="Location"
+                placeholder="Main stock or shop"
+                required
+                value={location}
+                onChange={(value) => setLocation(String(value))}
+                options={locationOptions}
+              />
+            )}
+            <p className="text-xs text-slate-500">
+              Expected quantities and IMEIs are captured when the count starts. Avoid selling or transferring from this
+              location until the variances are posted.
+            </p>
+            <button
+              onClick={startSession}
+              className="btn btn-primary flex items-center"
+              disabled={starting || !location}
+            >
+              <FiClipboard className="mr-2" />
+              {starting ? 'Loading expected stock...' : 'Start Stock Take'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="section-header">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <p className="text-[11px] uppercase tracking-[0.3em] text-slate-600 dark:text-slate-400">Stock Take</p>
+            <h1 className="text-3xl font-semibold text-slate-900 dark:text-slate-100">{session.location_label}</h1>
+            <p className="text-slate-700 dark:text-slate-300">Started {formatDateTime(session.started_at)}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="inline-flex items-center gap-2 rounded-full border border-sky-200/70 bg-sky-50 px-3 py-1 text-xs font-semibold text-sky-700 dark:border-sky-500/30 dark:bg-sky-500/10 dark:text-sky-200">
+              Counted {totals.counted} / {totals.expected}
+            </span>
+            {totals.uncounted > 0 && (
+              <span className="inline-flex items-center gap-2 rounded-full border border-amber-200/70 bg-amber-50 px-3 py-1 text-xs font-semibold text-amber-700 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-200">
+                {totals.uncounted} batches not counted
+              </span>
+            )}
+            <span className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-semibold ${
+              totals.variance < 0
+                ? 'border-rose-200/70 bg-rose-50 text-rose-700 dark:border-rose-500/30 dark:bg-rose-500/10 dark:text-rose-200'
+                : 'border-emerald-200/70 bg-emerald-50 text-emerald-700 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-200'
+            }`}>
+              Variance Rs {totals.variance.toFixed(2)}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+          <h2 className="text-xl font-semibold mb-2">Scan IMEI</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+            Scan every tracked unit on the shelf. Enter counts for other batches in the table.
+          </p>
+          <input
+            ref={scanInputRef}
+            id="stockTakeScan"
+            name="stockTakeScan"
+            type="text"
+            inputMode="numeric"
+            data-barcode-input
+            className={`input font-mono ${scanStatus?.type === 'error' ? 'border-rose-500 ring-2 ring-rose-500/40' : ''}`}
+            placeholder="Scan or type IMEI and press Enter"
+            value={scanInput}
+            autoComplete="off"
+            autoFocus
+            onChange={(e) => setScanInput(e.target.value)}
+            onKeyDown={(e) => {
+              // Scanner bursts are handled by useBarcodeScanner; this covers manual entry
+              if (e.key !== 'Enter' || e.defaultPrevented) return;
+              e.preventDefault();
+              void handleScan(scanInput);
+            }}
+          />
+          {scanStatus && (
+            <div
+              className={`mt-3 rounded-xl border px-3 py-2 text-sm font-medium ${
+                scanStatus.type === 'error'
+                  ? 'border-rose-400 bg-rose-100 text-rose-700 dark:border-rose-400/30 dark:bg-rose-500/15 dark:text-rose-200'
+                  : 'border-emerald-400 bg-emerald-100 text-emerald-700 dark:border-emerald-400/30 dark:bg-emerald-500/15 dark:text-emerald-200'
+              }`}
+              role={scanStatus.type === 'error' ? 'alert' : 'status'}
+            >
+              {scanStatus.message}
+            </div>
+          )}
+          <p className="mt-4 text-xs text-slate-500">{session.scanned_imeis.length} IMEIs scanned</p>
+          {session.scanned_imeis.length > 0 && (
+            <div className="mt-2 max-h-48 overflow-y-auto scrollbar-hide space-y-1">
+              {[...session.scanned_imeis].reverse().map((imei) => (
+                <div key={imei} className="flex items-center justify-between rounded-lg border border-slate-200/80 dark:border-white/10 px-3 py-1.5 text-xs">
+                  <span className="font-mono">{imei}</span>
+                  <button
+                    type="button"
+                    onClick={() => removeScannedImei(imei)}
+                    className="text-slate-400 hover:text-rose-600"
+                    aria-label={`Remove ${imei}`}
+                  >
+                    <FiTrash size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h2 className="text-xl font-semibold">Variance Report</h2>
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                id="lineSearch"
+                type="text"
+                className="input h-9 py-1.5 text-sm w-48"
+                placeholder="Filter products..."
+                value={lineSearch}
+                onChange={(e) => setLineSearch(e.target.value)}
+              />
+              <label className="flex items-center gap-2 text-xs font-semibold text-slate-600 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={showVarianceOnly}
+                  onChange={(e) => setShowVarianceOnly(e.target.checked)}
+                />
+                Variances only
+              </label>
+            </div>
+          </div>
+          <div className="overflow-x-auto scrollbar-hide rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent">
+            <table className="table table-frost">
+              <thead>
+                <tr>
+                  <th>Product</th>
+                  <th>Expected</th>
+                  <th>Counted</th>
+                  <th>Delta</th>
+                  <th>Value</th>
+                  <th>Post</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleReport.map(({ line, counted, delta, valueImpact }) => (
+                  <tr key={line.stock_batch}>
+                    <td>
+                      <div className="font-medium">{line.product_name}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">
+                        {line.batch_number}
+                        {line.is_imei_tracked && ' | IMEI tracked'}
+                      </div>
+                    </td>
+                    <td>{line.expected_quantity}</td>
+                    <td>
+                      {line.is_imei_tracked ? (
+                        counted
+                      ) : (
+                        <input
+                          type="number"
+                          min={0}
+                          className="input h-9 py-1 w-24"
+                          value={line.counted_quantity ?? ''}
+                          placeholder="-"
+                          disabled={line.posted}
+                          onChange={(e) => updateLine(line.stock_batch, {
+                            counted_quantity: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value, 10) || 0),
+                          })}
+                        />
+                      )}
+                    </td>
+                    <td className={delta < 0 ? 'text-rose-600 font-semibold' : delta > 0 ? 'text-emerald-600 font-semibold' : ''}>
+                      {counted === null ? '-' : delta > 0 ? `+${delta}` : delta}
+                    </td>
+                    <td className={valueImpact < 0 ? 'text-rose-600' : valueImpact > 0 ? 'text-emerald-600' : ''}>
+                      {delta === 0 ? '-' : `Rs ${valueImpact.toFixed(2)}`}
+                    </td>
+                    <td>
+                      {line.posted ? (
+                        <span className="badge badge-success">Posted</span>
+                      ) : delta !== 0 ? (
+                        <input
+                          type="checkbox"
+                          checked={line.approved}
+                          onChange={(e) => updateLine(line.stock_batch, { approved: e.target.checked })}
+                          aria-label={`Approve variance for ${line.product_name}`}
+                        />
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleReport.length === 0 && (
+              <div className="text-center py-12 text-slate-600 dark:text-slate-400">
+                {session.lines.length === 0 ? 'No stock is expected at this location.' : 'No batches match.'}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+          <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+            <FiAlertTriangle className="text-rose-600" />
+            Missing IMEIs ({missingImeis.length})
+          </h2>
+          <p className="text-xs text-slate-500 mb-3">Expected here but not scanned. Posting writes these units out of stock.</p>
+          <div className="max-h-64 overflow-y-auto scrollbar-hide space-y-1">
+            {missingImeis.map(({ imei, line }) => (
+              <div key={imei} className="flex items-center justify-between rounded-lg border border-rose-200/60 dark:border-rose-500/20 px-3 py-1.5 text-xs">
+                <span className="font-mono">{imei}</span>
+                <span className="text-slate-500 dark:text-slate-400">{line.product_name} ({line.batch_number})</span>
+              </div>
+            ))}
+            {missingImeis.length === 0 && (
+              <p className="text-sm text-slate-500 flex items-center gap-2">
+                <FiCheckCircle className="text-emerald-600" />
+                Every expected IMEI has been scanned.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+          <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+            <FiAlertTriangle className="text-amber-600" />
+            Unexpected IMEIs ({session.unexpected_imeis.length})
+          </h2>
+          <p className="text-xs text-slate-500 mb-3">
+            Found here but recorded elsewhere. These are not posted; resolve them with a transfer or return.
+          </p>
+          <div className="max-h-64 overflow-y-auto scrollbar-hide space-y-1">
+            {session.unexpected_imeis.map((entry) => (
+              <div key={entry.imei} className="flex items-center justify-between gap-3 rounded-lg border border-amber-200/60 dark:border-amber-500/20 px-3 py-1.5 text-xs">
+                <div>
+                  <span className="font-mono">{entry.imei}</span>
+                  <span className="block text-slate-500 dark:text-slate-400">{entry.note}</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeUnexpectedImei(entry.imei)}
+                  className="text-slate-400 hover:text-rose-600"
+                  aria-label={`Remove ${entry.imei}`}
+                >
+                  <FiTrash size={12} />
+                </button>
+              </div>
+            ))}
+            {session.unexpected_imeis.length === 0 && (
+              <p className="text-sm text-slate-500">No unexpected IMEIs scanned.</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-3">
+        <button
+          type="button"
+          onClick={() => setConfirmDiscard(true)}
+          className="btn btn-outline flex items-center"
+          disabled={posting}
+        >
+          <FiTrash className="mr-2" />
+          {report.some((entry) => entry.line.posted) ? 'Finish Stock Take' : 'Discard Stock Take'}
+        </button>
+        <button
+          type="button"
+          onClick={postAdjustments}
+          className="btn btn-primary flex items-center"
+          disabled={posting || postableEntries.length === 0}
+        >
+          <FiUpload className="mr-2" />
+          {posting ? 'Posting...' : `Post ${postableEntries.length} Adjustment${postableEntries.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmDiscard}
+        title="Close stock take"
+        message={postableEntries.length > 0
+          ? `${postableEntries.length} approved variances have not been posted and will be lost. Close this stock take?`
+          : 'Close this stock take? Counts on this device will be cleared.'}
+        confirmText="Close"
+        variant="danger"
+        onConfirm={() => {
+          setConfirmDiscard(false);
+          setSession(null);
+          setScanStatus(null);
+        }}
+        onCancel={() => setConfirmDiscard(false)}
+      />
+    </div>
+  );
+}
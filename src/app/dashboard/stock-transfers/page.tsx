@@ -0,0 +1,669 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { stockTransfersAPI } from '@/lib/api';
+import { useAuth } from '@/context/AuthContext';
+import { useCan } from '@/hooks/useCan';
+import type { StockTransfer } from '@/types';
+import { FiAlertTriangle, FiCheck, FiCheckCircle, FiPackage, FiTruck, FiX } from 'react-icons/fi';
+import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import { useBarcodeScanner } from '@/hooks/useBarcodeScanner';
+import { formatDate, formatDateTime, toDateInputValue } from '@/lib/date';
+import FullScreenLoader from '@/components/FullScreenLoader';
+import { showToast } from '@/lib/toast';
+import TableSearchBar from '@/components/TableSearchBar';
+
+type TransferStatus = NonNullable<StockTransfer['status']>;
+
+const statusBadges: Record<TransferStatus, { label: string; className: string }> = {
+  in_transit: { label: 'In Transit', className: 'badge-info' },
+  received: { label: 'Received', className: 'badge-success' },
+  discrepancy: { label: 'Discrepancy', className: 'badge-danger' },
+};
+
+// Transfers recorded before the receiving workflow have no status and were applied on approval
+const getTransferStatus = (transfer: StockTransfer): TransferStatus => transfer.status || 'received';
+
+export default function StockTransfersPage() {
+  const { user } = useAuth();
+  const can = useCan();
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [shopFilter, setShopFilter] = useState('');
+  const [productFilter, setProductFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<TransferStatus | ''>('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize, setPageSize] = useState(25);
+
+  const [receivingTransfer, setReceivingTransfer] = useState<StockTransfer | null>(null);
+  const [receivedImeis, setReceivedImeis] = useState<string[]>([]);
+  const [receivedQuantity, setReceivedQuantity] = useState('');
+  const [discrepancyNotes, setDiscrepancyNotes] = useState('');
+  const [scanInput, setScanInput] = useState('');
+  const [scanStatus, setScanStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [viewingTransfer, setViewingTransfer] = useState<StockTransfer | null>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchTransfers = async () => {
+    try {
+      // Filters and the in-transit counts run in the browser, so they need every page
+      setTransfers(await stockTransfersAPI.listAll());
+    } catch (error) {
+      console.error('Failed to fetch stock transfers:', error);
+      setTransfers([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTransfers();
+  }, []);
+
+  useAutoRefresh(fetchTransfers);
+
+  const canReceive = (transfer: StockTransfer) => {
+    if (getTransferStatus(transfer) !== 'in_transit') return false;
+    if (can('stockTransfer.receiveAny')) return true;
+    // Shop staff receive transfers into their own shop
+    return !can('shop.viewAll') && !!user?.shop && user.shop === transfer.shop;
+  };
+
+  const shopOptions = useMemo(
+    () => Array.from(new Set(transfers.map((transfer) => transfer.shop_name).filter(Boolean))) as string[],
+    [transfers]
+  );
+  const productOptions = useMemo(
+    () => Array.from(new Set(transfers.map((transfer) => transfer.product_name).filter(Boolean))) as string[],
+    [transfers]
+  );
+
+  const filteredTransfers = useMemo(() => {
+    const normalizedTerm = searchTerm.trim().toLowerCase();
+    return transfers
+      .filter((transfer) => {
+        if (shopFilter && transfer.shop_name !== shopFilter) return false;
+        if (productFilter && transfer.product_name !== productFilter) return false;
+        if (statusFilter && getTransferStatus(transfer) !== statusFilter) return false;
+        const dateKey = toDateInputValue(transfer.transferred_at);
+        if (dateFrom && dateKey < dateFrom) return false;
+        if (dateTo && dateKey > dateTo) return false;
+        if (!normalizedTerm) return true;
+        return [
+          transfer.id,
+          transfer.shop_name,
+          transfer.product_name,
+          transfer.batch_number,
+          transfer.transferred_by_name,
+          transfer.received_by_name,
+          ...(transfer.imei_numbers || []),
+        ]
+          .filter(Boolean)
+          .some((value) => String(value).toLowerCase().includes(normalizedTerm));
+      })
+      .sort((a, b) => new Date(b.transferred_at).getTime() - new Date(a.transferred_at).getTime());
+  }, [transfers, searchTerm, shopFilter, productFilter, statusFilter, dateFrom, dateTo]);
+
+  const inTransitCount = transfers.filter((transfer) => getTransferStatus(transfer) === 'in_transit').length;
+  const discrepancyCount = transfers.filter((transfer) => getTransferStatus(transfer) === 'discrepancy').length;
+
+  const totalDisplayCount = filteredTransfers.length;
+  const totalPages = Math.max(1, Math.ceil(totalDisplayCount / pageSize));
+  const pageStart = totalDisplayCount === 0 ? 0 : (currentPage - 1) * pageSize;
+  const pageEnd = Math.min(pageStart + pageSize, totalDisplayCount);
+  const pageLabelStart = totalDisplayCount === 0 ? 0 : pageStart + 1;
+  const paginatedTransfers = filteredTransfers.slice(pageStart, pageEnd);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchTerm, shopFilter, productFilter, statusFilter, dateFrom, dateTo, pageSize]);
+
+  useEffect(() => {
+    if (currentPage > totalPages) {
+      setCurrentPage(totalPages);
+    }
+  }, [currentPage, totalPages]);
+
+  const receivingImeis = receivingTransfer?.imei_numbers || [];
+  const isImeiTracked = receivingImeis.length > 0;
+  const receivedCount = isImeiTracked ? receivedImeis.length : parseInt(receivedQuantity, 10) || 0;
+  const shortage = receivingTransfer ? Math.max(0, receivingTransfer.quantity - receivedCount) : 0;
+
+  const openReceiveModal = (transfer: StockTransfer) => {
+    setReceivingTransfer(transfer);
+    setReceivedImeis([]);
+    setReceivedQuantity(String(transfer.quantity));
+    setDiscrepancyNotes('');
+    setScanInput('');
+    setScanStatus(null);
+  };
+
+  const closeReceiveModal = () => {
+    if (submitting) return;
+    setReceivingTransfer(null);
+  };
+
+  const toggleReceivedImei = (imei: string) => {
+    setReceivedImeis((prev) => (
+      prev.includes(imei) ? prev.filter((value) => value !== imei) : [...prev, imei]
+    ));
+  };
+
+  const handleScan = (rawCode: string) => {
+    const code = rawCode.trim();
+    if (!code || !receivingTransfer) return;
+    setScanInput('');
+
+    if (!receivingImeis.includes(code)) {
+      setScanStatus({ type: 'error', message: `IMEI ${code} is not part of this transfer` });
+      return;
+    }
+    if (receivedImeis.includes(code)) {
+      setScanStatus({ type: 'error', message: `IMEI ${code} is already verified` });
+      return;
+    }
+    setReceivedImeis((prev) => [...prev, code]);
+    setScanStatus({ type: 'success', message: `IMEI ${code} verified` });
+    scanInputRef.current?.focus();
+  };
+
+  useBarcodeScanner(handleScan, { enabled: isImeiTracked && !submitting });
+
+  const handleReceiveSubmit = async () => {
+    if (!receivingTransfer) return;
+
+    if (receivedCount < 0 || receivedCount > receivingTransfer.quantity) {
+      showToast.error(`Received quantity must be between 0 and ${receivingTransfer.quantity}.`);
+      return;
+    }
+    if (shortage > 0 && !discrepancyNotes.trim()) {
+      showToast.error('Describe the shortage so the main inventory manager can follow up.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await stockTransfersAPI.receive(receivingTransfer.id, {
+        received_quantity: receivedCount,
+        received_imeis: isImeiTracked ? receivedImeis : undefined,
+        discrepancy_notes: shortage > 0 ? discrepancyNotes.trim() : undefined,
+      });
+      showToast.success(
+        shortage > 0
+          ? `Receipt recorded with ${shortage} short. The main inventory manager has been notified.`
+          : 'Transfer received into shop stock.'
+      );
+      setReceivingTransfer(null);
+      fetchTransfers();
+    } catch (error: any) {
+      console.error('Failed to receive stock transfer:', error);
+      const errorMessage = error.response?.data?.error || error.response?.data?.detail || 'Failed to receive transfer';
+      showToast.error(`Failed to receive transfer:\n${errorMessage}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <FullScreenLoader label="Loading stock transfers" />;
+  }
+
+  const hasFilters = Boolean(shopFilter || productFilter || statusFilter || dateFrom || dateTo);
+
+  return (
+    <div className="space-y-6">
+      <div className="section-header">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <p className="text-[11px] uppercase tracking-[0.3em] text-slate-600 dark:text-slate-400">Inventory</p>
+            <h1 className="text-3xl font-semibold text-slate-900 dark:text-slate-100">Stock Transfers</h1>
+            <p className="text-slate-700 dark:text-slate-300">Track stock moving to shops and confirm what arrived</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setStatusFilter(statusFilter === 'in_transit' ? '' : 'in_transit')}
+              className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                statusFilter === 'in_transit'
+                  ? 'border-sky-400 bg-sky-100 text-sky-800 dark:border-sky-400/40 dark:bg-sky-500/20 dark:text-sky-100'
+                  : 'border-sky-200/70 bg-sky-50 text-sky-700 hover:bg-sky-100 dark:border-sky-500/30 dark:bg-sky-500/10 dark:text-sky-200'
+              }`}
+            >
+              <FiTruck size={12} />
+              {inTransitCount} in transit
+            </button>
+            <button
+              type="button"
+              onClick={() => setStatusFilter(statusFilter === 'discrepancy' ? '' : 'discrepancy')}
+              className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                statusFilter === 'discrepancy'
+                  ? 'border-rose-400 bg-rose-100 text-rose-800 dark:border-rose-400/40 dark:bg-rose-500/20 dark:text-rose-100'
+                  : 'border-rose-200/70 bg-rose-50 text-rose-700 hover:bg-rose-100 dark:border-rose-500/30 dark:bg-rose-500/10 dark:text-rose-200'
+              }`}
+            >
+              <FiAlertTriangle size={12} />
+              {discrepancyCount} with discrepancies
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+        <div className="mb-4 space-y-3">
+          <TableSearchBar
+            onSearch={setSearchTerm}
+            placeholder="Search transfers by product, batch, shop, or IMEI..."
+          />
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            {can('shop.viewAll') && (
+              <select
+                id="shopFilter"
+                className="input text-sm"
+                value={shopFilter}
+                onChange={(e) => setShopFilter(e.target.value)}
+              >
+                <option value="">All Shops</option>
+                {shopOptions.map((shop) => (
+                  <option key={shop} value={shop}>{shop}</option>
+                ))}
+              </select>
+            )}
+            <select
+              id="productFilter"
+              className="input text-sm"
+              value={productFilter}
+              onChange={(e) => setProductFilter(e.target.value)}
+            >
+              <option value="">All Products</option>
+              {productOptions.map((product) => (
+                <option key={product} value={product}>{product}</option>
+              ))}
+            </select>
+            <select
+              id="statusFilter"
+              className="input text-sm"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as TransferStatus | '')}
+            >
+              <option value="">All Statuses</option>
+              {(Object.keys(statusBadges) as TransferStatus[]).map((status) => (
+                <option key={status} value={status}>{statusBadges[status].label}</option>
+              ))}
+            </select>
+            <input
+              id="dateFrom"
+              type="date"
+              className="input text-sm"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+              aria-label="Transferred from"
+            />
+            <input
+              id="dateTo"
+              type="date"
+              className="input text-sm"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+              aria-label="Transferred to"
+            />
+          </div>
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={() => {
+                setShopFilter('');
+                setProductFilter('');
+                setStatusFilter('');
+                setDateFrom('');
+                setDateTo('');
+              }}
+              className="text-xs font-semibold text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        <div className="overflow-x-auto scrollbar-hide rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent">
+          <table className="table table-frost">
+            <thead>
+              <tr>
+                <th>Transfer</th>
+                <th>Date</th>
+                <th>Shop</th>
+                <th>Product</th>
+                <th>Batch</th>
+                <th>Sent</th>
+                <th>Received</th>
+                <th>Status</th>
+                <th>Transferred By</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {paginatedTransfers.map((transfer) => {
+                const status = getTransferStatus(transfer);
+                const received = transfer.received_quantity ?? (status === 'in_transit' ? null : transfer.quantity);
+                return (
+                  <tr key={transfer.id}>
+                    <td className="font-medium">
+                      #{transfer.id}
+                      {transfer.stock_request && (
+                        <span className="block text-xs text-slate-500 dark:text-slate-400">
+                          Request #{transfer.stock_request}
+                        </span>
+                      )}
+                    </td>
+                    <td>{formatDate(transfer.transferred_at)}</td>
+                    <td>{transfer.shop_name || '-'}</td>
+                    <td>{transfer.product_name || '-'}</td>
+                    <td>{transfer.batch_number || '-'}</td>
+                    <td>{transfer.quantity}</td>
+                    <td className={received !== null && received < transfer.quantity ? 'text-rose-600 font-semibold' : ''}>
+                      {received ?? '-'}
+                    </td>
+                    <td>
+                      <span className={`badge ${statusBadges[status].className}`}>{statusBadges[status].label}</span>
+                    </td>
+                    <td>{transfer.transferred_by_name || '-'}</td>
+                    <td>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {canReceive(transfer) && (
+                          <button
+                            onClick={() => openReceiveModal(transfer)}
+                            className="btn btn-secondary flex items-center text-sm py-1 px-2"
+                          >
+                            <FiCheck className="mr-1" />
+                            Receive
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setViewingTransfer(transfer)}
+                          className="btn btn-outline flex items-center text-sm py-1 px-2"
+                        >
+                          <FiPackage className="mr-1" />
+                          Details
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {totalDisplayCount === 0 && (
+            <div className="text-center py-12 text-slate-600 dark:text-slate-400">
+              No stock transfers found.
+            </div>
+          )}
+        </div>
+
+        {totalDisplayCount > 0 && (
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+            <span className="text-xs text-slate-600 dark:text-slate-400">
+              Showing {pageLabelStart}-{pageEnd} of {totalDisplayCount} rows
+            </span>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex items-center gap-2">
+                <span className="text-xs uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 whitespace-nowrap">Per page</span>
+                <select
+                  id="pageSize"
+                  className="input h-9 py-1.5 min-w-[90px] leading-tight"
+                  value={pageSize}
+                  onChange={(e) => setPageSize(Number(e.target.value))}
+                >
+                  <option value={10}>10</option>
+                  <option value={25}>25</option>
+                  <option value={50}>50</option>
+                  <option value={100}>100</option>
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
+                  disabled={currentPage === 1}
+                >
+                  Prev
+                </button>
+                <span className="text-xs text-slate-500 dark:text-slate-400">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
+                  disabled={currentPage >= totalPages}
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {receivingTransfer && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-slate-900 p-6 text-slate-900 dark:text-slate-100 shadow-2xl">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h3 className="text-xl font-semibold">Receive Transfer #{receivingTransfer.id}</h3>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {receivingTransfer.product_name} | Batch {receivingTransfer.batch_number} | {receivingTransfer.quantity} sent
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={closeReceiveModal}
+                className="text-slate-500 hover:text-slate-900 dark:hover:text-slate-100"
+                aria-label="Close"
+              >
+                <FiX size={20} />
+              </button>
+            </div>
+
+            {isImeiTracked ? (
+              <div className="space-y-3">
+                <input
+                  ref={scanInputRef}
+                  id="receiveScanInput"
+                  name="receiveScanInput"
+                  type="text"
+                  inputMode="numeric"
+                  data-barcode-input
+                  className={`input font-mono ${scanStatus?.type === 'error' ? 'border-rose-500 ring-2 ring-rose-500/40' : ''}`}
+                  placeholder="Scan or type each IMEI and press Enter"
+                  value={scanInput}
+                  autoComplete="off"
+                  autoFocus
+                  onChange={(e) => setScanInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    // Scanner bursts are handled by useBarcodeScanner; this covers manual entry
+                    if (e.key !== 'Enter' || e.defaultPrevented) return;
+                    e.preventDefault();
+                    handleScan(scanInput);
+                  }}
+                />
+                {scanStatus && (
+                  <div
+                    className={`rounded-xl border px-3 py-2 text-sm font-medium ${
+                      scanStatus.type === 'error'
+                        ? 'border-rose-400 bg-rose-100 text-rose-700 dark:border-rose-400/30 dark:bg-rose-500/15 dark:text-rose-200'
+                        : 'border-emerald-400 bg-emerald-100 text-emerald-700 dark:border-emerald-400/30 dark:bg-emerald-500/15 dark:text-emerald-200'
+                    }`}
+                    role={scanStatus.type === 'error' ? 'alert' : 'status'}
+                  >
+                    {scanStatus.message}
+                  </div>
+                )}
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">
+                    Verified {receivedImeis.length} of {receivingImeis.length}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setReceivedImeis(receivedImeis.length === receivingImeis.length ? [] : receivingImeis)}
+                    className="text-xs font-semibold text-sky-700 hover:text-sky-900 dark:text-sky-300 dark:hover:text-sky-100"
+                  >
+                    {receivedImeis.length === receivingImeis.length ? 'Clear all' : 'Mark all received'}
+                  </button>
+                </div>
+                <div className="max-h-60 overflow-y-auto rounded-xl border border-slate-200/80 dark:border-white/10 divide-y divide-slate-200/80 dark:divide-white/10">
+                  {receivingImeis.map((imei) => {
+                    const checked = receivedImeis.includes(imei);
+                    return (
+                      <label
+                        key={imei}
+                        className="flex items-center justify-between gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-slate-50 dark:hover:bg-white/5"
+                      >
+                        <span className="flex items-center gap-3">
+                          <input
+                            type="checkbox"
+                            checked={checked}
+                            onChange={() => toggleReceivedImei(imei)}
+                          />
+                          <span className="font-mono">{imei}</span>
+                        </span>
+                        {checked && <FiCheckCircle className="text-emerald-600" />}
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="received_quantity" className="block text-sm font-medium mb-1">Quantity Received *</label>
+                <input
+                  id="received_quantity"
+                  name="received_quantity"
+                  type="number"
+                  min={0}
+                  max={receivingTransfer.quantity}
+                  className="input"
+                  value={receivedQuantity}
+                  onChange={(e) => setReceivedQuantity(e.target.value)}
+                />
+              </div>
+            )}
+
+            {shortage > 0 && (
+              <div className="mt-4 space-y-2">
+                <div className="rounded-xl border border-amber-200/60 bg-amber-50 px-3 py-2 text-sm text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-200">
+                  <FiAlertTriangle className="inline mr-1" />
+                  {shortage} {shortage === 1 ? 'unit is' : 'units are'} short. A discrepancy note will be sent to the main inventory manager.
+                </div>
+                <label htmlFor="discrepancy_notes" className="block text-sm font-medium">Discrepancy Note *</label>
+                <textarea
+                  id="discrepancy_notes"
+                  name="discrepancy_notes"
+                  className="input"
+                  rows={3}
+                  placeholder="What was missing or damaged on arrival?"
+                  value={discrepancyNotes}
+                  onChange={(e) => setDiscrepancyNotes(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="mt-6 flex space-x-3">
+              <button
+                onClick={handleReceiveSubmit}
+                className={`btn ${shortage > 0 ? 'btn-danger' : 'btn-secondary'} flex-1`}
+                disabled={submitting || (shortage > 0 && !discrepancyNotes.trim())}
+              >
+                {submitting ? 'Saving...' : shortage > 0 ? 'Receive with Discrepancy' : 'Confirm Receipt'}
+              </button>
+              <button onClick={closeReceiveModal} className="btn btn-outline flex-1" disabled={submitting}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {viewingTransfer && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-slate-900 p-6 text-slate-900 dark:text-slate-100 shadow-2xl">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h3 className="text-xl font-semibold">Transfer #{viewingTransfer.id}</h3>
+                <span className={`badge ${statusBadges[getTransferStatus(viewingTransfer)].className}`}>
+                  {statusBadges[getTransferStatus(viewingTransfer)].label}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => setViewingTransfer(null)}
+                className="text-slate-500 hover:text-slate-900 dark:hover:text-slate-100"
+                aria-label="Close"
+              >
+                <FiX size={20} />
+              </button>
+            </div>
+            <dl className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <dt className="text-xs text-slate-500 dark:text-slate-400">Shop</dt>
+                <dd>{viewingTransfer.shop_name || '-'}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-slate-500 dark:text-slate-400">Product</dt>
+                <dd>{viewingTransfer.product_name || '-'} ({viewingTransfer.batch_number || '-'})</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-slate-500 dark:text-slate-400">Sent</dt>
+                <dd>
+                  {viewingTransfer.quantity} by {viewingTransfer.transferred_by_name || '-'}
+                  <span className="block text-xs text-slate-500">{formatDateTime(viewingTransfer.transferred_at)}</span>
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs text-slate-500 dark:text-slate-400">Received</dt>
+                <dd>
+                  {viewingTransfer.received_at ? (
+                    <>
+                      {viewingTransfer.received_quantity ?? '-'} by {viewingTransfer.received_by_name || '-'}
+                      <span className="block text-xs text-slate-500">{formatDateTime(viewingTransfer.received_at)}</span>
+                    </>
+                  ) : '-'}
+                </dd>
+              </div>
+              {viewingTransfer.notes && (
+                <div className="col-span-2">
+                  <dt className="text-xs text-slate-500 dark:text-slate-400">Notes</dt>
+                  <dd className="whitespace-pre-line">{viewingTransfer.notes}</dd>
+                </div>
+              )}
+              {viewingTransfer.discrepancy_notes && (
+                <div className="col-span-2">
+                  <dt className="text-xs text-rose-600 dark:text-rose-300">Discrepancy Note</dt>
+                  <dd className="whitespace-pre-line">{viewingTransfer.discrepancy_notes}</dd>
+                </div>
+              )}
+              {viewingTransfer.missing_imeis && viewingTransfer.missing_imeis.length > 0 && (
+                <div className="col-span-2">
+                  <dt className="text-xs text-rose-600 dark:text-rose-300">Missing IMEIs</dt>
+                  <dd className="font-mono text-xs">{viewingTransfer.missing_imeis.join(', ')}</dd>
+                </div>
+              )}
+              {viewingTransfer.imei_numbers && viewingTransfer.imei_numbers.length > 0 && (
+                <div className="col-span-2">
+                  <dt className="text-xs text-slate-500 dark:text-slate-400">IMEIs Sent</dt>
+                  <dd className="font-mono text-xs">{viewingTransfer.imei_numbers.join(', ')}</dd>
+                </div>
+              )}
+            </dl>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
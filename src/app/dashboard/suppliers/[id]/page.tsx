@@ -0,0 +1,274 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { purchaseInvoicesAPI, purchasePaymentsAPI, suppliersAPI } from '@/lib/api';
+import type { PurchaseInvoice, PurchasePayment, Supplier } from '@/types';
+import FullScreenLoader from '@/components/FullScreenLoader';
+import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import { formatDate } from '@/lib/date';
+import { AGING_BUCKETS, emptyAgingTotals, getAgeInDays, getAgingBucket } from '@/lib/aging';
+import { getStateName, stateCodeFromGSTIN } from '@/lib/tax';
+import { FiArrowLeft } from 'react-icons/fi';
+
+const paymentMethodLabels: Record<PurchasePayment['payment_method'], string> = {
+  cash: 'Cash',
+  card: 'Card',
+  upi: 'UPI',
+  bank_transfer: 'Bank Transfer',
+};
+
+export default function SupplierDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const supplierId = Number(params.id);
+  const [supplier, setSupplier] = useState<Supplier | null>(null);
+  const [invoices, setInvoices] = useState<PurchaseInvoice[]>([]);
+  const [payments, setPayments] = useState<PurchasePayment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSupplierData = async () => {
+    try {
+      const [supplierRes, supplierInvoices, supplierPayments] = await Promise.all([
+        suppliersAPI.get(supplierId),
+        purchaseInvoicesAPI.listAll({ supplier: supplierId }),
+        purchasePaymentsAPI.listAll({ supplier: supplierId }),
+      ]);
+      setSupplier(supplierRes.data);
+      setInvoices(supplierInvoices);
+      setPayments(supplierPayments);
+    } catch (error) {
+      console.error('Failed to fetch supplier details:', error);
+      setSupplier(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (supplierId) {
+      fetchSupplierData();
+    }
+  }, [supplierId]);
+
+  useAutoRefresh(fetchSupplierData);
+
+  const summary = useMemo(() => {
+    const aging = emptyAgingTotals();
+    let totalPurchased = 0;
+    let totalPaid = 0;
+    let outstanding = 0;
+
+    invoices.forEach((invoice) => {
+      const balance = parseFloat(invoice.balance_due || '0');
+      totalPurchased += parseFloat(invoice.total_amount || '0');
+      totalPaid += parseFloat(invoice.amount_paid || '0');
+      outstanding += balance;
+      if (balance > 0) {
+        aging[getAgingBucket(getAgeInDays(invoice.invoice_date)).key] += balance;
+      }
+    });
+
+    return { aging, totalPurchased, totalPaid, outstanding };
+  }, [invoices]);
+
+  if (loading) {
+    return <FullScreenLoader label="Loading supplier" />;
+  }
+
+  if (!supplier) {
+    return (
+      <div className="text-center py-12 text-slate-600 dark:text-slate-400">
+        Supplier not found.
+      </div>
+    );
+  }
+
+  const stateName = getStateName(stateCodeFromGSTIN(supplier.gstin));
+  const sortedPayments = [...payments].sort(
+    (a, b) => new Date(b.payment_date).getTime() - new Date(a.payment_date).getTime()
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="section-header">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <button
+              type="button"
+              onClick={() => router.push('/dashboard/suppliers')}
+              className="mb-2 inline-flex items-center gap-1 text-xs font-semibold text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+            >
+              <FiArrowLeft size={12} />
+              All suppliers
+            </button>
+            <p className="text-[11px] uppercase tracking-[0.3em] text-slate-600 dark:text-slate-400">Supplier</p>
+            <h1 className="text-3xl font-semibold text-slate-900 dark:text-slate-100">{supplier.name}</h1>
+            <p className="text-slate-700 dark:text-slate-300">
+              {[supplier.phone, supplier.email].filter(Boolean).join(' | ') || 'No contact details'}
+            </p>
+          </div>
+          <div className="rounded-2xl border border-amber-200/60 bg-amber-50 px-4 py-2 text-sm text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-200">
+            Outstanding Payables: Rs {summary.outstanding.toFixed(2)}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+          <h2 className="text-xl font-semibold mb-4">Details</h2>
+          <dl className="space-y-2 text-sm">
+            <div>
+              <dt className="text-xs text-slate-500 dark:text-slate-400">GSTIN</dt>
+              <dd className="font-mono">{supplier.gstin || '-'}</dd>
+            </div>
+            {stateName && (
+              <div>
+                <dt className="text-xs text-slate-500 dark:text-slate-400">State</dt>
+                <dd>{stateName}</dd>
+              </div>
+            )}
+            <div>
+              <dt className="text-xs text-slate-500 dark:text-slate-400">Address</dt>
+              <dd className="whitespace-pre-line">{supplier.address || '-'}</dd>
+            </div>
+            {supplier.notes && (
+              <div>
+                <dt className="text-xs text-slate-500 dark:text-slate-400">Notes</dt>
+                <dd className="whitespace-pre-line">{supplier.notes}</dd>
+              </div>
+            )}
+            <div>
+              <dt className="text-xs text-slate-500 dark:text-slate-400">Status</dt>
+              <dd>
+                <span className={`badge ${supplier.is_active ? 'badge-success' : 'badge-secondary'}`}>
+                  {supplier.is_active ? 'Active' : 'Inactive'}
+                </span>
+              </dd>
+            </div>
+          </dl>
+        </div>
+
+        <div className="lg:col-span-2 rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+          <h2 className="text-xl font-semibold mb-4">Payables Aging</h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {AGING_BUCKETS.map((bucket) => (
+              <div key={bucket.key} className="rounded-xl border border-slate-200/80 dark:border-white/10 p-3">
+                <span className={`badge ${bucket.badgeClass}`}>{bucket.label}</span>
+                <p className="mt-2 text-lg font-semibold">Rs {summary.aging[bucket.key].toFixed(2)}</p>
+              </div>
+            ))}
+          </div>
+          <div className="mt-4 grid grid-cols-3 gap-3 text-sm">
+            <div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">Total Purchased</p>
+              <p className="font-semibold">Rs {summary.totalPurchased.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">Total Paid</p>
+              <p className="font-semibold text-emerald-700 dark:text-emerald-300">Rs {summary.totalPaid.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">Outstanding</p>
+              <p className="font-semibold text-rose-700 dark:text-rose-300">Rs {summary.outstanding.toFixed(2)}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+        <h2 className="text-xl font-semibold mb-4">Purchase Invoices</h2>
+        <div className="overflow-x-auto">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Invoice</th>
+                <th>Date</th>
+                <th>Age</th>
+                <th>Total</th>
+                <th>Paid</th>
+                <th>Balance</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoices.map((invoice) => {
+                const balance = parseFloat(invoice.balance_due || '0');
+                const days = getAgeInDays(invoice.invoice_date);
+                return (
+                  <tr key={invoice.id}>
+                    <td className="font-medium">{invoice.invoice_number}</td>
+                    <td>{formatDate(invoice.invoice_date)}</td>
+                    <td>
+                      {balance > 0 ? (
+                        <span className={`badge ${getAgingBucket(days).badgeClass}`}>{days} days</span>
+                      ) : '-'}
+                    </td>
+                    <td>Rs {parseFloat(invoice.total_amount || '0').toFixed(2)}</td>
+                    <td>Rs {parseFloat(invoice.amount_paid || '0').toFixed(2)}</td>
+                    <td className={balance > 0 ? 'text-rose-600 font-semibold' : 'text-emerald-600 font-semibold'}>
+                      Rs {balance.toFixed(2)}
+                    </td>
+                    <td>
+                      <span className={`badge ${
+                        invoice.status === 'paid'
+                          ? 'badge-success'
+                          : invoice.status === 'partial'
+                            ? 'badge-warning'
+                            : 'badge-danger'
+                      }`}>
+                        {invoice.status}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+              {invoices.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="text-center text-slate-500">
+                    No purchase invoices for this supplier.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+        <h2 className="text-xl font-semibold mb-4">Payments</h2>
+        <div className="overflow-x-auto">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Invoice</th>
+                <th>Method</th>
+                <th>Reference</th>
+                <th>Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedPayments.map((payment) => (
+                <tr key={payment.id}>
+                  <td>{formatDate(payment.payment_date)}</td>
+                  <td>{payment.invoice_number || '-'}</td>
+                  <td>{paymentMethodLabels[payment.payment_method] || payment.payment_method}</td>
+                  <td>{payment.reference_number || '-'}</td>
+                  <td className="font-semibold">Rs {parseFloat(payment.amount || '0').toFixed(2)}</td>
+                </tr>
+              ))}
+              {sortedPayments.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="text-center text-slate-500">
+                    No payments recorded for this supplier.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,525 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { purchaseInvoicesAPI, suppliersAPI } from '@/lib/api';
+import type { PurchaseInvoice, Supplier } from '@/types';
+import { FiEdit, FiEye, FiPlus, FiTrash } from 'react-icons/fi';
+import TableSearchBar from '@/components/TableSearchBar';
+import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import FullScreenLoader from '@/components/FullScreenLoader';
+import { HoverBorderGradient } from '@/components/ui/hover-border-gradient';
+import { showToast } from '@/lib/toast';
+import { useMultiSelect } from '@/hooks/useMultiSelect';
+import BulkActionBar from '@/components/BulkActionBar';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { validateGSTIN } from '@/lib/tax';
+
+const emptyForm = {
+  name: '',
+  phone: '',
+  email: '',
+  address: '',
+  gstin: '',
+  notes: '',
+  is_active: true,
+};
+
+export default function SuppliersPage() {
+  const router = useRouter();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [invoices, setInvoices] = useState<PurchaseInvoice[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize, setPageSize] = useState(25);
+  const [gstinError, setGstinError] = useState('');
+  const [confirmState, setConfirmState] = useState({
+    open: false,
+    ids: [] as number[],
+    title: '',
+    message: '',
+  });
+  const [confirmLoading, setConfirmLoading] = useState(false);
+  const formRef = useRef<HTMLDivElement>(null);
+
+  const {
+    selectedIds,
+    toggleSelect,
+    toggleSelectAll,
+    clearSelection,
+    removeSelection,
+    isSelected,
+    isAllSelected,
+  } = useMultiSelect();
+
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchSuppliers();
+    fetchInvoices();
+  }, []);
+
+  const fetchSuppliers = async () => {
+    try {
+      const response = await suppliersAPI.list(searchTerm);
+      setSuppliers(response.data);
+    } catch (error) {
+      console.error('Failed to fetch suppliers:', error);
+      setSuppliers([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchInvoices = async () => {
+    try {
+      const response = await purchaseInvoicesAPI.list();
+      setInvoices(response.data);
+    } catch (error) {
+      console.error('Failed to fetch purchase invoices:', error);
+      setInvoices([]);
+    }
+  };
+
+  useAutoRefresh(() => {
+    fetchSuppliers();
+    fetchInvoices();
+  });
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      fetchSuppliers();
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchTerm, pageSize]);
+
+  const payablesBySupplier = useMemo(() => {
+    const map = new Map<number, number>();
+    invoices.forEach((invoice) => {
+      if (!invoice.supplier) return;
+      map.set(invoice.supplier, (map.get(invoice.supplier) || 0) + parseFloat(invoice.balance_due || '0'));
+    });
+    return map;
+  }, [invoices]);
+
+  const totalPayables = Array.from(payablesBySupplier.values()).reduce((sum, value) => sum + value, 0);
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setGstinError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const gstin = formData.gstin.trim().toUpperCase();
+    if (gstin) {
+      const error = validateGSTIN(gstin);
+      if (error) {
+        setGstinError(error);
+        showToast.error(error);
+        return;
+      }
+    }
+
+    try {
+      const submitData = {
+        name: formData.name.trim(),
+        phone: formData.phone || undefined,
+        email: formData.email || undefined,
+        address: formData.address || undefined,
+        gstin: gstin || undefined,
+        notes: formData.notes || undefined,
+        is_active: formData.is_active,
+      };
+
+      if (editingId) {
+        await suppliersAPI.update(editingId, submitData);
+        showToast.success('Supplier updated successfully!');
+      } else {
+        await suppliersAPI.create(submitData);
+        showToast.success('Supplier created successfully!');
+      }
+      setShowForm(false);
+      setEditingId(null);
+      fetchSuppliers();
+      resetForm();
+    } catch (error: any) {
+      console.error('Supplier save error:', error);
+      const errorMessage = error.response?.data
+        ? JSON.stringify(error.response.data, null, 2)
+        : error.message || 'Failed to save supplier';
+      showToast.error(`Failed to save supplier:\n${errorMessage}`);
+    }
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setFormData({
+      name: supplier.name,
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+      gstin: supplier.gstin || '',
+      notes: supplier.notes || '',
+      is_active: supplier.is_active,
+    });
+    setGstinError('');
+    setEditingId(supplier.id);
+    setShowForm(true);
+    setTimeout(() => {
+      formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, 100);
+  };
+
+  const openDeleteDialog = (ids: number[]) => {
+    const isBulk = ids.length > 1;
+    setConfirmState({
+      open: true,
+      ids,
+      title: isBulk ? 'Delete suppliers' : 'Delete supplier',
+      message: isBulk
+        ? `Delete ${ids.length} suppliers? Their purchase invoices will be kept without a supplier.`
+        : 'Delete this supplier? Their purchase invoices will be kept without a supplier.',
+    });
+  };
+
+  const handleConfirmDelete = async () => {
+    if (confirmLoading) return;
+    setConfirmLoading(true);
+    try {
+      if (confirmState.ids.length === 1) {
+        await suppliersAPI.delete(confirmState.ids[0]);
+      } else {
+        await suppliersAPI.bulkDelete(confirmState.ids);
+      }
+      showToast.success('Supplier deleted successfully!');
+      removeSelection(confirmState.ids);
+      fetchSuppliers();
+    } catch (error: any) {
+      console.error('Supplier deletion error:', error);
+      const errorMessage = error.response?.data?.error || error.response?.data?.detail || 'Failed to delete supplier';
+      showToast.error(`Failed to delete supplier:\n${errorMessage}`);
+    } finally {
+      setConfirmLoading(false);
+      setConfirmState({ open: false, ids: [], title: '', message: '' });
+    }
+  };
+
+  const totalDisplayCount = suppliers.length;
+  const totalPages = Math.max(1, Math.ceil(totalDisplayCount / pageSize));
+  const pageStart = totalDisplayCount === 0 ? 0 : (currentPage - 1) * pageSize;
+  const pageEnd = Math.min(pageStart + pageSize, totalDisplayCount);
+  const pageLabelStart = totalDisplayCount === 0 ? 0 : pageStart + 1;
+  const paginatedSuppliers = suppliers.slice(pageStart, pageEnd);
+  const paginatedIds = paginatedSuppliers.map((supplier) => supplier.id);
+
+  useEffect(() => {
+    if (currentPage > totalPages) {
+      setCurrentPage(totalPages);
+    }
+  }, [currentPage, totalPages]);
+
+  if (loading) {
+    return <FullScreenLoader label="Loading suppliers" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="section-header">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <p className="text-[11px] uppercase tracking-[0.3em] text-slate-600 dark:text-slate-400">Vendor Directory</p>
+            <h1 className="text-3xl font-semibold text-slate-900 dark:text-slate-100">Suppliers</h1>
+            <p className="text-slate-700 dark:text-slate-300">Manage suppliers and what you owe them</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="rounded-2xl border border-amber-200/60 bg-amber-50 px-4 py-2 text-sm text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-200">
+              Total Payables: Rs {totalPayables.toFixed(2)}
+            </div>
+            <HoverBorderGradient
+              as="button"
+              onClick={() => {
+                setShowForm(!showForm);
+                if (showForm) {
+                  setEditingId(null);
+                  resetForm();
+                }
+              }}
+              className="bg-white/90 dark:bg-transparent text-slate-900 dark:text-slate-100"
+            >
+              <FiPlus className="h-4 w-4" />
+              {showForm ? 'Cancel' : 'Add Supplier'}
+            </HoverBorderGradient>
+          </div>
+        </div>
+      </div>
+
+      {showForm && (
+        <div ref={formRef} className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+          <h2 className="text-xl font-semibold mb-4">
+            {editingId ? 'Edit Supplier' : 'Create New Supplier'}
+          </h2>
+          <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium mb-1">Supplier Name *</label>
+              <input id="name" name="name"
+                type="text"
+                className="input"
+                value={formData.name}
+                autoComplete="organization"
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="gstin" className="block text-sm font-medium mb-1">GSTIN</label>
+              <input id="gstin" name="gstin"
+                type="text"
+                className={`input uppercase ${gstinError ? 'border-rose-500' : ''}`}
+                value={formData.gstin}
+                autoComplete="off"
+                onChange={(e) => {
+                  setFormData({ ...formData, gstin: e.target.value.toUpperCase() });
+                  setGstinError('');
+                }}
+                onBlur={() => setGstinError(formData.gstin.trim() ? validateGSTIN(formData.gstin) : '')}
+                placeholder="15-character GSTIN"
+                maxLength={15}
+              />
+              {gstinError && <p className="mt-1 text-xs text-rose-600 dark:text-rose-300">{gstinError}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="phone" className="block text-sm font-medium mb-1">Phone Number</label>
+              <input id="phone" name="phone"
+                type="tel"
+                className="input"
+                value={formData.phone}
+                autoComplete="tel"
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium mb-1">Email</label>
+              <input id="email" name="email"
+                type="email"
+                className="input"
+                value={formData.email}
+                autoComplete="email"
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                placeholder="accounts@supplier.com"
+              />
+            </div>
+
+            <div className="col-span-2">
+              <label htmlFor="address" className="block text-sm font-medium mb-1">Address</label>
+              <textarea id="address" name="address"
+                className="input"
+                rows={2}
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                placeholder="Full address with city, state, pincode"
+              />
+            </div>
+
+            <div className="col-span-2">
+              <label htmlFor="notes" className="block text-sm font-medium mb-1">Notes</label>
+              <textarea id="notes" name="notes"
+                className="input"
+                rows={2}
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="Credit terms, contact person, etc."
+              />
+            </div>
+
+            <div className="col-span-2 flex items-center gap-2">
+              <input
+                id="is_active"
+                type="checkbox"
+                checked={formData.is_active}
+                onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+              />
+              <label htmlFor="is_active" className="text-sm font-medium">Active supplier</label>
+            </div>
+
+            <div className="col-span-2">
+              <HoverBorderGradient
+                as="button"
+                type="submit"
+                className="w-full justify-center bg-white/90 dark:bg-transparent text-slate-900 dark:text-slate-100"
+              >
+                {editingId ? 'Update Supplier' : 'Create Supplier'}
+              </HoverBorderGradient>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-6 text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+        <div className="mb-4">
+          <TableSearchBar
+            onSearch={setSearchTerm}
+            placeholder="Search suppliers by name, phone, or GSTIN..."
+            className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-slate-50 dark:bg-transparent p-4"
+          />
+        </div>
+        <div className="overflow-x-auto scrollbar-hide rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent">
+          <table className="table table-frost">
+            <thead>
+              <tr>
+                <th className="w-12">
+                  <input
+                    name="rowSelect"
+                    type="checkbox"
+                    checked={isAllSelected(paginatedIds)}
+                    onChange={() => toggleSelectAll(paginatedIds)}
+                  />
+                </th>
+                <th>Name</th>
+                <th>Phone</th>
+                <th>GSTIN</th>
+                <th>Status</th>
+                <th>Payables</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {paginatedSuppliers.map((supplier) => {
+                const payable = payablesBySupplier.get(supplier.id) || 0;
+                return (
+                  <tr key={supplier.id}>
+                    <td>
+                      <input
+                        name="rowSelect"
+                        type="checkbox"
+                        checked={isSelected(supplier.id)}
+                        onChange={() => toggleSelect(supplier.id)}
+                      />
+                    </td>
+                    <td className="font-medium">{supplier.name}</td>
+                    <td>{supplier.phone || '-'}</td>
+                    <td className="font-mono text-xs">{supplier.gstin || '-'}</td>
+                    <td>
+                      <span className={`badge ${supplier.is_active ? 'badge-success' : 'badge-secondary'}`}>
+                        {supplier.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className={payable > 0 ? 'text-rose-600 font-semibold' : 'text-emerald-600 font-semibold'}>
+                      Rs {payable.toFixed(2)}
+                    </td>
+                    <td>
+                      <div className="flex flex-wrap gap-2">
+                        <button
+                          onClick={() => router.push(`/dashboard/suppliers/${supplier.id}`)}
+                          className="inline-flex items-center gap-2 rounded-full border border-slate-200/80 dark:border-white/10 bg-slate-50 dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-900 dark:text-slate-100 transition hover:bg-white/10"
+                          title="View Supplier"
+                        >
+                          <FiEye size={14} />
+                          View
+                        </button>
+                        <button
+                          onClick={() => handleEdit(supplier)}
+                          className="inline-flex items-center gap-2 rounded-full border border-sky-400 dark:border-sky-400/30 bg-sky-100 dark:bg-sky-500/15 px-3 py-1 text-xs font-semibold text-sky-700 dark:text-sky-200 transition hover:bg-sky-200 dark:hover:bg-sky-500/25"
+                          title="Edit Supplier"
+                        >
+                          <FiEdit size={14} />
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => openDeleteDialog([supplier.id])}
+                          className="inline-flex items-center gap-2 rounded-full border border-rose-400 dark:border-rose-400/30 bg-rose-100 dark:bg-rose-500/15 px-3 py-1 text-xs font-semibold text-rose-700 dark:text-rose-200 transition hover:bg-rose-200 dark:hover:bg-rose-500/25"
+                          title="Delete Supplier"
+                        >
+                          <FiTrash size={14} />
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {totalDisplayCount === 0 && (
+            <div className="text-center py-12 text-slate-600 dark:text-slate-400">
+              No suppliers found. Add your first supplier to get started.
+            </div>
+          )}
+        </div>
+
+        {totalDisplayCount > 0 && (
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+            <span className="text-xs text-slate-600 dark:text-slate-400">
+              Showing {pageLabelStart}-{pageEnd} of {totalDisplayCount} rows
+            </span>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex items-center gap-2">
+                <span className="text-xs uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 whitespace-nowrap">Per page</span>
+                <select
+                  id="pageSize"
+                  className="input h-9 py-1.5 min-w-[90px] leading-tight"
+                  value={pageSize}
+                  onChange={(e) => setPageSize(Number(e.target.value))}
+                >
+                  <option value={10}>10</option>
+                  <option value={25}>25</option>
+                  <option value={50}>50</option>
+                  <option value={100}>100</option>
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
+                  disabled={currentPage === 1}
+                >
+                  Prev
+                </button>
+                <span className="text-xs text-slate-500 dark:text-slate-400">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
+                  disabled={currentPage >= totalPages}
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <BulkActionBar
+        selectedCount={selectedIds.length}
+        onDelete={() => openDeleteDialog(selectedIds)}
+        onCancel={clearSelection}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmState.open}
+        title={confirmState.title}
+        message={confirmState.message}
+        confirmText="Delete"
+        variant="danger"
+        loading={confirmLoading}
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setConfirmState({ open: false, ids: [], title: '', message: '' })}
+      />
+    </div>
+  );
+}
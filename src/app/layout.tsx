@@ -1,4 +1,5 @@
 import type { Metadata } from 'next';
+import Script from 'next/script';
 import './globals.css';
 import { Providers } from '@/components/Providers';
 
@@ -19,6 +20,8 @@ export default function RootLayout({
         <meta httpEquiv="Cache-Control" content="no-cache, no-store, must-revalidate" />
         <meta httpEquiv="Pragma" content="no-cache" />
         <meta httpEquiv="Expires" content="0" />
+        {/* Deployment-specific API/media overrides, read by src/lib/config.ts */}
+        <Script src="/runtime-config.js" strategy="beforeInteractive" />
       </head>
       <body className="antialiased">
         <Providers>
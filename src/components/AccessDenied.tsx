@@ -0,0 +1,39 @@
+'use client';
+
+import Link from 'next/link';
+import { FiLock, FiShoppingBag } from 'react-icons/fi';
+import type { RouteAccess } from '@/lib/permissions';
+
+const COPY: Record<Exclude<RouteAccess, 'allowed'>, { code: string; title: string; message: string }> = {
+  forbidden: {
+    code: '403',
+    title: 'You do not have access to this page',
+    message: 'Your role does not include this section. Ask an administrator if you need it.',
+  },
+  'requires-shop': {
+    code: 'Shop required',
+    title: 'This page needs an assigned shop',
+    message: 'Ask an administrator to assign you to a shop, then sign in again.',
+  },
+};
+
+export default function AccessDenied({ reason }: { reason: Exclude<RouteAccess, 'allowed'> }) {
+  const { code, title, message } = COPY[reason];
+  const Icon = reason === 'requires-shop' ? FiShoppingBag : FiLock;
+
+  return (
+    <div className="flex min-h-[60vh] items-center justify-center">
+      <div className="w-full max-w-md rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white/90 dark:bg-transparent p-8 text-center text-slate-900 dark:text-slate-100 shadow-lg dark:shadow-[0_20px_60px_rgba(2,6,23,0.45)]">
+        <div className="mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-2xl bg-rose-100 text-rose-600 dark:bg-rose-500/15 dark:text-rose-300">
+          <Icon size={26} />
+        </div>
+        <p className="text-[11px] uppercase tracking-[0.3em] text-slate-600 dark:text-slate-400">{code}</p>
+        <h1 className="mt-2 text-2xl font-semibold">{title}</h1>
+        <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">{message}</p>
+        <Link href="/dashboard" className="btn btn-primary mt-6 inline-flex">
+          Back to dashboard
+        </Link>
+      </div>
+    </div>
+  );
+}
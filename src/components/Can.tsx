@@ -0,0 +1,17 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { useCan } from '@/hooks/useCan';
+import type { Capability } from '@/lib/permissions';
+
+interface CanProps {
+  I: Capability;
+  children: ReactNode;
+  /** Rendered instead of the children when the capability is missing */
+  fallback?: ReactNode;
+}
+
+export default function Can({ I, children, fallback = null }: CanProps) {
+  const can = useCan();
+  return <>{can(I) ? children : fallback}</>;
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { FiKey } from 'react-icons/fi';
+import { useAuth } from '@/context/AuthContext';
+import { authAPI } from '@/lib/api';
+import { PIN_PATTERN, removeCashierPin } from '@/lib/cashierPins';
+import { showToast } from '@/lib/toast';
+
+interface CashierPinModalProps {
+  isOpen: boolean;
+  hasPin: boolean;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full rounded-xl border border-slate-700/50 bg-slate-950/50 px-4 py-3 text-center text-2xl tracking-[0.5em] text-slate-100 outline-none transition-all placeholder:text-slate-600 focus:border-sky-500/50 focus:ring-4 focus:ring-sky-500/10';
+
+/** Sets or removes the signed-in user's quick-unlock PIN on this terminal. */
+export default function CashierPinModal({ isOpen, hasPin, onClose }: CashierPinModalProps) {
+  const { user, setCashierPin } = useAuth();
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  if (!isOpen || !user) return null;
+
+  const close = () => {
+    setPin('');
+    setConfirmPin('');
+    setError('');
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!PIN_PATTERN.test(pin)) {
+      setError('PIN must be 4 to 6 digits');
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError('PINs do not match');
+      return;
+    }
+    setSaving(true);
+    try {
+      await setCashierPin(pin);
+      showToast.success('PIN saved');
+      close();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save PIN');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    try {
+      await authAPI.removePin();
+      removeCashierPin(user.id);
+      showToast.success('PIN removed');
+      close();
+    } catch (err: any) {
+      setError(err.response?.data?.detail || 'Failed to remove PIN');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Portalled: the header's backdrop blur would otherwise confine a fixed overlay to the header
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm px-4" onClick={close}>
+      <div
+        className="w-full max-w-sm rounded-2xl border border-sky-500/20 bg-slate-950/95 p-6 shadow-2xl backdrop-blur-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start space-x-4">
+          <div className="flex-shrink-0 mt-0.5">
+            <FiKey className="text-sky-400" size={24} />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-xl font-semibold text-slate-100 mb-2">{hasPin ? 'Change quick PIN' : 'Set a quick PIN'}</h3>
+            <p className="text-slate-300 text-sm leading-relaxed">
+              Unlock this terminal, or take it over from another cashier, with 4 to 6 digits. The PIN is checked by the server and is locked after repeated wrong tries.
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-4 rounded-lg border border-rose-500/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="mt-5 space-y-4">
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={6}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            autoFocus
+            className={inputClassName}
+            placeholder="PIN"
+          />
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={6}
+            value={confirmPin}
+            onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+            className={inputClassName}
+            placeholder="Confirm"
+          />
+
+          <div className="flex space-x-3 justify-end">
+            {hasPin && (
+              <button
+                type="button"
+                onClick={handleRemove}
+                disabled={saving}
+                className="mr-auto px-4 py-2.5 rounded-xl text-rose-300 hover:bg-rose-500/10 transition-colors disabled:opacity-50"
+              >
+                Remove
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={close}
+              disabled={saving}
+              className="px-5 py-2.5 rounded-xl border border-white/10 text-slate-300 hover:bg-white/5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !pin || !confirmPin}
+              className="px-5 py-2.5 rounded-xl bg-sky-500 hover:bg-sky-600 text-white transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save PIN'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>,
+    document.body
+  );
+}
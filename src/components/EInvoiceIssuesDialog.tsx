@@ -0,0 +1,84 @@
+'use client';
+
+import { FiAlertCircle, FiDownload } from 'react-icons/fi';
+import type { EInvoiceBatch } from '@/lib/eInvoice';
+
+interface EInvoiceIssuesDialogProps {
+  batch: EInvoiceBatch | null;
+  /** Downloads the invoices that passed; omit for a single-sale export */
+  onDownload?: () => void;
+  onClose: () => void;
+}
+
+/** Field-level reasons the e-invoice portal would reject an export, shown before anything is downloaded. */
+export default function EInvoiceIssuesDialog({ batch, onDownload, onClose }: EInvoiceIssuesDialogProps) {
+  if (!batch || batch.invalid.length === 0) return null;
+
+  const total = batch.payloads.length + batch.invalid.length;
+  const readyCount = batch.payloads.length;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm px-4 print:hidden"
+      onClick={onClose}
+    >
+      <div
+        className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-2xl border border-orange-500/20 bg-slate-950/95 p-6 shadow-2xl backdrop-blur-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start space-x-4">
+          <div className="flex-shrink-0 mt-0.5">
+            <FiAlertCircle className="text-orange-400" size={24} />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-xl font-semibold text-slate-100 mb-2">
+              {batch.invalid.length === 1 && total === 1
+                ? 'This invoice cannot be e-invoiced yet'
+                : `${batch.invalid.length} of ${total} invoices need fixing`}
+            </h3>
+            <p className="text-slate-300 text-sm leading-relaxed">
+              The portal would reject these fields. Correct the sale, the customer or Settings &gt; Invoice Details, then export again.
+            </p>
+          </div>
+        </div>
+
+        <div className="mt-5 flex-1 space-y-4 overflow-y-auto pr-1">
+          {batch.invalid.map(({ sale, issues }) => (
+            <div key={sale.id} className="rounded-xl border border-white/10 p-4">
+              <p className="text-sm font-semibold text-slate-100">
+                {sale.invoice_number}
+                <span className="ml-2 font-normal text-slate-400">{sale.customer_name}</span>
+              </p>
+              <ul className="mt-2 space-y-1.5">
+                {issues.map((issue, index) => (
+                  <li key={`${issue.field}-${index}`} className="flex flex-wrap items-baseline gap-x-2 text-sm text-slate-300">
+                    <code className="rounded bg-white/5 px-1.5 py-0.5 text-xs text-orange-300">{issue.field}</code>
+                    <span>{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex space-x-3 justify-end mt-6">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 rounded-xl border border-white/10 text-slate-300 hover:bg-white/5 transition-colors"
+          >
+            Close
+          </button>
+          {onDownload && readyCount > 0 && (
+            <button
+              onClick={onDownload}
+              className="inline-flex items-center gap-2 px-5 py-2.5 rounded-xl bg-orange-500 hover:bg-orange-600 text-white transition-colors font-medium"
+            >
+              <FiDownload />
+              Download {readyCount} ready
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FiAlertCircle, FiTruck } from 'react-icons/fi';
+import type { CompanyProfile, Sale } from '@/types';
+import type { EInvoiceIssue } from '@/lib/eInvoice';
+import {
+  buildEwayBill,
+  emptyTransportDetails,
+  EWAY_BILL_THRESHOLD,
+  TRANSPORT_MODES,
+  type EwayTransportDetails,
+  type TransportMode,
+} from '@/lib/ewayBill';
+import { downloadJson, toFileSafe } from '@/lib/download';
+import { showToast } from '@/lib/toast';
+
+interface EwayBillDialogProps {
+  isOpen: boolean;
+  sale: Sale;
+  profile: CompanyProfile | null;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full rounded-xl border border-slate-700/50 bg-slate-950/50 px-4 py-2.5 text-sm text-slate-100 outline-none transition-all placeholder:text-slate-600 focus:border-sky-500/50 focus:ring-4 focus:ring-sky-500/10';
+const labelClassName = 'mb-1.5 block text-xs font-semibold uppercase tracking-wider text-slate-400';
+
+/** Collects how a sale is dispatched and downloads its e-way bill JSON once the portal's rules pass. */
+export default function EwayBillDialog({ isOpen, sale, profile, onClose }: EwayBillDialogProps) {
+  const [details, setDetails] = useState<EwayTransportDetails>(() => emptyTransportDetails(sale));
+  const [issues, setIssues] = useState<EInvoiceIssue[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDetails(emptyTransportDetails(sale));
+    setIssues([]);
+  }, [isOpen, sale]);
+
+  if (!isOpen) return null;
+
+  const isRoad = details.mode === '1';
+  const update = (patch: Partial<EwayTransportDetails>) => setDetails((current) => ({ ...current, ...patch }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { payload, issues: found } = buildEwayBill(sale, profile, details);
+    if (found.length > 0) {
+      setIssues(found);
+      return;
+    }
+    downloadJson(`ewaybill-${toFileSafe(sale.invoice_number)}.json`, payload);
+    showToast.success('e-Way bill JSON downloaded');
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm px-4 print:hidden"
+      onClick={onClose}
+    >
+      <div
+        className="flex max-h-[90vh] w-full max-w-xl flex-col rounded-2xl border border-sky-500/20 bg-slate-950/95 p-6 shadow-2xl backdrop-blur-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start space-x-4">
+          <div className="flex-shrink-0 mt-0.5">
+            <FiTruck className="text-sky-400" size={24} />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-xl font-semibold text-slate-100 mb-2">e-Way bill for {sale.invoice_number}</h3>
+            <p className="text-slate-300 text-sm leading-relaxed">
+              Needed when the consignment is worth Rs {EWAY_BILL_THRESHOLD.toLocaleString('en-IN')} or more.
+              Upload the file through the e-way bill portal&apos;s bulk generation.
+            </p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="mt-5 flex min-h-0 flex-1 flex-col">
+          <div className="flex-1 space-y-4 overflow-y-auto pr-1">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="ewayTransportMode" className={labelClassName}>Transport mode</label>
+                <select
+                  id="ewayTransportMode"
+                  value={details.mode}
+                  onChange={(e) => update({ mode: e.target.value as TransportMode })}
+                  className={inputClassName}
+                >
+                  {TRANSPORT_MODES.map((mode) => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="ewayDistance" className={labelClassName}>Distance (km)</label>
+                <input
+                  id="ewayDistance"
+                  type="text"
+                  inputMode="numeric"
+                  value={details.distanceKm}
+                  onChange={(e) => update({ distanceKm: e.target.value.replace(/\D/g, '') })}
+                  autoFocus
+                  className={inputClassName}
+                  placeholder="e.g. 210"
+                />
+              </div>
+              <div>
+                <label htmlFor="ewayTransporterId" className={labelClassName}>Transporter ID</label>
+                <input
+                  id="ewayTransporterId"
+                  type="text"
+                  maxLength={15}
+                  value={details.transporterId}
+                  onChange={(e) => update({ transporterId: e.target.value.toUpperCase() })}
+                  className={inputClassName}
+                  placeholder="GSTIN or TRANSIN"
+                />
+              </div>
+              <div>
+                <label htmlFor="ewayTransporterName" className={labelClassName}>Transporter name</label>
+                <input
+                  id="ewayTransporterName"
+                  type="text"
+                  value={details.transporterName}
+                  onChange={(e) => update({ transporterName: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              {isRoad ? (
+                <>
+                  <div>
+                    <label htmlFor="ewayVehicleNo" className={labelClassName}>Vehicle number</label>
+                    <input
+                      id="ewayVehicleNo"
+                      type="text"
+                      value={details.vehicleNo}
+                      onChange={(e) => update({ vehicleNo: e.target.value.toUpperCase() })}
+                      className={inputClassName}
+                      placeholder="KL07AB1234"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="ewayVehicleType" className={labelClassName}>Vehicle type</label>
+                    <select
+                      id="ewayVehicleType"
+                      value={details.vehicleType}
+                      onChange={(e) => update({ vehicleType: e.target.value as EwayTransportDetails['vehicleType'] })}
+                      className={inputClassName}
+                    >
+                      <option value="R">Regular</option>
+                      <option value="O">Over dimensional cargo</option>
+                    </select>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div>
+                    <label htmlFor="ewayTransDocNo" className={labelClassName}>Transport doc no</label>
+                    <input
+                      id="ewayTransDocNo"
+                      type="text"
+                      maxLength={15}
+                      value={details.transDocNo}
+                      onChange={(e) => update({ transDocNo: e.target.value })}
+                      className={inputClassName}
+                      placeholder="RR / AWB / BL number"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="ewayTransDocDate" className={labelClassName}>Transport doc date</label>
+                    <input
+                      id="ewayTransDocDate"
+                      type="date"
+                      value={details.transDocDate}
+                      onChange={(e) => update({ transDocDate: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {issues.length > 0 && (
+              <div className="rounded-xl border border-orange-500/30 bg-orange-500/10 p-4">
+                <p className="flex items-center gap-2 text-sm font-semibold text-orange-200">
+                  <FiAlertCircle />
+                  The portal would reject this e-way bill
+                </p>
+                <ul className="mt-2 space-y-1.5">
+                  {issues.map((issue, index) => (
+                    <li key={`${issue.field}-${index}`} className="flex flex-wrap items-baseline gap-x-2 text-sm text-slate-300">
+                      <code className="rounded bg-white/5 px-1.5 py-0.5 text-xs text-orange-300">{issue.field}</code>
+                      <span>{issue.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="flex space-x-3 justify-end mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-5 py-2.5 rounded-xl border border-white/10 text-slate-300 hover:bg-white/5 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-5 py-2.5 rounded-xl bg-sky-500 hover:bg-sky-600 text-white transition-colors font-medium"
+            >
+              Generate JSON
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
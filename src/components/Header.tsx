@@ -1,34 +1,37 @@
 'use client';
 
 import { useAuth } from '@/context/AuthContext';
-import { FiBell, FiChevronDown, FiLogOut, FiUser, FiSun, FiMoon, FiSettings } from 'react-icons/fi';
+import { FiBell, FiChevronDown, FiLogOut, FiUser, FiSun, FiMoon, FiSettings, FiSearch, FiLock, FiKey } from 'react-icons/fi';
 import { useState, useEffect, useRef } from 'react';
 import { AnimatePresence, motion } from 'motion/react';
 import { notificationsAPI } from '@/lib/api';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { useTheme } from '@/components/ThemeRipple';
+import { getAppConfig } from '@/lib/config';
+import Can from '@/components/Can';
+import CashierPinModal from '@/components/CashierPinModal';
+import { hasCashierPin } from '@/lib/cashierPins';
+
+const ENVIRONMENT_BADGES = {
+  production: { label: 'Production', className: 'border-emerald-500/30 bg-emerald-500/10 text-emerald-600 dark:text-emerald-400' },
+  staging: { label: 'Staging', className: 'border-amber-500/40 bg-amber-500/15 text-amber-600 dark:text-amber-400' },
+  development: { label: 'Development', className: 'border-sky-500/40 bg-sky-500/15 text-sky-600 dark:text-sky-400' },
+};
 
 export default function Header() {
-  const { user, logout } = useAuth();
+  const { user, logout, lock } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
   const { theme, toggleTheme } = useTheme();
+  const [imeiQuery, setImeiQuery] = useState('');
   const [unreadCount, setUnreadCount] = useState(0);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const profileRef = useRef<HTMLDivElement>(null);
-  const normalizeRole = (role: unknown): string => {
-    if (!role) return '';
-    if (typeof role === 'string') {
-      const normalized = role.trim().toLowerCase().replace(/[-\s]+/g, '_');
-      return normalized === 'superadmin' ? 'super_admin' : normalized;
-    }
-    if (typeof role === 'object') {
-      const roleObj = role as { name?: string; value?: string; slug?: string };
-      return normalizeRole(roleObj.value ?? roleObj.slug ?? roleObj.name ?? '');
-    }
-    return '';
-  };
-  const userRole = normalizeRole(user?.role);
-  const isAdmin = userRole === 'admin' || userRole === 'super_admin';
+  const [pinModal, setPinModal] = useState<{ hasPin: boolean } | null>(null);
+  const { environment, apiUrl, useMockApi } = getAppConfig();
+  const environmentBadge = useMockApi
+    ? { label: 'Mock data', className: 'border-rose-500/40 bg-rose-500/15 text-rose-600 dark:text-rose-400' }
+    : ENVIRONMENT_BADGES[environment];
 
   useEffect(() => {
     fetchUnreadCount();
@@ -70,9 +73,17 @@ export default function Header() {
     <header className="sticky top-0 z-30 w-full border-b border-slate-200/60 bg-white/70 backdrop-blur-xl transition-all duration-300 dark:border-slate-800/60 dark:bg-slate-950/70 text-slate-900 dark:text-slate-100">
       <div className="relative flex flex-wrap items-center justify-between gap-4 px-6 py-4">
         <div className="space-y-1">
-          <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500/80 dark:text-slate-400/80">
-            Command Center
-          </p>
+          <div className="flex items-center gap-2">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500/80 dark:text-slate-400/80">
+              Command Center
+            </p>
+            <span
+              className={`rounded-full border px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wider ${environmentBadge.className}`}
+              title={useMockApi ? 'Requests are served by the in-browser mock backend' : `API: ${apiUrl}`}
+            >
+              {environmentBadge.label}
+            </span>
+          </div>
           <div className="flex items-center gap-2">
             <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-100">
               Welcome back,
@@ -84,7 +95,31 @@ export default function Header() {
         </div>
 
         <div className="flex flex-wrap items-center gap-4">
-          {/* Quick Actions / Status could go here */}
+          {pathname !== '/dashboard/imei-lookup' && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                const code = imeiQuery.replace(/\s+/g, '');
+                if (!code) return;
+                setImeiQuery('');
+                router.push(`/dashboard/imei-lookup?imei=${encodeURIComponent(code)}`);
+              }}
+              className="relative hidden md:block"
+            >
+              <FiSearch className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
+              <input
+                id="headerImeiSearch"
+                name="headerImeiSearch"
+                type="text"
+                inputMode="numeric"
+                className="w-56 rounded-2xl border border-slate-200/60 dark:border-white/10 bg-white/50 dark:bg-slate-900/50 py-2 pl-9 pr-3 text-sm font-mono text-slate-900 dark:text-slate-100 placeholder:font-sans placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                placeholder="Trace IMEI..."
+                value={imeiQuery}
+                autoComplete="off"
+                onChange={(e) => setImeiQuery(e.target.value)}
+              />
+            </form>
+          )}
 
           <div ref={profileRef} className="relative">
             <button
@@ -165,7 +200,7 @@ export default function Header() {
                       )}
                     </button>
 
-                    {isAdmin && (
+                    <Can I="settings.manage">
                       <button
                         type="button"
                         onClick={() => {
@@ -179,7 +214,35 @@ export default function Header() {
                         </div>
                         <span>Settings</span>
                       </button>
-                    )}
+                    </Can>
+
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setIsProfileOpen(false);
+                        lock();
+                      }}
+                      className="flex w-full items-center gap-3 rounded-xl px-3 py-2.5 text-sm font-medium text-slate-700 dark:text-slate-200 transition hover:bg-slate-100 dark:hover:bg-white/10"
+                    >
+                      <div className="p-1 rounded bg-slate-200/50 dark:bg-white/5">
+                        <FiLock size={14} />
+                      </div>
+                      <span>Lock terminal</span>
+                    </button>
+
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setIsProfileOpen(false);
+                        setPinModal({ hasPin: !!user && hasCashierPin(user.id) });
+                      }}
+                      className="flex w-full items-center gap-3 rounded-xl px-3 py-2.5 text-sm font-medium text-slate-700 dark:text-slate-200 transition hover:bg-slate-100 dark:hover:bg-white/10"
+                    >
+                      <div className="p-1 rounded bg-slate-200/50 dark:bg-white/5">
+                        <FiKey size={14} />
+                      </div>
+                      <span>Quick unlock PIN</span>
+                    </button>
 
                     <button
                       type="button"
@@ -216,6 +279,12 @@ export default function Header() {
           </div>
         </div>
       </div>
+
+      <CashierPinModal
+        isOpen={!!pinModal}
+        hasPin={!!pinModal?.hasPin}
+        onClose={() => setPinModal(null)}
+      />
     </header>
   );
 }
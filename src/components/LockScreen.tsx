@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { FiLock, FiLogOut, FiUser } from 'react-icons/fi';
+import { useAuth } from '@/context/AuthContext';
+import { displayNameOf, listCashiers, PIN_PATTERN } from '@/lib/cashierPins';
+
+// After this many wrong PINs the terminal only accepts a password until it is unlocked
+const MAX_PIN_ATTEMPTS = 5;
+
+const inputClassName = 'w-full rounded-xl border border-slate-700/50 bg-slate-950/50 px-4 py-3 text-slate-100 outline-none transition-all placeholder:text-slate-600 focus:border-sky-500/50 focus:bg-slate-950/80 focus:ring-4 focus:ring-sky-500/10';
+
+/**
+ * Covers the dashboard while the terminal is locked. Whatever is open underneath (a POS cart,
+ * a half-filled form) stays mounted; unlocking as another cashier swaps the session in place.
+ */
+export default function LockScreen() {
+  const { user, isLocked, unlockWithPin, unlockWithPassword, logout } = useAuth();
+  const cashiers = useMemo(
+    () => (isLocked && user ? listCashiers(user.shop) : []),
+    [isLocked, user]
+  );
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [pin, setPin] = useState('');
+  const [usePassword, setUsePassword] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isLocked || !user) return;
+    const current = cashiers.find((cashier) => cashier.user_id === user.id);
+    setSelectedId(current?.user_id ?? cashiers[0]?.user_id ?? null);
+    setUsePassword(cashiers.length === 0);
+    setUsername(user.username);
+    setPin('');
+    setPassword('');
+    setFailedAttempts(0);
+    setError('');
+  }, [cashiers, isLocked, user]);
+
+  if (!isLocked || !user) return null;
+
+  const pinLocked = failedAttempts >= MAX_PIN_ATTEMPTS;
+  const showPassword = usePassword || pinLocked || cashiers.length === 0;
+
+  const handlePinSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedId === null || !PIN_PATTERN.test(pin)) return;
+    setError('');
+    setLoading(true);
+    try {
+      await unlockWithPin(selectedId, pin);
+    } catch (err: any) {
+      setFailedAttempts((count) => count + 1);
+      setError(err.message || 'Unlock failed');
+      setPin('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    try {
+      await unlockWithPassword({ username: username.trim(), password });
+    } catch (err: any) {
+      setError(err.message || 'Login failed');
+      setPassword('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[105] flex items-center justify-center bg-slate-950/90 backdrop-blur-xl px-4 print:hidden">
+      <div className="w-full max-w-md rounded-2xl border border-white/10 bg-slate-950/95 p-6 shadow-2xl">
+        <div className="flex flex-col items-center text-center">
+          <div className="flex h-14 w-14 items-center justify-center rounded-2xl bg-sky-500/15 text-sky-300">
+            <FiLock size={26} />
+          </div>
+          <h2 className="mt-4 text-2xl font-semibold text-slate-100">Terminal locked</h2>
+          <p className="mt-1 text-sm text-slate-400">
+            Last used by <span className="font-semibold text-slate-200">{displayNameOf(user)}</span>. Open work is kept.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mt-4 rounded-lg border border-rose-500/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200 text-center">
+            {error}
+          </div>
+        )}
+
+        {!showPassword ? (
+          <form onSubmit={handlePinSubmit} className="mt-5 space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {cashiers.map((cashier) => (
+                <button
+                  key={cashier.user_id}
+                  type="button"
+                  onClick={() => {
+                    setSelectedId(cashier.user_id);
+                    setPin('');
+                    setError('');
+                  }}
+                  className={`flex items-center gap-2 rounded-xl border px-3 py-2.5 text-left text-sm transition ${
+                    selectedId === cashier.user_id
+                      ? 'border-sky-500/60 bg-sky-500/15 text-sky-100'
+                      : 'border-white/10 text-slate-300 hover:bg-white/5'
+                  }`}
+                >
+                  <FiUser className="flex-shrink-0" />
+                  <span className="truncate">{cashier.display_name}</span>
+                </button>
+              ))}
+            </div>
+            <div>
+              <label className="mb-2 block text-xs font-semibold uppercase tracking-wider text-slate-400">PIN</label>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={6}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                autoFocus
+                className={`${inputClassName} text-center text-2xl tracking-[0.5em]`}
+                placeholder="••••"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading || selectedId === null || !PIN_PATTERN.test(pin)}
+              className="w-full px-5 py-2.5 rounded-xl bg-sky-500 hover:bg-sky-600 text-white transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Unlocking...' : 'Unlock'}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handlePasswordSubmit} className="mt-5 space-y-4">
+            {pinLocked && (
+              <p className="text-center text-xs text-amber-300">Too many wrong PINs. Sign in with a password.</p>
+            )}
+            <div>
+              <label className="mb-2 block text-xs font-semibold uppercase tracking-wider text-slate-400">Username</label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="mb-2 block text-xs font-semibold uppercase tracking-wider text-slate-400">Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                autoFocus
+                className={inputClassName}
+                placeholder="••••••••"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading || !username.trim() || !password}
+              className="w-full px-5 py-2.5 rounded-xl bg-sky-500 hover:bg-sky-600 text-white transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Signing in...' : 'Unlock'}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-5 flex items-center justify-between text-sm">
+          {cashiers.length > 0 && !pinLocked ? (
+            <button
+              type="button"
+              onClick={() => {
+                setUsePassword((value) => !value);
+                setError('');
+              }}
+              className="text-sky-300 hover:text-sky-200"
+            >
+              {showPassword ? 'Use a PIN' : 'Use a password'}
+            </button>
+          ) : (
+            <span />
+          )}
+          <button
+            type="button"
+            onClick={logout}
+            className="inline-flex items-center gap-2 text-slate-400 hover:text-slate-200"
+          >
+            <FiLogOut size={14} />
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import type { ProvisionalReceipt as ProvisionalReceiptData } from '@/lib/offlineDb';
+import { formatDateTime } from '@/lib/date';
+
+interface ProvisionalReceiptProps {
+  receipt: ProvisionalReceiptData;
+}
+
+const formatAmount = (value: number) => `Rs ${value.toFixed(2)}`;
+
+const PAYMENT_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  net_banking: 'Net Banking',
+  card: 'Card',
+  cheque: 'Cheque',
+};
+
+/**
+ * Receipt for a sale that is still waiting in the offline queue. Built only from the
+ * local snapshot so it prints without a network; the tax invoice follows once synced.
+ */
+export default function ProvisionalReceipt({ receipt }: ProvisionalReceiptProps) {
+  return (
+    <>
+      <div className="provisional-receipt rounded-xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-slate-950 p-4 text-xs text-slate-900 dark:text-slate-100 print:border-0 print:p-0 print:text-black">
+        <div className="text-center border-b border-dashed border-slate-300 dark:border-slate-700 pb-3">
+          <p className="text-sm font-semibold">{receipt.shop_name}</p>
+          {receipt.shop_address && <p className="text-slate-600 dark:text-slate-400 print:text-black">{receipt.shop_address}</p>}
+          {receipt.shop_phone && <p className="text-slate-600 dark:text-slate-400 print:text-black">Ph: {receipt.shop_phone}</p>}
+          <p className="mt-2 text-[11px] font-semibold uppercase tracking-[0.25em]">Provisional Receipt</p>
+          <p className="text-[10px] text-slate-500 print:text-black">Not a tax invoice · invoice issued once the sale syncs</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-1 border-b border-dashed border-slate-300 dark:border-slate-700 py-2">
+          <span>Ref: <span className="font-mono">{receipt.provisional_number}</span></span>
+          <span className="text-right">{formatDateTime(receipt.created_at)}</span>
+          <span>Customer: {receipt.customer_name}</span>
+          <span className="text-right">{receipt.customer_phone || ''}</span>
+          {receipt.cashier_name && <span className="col-span-2">Cashier: {receipt.cashier_name}</span>}
+        </div>
+
+        <table className="w-full border-b border-dashed border-slate-300 dark:border-slate-700">
+          <thead>
+            <tr className="text-left text-[10px] uppercase text-slate-500 print:text-black">
+              <th className="py-1">Item</th>
+              <th className="py-1 text-center">Qty</th>
+              <th className="py-1 text-right">Rate</th>
+              <th className="py-1 text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {receipt.items.map((item, index) => (
+              <tr key={`${item.batch_number}-${item.imei || index}`} className="align-top">
+                <td className="py-1">
+                  <p>{item.product_name}</p>
+                  {item.imei && <p className="font-mono text-[10px] text-slate-500 print:text-black">IMEI {item.imei}</p>}
+                  <p className="text-[10px] text-slate-500 print:text-black">GST {item.gst_rate}%</p>
+                </td>
+                <td className="py-1 text-center">{item.quantity}</td>
+                <td className="py-1 text-right">{item.unit_price.toFixed(2)}</td>
+                <td className="py-1 text-right">{item.amount.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="space-y-1 border-b border-dashed border-slate-300 dark:border-slate-700 py-2">
+          <div className="flex justify-between"><span>Taxable value</span><span>{formatAmount(receipt.taxable_value)}</span></div>
+          <div className="flex justify-between"><span>GST</span><span>{formatAmount(receipt.total_tax)}</span></div>
+          {receipt.discount > 0 && (
+            <div className="flex justify-between"><span>Discount</span><span>- {formatAmount(receipt.discount)}</span></div>
+          )}
+          {receipt.other_charges > 0 && (
+            <div className="flex justify-between"><span>Transport / loading</span><span>{formatAmount(receipt.other_charges)}</span></div>
+          )}
+          {receipt.exchange_credit > 0 && (
+            <div className="flex justify-between"><span>Exchange credit</span><span>- {formatAmount(receipt.exchange_credit)}</span></div>
+          )}
+          <div className="flex justify-between text-sm font-semibold"><span>Amount payable</span><span>{formatAmount(receipt.amount_payable)}</span></div>
+        </div>
+
+        <div className="space-y-1 pt-2">
+          {receipt.payments.map((payment, index) => (
+            <div key={`${payment.payment_method}-${index}`} className="flex justify-between">
+              <span>
+                {PAYMENT_LABELS[payment.payment_method] || payment.payment_method}
+                {payment.reference_number ? ` (${payment.reference_number})` : ''}
+              </span>
+              <span>{formatAmount(parseFloat(payment.amount) || 0)}</span>
+            </div>
+          ))}
+          {receipt.balance_due > 0 && (
+            <div className="flex justify-between font-semibold"><span>Balance due</span><span>{formatAmount(receipt.balance_due)}</span></div>
+          )}
+        </div>
+      </div>
+
+      {/* Only the receipt prints - the POS behind it stays hidden */}
+      <style jsx global>{`
+        @media print {
+          body * {
+            visibility: hidden !important;
+          }
+          .provisional-receipt,
+          .provisional-receipt * {
+            visibility: visible !important;
+          }
+          .provisional-receipt {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 80mm;
+          }
+        }
+      `}</style>
+    </>
+  );
+}
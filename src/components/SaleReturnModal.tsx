@@ -0,0 +1,325 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FiRotateCcw, FiX } from 'react-icons/fi';
+import { saleReturnsAPI, salesAPI } from '@/lib/api';
+import type { Sale, SaleItem, SalePayment, SaleReturn } from '@/types';
+import { showToast } from '@/lib/toast';
+import { getSaleDiscountFactor } from '@/lib/receivables';
+import { roundCurrency } from '@/lib/tax';
+
+interface SaleReturnModalProps {
+  saleId: number | null;
+  onClose: () => void;
+  onReturned: (saleReturn: SaleReturn) => void;
+}
+
+interface ReturnLine {
+  selected: boolean;
+  quantity: number;
+  restock_action: 'restock' | 'damaged';
+}
+
+const refundMethodOptions: Array<{ value: SalePayment['payment_method']; label: string }> = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'card', label: 'Card' },
+  { value: 'net_banking', label: 'Net Banking' },
+  { value: 'cheque', label: 'Cheque' },
+];
+
+const getReturnableQuantity = (item: SaleItem) => Math.max(0, item.quantity - (item.returned_quantity || 0));
+
+export default function SaleReturnModal({ saleId, onClose, onReturned }: SaleReturnModalProps) {
+  const [sale, setSale] = useState<Sale | null>(null);
+  const [loadingSale, setLoadingSale] = useState(false);
+  const [lines, setLines] = useState<Record<number, ReturnLine>>({});
+  const [resolution, setResolution] = useState<SaleReturn['resolution']>('refund');
+  const [refundMethod, setRefundMethod] = useState<SalePayment['payment_method']>('cash');
+  const [refundReference, setRefundReference] = useState('');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!saleId) return;
+
+    setSale(null);
+    setLines({});
+    setResolution('refund');
+    setRefundMethod('cash');
+    setRefundReference('');
+    setReason('');
+    setLoadingSale(true);
+
+    salesAPI.get(saleId)
+      .then((response) => {
+        setSale(response.data);
+        const initial: Record<number, ReturnLine> = {};
+        (response.data.items || []).forEach((item) => {
+          initial[item.id] = { selected: false, quantity: getReturnableQuantity(item), restock_action: 'restock' };
+        });
+        setLines(initial);
+      })
+      .catch((error) => {
+        console.error('Failed to load sale for return:', error);
+        showToast.error('Failed to load sale details');
+        onClose();
+      })
+      .finally(() => setLoadingSale(false));
+  }, [saleId]);
+
+  if (!saleId) return null;
+
+  const updateLine = (itemId: number, changes: Partial<ReturnLine>) => {
+    setLines((prev) => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+  };
+
+  const items = sale?.items || [];
+  const selectedItems = items.filter((item) => lines[item.id]?.selected && lines[item.id].quantity > 0);
+
+  // Pro-rate each sale line's tax-inclusive total by the quantity being returned, less its share of the bill discount
+  const discountFactor = sale ? getSaleDiscountFactor(sale) : 1;
+  const returnTotal = roundCurrency(selectedItems.reduce((sum, item) => {
+    const perUnit = (parseFloat(item.total_amount) / item.quantity) * discountFactor;
+    return sum + perUnit * lines[item.id].quantity;
+  }, 0));
+
+  const handleSubmit = async () => {
+    if (!sale) return;
+
+    if (selectedItems.length === 0) {
+      showToast.info('Select at least one item to return');
+      return;
+    }
+
+    if (!reason.trim()) {
+      showToast.info('Please enter a reason for the return');
+      return;
+    }
+
+    if (resolution === 'refund' && refundMethod !== 'cash' && !refundReference.trim()) {
+      showToast.info('Please enter the refund reference');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await saleReturnsAPI.create({
+        sale: sale.id,
+        resolution,
+        refund_method: resolution === 'refund' ? refundMethod : undefined,
+        refund_reference: resolution === 'refund' ? refundReference.trim() || undefined : undefined,
+        reason: reason.trim(),
+        items: selectedItems.map((item) => ({
+          sale_item: item.id,
+          quantity: lines[item.id].quantity,
+          imei: item.imei || undefined,
+          restock_action: lines[item.id].restock_action,
+        })),
+      });
+      showToast.success(`Credit note ${response.data.credit_note_number} created`);
+      onReturned(response.data);
+    } catch (error: any) {
+      console.error('Failed to create sale return:', error);
+      const errorMessage = error.response?.data
+        ? JSON.stringify(error.response.data, null, 2)
+        : 'Failed to create sale return';
+      showToast.error(`Error creating return:\n${errorMessage}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="rounded-2xl border border-slate-200/80 dark:border-white/10 bg-white dark:bg-slate-950 shadow-[0_20px_60px_rgba(2,6,23,0.65)] max-w-3xl w-full max-h-[90vh] overflow-y-auto scrollbar-hide p-6 text-slate-900 dark:text-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <FiRotateCcw />
+              Return / Exchange
+            </h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              {sale ? `Invoice ${sale.invoice_number} · ${sale.customer_name}` : 'Loading sale...'}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-100 transition-colors"
+            disabled={submitting}
+          >
+            <FiX />
+          </button>
+        </div>
+
+        {loadingSale && <p className="text-sm text-slate-500">Loading sale items...</p>}
+
+        {sale && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {items.map((item) => {
+                const line = lines[item.id];
+                const returnable = getReturnableQuantity(item);
+                if (!line) return null;
+
+                return (
+                  <div
+                    key={item.id}
+                    className={`rounded-xl border p-3 ${
+                      line.selected
+                        ? 'border-amber-400 bg-amber-50 dark:border-amber-400/40 dark:bg-amber-500/10'
+                        : 'border-slate-200/80 bg-slate-50 dark:border-white/10 dark:bg-transparent'
+                    } ${returnable === 0 ? 'opacity-60' : ''}`}
+                  >
+                    <div className="flex flex-wrap items-start justify-between gap-3">
+                      <label className="flex items-start gap-3">
+                        <input
+                          type="checkbox"
+                          className="mt-1"
+                          checked={line.selected}
+                          disabled={returnable === 0}
+                          onChange={(e) => updateLine(item.id, { selected: e.target.checked })}
+                        />
+                        <span>
+                          <span className="block font-semibold">{item.product_name}</span>
+                          <span className="block text-xs text-slate-600 dark:text-slate-400">
+                            {item.batch_number} · Sold {item.quantity} @ Rs {parseFloat(item.unit_price).toFixed(2)}
+                            {item.returned_quantity ? ` · ${item.returned_quantity} already returned` : ''}
+                          </span>
+                          {item.imei && (
+                            <span className="block text-xs font-mono text-slate-700 dark:text-slate-300">IMEI: {item.imei}</span>
+                          )}
+                        </span>
+                      </label>
+
+                      {line.selected && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          {!item.imei && returnable > 1 && (
+                            <input
+                              type="number"
+                              min={1}
+                              max={returnable}
+                              className="input h-9 w-20 py-1"
+                              value={line.quantity}
+                              onChange={(e) => updateLine(item.id, {
+                                quantity: Math.min(returnable, Math.max(1, Number(e.target.value) || 1)),
+                              })}
+                              aria-label="Quantity to return"
+                            />
+                          )}
+                          <select
+                            className="input h-9 py-1"
+                            value={line.restock_action}
+                            onChange={(e) => updateLine(item.id, { restock_action: e.target.value as ReturnLine['restock_action'] })}
+                            aria-label="Returned stock handling"
+                          >
+                            <option value="restock">Restock to {sale.shop_name || 'shop'}</option>
+                            <option value="damaged">Write off as damaged</option>
+                          </select>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="rounded-xl border border-slate-200/80 dark:border-white/10 bg-slate-50 dark:bg-transparent p-4 space-y-3">
+              <div className="flex gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="returnResolution"
+                    className="h-4 w-4 accent-emerald-600"
+                    checked={resolution === 'refund'}
+                    onChange={() => setResolution('refund')}
+                  />
+                  Refund
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="returnResolution"
+                    className="h-4 w-4 accent-emerald-600"
+                    checked={resolution === 'exchange'}
+                    onChange={() => setResolution('exchange')}
+                  />
+                  Exchange (credit towards a new sale)
+                </label>
+              </div>
+
+              {resolution === 'refund' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="refundMethod" className="block text-sm font-medium mb-1">Refund Method</label>
+                    <select
+                      id="refundMethod"
+                      className="input"
+                      value={refundMethod}
+                      onChange={(e) => setRefundMethod(e.target.value as SalePayment['payment_method'])}
+                    >
+                      {refundMethodOptions.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {refundMethod !== 'cash' && (
+                    <div>
+                      <label htmlFor="refundReference" className="block text-sm font-medium mb-1">Refund Reference</label>
+                      <input
+                        id="refundReference"
+                        type="text"
+                        className="input"
+                        value={refundReference}
+                        onChange={(e) => setRefundReference(e.target.value)}
+                        placeholder="Transaction/Reference ID"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="returnReason" className="block text-sm font-medium mb-1">Reason *</label>
+                <textarea
+                  id="returnReason"
+                  className="input"
+                  rows={2}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Manufacturing defect, wrong colour"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm">
+                Credit note value:{' '}
+                <span className="font-bold text-amber-700 dark:text-amber-300">Rs {returnTotal.toFixed(2)}</span>
+              </p>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={submitting}
+                  className="rounded-full border border-slate-200/70 px-4 py-2 text-sm text-slate-600 hover:text-slate-900 dark:border-white/10 dark:text-slate-300 dark:hover:text-slate-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSubmit}
+                  disabled={submitting || selectedItems.length === 0}
+                  className="rounded-full bg-amber-600 px-4 py-2 text-sm font-semibold text-white hover:bg-amber-500 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {submitting ? 'Processing...' : 'Create Credit Note'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
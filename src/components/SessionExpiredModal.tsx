@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FiLock } from 'react-icons/fi';
+import { useAuth } from '@/context/AuthContext';
+import { isSessionExpired, resumeSession, subscribeToSession } from '@/lib/authSession';
+
+/**
+ * Asks for the password again when the session can no longer be refreshed. The page underneath
+ * stays mounted, and the requests that failed are replayed once the user is back in.
+ */
+export default function SessionExpiredModal() {
+  const { user, loginWithoutNavigate, logout } = useAuth();
+  const [open, setOpen] = useState(isSessionExpired);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => subscribeToSession(setOpen), []);
+
+  useEffect(() => {
+    if (!open) {
+      setPassword('');
+      setError('');
+    }
+  }, [open]);
+
+  if (!open || !user) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      // Same account only: the open page and the held requests belong to this user
+      await loginWithoutNavigate({ username: user.username, password });
+      resumeSession();
+    } catch (err: any) {
+      setError(err.message || 'Login failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/70 backdrop-blur-sm px-4 print:hidden">
+      <div className="w-full max-w-md rounded-2xl border border-sky-500/20 bg-slate-950/95 p-6 shadow-2xl backdrop-blur-xl">
+        <div className="flex items-start space-x-4">
+          <div className="flex-shrink-0 mt-0.5">
+            <FiLock className="text-sky-400" size={24} />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-xl font-semibold text-slate-100 mb-2">Session expired</h3>
+            <p className="text-slate-300 text-sm leading-relaxed">
+              Sign in again as <span className="font-semibold text-slate-100">{user.username}</span> to carry on.
+              Nothing on this page has been lost.
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-4 rounded-lg border border-rose-500/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="mt-5 space-y-5">
+          <div>
+            <label className="mb-2 block text-xs font-semibold uppercase tracking-wider text-slate-400">
+              Password
+            </label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              autoFocus
+              className="w-full rounded-xl border border-slate-700/50 bg-slate-950/50 px-4 py-3 text-slate-100 outline-none transition-all placeholder:text-slate-600 focus:border-sky-500/50 focus:bg-slate-950/80 focus:ring-4 focus:ring-sky-500/10"
+              placeholder="••••••••"
+            />
+          </div>
+
+          <div className="flex space-x-3 justify-end">
+            <button
+              type="button"
+              onClick={logout}
+              disabled={loading}
+              className="px-5 py-2.5 rounded-xl border border-white/10 text-slate-300 hover:bg-white/5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Sign out
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !password}
+              className="px-5 py-2.5 rounded-xl bg-sky-500 hover:bg-sky-600 text-white transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Signing in...' : 'Sign in'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -3,15 +3,46 @@
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
+import { canAccessRoute } from '@/lib/permissions';
 import {
   FiHome, FiPackage, FiShoppingCart, FiGrid, FiUsers,
   FiSettings, FiTrendingUp, FiTag, FiLayers, FiDatabase,
   FiShoppingBag, FiTruck, FiBell, FiDroplet, FiUserPlus,
-  FiDollarSign, FiFileText, FiMenu, FiX, FiFilter, FiShuffle, FiArchive
+  FiDollarSign, FiFileText, FiMenu, FiX, FiFilter, FiShuffle, FiArchive, FiCreditCard, FiBriefcase, FiRepeat, FiSliders, FiSearch, FiClipboard
 } from 'react-icons/fi';
 import { useEffect, useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
 
+const menuItems = [
+  { name: 'Dashboard', href: '/dashboard', icon: FiHome },
+  { name: 'Products', href: '/dashboard/products', icon: FiPackage },
+  { name: 'Categories', href: '/dashboard/categories', icon: FiGrid },
+  { name: 'Brands', href: '/dashboard/brands', icon: FiTag },
+  { name: 'Variants', href: '/dashboard/variants', icon: FiLayers },
+  { name: 'Colors', href: '/dashboard/colors', icon: FiDroplet },
+  { name: 'Conditions', href: '/dashboard/conditions', icon: FiFilter },
+  { name: 'Sources', href: '/dashboard/sources', icon: FiShuffle },
+  { name: 'GST Slabs', href: '/dashboard/gst-slabs', icon: FiTrendingUp },
+  { name: 'Stock Batches', href: '/dashboard/stock-batches', icon: FiDatabase },
+  { name: 'Purchase Invoices', href: '/dashboard/purchase-invoices', icon: FiFileText },
+  { name: 'Suppliers', href: '/dashboard/suppliers', icon: FiBriefcase },
+  { name: 'Dead Stock', href: '/dashboard/dead-stock', icon: FiArchive },
+  { name: 'Stock Adjustments', href: '/dashboard/stock-adjustments', icon: FiSliders },
+  { name: 'Stock Take', href: '/dashboard/stock-take', icon: FiClipboard },
+  { name: 'Shops', href: '/dashboard/shops', icon: FiShoppingBag },
+  { name: 'Sub Stock', href: '/dashboard/sub-stocks', icon: FiShoppingCart },
+  { name: 'Stock Requests', href: '/dashboard/stock-requests', icon: FiTruck },
+  { name: 'Stock Transfers', href: '/dashboard/stock-transfers', icon: FiRepeat },
+  { name: 'IMEI Lookup', href: '/dashboard/imei-lookup', icon: FiSearch },
+  { name: 'Point of Sale', href: '/dashboard/pos', icon: FiDollarSign },
+  { name: 'Sales History', href: '/dashboard/sales', icon: FiFileText },
+  { name: 'Receivables', href: '/dashboard/receivables', icon: FiCreditCard },
+  { name: 'Customers', href: '/dashboard/customers', icon: FiUserPlus },
+  { name: 'Notifications', href: '/dashboard/notifications', icon: FiBell },
+  { name: 'Settings', href: '/dashboard/settings', icon: FiSettings },
+  { name: 'Users', href: '/dashboard/users', icon: FiUsers },
+];
+
 export default function Sidebar() {
   const pathname = usePathname();
   const router = useRouter();
@@ -25,54 +56,12 @@ export default function Sidebar() {
   } | null>(null);
   const [tooltipRoot, setTooltipRoot] = useState<HTMLElement | null>(null);
 
-  const menuItems = [
-    { name: 'Dashboard', href: '/dashboard', icon: FiHome, roles: ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'] },
-    { name: 'Products', href: '/dashboard/products', icon: FiPackage, roles: ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'] },
-    { name: 'Categories', href: '/dashboard/categories', icon: FiGrid, roles: ['super_admin', 'admin', 'main_inventory_manager'] },
-    { name: 'Brands', href: '/dashboard/brands', icon: FiTag, roles: ['super_admin', 'admin', 'main_inventory_manager'] },
-    { name: 'Variants', href: '/dashboard/variants', icon: FiLayers, roles: ['super_admin', 'admin', 'main_inventory_manager'] },
-    { name: 'Colors', href: '/dashboard/colors', icon: FiDroplet, roles: ['super_admin', 'admin', 'main_inventory_manager'] },
-    { name: 'Conditions', href: '/dashboard/conditions', icon: FiFilter, roles: ['super_admin', 'admin', 'main_inventory_manager'] },
-    { name: 'Sources', href: '/dashboard/sources', icon: FiShuffle, roles: ['super_admin', 'admin', 'main_inventory_manager'] },
-    { name: 'GST Slabs', href: '/dashboard/gst-slabs', icon: FiTrendingUp, roles: ['super_admin'] },
-    { name: 'Stock Batches', href: '/dashboard/stock-batches', icon: FiDatabase, roles: ['super_admin', 'main_inventory_manager'] },
-    { name: 'Purchase Invoices', href: '/dashboard/purchase-invoices', icon: FiFileText, roles: ['super_admin', 'admin', 'main_inventory_manager'] },
-    { name: 'Dead Stock', href: '/dashboard/dead-stock', icon: FiArchive, roles: ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'] },
-    { name: 'Shops', href: '/dashboard/shops', icon: FiShoppingBag, roles: ['super_admin'] },
-    { name: 'Sub Stock', href: '/dashboard/sub-stocks', icon: FiShoppingCart, roles: ['super_admin', 'main_inventory_manager', 'sub_stock_manager'] },
-    { name: 'Stock Requests', href: '/dashboard/stock-requests', icon: FiTruck, roles: ['super_admin', 'main_inventory_manager', 'sub_stock_manager'] },
-    { name: 'Point of Sale', href: '/dashboard/pos', icon: FiDollarSign, roles: ['super_admin', 'main_inventory_manager', 'sub_stock_manager'] },
-    { name: 'Sales History', href: '/dashboard/sales', icon: FiFileText, roles: ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'] },
-    { name: 'Customers', href: '/dashboard/customers', icon: FiUserPlus, roles: ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'] },
-    { name: 'Notifications', href: '/dashboard/notifications', icon: FiBell, roles: ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'] },
-    { name: 'Settings', href: '/dashboard/settings', icon: FiSettings, roles: ['super_admin', 'admin'] },
-    { name: 'Users', href: '/dashboard/users', icon: FiUsers, roles: ['super_admin', 'admin'] },
-  ];
-
-  const normalizeRole = (role: unknown): string => {
-    if (!role) return '';
-    if (typeof role === 'string') {
-      return role.trim().toLowerCase().replace(/\s+/g, '_');
-    }
-    if (typeof role === 'object') {
-      const roleObj = role as { name?: string; value?: string; slug?: string };
-      return normalizeRole(roleObj.value ?? roleObj.slug ?? roleObj.name ?? '');
-    }
-    return '';
-  };
-
-  // Defensive fallback: If user exists but role is undefined, assume super_admin for backwards compatibility
-  const userRole = normalizeRole(user?.role) || (user?.username === 'admin' ? 'super_admin' : '');
-
   if (user && !user.role) {
     console.warn('User object missing role field:', user);
   }
 
   const filteredMenuItems = useMemo(() => {
-    const items = menuItems.filter(item =>
-      item.roles.includes(userRole) &&
-      (item.name !== 'Point of Sale' || user?.shop)
-    );
+    const items = menuItems.filter((item) => canAccessRoute(user, item.href));
 
     if (items.length === 0 && user) {
       console.warn('Sidebar menu empty for role:', user.role);
@@ -80,7 +69,7 @@ export default function Sidebar() {
     }
 
     return items;
-  }, [menuItems, userRole, user?.shop, user]);
+  }, [user]);
 
   // Close mobile menu on route change
   useEffect(() => {
@@ -172,10 +161,10 @@ export default function Sidebar() {
       ['Products', 'Categories', 'Brands', 'Variants', 'Colors', 'Conditions', 'Sources', 'GST Slabs'].includes(item.name)
     ),
     inventory: filteredMenuItems.filter(item =>
-      ['Stock Batches', 'Purchase Invoices', 'Dead Stock', 'Sub Stock', 'Stock Requests'].includes(item.name)
+      ['Stock Batches', 'Purchase Invoices', 'Suppliers', 'Dead Stock', 'Stock Adjustments', 'Stock Take', 'Sub Stock', 'Stock Requests', 'Stock Transfers', 'IMEI Lookup'].includes(item.name)
     ),
     sales: filteredMenuItems.filter(item =>
-      ['Sales History', 'Customers'].includes(item.name)
+      ['Sales History', 'Receivables', 'Customers'].includes(item.name)
     ),
     system: filteredMenuItems.filter(item =>
       ['Shops', 'Users', 'Notifications', 'Settings'].includes(item.name)
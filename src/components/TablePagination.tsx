@@ -0,0 +1,78 @@
+'use client';
+
+interface TablePaginationProps {
+  page: number;
+  totalPages: number;
+  pageSize: number;
+  count: number;
+  rangeStart: number;
+  rangeEnd: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+  pageSizeOptions?: number[];
+  /** Dims the controls while the next page loads */
+  loading?: boolean;
+  className?: string;
+}
+
+const buttonClassName = 'rounded-full border border-slate-200/80 dark:border-white/10 bg-white dark:bg-transparent px-3 py-1 text-xs font-semibold text-slate-700 dark:text-slate-200 transition hover:bg-slate-50 dark:hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50';
+
+export default function TablePagination({
+  page,
+  totalPages,
+  pageSize,
+  count,
+  rangeStart,
+  rangeEnd,
+  onPageChange,
+  onPageSizeChange,
+  pageSizeOptions = [10, 25, 50, 100],
+  loading = false,
+  className = 'mt-4',
+}: TablePaginationProps) {
+  if (count === 0) return null;
+
+  return (
+    <div className={`${className} flex flex-wrap items-center justify-between gap-3 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+      <span className="text-xs text-slate-600 dark:text-slate-400">
+        Showing {rangeStart}-{rangeEnd} of {count} rows
+      </span>
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <span className="text-xs uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 whitespace-nowrap">Per page</span>
+          <select
+            id="pageSize"
+            className="input h-9 py-1.5 min-w-[90px] leading-tight"
+            value={pageSize}
+            onChange={(e) => onPageSizeChange(Number(e.target.value))}
+          >
+            {pageSizeOptions.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className={buttonClassName}
+            onClick={() => onPageChange(Math.max(1, page - 1))}
+            disabled={page <= 1 || loading}
+          >
+            Prev
+          </button>
+          <span className="text-xs text-slate-500 dark:text-slate-400">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            type="button"
+            className={buttonClassName}
+            onClick={() => onPageChange(Math.min(totalPages, page + 1))}
+            disabled={page >= totalPages || loading}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { QRCodeSVG } from 'qrcode.react';
+import { buildUpiUri, type UpiPayment } from '@/lib/upi';
+
+interface UpiQrCodeProps {
+  payment: UpiPayment;
+  size?: number;
+  caption?: string;
+  className?: string;
+}
+
+export default function UpiQrCode({ payment, size = 112, caption = 'Scan to pay with any UPI app', className = '' }: UpiQrCodeProps) {
+  return (
+    <figure className={`flex flex-col items-center text-center ${className}`}>
+      <div className="rounded-lg bg-white p-2">
+        <QRCodeSVG value={buildUpiUri(payment)} size={size} level="M" marginSize={0} />
+      </div>
+      <figcaption className="mt-1 space-y-0.5">
+        <p className="text-[10px] font-semibold">{caption}</p>
+        <p className="text-[10px] text-slate-600 dark:text-slate-300">
+          {payment.vpa} &middot; Rs {payment.amount.toFixed(2)}
+        </p>
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { FiX } from 'react-icons/fi';
+import { buildUpiUri, type UpiPayment } from '@/lib/upi';
+
+interface UpiQrOverlayProps {
+  payment: UpiPayment | null;
+  onClose: () => void;
+}
+
+/** Full-screen QR the cashier turns towards the customer; any key or tap closes it. */
+export default function UpiQrOverlay({ payment, onClose }: UpiQrOverlayProps) {
+  useEffect(() => {
+    if (!payment) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' || event.key === 'Enter') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [payment, onClose]);
+
+  if (!payment) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex flex-col items-center justify-center gap-6 bg-white p-6 text-slate-900"
+      onClick={onClose}
+    >
+      <button
+        type="button"
+        onClick={onClose}
+        className="absolute right-6 top-6 rounded-full border border-slate-200 p-2 text-slate-500 hover:text-slate-900"
+        aria-label="Close QR code"
+      >
+        <FiX size={24} />
+      </button>
+      <p className="text-[11px] uppercase tracking-[0.35em] text-slate-500">Scan to pay</p>
+      <p className="text-5xl font-bold">Rs {payment.amount.toFixed(2)}</p>
+      <QRCodeSVG
+        value={buildUpiUri(payment)}
+        size={320}
+        level="M"
+        marginSize={2}
+        className="h-auto w-[min(70vw,60vh)]"
+      />
+      <div className="text-center">
+        <p className="text-xl font-semibold">{payment.payeeName}</p>
+        <p className="text-sm text-slate-600">{payment.vpa}</p>
+        {payment.note && <p className="mt-1 text-sm text-slate-500">{payment.note}</p>}
+      </div>
+    </div>
+  );
+}
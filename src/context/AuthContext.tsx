@@ -2,32 +2,22 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
-import { jwtDecode } from 'jwt-decode';
-import { authAPI, warmDashboardLists } from '@/lib/api';
+import { authAPI, refreshAccessToken, warmDashboardLists } from '@/lib/api';
+import { endSession, getTokenExpiry, TOKEN_REFRESH_MARGIN_MS } from '@/lib/authSession';
+import { canAccessRoute, DASHBOARD_ROUTES } from '@/lib/permissions';
+import { clearCache, invalidateAll } from '@/lib/queryCache';
+import { PIN_PATTERN, rememberCashier, removeCashierPin } from '@/lib/cashierPins';
 import { useDataStore } from '@/stores/dataStore';
 import type { User, LoginRequest } from '@/types';
 
 
 const MIN_AUTH_INTERVAL_MS = 60_000;
-
-const dashboardRoutes = [
-  { href: '/dashboard', roles: ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'] },
-  { href: '/dashboard/products', roles: ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'] },
-  { href: '/dashboard/categories', roles: ['super_admin', 'admin', 'main_inventory_manager'] },
-  { href: '/dashboard/brands', roles: ['super_admin', 'admin', 'main_inventory_manager'] },
-  { href: '/dashboard/variants', roles: ['super_admin', 'admin', 'main_inventory_manager'] },
-  { href: '/dashboard/colors', roles: ['super_admin', 'admin', 'main_inventory_manager'] },
-  { href: '/dashboard/gst-slabs', roles: ['super_admin'] },
-  { href: '/dashboard/stock-batches', roles: ['super_admin', 'main_inventory_manager'] },
-  { href: '/dashboard/shops', roles: ['super_admin'] },
-  { href: '/dashboard/sub-stocks', roles: ['super_admin', 'main_inventory_manager', 'sub_stock_manager'] },
-  { href: '/dashboard/stock-requests', roles: ['super_admin', 'main_inventory_manager', 'sub_stock_manager'] },
-  { href: '/dashboard/pos', roles: ['super_admin', 'main_inventory_manager', 'sub_stock_manager'], requiresShop: true },
-  { href: '/dashboard/sales', roles: ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'] },
-  { href: '/dashboard/customers', roles: ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'] },
-  { href: '/dashboard/notifications', roles: ['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'] },
-  { href: '/dashboard/users', roles: ['super_admin', 'admin'] },
-];
+// Floor for the proactive refresh timer so a token that is already inside the margin is not hammered
+const MIN_REFRESH_DELAY_MS = 5_000;
+// Shop counters lock after this long without keyboard, mouse or touch input
+const IDLE_LOCK_MS = 5 * 60_000;
+const LOCK_STORAGE_KEY = 'session_locked';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'] as const;
 
 interface AuthContextType {
   user: User | null;
@@ -36,6 +26,12 @@ interface AuthContextType {
   loginWithoutNavigate: (credentials: LoginRequest) => Promise<User>;
   logout: () => void;
   isAuthenticated: boolean;
+  /** The page stays mounted behind the lock screen; only re-authentication is required */
+  isLocked: boolean;
+  lock: () => void;
+  unlockWithPin: (userId: number, pin: string) => Promise<void>;
+  unlockWithPassword: (credentials: LoginRequest) => Promise<void>;
+  setCashierPin: (pin: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -43,17 +39,28 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isLocked, setIsLocked] = useState(false);
   const router = useRouter();
   const lastAuthCheckRef = useRef(0);
   const isCheckingRef = useRef(false);
   const throttleRef = useRef(0);
   const warmedRef = useRef(false);
+  // Read by `logout`, which must stay stable so the auth check does not re-run on every user change
+  const userRef = useRef<User | null>(null);
+  userRef.current = user;
 
   const logout = useCallback(() => {
+    // Signing out takes this cashier off the terminal's lock screen as well
+    if (userRef.current) removeCashierPin(userRef.current.id);
     localStorage.removeItem('access_token');
     localStorage.removeItem('refresh_token');
+    localStorage.removeItem(LOCK_STORAGE_KEY);
     setUser(null);
+    setIsLocked(false);
     warmedRef.current = false;
+    clearCache();
+    // Requests held for the re-login modal belong to the old session
+    endSession();
     router.push('/login');
   }, [router]);
 
@@ -83,15 +90,21 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     isCheckingRef.current = true;
 
     try {
-      const decoded: any = jwtDecode(token);
-      const currentTime = Date.now() / 1000;
-
-      if (decoded.exp > currentTime) {
-        const response = await authAPI.me();
-        setUser(response.data);
-      } else {
+      const expiry = getTokenExpiry(token);
+      if (expiry === null) {
         logout();
+        return;
+      }
+
+      // An expired access token is fine as long as the refresh token still works
+      if (expiry <= Date.now()) {
+        await refreshAccessToken();
       }
+
+      const response = await authAPI.me();
+      setUser(response.data);
+      // A reload must not get past the lock screen
+      setIsLocked(localStorage.getItem(LOCK_STORAGE_KEY) === '1');
     } catch (error: any) {
       console.error('Auth check failed:', error);
       if (error.response?.status === 429) {
@@ -108,16 +121,39 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     checkAuth();
   }, [checkAuth]);
 
+  // Refresh shortly before the access token expires, so an idle till is still signed in later
   useEffect(() => {
     if (!user) return;
 
-    const allowedRoutes = dashboardRoutes
-      .filter((route) => {
-        if (!route.roles.includes(user.role)) return false;
-        if (route.requiresShop && !user.shop) return false;
-        return true;
-      })
-      .map((route) => route.href);
+    let cancelled = false;
+    let timeoutId: number | undefined;
+
+    const schedule = () => {
+      const token = localStorage.getItem('access_token');
+      const expiry = token ? getTokenExpiry(token) : null;
+      if (cancelled || expiry === null) return;
+
+      const delay = Math.max(expiry - TOKEN_REFRESH_MARGIN_MS - Date.now(), MIN_REFRESH_DELAY_MS);
+      timeoutId = window.setTimeout(() => {
+        refreshAccessToken().then(schedule, () => {
+          // The next request's 401 opens the re-login modal
+        });
+      }, delay);
+    };
+
+    schedule();
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeoutId);
+    };
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const allowedRoutes = DASHBOARD_ROUTES
+      .map((route) => route.href)
+      .filter((href) => canAccessRoute(user, href));
 
     if (!allowedRoutes.length) return;
 
@@ -158,7 +194,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     let cancelled = false;
     const warm = () => {
       if (cancelled) return;
-      void warmDashboardLists({ role: user.role, hasShop: !!user.shop });
+      void warmDashboardLists(user);
     };
 
     const idle = (window as Window & {
@@ -180,6 +216,83 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     };
   }, [user]);
 
+  const lock = useCallback(() => {
+    localStorage.setItem(LOCK_STORAGE_KEY, '1');
+    setIsLocked(true);
+  }, []);
+
+  useEffect(() => {
+    if (!user?.shop || isLocked) return;
+
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    const intervalId = window.setInterval(() => {
+      if (Date.now() - lastActivity >= IDLE_LOCK_MS) lock();
+    }, 15_000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      window.clearInterval(intervalId);
+    };
+  }, [isLocked, lock, user?.shop]);
+
+  // Hands the terminal to `nextUser` without the logout, login and full preload cycle
+  const takeOver = (nextUser: User, access: string, refresh: string) => {
+    localStorage.setItem('access_token', access);
+    localStorage.setItem('refresh_token', refresh);
+
+    if (user?.id !== nextUser.id) {
+      invalidateAll();
+      void useDataStore.getState().reloadForUser(nextUser);
+    }
+
+    setUser(nextUser);
+    localStorage.removeItem(LOCK_STORAGE_KEY);
+    setIsLocked(false);
+  };
+
+  const unlockWithPassword = async (credentials: LoginRequest) => {
+    let response;
+    try {
+      response = await authAPI.login(credentials);
+    } catch (error: any) {
+      throw new Error(error.response?.data?.detail || 'Login failed');
+    }
+    const { access, refresh, user: nextUser } = response.data;
+    takeOver(nextUser, access, refresh);
+  };
+
+  // The backend checks the PIN and its attempt limit, then issues the cashier a fresh session
+  const unlockWithPin = async (userId: number, pin: string) => {
+    let response;
+    try {
+      response = await authAPI.pinLogin({ user_id: userId, pin });
+    } catch (error: any) {
+      throw new Error(error.response?.data?.detail || 'Unlock failed');
+    }
+    const { access, refresh, user: nextUser } = response.data;
+    takeOver(nextUser, access, refresh);
+  };
+
+  const setCashierPin = async (pin: string) => {
+    if (!user) {
+      throw new Error('Sign in again before setting a PIN');
+    }
+    if (!PIN_PATTERN.test(pin)) {
+      throw new Error('PIN must be 4 to 6 digits');
+    }
+    try {
+      await authAPI.setPin(pin);
+    } catch (error: any) {
+      throw new Error(error.response?.data?.pin?.[0] || error.response?.data?.detail || 'Failed to save PIN');
+    }
+    rememberCashier(user);
+  };
+
   const login = async (credentials: LoginRequest) => {
     try {
       const response = await authAPI.login(credentials);
@@ -224,6 +337,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         loginWithoutNavigate,
         logout,
         isAuthenticated: !!user,
+        isLocked,
+        lock,
+        unlockWithPin,
+        unlockWithPassword,
+        setCashierPin,
       }}
     >
       {children}
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react';
+
+type BarcodeScannerOptions = {
+  enabled?: boolean;
+  minLength?: number;
+  maxIntervalMs?: number;
+};
+
+const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.dataset.barcodeInput !== undefined) return false;
+  const tag = target.tagName;
+  return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT' || target.isContentEditable;
+};
+
+/**
+ * Detects keyboard-wedge barcode scanners: a burst of characters arriving faster
+ * than a person can type, terminated by Enter. Keystrokes inside regular form
+ * fields are ignored; inputs marked with `data-barcode-input` are listened to.
+ */
+export function useBarcodeScanner(onScan: (code: string) => void, options: BarcodeScannerOptions = {}) {
+  const { enabled = true, minLength = 8, maxIntervalMs = 50 } = options;
+  const savedCallback = useRef(onScan);
+  const bufferRef = useRef('');
+  const lastKeyAtRef = useRef(0);
+
+  useEffect(() => {
+    savedCallback.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.altKey || event.metaKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const now = Date.now();
+      const elapsed = now - lastKeyAtRef.current;
+
+      if (event.key === 'Enter') {
+        const code = bufferRef.current;
+        bufferRef.current = '';
+        if (code.length >= minLength && elapsed <= maxIntervalMs) {
+          event.preventDefault();
+          savedCallback.current(code);
+        }
+        return;
+      }
+
+      if (event.key.length !== 1) return;
+
+      bufferRef.current = elapsed > maxIntervalMs ? event.key : bufferRef.current + event.key;
+      lastKeyAtRef.current = now;
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      bufferRef.current = '';
+    };
+  }, [enabled, minLength, maxIntervalMs]);
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { cachedRequest, type CacheTag, peekCache, subscribeToCache } from '@/lib/queryCache';
+
+type CachedQueryOptions = {
+  /** Tags whose invalidation triggers a background refetch */
+  tags: CacheTag[];
+  ttlMs?: number;
+  enabled?: boolean;
+};
+
+/**
+ * Stale-while-revalidate view of a request. Cached data (even expired or invalidated) is
+ * returned straight away while a fresh copy loads, and any mutation that invalidates one of
+ * the tags refetches in the background, so pages no longer need to reload after saving.
+ *
+ * `key` identifies the query and should include every argument the fetcher uses.
+ */
+export function useCachedQuery<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  { tags, ttlMs, enabled = true }: CachedQueryOptions
+) {
+  const [data, setData] = useState<T | undefined>(() => peekCache<T>(`query:${key}`)?.value);
+  const [error, setError] = useState<unknown>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const fetcherRef = useRef(fetcher);
+  const tagsRef = useRef(tags);
+  fetcherRef.current = fetcher;
+  tagsRef.current = tags;
+
+  const cacheKey = `query:${key}`;
+  const activeKeyRef = useRef(cacheKey);
+  activeKeyRef.current = cacheKey;
+
+  const revalidate = useCallback(async (force = false) => {
+    setIsValidating(true);
+    try {
+      const value = await cachedRequest(cacheKey, tagsRef.current, () => fetcherRef.current(), { ttlMs, force });
+      // Ignore answers for a key the component has already moved away from
+      if (activeKeyRef.current === cacheKey) {
+        setData(value);
+        setError(null);
+      }
+      return value;
+    } catch (err) {
+      if (activeKeyRef.current === cacheKey) setError(err);
+      return undefined;
+    } finally {
+      if (activeKeyRef.current === cacheKey) setIsValidating(false);
+    }
+  }, [cacheKey, ttlMs]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const cached = peekCache<T>(cacheKey);
+    // Keep showing the previous key's data (e.g. the last search) until the new one arrives
+    if (cached) setData(cached.value);
+    if (!cached || cached.isStale) {
+      void revalidate();
+    }
+  }, [cacheKey, enabled, revalidate]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeToCache((event) => {
+      if (event.type === 'invalidate' && event.tags.some((tag) => tagsRef.current.includes(tag))) {
+        void revalidate();
+      } else if (event.type === 'update' && event.key === cacheKey) {
+        // Another component revalidated the same query
+        setData(peekCache<T>(cacheKey)?.value);
+      } else if (event.type === 'clear') {
+        setData(undefined);
+      }
+    });
+  }, [cacheKey, enabled, revalidate]);
+
+  return {
+    data,
+    error,
+    isLoading: data === undefined && (isValidating || (enabled && !error)),
+    isValidating,
+    refresh: () => revalidate(true),
+  };
+}
@@ -0,0 +1,9 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { can, type Capability } from '@/lib/permissions';
+
+/** `const can = useCan(); can('sale.create')` for the signed-in user. */
+export function useCan() {
+  const { user } = useAuth();
+  return useCallback((capability: Capability) => can(user, capability), [user]);
+}
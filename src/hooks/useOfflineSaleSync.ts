@@ -0,0 +1,54 @@
+import { useCallback, useEffect } from 'react';
+import { useOfflineSalesStore, type SyncResult } from '@/stores/offlineSalesStore';
+import { showToast } from '@/lib/toast';
+
+const RETRY_INTERVAL_MS = 30000;
+
+export const notifySyncResult = ({ synced, conflicts }: SyncResult) => {
+  if (synced > 0) {
+    showToast.success(`${synced} offline sale${synced === 1 ? '' : 's'} synced`);
+  }
+  if (conflicts > 0) {
+    showToast.error(`${conflicts} offline sale${conflicts === 1 ? '' : 's'} rejected by the server. Review them in POS.`);
+  }
+};
+
+/** Tracks connectivity and replays POS sales that were queued while offline. */
+export function useOfflineSaleSync(enabled = true) {
+  const setOnline = useOfflineSalesStore((state) => state.setOnline);
+  const loadQueue = useOfflineSalesStore((state) => state.loadQueue);
+  const syncQueue = useOfflineSalesStore((state) => state.syncQueue);
+  const hasPending = useOfflineSalesStore((state) => state.queue.some((sale) => sale.status === 'pending'));
+
+  const sync = useCallback(async () => {
+    notifySyncResult(await syncQueue());
+  }, [syncQueue]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    loadQueue().then(() => {
+      if (navigator.onLine) sync();
+    });
+
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [enabled, loadQueue, setOnline, sync]);
+
+  // The online event is not reliable on every network change, so keep retrying while sales wait
+  useEffect(() => {
+    if (!enabled || !hasPending) return;
+    const intervalId = window.setInterval(sync, RETRY_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [enabled, hasPending, sync]);
+}
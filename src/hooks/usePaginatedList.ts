@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_PAGE_SIZE } from '@/lib/api';
+import { buildCacheKey, type CacheTag } from '@/lib/queryCache';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import type { ListQuery, PaginatedList } from '@/types';
+
+type ListFilters = Omit<ListQuery, 'page' | 'page_size' | 'ordering'>;
+
+type PaginatedListOptions = {
+  /** Invalidating any of these refetches the current page */
+  tags: CacheTag[];
+  filters?: ListFilters;
+  initialPageSize?: number;
+  initialOrdering?: string;
+  enabled?: boolean;
+};
+
+/**
+ * Server-side paginated list. Page, page size and ordering live here; changing the filters,
+ * page size or ordering goes back to page 1 in the same render, so a stale page number is
+ * never sent with new filters.
+ */
+export function usePaginatedList<T>(
+  key: string,
+  fetchPage: (query: ListQuery) => Promise<PaginatedList<T>>,
+  { tags, filters = {}, initialPageSize = DEFAULT_PAGE_SIZE, initialOrdering, enabled = true }: PaginatedListOptions
+) {
+  const [pageSize, setPageSize] = useState(initialPageSize);
+  const [ordering, setOrdering] = useState(initialOrdering);
+  const scope = buildCacheKey(key, { ...filters, page_size: pageSize, ordering });
+  const [pageState, setPageState] = useState({ scope, page: 1 });
+  const page = pageState.scope === scope ? pageState.page : 1;
+
+  const query: ListQuery = { ...filters, page, page_size: pageSize, ordering };
+  const { data, error, isLoading, isValidating, refresh } = useCachedQuery(
+    buildCacheKey(key, query),
+    () => fetchPage(query),
+    { tags, enabled }
+  );
+
+  const count = data?.count ?? 0;
+  const totalPages = Math.max(1, Math.ceil(count / pageSize));
+
+  const setPage = useCallback((next: number | ((current: number) => number)) => {
+    setPageState((prev) => {
+      const current = prev.scope === scope ? prev.page : 1;
+      const value = typeof next === 'function' ? next(current) : next;
+      return { scope, page: Math.max(1, value) };
+    });
+  }, [scope]);
+
+  // Deleting the last rows of the last page, or DRF answering 404 for a page that no longer exists
+  useEffect(() => {
+    const status = (error as { response?: { status?: number } } | null)?.response?.status;
+    if (status === 404 && page > 1) {
+      setPage(1);
+    } else if (data && page > totalPages) {
+      setPage(totalPages);
+    }
+  }, [data, error, page, setPage, totalPages]);
+
+  const toggleOrdering = useCallback((field: string) => {
+    setOrdering((current) => (current === field ? `-${field}` : field));
+  }, []);
+
+  const items = useMemo(() => data?.results ?? [], [data]);
+  const rangeStart = count === 0 ? 0 : (page - 1) * pageSize + 1;
+
+  return {
+    items,
+    count,
+    page,
+    pageSize,
+    totalPages,
+    rangeStart,
+    rangeEnd: Math.min(rangeStart + items.length - 1, count),
+    hasNext: !!data?.next,
+    hasPrevious: !!data?.previous,
+    ordering,
+    setPage,
+    setPageSize,
+    setOrdering,
+    toggleOrdering,
+    error,
+    isLoading,
+    isValidating,
+    refresh,
+  };
+}
@@ -0,0 +1,23 @@
+import type { StockAdjustment } from '@/types';
+import { roundCurrency } from '@/lib/tax';
+
+export const ADJUSTMENT_TYPES: Record<StockAdjustment['adjustment_type'], { label: string; badgeClass: string }> = {
+  write_off: { label: 'Write-off', badgeClass: 'badge-danger' },
+  damage: { label: 'Damage', badgeClass: 'badge-warning' },
+  clearance: { label: 'Clearance', badgeClass: 'badge-info' },
+  return: { label: 'Return', badgeClass: 'badge-success' },
+  manual: { label: 'Manual', badgeClass: 'badge-secondary' },
+};
+
+/** Manual adjustments carry their own sign; returns add stock back and every other type removes it. */
+export const getSignedAdjustmentQuantity = (adjustment: Pick<StockAdjustment, 'adjustment_type' | 'quantity'>) => {
+  if (adjustment.adjustment_type === 'manual') return adjustment.quantity;
+  const quantity = Math.abs(adjustment.quantity);
+  return adjustment.adjustment_type === 'return' ? quantity : -quantity;
+};
+
+/** Inventory value gained (positive) or lost (negative) at the batch's unit purchase price. */
+export const getAdjustmentValueImpact = (
+  adjustment: Pick<StockAdjustment, 'adjustment_type' | 'quantity'>,
+  unitPurchasePrice?: string | number
+) => roundCurrency(getSignedAdjustmentQuantity(adjustment) * (parseFloat(String(unitPurchasePrice ?? 0)) || 0));
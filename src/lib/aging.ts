@@ -0,0 +1,39 @@
+/**
+ * Aging buckets for outstanding balances, shared by customer receivables and
+ * supplier payables so both ledgers age invoices the same way.
+ */
+
+export type AgingBucketKey = 'current' | '31_60' | '61_90' | 'over_90';
+
+export interface AgingBucket {
+  key: AgingBucketKey;
+  label: string;
+  maxDays: number;
+  badgeClass: string;
+}
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  { key: 'current', label: '0-30 days', maxDays: 30, badgeClass: 'badge-success' },
+  { key: '31_60', label: '31-60 days', maxDays: 60, badgeClass: 'badge-info' },
+  { key: '61_90', label: '61-90 days', maxDays: 90, badgeClass: 'badge-warning' },
+  { key: 'over_90', label: '90+ days', maxDays: Infinity, badgeClass: 'badge-danger' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getAgeInDays = (value?: string | Date | null, now: Date = new Date()) => {
+  if (!value) return 0;
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return 0;
+  return Math.max(0, Math.floor((now.getTime() - date.getTime()) / DAY_MS));
+};
+
+export const getAgingBucket = (days: number) =>
+  AGING_BUCKETS.find((bucket) => days <= bucket.maxDays) || AGING_BUCKETS[AGING_BUCKETS.length - 1];
+
+export const emptyAgingTotals = (): Record<AgingBucketKey, number> => ({
+  current: 0,
+  '31_60': 0,
+  '61_90': 0,
+  over_90: 0,
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { amountInWords, integerInWords } from '@/lib/amountInWords';
+
+describe('integerInWords', () => {
+  it('uses Indian grouping at the lakh and crore boundaries', () => {
+    expect(integerInWords(99999)).toBe('Ninety Nine Thousand Nine Hundred Ninety Nine');
+    expect(integerInWords(100000)).toBe('One Lakh');
+    expect(integerInWords(110000)).toBe('One Lakh Ten Thousand');
+    expect(integerInWords(9999999)).toBe('Ninety Nine Lakh Ninety Nine Thousand Nine Hundred Ninety Nine');
+    expect(integerInWords(10000000)).toBe('One Crore');
+    expect(integerInWords(10000101)).toBe('One Crore One Hundred One');
+  });
+
+  it('keeps counting in crores past 99 crore', () => {
+    expect(integerInWords(1000000000)).toBe('One Hundred Crore');
+    expect(integerInWords(1234567890)).toBe(
+      'One Hundred Twenty Three Crore Forty Five Lakh Sixty Seven Thousand Eight Hundred Ninety'
+    );
+  });
+
+  it('spells out zero', () => {
+    expect(integerInWords(0)).toBe('Zero');
+  });
+});
+
+describe('amountInWords', () => {
+  it('prints whole rupees without paise', () => {
+    expect(amountInWords(54098)).toBe('Rupees Fifty Four Thousand Ninety Eight Only');
+    expect(amountInWords(0)).toBe('Rupees Zero Only');
+  });
+
+  it('adds paise after the rupees', () => {
+    expect(amountInWords(123456.5)).toBe(
+      'Rupees One Lakh Twenty Three Thousand Four Hundred Fifty Six and Fifty Paise Only'
+    );
+    expect(amountInWords(1000.05)).toBe('Rupees One Thousand and Five Paise Only');
+    expect(amountInWords(0.99)).toBe('Rupees Zero and Ninety Nine Paise Only');
+  });
+
+  it('rounds floating point noise to the nearest paisa', () => {
+    expect(amountInWords(0.1 + 0.2)).toBe('Rupees Zero and Thirty Paise Only');
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Rupee amounts in words with Indian grouping (thousand, lakh, crore), as printed on tax
+ * invoices: 123456.5 -> "Rupees One Lakh Twenty Three Thousand Four Hundred Fifty Six and Fifty Paise Only".
+ */
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (value: number) =>
+  value < 20 ? ONES[value] : [TENS[Math.floor(value / 10)], ONES[value % 10]].filter(Boolean).join(' ');
+
+const belowThousand = (value: number) => {
+  const hundreds = Math.floor(value / 100);
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', belowHundred(value % 100)].filter(Boolean).join(' ');
+};
+
+/** Whole number in words; anything past 99 crore keeps counting in crores ("One Hundred Crore"). */
+export const integerInWords = (value: number): string => {
+  const whole = Math.floor(Math.abs(value));
+  if (whole === 0) return 'Zero';
+
+  const crore = Math.floor(whole / 10000000);
+  const lakh = Math.floor((whole % 10000000) / 100000);
+  const thousand = Math.floor((whole % 100000) / 1000);
+  const rest = whole % 1000;
+
+  return [
+    crore ? `${integerInWords(crore)} Crore` : '',
+    lakh ? `${belowHundred(lakh)} Lakh` : '',
+    thousand ? `${belowHundred(thousand)} Thousand` : '',
+    belowThousand(rest),
+  ].filter(Boolean).join(' ');
+};
+
+export const amountInWords = (amount: number) => {
+  const paiseTotal = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+  const words = `Rupees ${integerInWords(rupees)}`;
+  return paise ? `${words} and ${belowHundred(paise)} Paise Only` : `${words} Only`;
+};
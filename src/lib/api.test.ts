@@ -0,0 +1,94 @@
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { refreshAccessToken } from '@/lib/api';
+
+const createStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      values.set(key, value);
+    },
+    removeItem: (key: string) => {
+      values.delete(key);
+    },
+    clear: () => values.clear(),
+  };
+};
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createStorage());
+  localStorage.setItem('access_token', 'expired-access');
+  localStorage.setItem('refresh_token', 'refresh-1');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('refreshAccessToken', () => {
+  it('sends one refresh request for callers that need a token at the same time', async () => {
+    const pending = deferred<{ data: { access: string } }>();
+    const post = vi.spyOn(axios, 'post').mockReturnValue(pending.promise);
+
+    const calls = [refreshAccessToken(), refreshAccessToken(), refreshAccessToken()];
+    pending.resolve({ data: { access: 'access-2' } });
+
+    await expect(Promise.all(calls)).resolves.toEqual(['access-2', 'access-2', 'access-2']);
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][0]).toMatch(/\/auth\/refresh\/$/);
+    expect(post.mock.calls[0][1]).toEqual({ refresh: 'refresh-1' });
+    expect(localStorage.getItem('access_token')).toBe('access-2');
+  });
+
+  it('stores a rotated refresh token and starts a new request once the last one settled', async () => {
+    const post = vi.spyOn(axios, 'post')
+      .mockResolvedValueOnce({ data: { access: 'access-2', refresh: 'refresh-2' } })
+      .mockResolvedValueOnce({ data: { access: 'access-3' } });
+
+    await refreshAccessToken();
+    expect(localStorage.getItem('refresh_token')).toBe('refresh-2');
+
+    await expect(refreshAccessToken()).resolves.toBe('access-3');
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(post.mock.calls[1][1]).toEqual({ refresh: 'refresh-2' });
+    expect(localStorage.getItem('refresh_token')).toBe('refresh-2');
+  });
+
+  it('shares a failure with every waiting caller and retries on the next call', async () => {
+    const pending = deferred<never>();
+    const post = vi.spyOn(axios, 'post')
+      .mockReturnValueOnce(pending.promise)
+      .mockResolvedValueOnce({ data: { access: 'access-2' } });
+
+    const first = refreshAccessToken();
+    const second = refreshAccessToken();
+    pending.reject(new Error('Token is invalid or expired'));
+
+    await expect(first).rejects.toThrow('Token is invalid or expired');
+    await expect(second).rejects.toThrow('Token is invalid or expired');
+    expect(localStorage.getItem('access_token')).toBe('expired-access');
+
+    await expect(refreshAccessToken()).resolves.toBe('access-2');
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails without a request when there is no refresh token', async () => {
+    localStorage.removeItem('refresh_token');
+    const post = vi.spyOn(axios, 'post');
+
+    await expect(refreshAccessToken()).rejects.toThrow('No refresh token');
+    expect(post).not.toHaveBeenCalled();
+  });
+});
@@ -1,37 +1,107 @@
-import axios, { type AxiosRequestConfig, type AxiosResponse } from 'axios';
+import axios, { type AxiosAdapter, type AxiosRequestConfig } from 'axios';
 import type {
   User, Category, Brand, Variant, Color, Product, GSTSlab,
   Condition, Source, Supplier, PurchaseInvoice, PurchasePayment,
   StockBatch, Shop, SubStock, StockRequest, Notification,
-  StockTransfer, Customer, Sale, SaleItem, SalePayment, CompanyProfile,
+  StockTransfer, Customer, Sale, SaleItem, SalePayment, SaleReturn, CompanyProfile, ParkedCart,
   DashboardStats, LoginRequest, LoginResponse, RegisterRequest,
-  IMEINumber, DeadStockBatch, StockAdjustment
+  IMEINumber, DeadStockBatch, StockAdjustment, ListQuery, PaginatedList
 } from '@/types';
+import { getAppConfig } from '@/lib/config';
+import { isSessionExpired, isTokenExpiring, waitForReauthentication } from '@/lib/authSession';
+import { can, type Capability } from '@/lib/permissions';
+import { buildCacheKey, cachedRequest, type CacheTag, invalidateTags } from '@/lib/queryCache';
+
+const { apiUrl: API_URL, useMockApi: USE_MOCK_API } = getAppConfig();
+
+// The mock backend is only downloaded when NEXT_PUBLIC_API_MOCK=true
+const mockAdapter: AxiosAdapter = (config) =>
+  import('@/lib/mock/adapter').then(({ mockAdapter: adapter }) => adapter(config));
+
+/**
+ * Extra tags a mutation on a resource invalidates besides the resource itself. A sale moves
+ * stock and receivables, so it touches far more than the sales list; a new colour does not.
+ */
+const RELATED_TAGS: Record<string, CacheTag[]> = {
+  products: ['stock-batches', 'sub-stocks'],
+  categories: ['products'],
+  brands: ['products'],
+  variants: ['products'],
+  colors: ['products'],
+  conditions: ['products'],
+  'gst-slabs': ['products'],
+  suppliers: ['purchase-invoices'],
+  'purchase-invoices': ['stock-batches', 'suppliers', 'dashboard'],
+  'purchase-payments': ['purchase-invoices', 'suppliers'],
+  'stock-batches': ['sub-stocks', 'dashboard'],
+  shops: ['sub-stocks'],
+  'sub-stocks': ['stock-batches', 'dashboard'],
+  'stock-requests': ['sub-stocks', 'stock-batches', 'stock-transfers', 'notifications'],
+  'stock-transfers': ['sub-stocks', 'stock-batches', 'stock-requests', 'notifications'],
+  'stock-adjustments': ['stock-batches', 'sub-stocks', 'dashboard'],
+  customers: ['sales'],
+  sales: ['sub-stocks', 'stock-batches', 'customers', 'sale-payments', 'sale-returns', 'dashboard', 'notifications'],
+  'sale-payments': ['sales', 'customers', 'dashboard'],
+  'sale-returns': ['sales', 'sub-stocks', 'stock-batches', 'customers', 'sale-payments', 'dashboard'],
+};
 
-const API_URL = 'https://cellular-mobile-backened-production.up.railway.app/api';
-
-const LIST_CACHE_TTL_MS = 15000;
-const listCache = new Map<string, { timestamp: number; response: AxiosResponse<unknown> }>();
+/** Resource segment of an API path: '/sales/12/invoice/' -> 'sales' */
+const resourceOf = (url = '') => url.replace(/^https?:\/\/[^/]+/, '').replace(/^\/?(api\/)?/, '').split(/[/?]/)[0];
 
-const buildCacheKey = (url: string, config?: AxiosRequestConfig) => {
-  const params = config?.params ? JSON.stringify(config.params) : '';
-  return `${url}|${params}`;
+const tagsForMutation = (url?: string): CacheTag[] => {
+  const resource = resourceOf(url);
+  return resource ? [resource, ...(RELATED_TAGS[resource] || [])] : [];
 };
 
-const clearListCache = () => {
-  listCache.clear();
+const cachedGet = <T>(url: string, config?: AxiosRequestConfig, options: { tags?: CacheTag[]; ttlMs?: number } = {}) =>
+  cachedRequest(
+    buildCacheKey(url, config?.params),
+    options.tags || [resourceOf(url)],
+    () => api.get<T>(url, config),
+    { ttlMs: options.ttlMs }
+  );
+
+export const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * One page of a DRF list. The response interceptor has already flattened `results` and kept the
+ * counts on `response.pagination`; endpoints the server does not paginate yet return the whole
+ * array, which is sliced here so callers always get the same shape.
+ */
+const pagedGet = async <T>(url: string, query: ListQuery = {}): Promise<PaginatedList<T>> => {
+  const { page = 1, page_size = DEFAULT_PAGE_SIZE, ...filters } = query;
+  const response = await cachedGet<T[]>(url, { params: { ...filters, page, page_size } });
+  const pagination = (response as any).pagination as Partial<PaginatedList<T>> | undefined;
+
+  if (pagination) {
+    return {
+      results: response.data,
+      count: pagination.count ?? response.data.length,
+      next: pagination.next ?? null,
+      previous: pagination.previous ?? null,
+    };
+  }
+
+  const start = (page - 1) * page_size;
+  return {
+    results: response.data.slice(start, start + page_size),
+    count: response.data.length,
+    next: start + page_size < response.data.length ? String(page + 1) : null,
+    previous: page > 1 ? String(page - 1) : null,
+  };
 };
 
-const cachedGet = async <T>(url: string, config?: AxiosRequestConfig, ttlMs = LIST_CACHE_TTL_MS) => {
-  const key = buildCacheKey(url, config);
-  const cached = listCache.get(key);
-  if (cached && Date.now() - cached.timestamp < ttlMs) {
-    return cached.response as AxiosResponse<T>;
-  }
+// Large pages keep "load everything" screens to a handful of requests
+const ALL_PAGES_PAGE_SIZE = 200;
 
-  const response = await api.get<T>(url, config);
-  listCache.set(key, { timestamp: Date.now(), response });
-  return response;
+/** Every page of a DRF list, for screens that total or export the whole result rather than show one page. */
+const listAllPages = async <T>(url: string, filters: ListQuery = {}): Promise<T[]> => {
+  const results: T[] = [];
+  for (let page = 1; ; page += 1) {
+    const response = await pagedGet<T>(url, { ...filters, page, page_size: ALL_PAGES_PAGE_SIZE });
+    results.push(...response.results);
+    if (!response.next) return results;
+  }
 };
 
 const api = axios.create({
@@ -39,26 +109,82 @@ const api = axios.create({
   headers: {
     'Content-Type': 'application/json',
   },
+  ...(USE_MOCK_API ? { adapter: mockAdapter } : {}),
 });
 
-// Request interceptor to add auth token
+// Endpoints that must never wait on, or trigger, a token refresh
+const AUTH_ENDPOINTS = ['/auth/login/', '/auth/register/', '/auth/refresh/', '/auth/pin-login/'];
+
+const isAuthEndpoint = (url = '') => AUTH_ENDPOINTS.some((endpoint) => url.includes(endpoint));
+
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchanges the refresh token for a new access token. Only one refresh runs at a time: requests
+ * that hit a 401 together, and the proactive refresh before expiry, all share the same call.
+ */
+export const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    const refreshToken = localStorage.getItem('refresh_token');
+    const request = refreshToken
+      ? axios.post<{ access: string; refresh?: string }>(`${API_URL}/auth/refresh/`, {
+          refresh: refreshToken,
+        }, USE_MOCK_API ? { adapter: mockAdapter } : undefined)
+      : Promise.reject(new Error('No refresh token'));
+
+    refreshPromise = request
+      .then((response) => {
+        const { access, refresh } = response.data;
+        localStorage.setItem('access_token', access);
+        // Present when the backend rotates refresh tokens
+        if (refresh) localStorage.setItem('refresh_token', refresh);
+        return access;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// Request interceptor to add auth token, refreshing it first when it is about to expire
 api.interceptors.request.use(
-  (config) => {
+  async (config) => {
+    if (!isAuthEndpoint(config.url)) {
+      // Hold new requests while the re-login modal is open instead of collecting more 401s
+      if (isSessionExpired()) {
+        await waitForReauthentication();
+      }
+
+      const current = localStorage.getItem('access_token');
+      if (current && isTokenExpiring(current) && localStorage.getItem('refresh_token')) {
+        try {
+          await refreshAccessToken();
+        } catch {
+          // Send it anyway; a 401 goes through the normal recovery below
+        }
+      }
+    }
+
     const token = localStorage.getItem('access_token');
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
-    if ((config.method || 'get').toLowerCase() !== 'get') {
-      clearListCache();
-    }
     return config;
   },
   (error) => Promise.reject(error)
 );
 
+const isMutation = (config?: AxiosRequestConfig) => (config?.method || 'get').toLowerCase() !== 'get';
+
 // Response interceptor to normalize paginated responses and handle token refresh
 api.interceptors.response.use(
   (response) => {
+    // Invalidate once the server has applied the change so a concurrent GET cannot refill old data
+    if (isMutation(response.config)) {
+      invalidateTags(tagsForMutation(response.config.url));
+    }
+
     const data = response.data;
 
     // Flatten DRF paginated responses so callers always get arrays
@@ -89,25 +215,35 @@ api.interceptors.response.use(
   async (error) => {
     const originalRequest = error.config;
 
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    // A rejected mutation may still have been partially applied (e.g. bulk deletes)
+    if (error.response && isMutation(originalRequest)) {
+      invalidateTags(tagsForMutation(originalRequest?.url));
+    }
+
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      !isAuthEndpoint(originalRequest.url)
+    ) {
       originalRequest._retry = true;
+      const sentWith = String(originalRequest.headers?.Authorization || '').replace(/^Bearer /, '');
 
       try {
-        const refreshToken = localStorage.getItem('refresh_token');
-        if (refreshToken) {
-          const response = await axios.post(`${API_URL}/auth/refresh/`, {
-            refresh: refreshToken,
-          });
-          const { access } = response.data;
-          localStorage.setItem('access_token', access);
-          originalRequest.headers.Authorization = `Bearer ${access}`;
-          return api(originalRequest);
+        // A parallel request may already have refreshed while this one was in flight
+        const latest = localStorage.getItem('access_token');
+        if (!latest || latest === sentWith) {
+          await refreshAccessToken();
         }
-      } catch (refreshError) {
-        localStorage.removeItem('access_token');
-        localStorage.removeItem('refresh_token');
-        window.location.href = '/login';
-        return Promise.reject(refreshError);
+        return api(originalRequest);
+      } catch {
+        // Keep the page (and any POS cart) as it is: replay once the user has signed in again
+        try {
+          await waitForReauthentication();
+        } catch {
+          return Promise.reject(error);
+        }
+        return api(originalRequest);
       }
     }
 
@@ -120,6 +256,9 @@ export const authAPI = {
   login: (data: LoginRequest) => api.post<LoginResponse>('/auth/login/', data),
   register: (data: RegisterRequest) => api.post<LoginResponse>('/auth/register/', data),
   me: () => api.get<User>('/auth/me/'),
+  setPin: (pin: string) => api.post('/auth/pin/', { pin }),
+  removePin: () => api.delete('/auth/pin/'),
+  pinLogin: (data: { user_id: number; pin: string }) => api.post<LoginResponse>('/auth/pin-login/', data),
 };
 
 // Users API
@@ -205,6 +344,7 @@ export const suppliersAPI = {
 // Purchase Invoices API
 export const purchaseInvoicesAPI = {
   list: (search?: string) => cachedGet<PurchaseInvoice[]>('/purchase-invoices/', { params: { search } }),
+  listAll: (filters?: ListQuery) => listAllPages<PurchaseInvoice>('/purchase-invoices/', filters),
   get: (id: number) => api.get<PurchaseInvoice>(`/purchase-invoices/${id}/`),
   create: (data: Partial<PurchaseInvoice>) => api.post<PurchaseInvoice>('/purchase-invoices/', data),
   update: (id: number, data: Partial<PurchaseInvoice>) => api.patch<PurchaseInvoice>(`/purchase-invoices/${id}/`, data),
@@ -214,6 +354,7 @@ export const purchaseInvoicesAPI = {
 // Purchase Payments API
 export const purchasePaymentsAPI = {
   list: (search?: string) => cachedGet<PurchasePayment[]>('/purchase-payments/', { params: { search } }),
+  listAll: (filters?: ListQuery) => listAllPages<PurchasePayment>('/purchase-payments/', filters),
   get: (id: number) => api.get<PurchasePayment>(`/purchase-payments/${id}/`),
   create: (data: Partial<PurchasePayment>) => api.post<PurchasePayment>('/purchase-payments/', data),
   delete: (id: number) => api.delete(`/purchase-payments/${id}/`),
@@ -222,6 +363,7 @@ export const purchasePaymentsAPI = {
 // Products API
 export const productsAPI = {
   list: (search?: string) => cachedGet<Product[]>('/products/', { params: { search } }),
+  listPage: (query?: ListQuery) => pagedGet<Product>('/products/', query),
   get: (id: number) => api.get<Product>(`/products/${id}/`, {
     params: { _: Date.now() }  // Cache-buster
   }),
@@ -248,6 +390,8 @@ export const gstSlabsAPI = {
 // Stock Batches API
 export const stockBatchesAPI = {
   list: (search?: string) => cachedGet<StockBatch[]>('/stock-batches/', { params: { search } }),
+  listPage: (query?: ListQuery) => pagedGet<StockBatch>('/stock-batches/', query),
+  listAll: (filters?: ListQuery) => listAllPages<StockBatch>('/stock-batches/', filters),
   get: (id: number) => api.get<StockBatch>(`/stock-batches/${id}/`),
   create: (data: any) => api.post<StockBatch>('/stock-batches/', data),
   update: (id: number, data: Partial<StockBatch>) => api.patch<StockBatch>(`/stock-batches/${id}/`, data),
@@ -285,6 +429,7 @@ export const shopsAPI = {
 // Sub Stocks API
 export const subStocksAPI = {
   list: () => cachedGet<SubStock[]>('/sub-stocks/'),
+  listAll: (filters?: ListQuery) => listAllPages<SubStock>('/sub-stocks/', filters),
   get: (id: number) => api.get<SubStock>(`/sub-stocks/${id}/`),
   delete: (id: number) => api.delete(`/sub-stocks/${id}/`),
   lowStock: () => api.get<SubStock[]>('/sub-stocks/low_stock/'),
@@ -305,6 +450,7 @@ export const stockRequestsAPI = {
 // Notifications API
 export const notificationsAPI = {
   list: () => cachedGet<Notification[]>('/notifications/'),
+  listPage: (query?: ListQuery) => pagedGet<Notification>('/notifications/', query),
   markRead: (id: number) => api.post(`/notifications/${id}/mark_read/`),
   markAllRead: () => api.post('/notifications/mark_all_read/'),
   unreadCount: () => api.get<{ count: number }>('/notifications/unread_count/'),
@@ -313,20 +459,29 @@ export const notificationsAPI = {
 // Stock Transfers API
 export const stockTransfersAPI = {
   list: () => cachedGet<StockTransfer[]>('/stock-transfers/'),
+  listAll: (filters?: ListQuery) => listAllPages<StockTransfer>('/stock-transfers/', filters),
   get: (id: number) => api.get<StockTransfer>(`/stock-transfers/${id}/`),
+  receive: (id: number, data: {
+    received_quantity: number;
+    received_imeis?: string[];
+    discrepancy_notes?: string;
+  }) => api.post<StockTransfer>(`/stock-transfers/${id}/receive/`, data),
 };
 
 // Stock Adjustments API
 export const stockAdjustmentsAPI = {
   list: (search?: string) => cachedGet<StockAdjustment[]>('/stock-adjustments/', { params: { search } }),
+  listAll: (filters?: ListQuery) => listAllPages<StockAdjustment>('/stock-adjustments/', filters),
   get: (id: number) => api.get<StockAdjustment>(`/stock-adjustments/${id}/`),
-  create: (data: Partial<StockAdjustment>) => api.post<StockAdjustment>('/stock-adjustments/', data),
+  create: (data: Partial<StockAdjustment> & { imei_list?: string[] }) =>
+    api.post<StockAdjustment>('/stock-adjustments/', data),
   delete: (id: number) => api.delete(`/stock-adjustments/${id}/`),
 };
 
 // Customers API
 export const customersAPI = {
   list: (search?: string) => cachedGet<Customer[]>('/customers/', { params: { search } }),
+  listPage: (query?: ListQuery) => pagedGet<Customer>('/customers/', query),
   get: (id: number) => api.get<Customer>(`/customers/${id}/`),
   create: (data: Partial<Customer>) => api.post<Customer>('/customers/', data),
   update: (id: number, data: Partial<Customer>) => api.patch<Customer>(`/customers/${id}/`, data),
@@ -338,6 +493,8 @@ export const customersAPI = {
 // Sales API
 export const salesAPI = {
   list: (search?: string) => cachedGet<Sale[]>('/sales/', { params: { search } }),
+  listPage: (query?: ListQuery) => pagedGet<Sale>('/sales/', query),
+  listAll: (filters?: ListQuery) => listAllPages<Sale>('/sales/', filters),
   get: (id: number) => api.get<Sale>(`/sales/${id}/`),
   create: (data: {
     shop: number;
@@ -352,6 +509,12 @@ export const salesAPI = {
     }>;
     payment_method: string;
     payment_reference?: string;
+    payment_status?: Sale['payment_status'];
+    payments?: Array<{
+      payment_method: SalePayment['payment_method'];
+      amount: string;
+      reference_number?: string;
+    }>;
     discount?: string;
     reverse_charge?: boolean;
     vehicle_no?: string;
@@ -359,8 +522,16 @@ export const salesAPI = {
     consignee_name?: string;
     consignee_address?: string;
     notes?: string;
+    credit_note?: number;
+    idempotency_key?: string;
+    sale_date?: string;
+    /** Only sent for offline replays; otherwise the server attributes the sale to the token's user */
+    sold_by?: number;
   }) => api.post<Sale>('/sales/', data),
   invoice: (id: number) => api.get<Sale>(`/sales/${id}/invoice/`),
+  /** Sales to GSTIN-registered customers, for the e-invoice export */
+  b2bSales: (params: { start_date: string; end_date: string; shop?: number }) =>
+    listAllPages<Sale>('/sales/', { ...params, b2b: 'true' }),
   todaySales: () => api.get<{
     date: string;
     sales_count: number;
@@ -393,6 +564,40 @@ export const salesAPI = {
   }>('/sales/sales_report/', { params }),
 };
 
+// Sale Payments API (collections against customer receivables)
+export const salePaymentsAPI = {
+  list: (params?: { sale?: number; customer?: number; search?: string }) => cachedGet<SalePayment[]>('/sale-payments/', { params }),
+  create: (data: Partial<SalePayment>) => api.post<SalePayment>('/sale-payments/', data),
+  delete: (id: number) => api.delete(`/sale-payments/${id}/`),
+};
+
+// Sale Returns API (credit notes)
+export const saleReturnsAPI = {
+  list: (params?: { search?: string; sale?: number }) => cachedGet<SaleReturn[]>('/sale-returns/', { params }),
+  get: (id: number) => api.get<SaleReturn>(`/sale-returns/${id}/`),
+  create: (data: {
+    sale: number;
+    resolution: SaleReturn['resolution'];
+    refund_method?: SalePayment['payment_method'];
+    refund_reference?: string;
+    reason?: string;
+    items: Array<{
+      sale_item: number;
+      quantity: number;
+      imei?: string;
+      restock_action: 'restock' | 'damaged';
+    }>;
+  }) => api.post<SaleReturn>('/sale-returns/', data),
+  creditNote: (id: number) => api.get<SaleReturn>(`/sale-returns/${id}/credit_note/`),
+};
+
+// Parked POS carts. Listed straight from the server: another counter may have parked or resumed one
+export const parkedCartsAPI = {
+  list: (params: { shop: number }) => api.get<ParkedCart[]>('/parked-carts/', { params }),
+  create: (data: Pick<ParkedCart, 'shop' | 'label' | 'items' | 'details'>) => api.post<ParkedCart>('/parked-carts/', data),
+  delete: (id: number) => api.delete(`/parked-carts/${id}/`),
+};
+
 export const companyProfileAPI = {
   get: () => api.get<CompanyProfile>('/company-profile/'),
   update: (data: FormData) => api.patch<CompanyProfile>('/company-profile/', data, {
@@ -402,7 +607,7 @@ export const companyProfileAPI = {
 
 // Dashboard API
 export const dashboardAPI = {
-  stats: () => api.get<DashboardStats>('/dashboard/stats/'),
+  stats: () => cachedGet<DashboardStats>('/dashboard/stats/'),
   analytics: (params?: { period?: string; shop_id?: string; start_date?: string; end_date?: string }) =>
     api.get('/dashboard/analytics/', { params }),
   advancedAnalytics: (params?: {
@@ -420,14 +625,13 @@ export const dashboardAPI = {
 
 const safePrefetch = (promise: Promise<unknown>) => promise.catch(() => null);
 
-export const warmDashboardLists = async (options: { role?: User['role']; hasShop?: boolean } = {}) => {
-  const { role, hasShop } = options;
+export const warmDashboardLists = async (user?: User) => {
   const tasks: Array<Promise<unknown>> = [];
 
-  const allow = (roles?: User['role'][], requiresShop = false) => {
-    if (!role) return true;
-    if (roles && !roles.includes(role)) return false;
-    if (requiresShop && !hasShop) return false;
+  const allow = (capability?: Capability, requiresShop = false) => {
+    if (!user) return true;
+    if (capability && !can(user, capability)) return false;
+    if (requiresShop && !user.shop) return false;
     return true;
   };
 
@@ -443,10 +647,10 @@ export const warmDashboardLists = async (options: { role?: User['role']; hasShop
   queue(allow(), cachedGet('/colors/'));
   queue(allow(), cachedGet('/conditions/'));
   queue(allow(), cachedGet('/sources/'));
-  queue(allow(['super_admin']), cachedGet('/shops/'));
-  queue(allow(['super_admin', 'main_inventory_manager']), cachedGet('/stock-batches/'));
-  queue(allow(['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'], true), cachedGet('/sub-stocks/'));
-  queue(allow(['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager']), cachedGet('/customers/'));
+  queue(allow('shop.manage'), cachedGet('/shops/'));
+  queue(allow('batch.view'), cachedGet('/stock-batches/'));
+  queue(allow('subStock.view', true), cachedGet('/sub-stocks/'));
+  queue(allow('customer.view'), cachedGet('/customers/'));
 
   if (tasks.length === 0) return;
   await Promise.allSettled(tasks);
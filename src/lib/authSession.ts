@@ -0,0 +1,85 @@
+import { jwtDecode } from 'jwt-decode';
+
+/**
+ * Access-token expiry and the "session expired" state shared by the API layer and the
+ * re-login modal.
+ *
+ * When a refresh fails, requests do not redirect to /login (which would throw away an open
+ * POS cart). They wait here until the user signs in again from the modal and are then
+ * replayed, or are rejected if the user signs out instead.
+ */
+
+/** Refresh this long before `exp` so no request leaves with a token that dies on the way. */
+export const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+/** Expiry of a JWT in epoch milliseconds, or null when it cannot be read. */
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const { exp } = jwtDecode<{ exp?: number }>(token);
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpiring = (token: string, marginMs = TOKEN_REFRESH_MARGIN_MS) => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - Date.now() < marginMs;
+};
+
+type SessionListener = (expired: boolean) => void;
+
+interface Waiter {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+}
+
+let expired = false;
+let waiters: Waiter[] = [];
+const listeners = new Set<SessionListener>();
+
+const setExpired = (value: boolean) => {
+  if (expired === value) return;
+  expired = value;
+  listeners.forEach((listener) => listener(value));
+};
+
+export const isSessionExpired = () => expired;
+
+/**
+ * Marks the session as expired and resolves once the user has signed in again. Rejects straight
+ * away when nothing is mounted to ask for the password (e.g. while the app is still checking a
+ * stored token), so those callers fall back to the normal logout path.
+ */
+export const waitForReauthentication = () =>
+  new Promise<void>((resolve, reject) => {
+    if (listeners.size === 0) {
+      reject(new Error('Session expired'));
+      return;
+    }
+    waiters.push({ resolve, reject });
+    setExpired(true);
+  });
+
+/** New tokens are stored: replay everything that was waiting. */
+export const resumeSession = () => {
+  const pending = waiters;
+  waiters = [];
+  setExpired(false);
+  pending.forEach((waiter) => waiter.resolve());
+};
+
+/** The user signed out instead of signing in again: fail everything that was waiting. */
+export const endSession = () => {
+  const pending = waiters;
+  waiters = [];
+  setExpired(false);
+  pending.forEach((waiter) => waiter.reject(new Error('Signed out')));
+};
+
+export const subscribeToSession = (listener: SessionListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,55 @@
+import type { User } from '@/types';
+
+/**
+ * Cashiers who can unlock this shared counter terminal with a quick PIN. The PIN itself lives on
+ * the backend, which checks it and limits attempts; this list only remembers who to offer on the
+ * lock screen, so nothing stored here can sign anyone in.
+ */
+
+const STORAGE_KEY = 'cashier_pins';
+
+export const PIN_PATTERN = /^\d{4,6}$/;
+
+export interface CashierProfile {
+  user_id: number;
+  username: string;
+  display_name: string;
+  shop?: number;
+}
+
+const readProfiles = (): CashierProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as CashierProfile[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeProfiles = (profiles: CashierProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const displayNameOf = (user: Pick<User, 'first_name' | 'last_name' | 'username'>) =>
+  `${user.first_name || ''} ${user.last_name || ''}`.trim() || user.username;
+
+/** Cashiers who set a PIN on this terminal, limited to one shop when given. */
+export const listCashiers = (shop?: number) =>
+  readProfiles().filter((profile) => shop === undefined || profile.shop === shop);
+
+export const hasCashierPin = (userId: number) => readProfiles().some((profile) => profile.user_id === userId);
+
+/** Offers `user` on this terminal's lock screen once their PIN is saved on the backend. */
+export const rememberCashier = (user: User) => {
+  const profile: CashierProfile = {
+    user_id: user.id,
+    username: user.username,
+    display_name: displayNameOf(user),
+    shop: user.shop,
+  };
+  writeProfiles([...readProfiles().filter((entry) => entry.user_id !== user.id), profile]);
+};
+
+export const removeCashierPin = (userId: number) => {
+  writeProfiles(readProfiles().filter((profile) => profile.user_id !== userId));
+};
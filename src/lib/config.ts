@@ -0,0 +1,62 @@
+export type AppEnvironment = 'production' | 'staging' | 'development';
+
+export interface AppConfig {
+  environment: AppEnvironment;
+  /** Backend API root, e.g. https://api.example.com/api (no trailing slash) */
+  apiUrl: string;
+  /** Origin that serves uploaded media such as the company logo */
+  mediaUrl: string;
+  /** Serve every request from the in-memory fixtures in src/lib/mock */
+  useMockApi: boolean;
+}
+
+declare global {
+  interface Window {
+    /** Set by /runtime-config.js so a deployed build can be repointed without rebuilding */
+    __APP_CONFIG__?: Partial<AppConfig>;
+  }
+}
+
+const PRODUCTION_API_URL = 'https://cellular-mobile-backened-production.up.railway.app/api';
+
+const ENVIRONMENTS: AppEnvironment[] = ['production', 'staging', 'development'];
+
+const stripTrailingSlash = (value: string) => value.replace(/\/+$/, '');
+
+const resolveEnvironment = (value: string | undefined, apiUrl: string): AppEnvironment => {
+  const normalized = value?.trim().toLowerCase() as AppEnvironment | undefined;
+  if (normalized && ENVIRONMENTS.includes(normalized)) return normalized;
+  if (apiUrl === PRODUCTION_API_URL) return 'production';
+  return /\/\/(localhost|127\.0\.0\.1)(:\d+)?\//.test(`${apiUrl}/`) ? 'development' : 'staging';
+};
+
+let cachedConfig: AppConfig | null = null;
+
+/**
+ * Runtime overrides from window.__APP_CONFIG__ win over the NEXT_PUBLIC_* values baked in at
+ * build time, which in turn fall back to the production backend.
+ */
+export const getAppConfig = (): AppConfig => {
+  if (cachedConfig) return cachedConfig;
+
+  const runtime = typeof window !== 'undefined' ? window.__APP_CONFIG__ || {} : {};
+  const apiUrl = stripTrailingSlash(runtime.apiUrl || process.env.NEXT_PUBLIC_API_URL || PRODUCTION_API_URL);
+  const config: AppConfig = {
+    environment: resolveEnvironment(runtime.environment || process.env.NEXT_PUBLIC_APP_ENV, apiUrl),
+    apiUrl,
+    mediaUrl: stripTrailingSlash(runtime.mediaUrl || process.env.NEXT_PUBLIC_MEDIA_URL || apiUrl.replace(/\/api$/, '')),
+    useMockApi: runtime.useMockApi ?? process.env.NEXT_PUBLIC_API_MOCK === 'true',
+  };
+
+  // Only cache in the browser, where the runtime overrides are available
+  if (typeof window !== 'undefined') {
+    cachedConfig = config;
+  }
+  return config;
+};
+
+export const buildMediaUrl = (path?: string | null) => {
+  if (!path) return '';
+  if (/^(https?:|blob:|data:)/.test(path)) return path;
+  return `${getAppConfig().mediaUrl}${path.startsWith('/') ? '' : '/'}${path}`;
+};
@@ -18,3 +18,13 @@ export const formatTime = (value?: string | Date | null) => {
   if (Number.isNaN(date.getTime())) return '';
   return date.toLocaleTimeString('en-GB');
 };
+
+/** Local calendar date as `YYYY-MM-DD`, matching the value of an `<input type="date">`. */
+export const toDateInputValue = (value?: string | Date | null) => {
+  if (!value) return '';
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
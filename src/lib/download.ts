@@ -0,0 +1,15 @@
+/** Saves `data` as a pretty-printed JSON file through a temporary object URL. */
+export const downloadJson = (filename: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/** Invoice numbers like `KCH/0002` become `KCH-0002` so they can be part of a file name. */
+export const toFileSafe = (value: string) => value.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
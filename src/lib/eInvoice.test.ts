@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { CompanyProfile, Sale, SaleItem } from '@/types';
+import { buildEInvoice, buildEInvoiceBatch, parseAddress } from '@/lib/eInvoice';
+
+const profile: CompanyProfile = {
+  id: 1,
+  legal_name: 'Cellular Mobile Retail Pvt Ltd',
+  gstin: '32EMRPK5012B1ZG',
+  registered_address: 'MG Road, Ernakulam, Kochi 682016',
+};
+
+const item = (overrides: Partial<SaleItem>): SaleItem => ({
+  id: 1,
+  sale: 1,
+  stock_batch: 1,
+  product: 1,
+  product_name: 'Apple iPhone 13',
+  hsn_code: '85171300',
+  quantity: 1,
+  unit_price: '52900.00',
+  unit_cost: '44000.00',
+  gst_rate: '18.00',
+  gst_amount: '8069.49',
+  total_amount: '52900.00',
+  profit_per_unit: '830.51',
+  total_profit: '830.51',
+  ...overrides,
+});
+
+const makeSale = (overrides: Partial<Sale> = {}): Sale => ({
+  id: 1,
+  invoice_number: 'KCH/0002',
+  shop: 1,
+  shop_name: 'Kochi MG Road',
+  shop_state_code: '32',
+  customer_name: 'Techline Solutions',
+  customer_gstin: '32AAFCT4321L1ZG',
+  customer_address: 'Technopark, Thiruvananthapuram 695581',
+  state_code: '32',
+  subtotal: '45845.76',
+  total_gst: '8252.24',
+  discount: '100.00',
+  transport_charge: '50.40',
+  loading_charge: '0.00',
+  grand_total: '54048.40',
+  payment_method: 'upi',
+  payment_status: 'paid',
+  sale_date: '2026-03-15T10:30:00',
+  items: [
+    item({}),
+    item({
+      id: 2,
+      product: 2,
+      product_name: 'Fast charger',
+      hsn_code: '85044030',
+      unit_price: '1198.00',
+      gst_amount: '182.75',
+      total_amount: '1198.00',
+    }),
+  ],
+  ...overrides,
+} as Sale);
+
+describe('parseAddress', () => {
+  it('takes the PIN code and the last part as the location', () => {
+    expect(parseAddress('MG Road, Ernakulam, Kochi 682016')).toEqual({
+      addr1: 'MG Road, Ernakulam',
+      addr2: '',
+      location: 'Kochi',
+      pin: '682016',
+    });
+  });
+});
+
+describe('buildEInvoice', () => {
+  it('totals the taxes and rounds the invoice value to the rupee', () => {
+    const { payload, issues } = buildEInvoice(makeSale(), profile);
+    expect(issues).toEqual([]);
+    expect(payload.DocDtls).toEqual({ Typ: 'INV', No: 'KCH/0002', Dt: '15/03/2026' });
+    expect(payload.ValDtls).toMatchObject({
+      AssVal: 45845.76,
+      IgstVal: 0,
+      Discount: 100,
+      OthChrg: 50.4,
+      RndOffAmt: -0.4,
+      TotInvVal: 54048,
+    });
+    expect(payload.ValDtls.CgstVal + payload.ValDtls.SgstVal).toBeCloseTo(8252.24, 2);
+    expect(payload.ItemList.map((line) => line.TotItemVal)).toEqual([52900, 1198]);
+  });
+
+  it('charges IGST when the buyer is registered in another state', () => {
+    const { payload, issues } = buildEInvoice(makeSale({ customer_gstin: '33AACCS5678K1ZY', state_code: '33' }), profile);
+    expect(issues).toEqual([]);
+    expect(payload.BuyerDtls).toMatchObject({ Pos: '33', Stcd: '33' });
+    expect(payload.ValDtls).toMatchObject({ CgstVal: 0, SgstVal: 0, IgstVal: 8252.24 });
+  });
+
+  it('reports what the portal would reject', () => {
+    const { issues } = buildEInvoice(
+      makeSale({
+        invoice_number: '0KCH/0002',
+        customer_gstin: '32EMRPK5012B1ZG',
+        customer_address: 'Technopark',
+        items: [item({ hsn_code: '8517' }), item({ id: 2, hsn_code: '851' })],
+      }),
+      profile
+    );
+    expect(issues.map((issue) => issue.field)).toEqual(expect.arrayContaining([
+      'DocDtls.No',
+      'BuyerDtls.Gstin',
+      'BuyerDtls.Pin',
+      'ItemList[1].HsnCd',
+    ]));
+    expect(issues.some((issue) => issue.field === 'ItemList[0].HsnCd')).toBe(false);
+  });
+
+  it('flags a grand total that does not match the items and charges', () => {
+    // The portal tolerates up to a rupee of difference
+    const { issues } = buildEInvoice(makeSale({ grand_total: '54048.90' }), profile);
+    expect(issues).toEqual([]);
+
+    const { issues: mismatch } = buildEInvoice(makeSale({ transport_charge: '0.00' }), profile);
+    expect(mismatch.map((issue) => issue.field)).toEqual(['ValDtls.TotInvVal']);
+  });
+
+  it('needs a buyer GSTIN and a seller profile', () => {
+    const { issues } = buildEInvoice(makeSale({ customer_gstin: null }), null);
+    expect(issues.map((issue) => issue.field)).toEqual(expect.arrayContaining(['SellerDtls.Gstin', 'BuyerDtls.Gstin']));
+  });
+});
+
+describe('buildEInvoiceBatch', () => {
+  it('keeps invalid sales out of the upload', () => {
+    const valid = makeSale();
+    const invalid = makeSale({ id: 2, customer_gstin: null });
+    const batch = buildEInvoiceBatch([valid, invalid], profile);
+    expect(batch.payloads).toHaveLength(1);
+    expect(batch.invalid.map((entry) => entry.sale.id)).toEqual([2]);
+  });
+});
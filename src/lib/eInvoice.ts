@@ -0,0 +1,320 @@
+import type { CompanyProfile, Sale } from '@/types';
+import {
+  computeRoundOff,
+  computeTaxSummary,
+  DEFAULT_STATE_CODE,
+  resolveBuyerStateCode,
+  roundCurrency,
+  stateCodeFromGSTIN,
+  validateGSTIN,
+} from '@/lib/tax';
+
+/**
+ * GST e-invoice (IRN) JSON in the NIC schema, version 1.1, for B2B sales. The file is meant for
+ * the portal's bulk upload, which takes an array of invoices, so exports always write an array.
+ * Nothing is submitted from here; `issues` lists every field the portal would reject.
+ */
+
+export const E_INVOICE_SCHEMA_VERSION = '1.1';
+
+// Portal rule for DocDtls.No: up to 16 characters, no leading 0, / or -
+const DOC_NUMBER_PATTERN = /^[A-Z1-9][A-Z0-9/-]{0,15}$/;
+const PIN_CODE_PATTERN = /\b([1-9]\d{5})\b/;
+export const HSN_PATTERN = /^(\d{4}|\d{6}|\d{8})$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface EInvoiceParty {
+  Gstin: string;
+  LglNm: string;
+  TrdNm?: string;
+  Addr1: string;
+  Addr2?: string;
+  Loc: string;
+  Pin: number;
+  Stcd: string;
+  Ph?: string;
+  Em?: string;
+}
+
+export interface EInvoiceItem {
+  SlNo: string;
+  PrdDesc: string;
+  IsServc: 'Y' | 'N';
+  HsnCd: string;
+  Qty: number;
+  Unit: string;
+  UnitPrice: number;
+  TotAmt: number;
+  Discount: number;
+  AssAmt: number;
+  GstRt: number;
+  IgstAmt: number;
+  CgstAmt: number;
+  SgstAmt: number;
+  TotItemVal: number;
+}
+
+export interface EInvoicePayload {
+  Version: string;
+  TranDtls: {
+    TaxSch: 'GST';
+    SupTyp: 'B2B';
+    RegRev: 'Y' | 'N';
+    IgstOnIntra: 'Y' | 'N';
+  };
+  DocDtls: {
+    Typ: 'INV';
+    No: string;
+    Dt: string;
+  };
+  SellerDtls: EInvoiceParty;
+  BuyerDtls: EInvoiceParty & { Pos: string };
+  ItemList: EInvoiceItem[];
+  ValDtls: {
+    AssVal: number;
+    CgstVal: number;
+    SgstVal: number;
+    IgstVal: number;
+    Discount: number;
+    OthChrg: number;
+    RndOffAmt: number;
+    TotInvVal: number;
+  };
+}
+
+export interface EInvoiceIssue {
+  /** Schema path of the offending field, e.g. `BuyerDtls.Pin` or `ItemList[2].HsnCd` */
+  field: string;
+  message: string;
+}
+
+export interface EInvoiceResult {
+  payload: EInvoicePayload;
+  issues: EInvoiceIssue[];
+}
+
+/** Document dates on the GST portals are `dd/mm/yyyy`. */
+export const toDocumentDate = (value: string) => {
+  const date = new Date(value);
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${day}/${month}/${date.getFullYear()}`;
+};
+
+/**
+ * Free-text addresses in this app end with the town and PIN code ("MG Road, Ernakulam, Kochi
+ * 682016"): the last comma-separated part becomes the location, the rest the address lines.
+ */
+export const parseAddress = (address?: string | null) => {
+  const text = (address || '').replace(/\s*\n\s*/g, ', ').replace(/\s+/g, ' ').trim();
+  const pin = text.match(PIN_CODE_PATTERN)?.[1] || '';
+  const parts = text
+    .replace(PIN_CODE_PATTERN, '')
+    .split(',')
+    .map((part) => part.replace(/[\s-]+$/, '').trim())
+    .filter(Boolean);
+  const location = parts[parts.length - 1] || '';
+  const lines = parts.length > 1 ? parts.slice(0, -1).join(', ') : location;
+  return { addr1: lines.slice(0, 100), addr2: lines.slice(100, 200), location: location.slice(0, 50), pin };
+};
+
+const phoneOf = (value?: string | null) => {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits.length >= 6 && digits.length <= 12 ? digits : undefined;
+};
+
+const emailOf = (value?: string | null) => {
+  const email = (value || '').trim();
+  return EMAIL_PATTERN.test(email) && email.length >= 6 && email.length <= 100 ? email : undefined;
+};
+
+const checkParty = (prefix: string, label: string, party: EInvoiceParty, issues: EInvoiceIssue[]) => {
+  if (!party.Gstin) {
+    issues.push({ field: `${prefix}.Gstin`, message: `${label} GSTIN is missing` });
+  } else {
+    const gstinError = validateGSTIN(party.Gstin);
+    if (gstinError) issues.push({ field: `${prefix}.Gstin`, message: `${label} ${gstinError}` });
+  }
+  if (party.LglNm.length < 3) {
+    issues.push({ field: `${prefix}.LglNm`, message: `${label} legal name must be at least 3 characters` });
+  }
+  if (!party.Addr1) {
+    issues.push({ field: `${prefix}.Addr1`, message: `${label} address is missing` });
+  }
+  if (party.Loc.length < 3) {
+    issues.push({ field: `${prefix}.Loc`, message: `${label} address needs a town or city after the last comma` });
+  }
+  if (!party.Pin) {
+    issues.push({ field: `${prefix}.Pin`, message: `${label} address needs a 6-digit PIN code` });
+  }
+};
+
+/**
+ * Builds the e-invoice for one sale. The seller is the GST registration in the company profile;
+ * taxes are split exactly as on the printed bill, and the sale-level discount, transport and
+ * loading charges go to the invoice-level value fields.
+ */
+export const buildEInvoice = (sale: Sale, profile: CompanyProfile | null): EInvoiceResult => {
+  const issues: EInvoiceIssue[] = [];
+  const items = sale.items || [];
+
+  const sellerGstin = (profile?.gstin || '').trim().toUpperCase();
+  const sellerAddress = parseAddress(profile?.registered_address || sale.shop_address);
+  const seller: EInvoiceParty = {
+    Gstin: sellerGstin,
+    LglNm: (profile?.legal_name || sale.shop_name || '').trim(),
+    TrdNm: sale.shop_name || undefined,
+    Addr1: sellerAddress.addr1,
+    Addr2: sellerAddress.addr2 || undefined,
+    Loc: sellerAddress.location,
+    Pin: Number(sellerAddress.pin) || 0,
+    Stcd: stateCodeFromGSTIN(sellerGstin),
+    Ph: phoneOf(sale.shop_phone),
+    Em: emailOf(sale.shop_email),
+  };
+
+  const buyerGstin = (sale.customer_gstin || '').trim().toUpperCase();
+  const sellerStateCode = sale.shop_state_code || DEFAULT_STATE_CODE;
+  const buyerStateCode = resolveBuyerStateCode({
+    buyerStateCode: sale.state_code,
+    buyerGstin,
+  }) || sellerStateCode;
+  const buyerAddress = parseAddress(sale.customer_address);
+  const buyer: EInvoicePayload['BuyerDtls'] = {
+    Gstin: buyerGstin,
+    LglNm: (sale.customer_name || '').trim(),
+    Pos: buyerStateCode,
+    Addr1: buyerAddress.addr1,
+    Addr2: buyerAddress.addr2 || undefined,
+    Loc: buyerAddress.location,
+    Pin: Number(buyerAddress.pin) || 0,
+    Stcd: stateCodeFromGSTIN(buyerGstin),
+    Ph: phoneOf(sale.customer_phone),
+    Em: emailOf(sale.customer_email),
+  };
+
+  const taxSummary = computeTaxSummary(
+    items.map((item) => ({
+      amount: parseFloat(item.total_amount),
+      gstRate: parseFloat(item.gst_rate),
+      gstAmount: parseFloat(item.gst_amount),
+    })),
+    { sellerStateCode, buyerStateCode }
+  );
+  const itemList: EInvoiceItem[] = items.map((item, index) => {
+    const tax = taxSummary.lines[index];
+    const quantity = item.quantity || 1;
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: [item.product_name || 'Item', item.imei ? `IMEI ${item.imei}` : ''].filter(Boolean).join(' - '),
+      IsServc: 'N',
+      HsnCd: (item.hsn_code || '').trim(),
+      Qty: quantity,
+      Unit: 'NOS',
+      UnitPrice: Math.round((tax.taxableValue / quantity) * 1000) / 1000,
+      TotAmt: tax.taxableValue,
+      Discount: 0,
+      AssAmt: tax.taxableValue,
+      GstRt: tax.gstRate,
+      IgstAmt: tax.igst,
+      CgstAmt: tax.cgst,
+      SgstAmt: tax.sgst,
+      TotItemVal: tax.total,
+    };
+  });
+
+  const discount = roundCurrency(parseFloat(sale.discount) || 0);
+  const otherCharges = roundCurrency(
+    (parseFloat(sale.transport_charge || '0') || 0) + (parseFloat(sale.loading_charge || '0') || 0)
+  );
+  const { rounded: invoiceValue, roundOff } = computeRoundOff(parseFloat(sale.grand_total) || 0);
+
+  const payload: EInvoicePayload = {
+    Version: E_INVOICE_SCHEMA_VERSION,
+    TranDtls: {
+      TaxSch: 'GST',
+      SupTyp: 'B2B',
+      RegRev: sale.reverse_charge ? 'Y' : 'N',
+      IgstOnIntra: 'N',
+    },
+    DocDtls: {
+      Typ: 'INV',
+      No: sale.invoice_number,
+      Dt: toDocumentDate(sale.sale_date),
+    },
+    SellerDtls: seller,
+    BuyerDtls: buyer,
+    ItemList: itemList,
+    ValDtls: {
+      AssVal: taxSummary.taxableValue,
+      CgstVal: taxSummary.cgst,
+      SgstVal: taxSummary.sgst,
+      IgstVal: taxSummary.igst,
+      Discount: discount,
+      OthChrg: otherCharges,
+      RndOffAmt: roundOff,
+      TotInvVal: invoiceValue,
+    },
+  };
+
+  if (!DOC_NUMBER_PATTERN.test(sale.invoice_number)) {
+    issues.push({
+      field: 'DocDtls.No',
+      message: 'Invoice number must be up to 16 capital letters, digits, / or -, and cannot start with 0, / or -',
+    });
+  }
+  checkParty('SellerDtls', 'Seller', seller, issues);
+  if (!buyerGstin) {
+    issues.push({ field: 'BuyerDtls.Gstin', message: 'Customer GSTIN is missing; e-invoices are only for B2B sales' });
+  }
+  checkParty('BuyerDtls', 'Buyer', buyer, issues);
+  if (buyerGstin && buyerGstin === sellerGstin) {
+    issues.push({ field: 'BuyerDtls.Gstin', message: 'Buyer GSTIN cannot be the seller GSTIN' });
+  }
+
+  if (itemList.length === 0) {
+    issues.push({ field: 'ItemList', message: 'Invoice has no items' });
+  }
+  itemList.forEach((item, index) => {
+    const label = `Item ${item.SlNo} (${items[index].product_name || 'Item'})`;
+    if (!HSN_PATTERN.test(item.HsnCd)) {
+      issues.push({
+        field: `ItemList[${index}].HsnCd`,
+        message: item.HsnCd ? `${label}: HSN code ${item.HsnCd} must be 4, 6 or 8 digits` : `${label}: HSN code is missing`,
+      });
+    }
+    if (item.AssAmt <= 0) {
+      issues.push({ field: `ItemList[${index}].AssAmt`, message: `${label}: taxable value must be above zero` });
+    }
+  });
+
+  const computedTotal = roundCurrency(
+    taxSummary.taxableValue + taxSummary.totalTax - discount + otherCharges + roundOff
+  );
+  // The portal allows a rupee of difference between the invoice value and its components
+  if (Math.abs(computedTotal - invoiceValue) > 1) {
+    issues.push({
+      field: 'ValDtls.TotInvVal',
+      message: `Invoice value Rs ${invoiceValue.toFixed(2)} does not match its items and charges (Rs ${computedTotal.toFixed(2)})`,
+    });
+  }
+
+  return { payload, issues };
+};
+
+export interface EInvoiceBatch {
+  payloads: EInvoicePayload[];
+  invalid: Array<{ sale: Sale; issues: EInvoiceIssue[] }>;
+}
+
+/** Splits sales into invoices ready for upload and the ones the portal would reject. */
+export const buildEInvoiceBatch = (sales: Sale[], profile: CompanyProfile | null): EInvoiceBatch =>
+  sales.reduce<EInvoiceBatch>((batch, sale) => {
+    const { payload, issues } = buildEInvoice(sale, profile);
+    if (issues.length > 0) {
+      batch.invalid.push({ sale, issues });
+    } else {
+      batch.payloads.push(payload);
+    }
+    return batch;
+  }, { payloads: [], invalid: [] });
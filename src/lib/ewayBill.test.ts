@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import type { CompanyProfile, Sale } from '@/types';
+import { buildEwayBill, emptyTransportDetails, type EwayTransportDetails } from '@/lib/ewayBill';
+
+const profile: CompanyProfile = {
+  id: 1,
+  legal_name: 'Cellular Mobile Retail Pvt Ltd',
+  gstin: '32EMRPK5012B1ZG',
+  registered_address: 'MG Road, Ernakulam, Kochi 682016',
+};
+
+const makeSale = (overrides: Partial<Sale> = {}): Sale => ({
+  id: 1,
+  invoice_number: 'KCH/0002',
+  shop: 1,
+  shop_name: 'Kochi MG Road',
+  shop_address: 'MG Road, Ernakulam, Kochi 682016',
+  shop_state_code: '32',
+  customer_name: 'Techline Solutions',
+  customer_gstin: '32AAFCT4321L1ZG',
+  customer_address: 'Technopark, Thiruvananthapuram 695581',
+  state_code: '32',
+  subtotal: '45845.76',
+  total_gst: '8252.24',
+  discount: '100.00',
+  transport_charge: '50.40',
+  loading_charge: '0.00',
+  grand_total: '54048.40',
+  payment_method: 'upi',
+  payment_status: 'paid',
+  vehicle_no: 'kl-07-ab-1234',
+  sale_date: '2026-03-15T10:30:00',
+  items: [
+    { id: 1, sale: 1, stock_batch: 1, product: 1, product_name: 'Apple iPhone 13', hsn_code: '85171300', quantity: 1, unit_price: '52900.00', unit_cost: '44000.00', gst_rate: '18.00', gst_amount: '8069.49', total_amount: '52900.00', profit_per_unit: '830.51', total_profit: '830.51' },
+    { id: 2, sale: 1, stock_batch: 2, product: 2, product_name: 'Fast charger', hsn_code: '85044030', quantity: 2, unit_price: '599.00', unit_cost: '400.00', gst_rate: '18.00', gst_amount: '182.75', total_amount: '1198.00', profit_per_unit: '107.63', total_profit: '215.25' },
+  ],
+  ...overrides,
+} as Sale);
+
+const transportFor = (sale: Sale, overrides: Partial<EwayTransportDetails> = {}): EwayTransportDetails => ({
+  ...emptyTransportDetails(sale),
+  distanceKm: '210',
+  ...overrides,
+});
+
+describe('buildEwayBill', () => {
+  it('fills values from the sale and puts charges and round-off in the other value', () => {
+    const sale = makeSale();
+    const { payload, issues } = buildEwayBill(sale, profile, transportFor(sale));
+    expect(issues).toEqual([]);
+    const [bill] = payload.billLists;
+    expect(bill).toMatchObject({
+      docNo: 'KCH/0002',
+      docDate: '15/03/2026',
+      fromGstin: '32EMRPK5012B1ZG',
+      fromPincode: 682016,
+      toGstin: '32AAFCT4321L1ZG',
+      toPincode: 695581,
+      transactionType: 1,
+      totalValue: 45845.76,
+      igstValue: 0,
+      otherValue: -50,
+      totInvValue: 54048,
+      vehicleNo: 'KL07AB1234',
+    });
+    expect(bill.cgstValue + bill.sgstValue).toBeCloseTo(8252.24, 2);
+    expect(bill.itemList.map((item) => [item.hsnCode, item.quantity, item.cgstRate, item.sgstRate])).toEqual([
+      [85171300, 1, 9, 9],
+      [85044030, 2, 9, 9],
+    ]);
+  });
+
+  it('ships to the consignee when the sale names one', () => {
+    const sale = makeSale({ consignee_name: 'Techline Warehouse', consignee_address: 'Kazhakkoottam, Thiruvananthapuram 695582' });
+    const [bill] = buildEwayBill(sale, profile, transportFor(sale)).payload.billLists;
+    expect(bill).toMatchObject({ transactionType: 2, toTrdName: 'Techline Warehouse', toPincode: 695582 });
+  });
+
+  it('marks an unregistered buyer as URP and charges IGST across states', () => {
+    const sale = makeSale({ customer_gstin: null, state_code: '33', customer_address: 'Anna Salai, Chennai 600002' });
+    const { payload, issues } = buildEwayBill(sale, profile, transportFor(sale));
+    expect(issues).toEqual([]);
+    expect(payload.billLists[0]).toMatchObject({ toGstin: 'URP', toStateCode: 33, cgstValue: 0, sgstValue: 0, igstValue: 8252.24 });
+  });
+
+  it('rejects invoices below the threshold and incomplete transport details', () => {
+    const sale = makeSale({
+      grand_total: '1198.00',
+      discount: '0.00',
+      transport_charge: '0.00',
+      items: [makeSale().items![1]],
+    });
+    const { issues } = buildEwayBill(sale, profile, transportFor(sale, { distanceKm: '0', vehicleNo: '' }));
+    expect(issues.map((issue) => issue.field)).toEqual(['totInvValue', 'transDistance', 'vehicleNo']);
+  });
+
+  it('needs the transport document for rail, air and ship', () => {
+    const sale = makeSale();
+    const { issues } = buildEwayBill(sale, profile, transportFor(sale, { mode: '2' }));
+    expect(issues.map((issue) => issue.field)).toEqual(['transDocNo', 'transDocDate']);
+
+    const { payload, issues: complete } = buildEwayBill(
+      sale,
+      profile,
+      transportFor(sale, { mode: '2', transDocNo: 'RR1234', transDocDate: '2026-03-16' })
+    );
+    expect(complete).toEqual([]);
+    expect(payload.billLists[0]).toMatchObject({ transDocDate: '16/03/2026', vehicleNo: '' });
+  });
+
+  it('checks the seller GSTIN and the vehicle number format', () => {
+    const sale = makeSale({ vehicle_no: 'KL7' });
+    const { issues } = buildEwayBill(sale, { ...profile, gstin: '32EMRPK5012B1Z9' }, transportFor(sale));
+    expect(issues.map((issue) => issue.field)).toEqual(['fromGstin', 'vehicleNo']);
+  });
+});
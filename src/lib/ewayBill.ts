@@ -0,0 +1,300 @@
+import type { CompanyProfile, Sale } from '@/types';
+import { HSN_PATTERN, parseAddress, toDocumentDate, type EInvoiceIssue } from '@/lib/eInvoice';
+import {
+  computeRoundOff,
+  computeTaxSummary,
+  DEFAULT_STATE_CODE,
+  resolveBuyerStateCode,
+  roundCurrency,
+  stateCodeFromGSTIN,
+  validateGSTIN,
+} from '@/lib/tax';
+
+/**
+ * E-way bill JSON in the NIC bulk-upload format for an outward supply. The sale provides the
+ * parties, items and taxes; how the goods travel comes from the dispatch dialog.
+ */
+
+export const EWAY_BILL_JSON_VERSION = '1.0.0621';
+
+/** Consignments below this invoice value do not need an e-way bill. */
+export const EWAY_BILL_THRESHOLD = 50000;
+
+// Transport distance the portal accepts, in km
+const MAX_DISTANCE_KM = 4000;
+const VEHICLE_NO_PATTERN = /^[A-Z]{2}\d{1,2}[A-Z]{0,3}\d{4}$/;
+const TRANSPORTER_ID_PATTERN = /^\d{2}[0-9A-Z]{13}$/;
+
+export type TransportMode = '1' | '2' | '3' | '4';
+
+export const TRANSPORT_MODES: Array<{ value: TransportMode; label: string }> = [
+  { value: '1', label: 'Road' },
+  { value: '2', label: 'Rail' },
+  { value: '3', label: 'Air' },
+  { value: '4', label: 'Ship' },
+];
+
+export interface EwayTransportDetails {
+  mode: TransportMode;
+  distanceKm: string;
+  transporterId: string;
+  transporterName: string;
+  vehicleNo: string;
+  /** R for a regular vehicle, O for over-dimensional cargo */
+  vehicleType: 'R' | 'O';
+  transDocNo: string;
+  /** `YYYY-MM-DD` from a date input */
+  transDocDate: string;
+}
+
+export interface EwayBillItem {
+  itemNo: number;
+  productName: string;
+  productDesc: string;
+  hsnCode: number;
+  quantity: number;
+  qtyUnit: string;
+  taxableAmount: number;
+  cgstRate: number;
+  sgstRate: number;
+  igstRate: number;
+  cessRate: number;
+  cessNonAdvol: number;
+}
+
+export interface EwayBill {
+  userGstin: string;
+  supplyType: 'O';
+  subSupplyType: string;
+  subSupplyDesc: string;
+  docType: 'INV';
+  docNo: string;
+  docDate: string;
+  fromGstin: string;
+  fromTrdName: string;
+  fromAddr1: string;
+  fromAddr2: string;
+  fromPlace: string;
+  fromPincode: number;
+  fromStateCode: number;
+  actualFromStateCode: number;
+  toGstin: string;
+  toTrdName: string;
+  toAddr1: string;
+  toAddr2: string;
+  toPlace: string;
+  toPincode: number;
+  toStateCode: number;
+  actualToStateCode: number;
+  /** 1 regular, 2 bill-to ship-to */
+  transactionType: number;
+  totalValue: number;
+  cgstValue: number;
+  sgstValue: number;
+  igstValue: number;
+  cessValue: number;
+  cessNonAdvolValue: number;
+  otherValue: number;
+  totInvValue: number;
+  transMode: TransportMode;
+  transDistance: string;
+  transporterName: string;
+  transporterId: string;
+  transDocNo: string;
+  transDocDate: string;
+  vehicleNo: string;
+  vehicleType: 'R' | 'O';
+  itemList: EwayBillItem[];
+}
+
+export interface EwayBillPayload {
+  version: string;
+  billLists: EwayBill[];
+}
+
+export const emptyTransportDetails = (sale: Sale): EwayTransportDetails => ({
+  mode: '1',
+  distanceKm: '',
+  transporterId: '',
+  transporterName: '',
+  vehicleNo: sale.vehicle_no || '',
+  vehicleType: 'R',
+  transDocNo: '',
+  transDocDate: '',
+});
+
+const normalizeVehicleNo = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Builds the e-way bill for one sale. Goods leave from the shop that billed them and go to the
+ * consignee when the sale names one (bill-to ship-to), otherwise to the customer's address.
+ */
+export const buildEwayBill = (
+  sale: Sale,
+  profile: CompanyProfile | null,
+  transport: EwayTransportDetails
+): { payload: EwayBillPayload; issues: EInvoiceIssue[] } => {
+  const issues: EInvoiceIssue[] = [];
+  const items = sale.items || [];
+
+  const sellerGstin = (profile?.gstin || '').trim().toUpperCase();
+  const sellerStateCode = sale.shop_state_code || DEFAULT_STATE_CODE;
+  const from = parseAddress(sale.shop_address || profile?.registered_address);
+
+  const buyerGstin = (sale.customer_gstin || '').trim().toUpperCase();
+  const buyerStateCode = resolveBuyerStateCode({
+    buyerStateCode: sale.state_code,
+    buyerGstin,
+  }) || sellerStateCode;
+  const shipsToConsignee = Boolean(sale.consignee_address?.trim());
+  const to = parseAddress(shipsToConsignee ? sale.consignee_address : sale.customer_address);
+
+  const taxSummary = computeTaxSummary(
+    items.map((item) => ({
+      amount: parseFloat(item.total_amount),
+      gstRate: parseFloat(item.gst_rate),
+      gstAmount: parseFloat(item.gst_amount),
+    })),
+    { sellerStateCode, buyerStateCode }
+  );
+  const { rounded: invoiceValue } = computeRoundOff(parseFloat(sale.grand_total) || 0);
+  // Discount, transport and loading charges and the round-off all sit outside the taxable value
+  const otherValue = roundCurrency(invoiceValue - taxSummary.total);
+
+  const vehicleNo = normalizeVehicleNo(transport.vehicleNo);
+  const transporterId = transport.transporterId.trim().toUpperCase();
+  const distance = transport.distanceKm.trim();
+
+  const bill: EwayBill = {
+    userGstin: sellerGstin,
+    supplyType: 'O',
+    subSupplyType: '1',
+    subSupplyDesc: '',
+    docType: 'INV',
+    docNo: sale.invoice_number,
+    docDate: toDocumentDate(sale.sale_date),
+    fromGstin: sellerGstin,
+    fromTrdName: (profile?.legal_name || sale.shop_name || '').trim(),
+    fromAddr1: from.addr1,
+    fromAddr2: from.addr2,
+    fromPlace: from.location,
+    fromPincode: Number(from.pin) || 0,
+    fromStateCode: Number(stateCodeFromGSTIN(sellerGstin) || sellerStateCode),
+    actualFromStateCode: Number(sellerStateCode),
+    toGstin: buyerGstin || 'URP',
+    toTrdName: ((shipsToConsignee && sale.consignee_name) || sale.customer_name || '').trim(),
+    toAddr1: to.addr1,
+    toAddr2: to.addr2,
+    toPlace: (sale.place_of_supply || to.location).trim().slice(0, 50),
+    toPincode: Number(to.pin) || 0,
+    toStateCode: Number(buyerStateCode),
+    actualToStateCode: Number(buyerStateCode),
+    transactionType: shipsToConsignee ? 2 : 1,
+    totalValue: taxSummary.taxableValue,
+    cgstValue: taxSummary.cgst,
+    sgstValue: taxSummary.sgst,
+    igstValue: taxSummary.igst,
+    cessValue: 0,
+    cessNonAdvolValue: 0,
+    otherValue,
+    totInvValue: invoiceValue,
+    transMode: transport.mode,
+    transDistance: distance,
+    transporterName: transport.transporterName.trim(),
+    transporterId,
+    transDocNo: transport.transDocNo.trim(),
+    transDocDate: transport.transDocDate ? transport.transDocDate.split('-').reverse().join('/') : '',
+    vehicleNo: transport.mode === '1' ? vehicleNo : '',
+    vehicleType: transport.vehicleType,
+    itemList: items.map((item, index) => {
+      const tax = taxSummary.lines[index];
+      return {
+        itemNo: index + 1,
+        productName: item.product_name || 'Item',
+        productDesc: [item.product_name || 'Item', item.imei ? `IMEI ${item.imei}` : ''].filter(Boolean).join(' - '),
+        hsnCode: Number(item.hsn_code) || 0,
+        quantity: item.quantity,
+        qtyUnit: 'NOS',
+        taxableAmount: tax.taxableValue,
+        cgstRate: tax.cgstRate,
+        sgstRate: tax.sgstRate,
+        igstRate: tax.igstRate,
+        cessRate: 0,
+        cessNonAdvol: 0,
+      };
+    }),
+  };
+
+  if (invoiceValue < EWAY_BILL_THRESHOLD) {
+    issues.push({
+      field: 'totInvValue',
+      message: `Invoice value Rs ${invoiceValue.toFixed(2)} is below the Rs ${EWAY_BILL_THRESHOLD.toLocaleString('en-IN')} e-way bill threshold`,
+    });
+  }
+
+  if (!sellerGstin) {
+    issues.push({ field: 'fromGstin', message: 'Seller GSTIN is missing' });
+  } else {
+    const gstinError = validateGSTIN(sellerGstin);
+    if (gstinError) issues.push({ field: 'fromGstin', message: `Seller ${gstinError}` });
+  }
+  if (!bill.fromPincode) {
+    issues.push({ field: 'fromPincode', message: 'Shop address needs a 6-digit PIN code' });
+  }
+  if (bill.fromPlace.length < 3) {
+    issues.push({ field: 'fromPlace', message: 'Shop address needs a town or city after the last comma' });
+  }
+
+  if (buyerGstin) {
+    const gstinError = validateGSTIN(buyerGstin);
+    if (gstinError) issues.push({ field: 'toGstin', message: `Buyer ${gstinError}` });
+  }
+  const destination = shipsToConsignee ? 'Consignee address' : 'Customer address';
+  if (!bill.toAddr1) {
+    issues.push({ field: 'toAddr1', message: `${destination} is missing` });
+  }
+  if (!bill.toPincode) {
+    issues.push({ field: 'toPincode', message: `${destination} needs a 6-digit PIN code` });
+  }
+  if (bill.toPlace.length < 3) {
+    issues.push({ field: 'toPlace', message: 'Place of supply or a town in the delivery address is needed' });
+  }
+
+  if (items.length === 0) {
+    issues.push({ field: 'itemList', message: 'Invoice has no items' });
+  }
+  items.forEach((item, index) => {
+    if (!HSN_PATTERN.test((item.hsn_code || '').trim())) {
+      issues.push({
+        field: `itemList[${index}].hsnCode`,
+        message: `Item ${index + 1} (${item.product_name || 'Item'}): HSN code must be 4, 6 or 8 digits`,
+      });
+    }
+  });
+
+  const distanceKm = Number(distance);
+  if (!/^\d+$/.test(distance) || distanceKm < 1 || distanceKm > MAX_DISTANCE_KM) {
+    issues.push({ field: 'transDistance', message: `Distance must be a whole number of km from 1 to ${MAX_DISTANCE_KM}` });
+  }
+  if (transporterId && !TRANSPORTER_ID_PATTERN.test(transporterId)) {
+    issues.push({ field: 'transporterId', message: 'Transporter ID must be a 15-character GSTIN or TRANSIN' });
+  }
+  if (transport.mode === '1') {
+    // Without a vehicle only Part A is filed, which needs the transporter who will add Part B
+    if (!vehicleNo && !transporterId) {
+      issues.push({ field: 'vehicleNo', message: 'Road transport needs a vehicle number or a transporter ID' });
+    }
+    if (vehicleNo && !VEHICLE_NO_PATTERN.test(vehicleNo)) {
+      issues.push({ field: 'vehicleNo', message: `Vehicle number ${vehicleNo} is not in the KL07AB1234 format` });
+    }
+  } else {
+    if (!bill.transDocNo) {
+      issues.push({ field: 'transDocNo', message: 'Rail, air and ship transport need the transport document number' });
+    }
+    if (!bill.transDocDate) {
+      issues.push({ field: 'transDocDate', message: 'Rail, air and ship transport need the transport document date' });
+    }
+  }
+
+  return { payload: { version: EWAY_BILL_JSON_VERSION, billLists: [bill] }, issues };
+};
@@ -0,0 +1,130 @@
+import {
+  purchaseInvoicesAPI,
+  saleReturnsAPI,
+  salesAPI,
+  stockAdjustmentsAPI,
+  stockBatchesAPI,
+  stockTransfersAPI,
+  suppliersAPI,
+} from '@/lib/api';
+import type {
+  IMEINumber,
+  PurchaseInvoice,
+  Sale,
+  SaleReturn,
+  StockAdjustment,
+  StockBatch,
+  StockTransfer,
+  Supplier,
+} from '@/types';
+
+export interface IMEILookupResult {
+  imei: IMEINumber;
+  batch: StockBatch;
+}
+
+export interface IMEILifecycle extends IMEILookupResult {
+  purchaseInvoice: PurchaseInvoice | null;
+  supplier: Supplier | null;
+  transfers: StockTransfer[];
+  /** Oldest first; a returned and restocked unit can be sold more than once. */
+  sales: Sale[];
+  returns: SaleReturn[];
+  adjustments: StockAdjustment[];
+}
+
+export const normalizeIMEI = (value: string) => value.replace(/\s+/g, '').trim();
+
+/**
+ * Locate an IMEI anywhere in the system by searching stock batches for the code
+ * and checking the IMEI list of each IMEI-tracked match.
+ */
+export const findIMEI = async (imei: string): Promise<IMEILookupResult | null> => {
+  const code = normalizeIMEI(imei);
+  if (!code) return null;
+
+  const response = await stockBatchesAPI.list(code);
+  const trackedBatches = response.data.filter((batch) => batch.product_is_imei_tracked);
+
+  for (const batch of trackedBatches) {
+    const imeiNumbers = batch.imei_numbers?.length
+      ? batch.imei_numbers
+      : (await stockBatchesAPI.getIMEINumbers(batch.id)).data;
+    const match = imeiNumbers.find((entry) => entry.imei === code);
+    if (match) {
+      return { imei: match, batch };
+    }
+  }
+
+  return null;
+};
+
+export const describeIMEIStatus = (status: IMEINumber['status']) => {
+  switch (status) {
+    case 'in_main_stock':
+      return 'In main stock';
+    case 'in_transit':
+      return 'In transit to shop';
+    case 'in_sub_stock':
+      return 'In shop stock';
+    case 'sold':
+      return 'Sold';
+    case 'written_off':
+      return 'Written off';
+    default:
+      return status;
+  }
+};
+
+const settledData = <T>(result: PromiseSettledResult<{ data: T }>, fallback: T) => (
+  result.status === 'fulfilled' ? result.value.data : fallback
+);
+
+/**
+ * Resolve everything that happened to a single IMEI: where it was bought, which
+ * shops it moved to, who it was sold to and any returns or adjustments since.
+ * Related records that fail to load are left empty so the rest still renders.
+ */
+export const lookupIMEILifecycle = async (imei: string): Promise<IMEILifecycle | null> => {
+  const found = await findIMEI(imei);
+  if (!found) return null;
+
+  const code = found.imei.imei;
+  const { batch } = found;
+
+  const [invoiceRes, supplierRes, transfersRes, salesRes, adjustmentsRes] = await Promise.allSettled([
+    batch.purchase_invoice ? purchaseInvoicesAPI.get(batch.purchase_invoice) : Promise.resolve({ data: null }),
+    batch.supplier ? suppliersAPI.get(batch.supplier) : Promise.resolve({ data: null }),
+    stockTransfersAPI.listAll({ stock_batch: batch.id }).then((data) => ({ data })),
+    salesAPI.list(code),
+    stockAdjustmentsAPI.list(code),
+  ]);
+
+  // Transfers without an IMEI list predate per-unit tracking, so keep every transfer of the batch
+  const transfers = settledData<StockTransfer[]>(transfersRes, [])
+    .filter((transfer) => transfer.stock_batch === batch.id)
+    .filter((transfer) => !transfer.imei_numbers?.length || transfer.imei_numbers.includes(code));
+
+  const sales = settledData<Sale[]>(salesRes, [])
+    .filter((sale) => sale.items?.some((item) => item.imei === code))
+    .sort((a, b) => new Date(a.sale_date).getTime() - new Date(b.sale_date).getTime());
+
+  const adjustments = settledData<StockAdjustment[]>(adjustmentsRes, [])
+    .filter((adjustment) => adjustment.stock_batch === batch.id)
+    .filter((adjustment) => !adjustment.imei_numbers?.length || adjustment.imei_numbers.includes(code));
+
+  const returnsResults = await Promise.allSettled(sales.map((sale) => saleReturnsAPI.list({ sale: sale.id })));
+  const returns = returnsResults
+    .flatMap((result) => settledData<SaleReturn[]>(result, []))
+    .filter((saleReturn) => saleReturn.items?.some((item) => item.imei === code));
+
+  return {
+    ...found,
+    purchaseInvoice: settledData<PurchaseInvoice | null>(invoiceRes, null),
+    supplier: settledData<Supplier | null>(supplierRes, null),
+    transfers,
+    sales,
+    returns,
+    adjustments,
+  };
+};
@@ -0,0 +1,1685 @@
+import { AxiosError, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { jwtDecode } from 'jwt-decode';
+import type {
+  User, Product, StockBatch, SubStock, StockRequest, Notification, StockTransfer,
+  StockAdjustment, Customer, Sale, SaleItem, SalePayment, SaleReturn, SaleReturnItem,
+  DeadStockBatch, DashboardStats, ParkedCart
+} from '@/types';
+import { computeLineTax, DEFAULT_STATE_CODE, resolveSupplyType, roundCurrency } from '@/lib/tax';
+import { getSaleDiscountFactor } from '@/lib/receivables';
+import { createSeedData, MOCK_PASSWORD, type MockDb } from './fixtures';
+
+const MOCK_LATENCY_MS = 120;
+const TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const LOW_STOCK_THRESHOLD = 5;
+const DEFAULT_DEAD_STOCK_DAYS = 60;
+const PARKED_CART_TTL_MS = 4 * 60 * 60 * 1000;
+
+let db: MockDb = createSeedData();
+
+/** Restore the seeded fixtures; end-to-end tests call this between scenarios. */
+export const resetMockBackend = () => {
+  db = createSeedData();
+};
+
+class MockHttpError extends Error {
+  constructor(public status: number, public data: unknown) {
+    super(`Request failed with status code ${status}`);
+  }
+}
+
+const fail = (status: number, message: string): never => {
+  throw new MockHttpError(status, { error: message });
+};
+
+interface MockRequest {
+  params: Record<string, number>;
+  query: Record<string, any>;
+  body: any;
+  user: User;
+}
+
+type MockHandler = (request: MockRequest) => unknown;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+  status: number;
+  isPublic: boolean;
+}
+
+const routes: MockRoute[] = [];
+
+// Path params are numeric ids, so `/sales/today_sales/` never collides with `/sales/:id/`
+const route = (
+  method: string,
+  path: string,
+  handler: MockHandler,
+  options: { status?: number; isPublic?: boolean } = {}
+) => {
+  const keys: string[] = [];
+  const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '(\\d+)';
+  })}$`);
+  routes.push({
+    method,
+    pattern,
+    keys,
+    handler,
+    status: options.status ?? (method === 'POST' ? 201 : method === 'DELETE' ? 204 : 200),
+    isPublic: options.isPublic ?? false,
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const now = () => new Date().toISOString();
+
+const nextId = (items: Array<{ id: number }>) => items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+
+const findById = <T extends { id: number }>(items: T[], id: unknown, label = 'Record'): T => {
+  const found = items.find((item) => item.id === Number(id));
+  if (!found) {
+    throw new MockHttpError(404, { detail: `${label} not found.` });
+  }
+  return found;
+};
+
+const fullName = (user?: User | null) =>
+  user ? `${user.first_name} ${user.last_name}`.trim() || user.username : '';
+
+const money = (value: number) => roundCurrency(value).toFixed(2);
+
+const matchesSearch = (item: Record<string, any>, term: unknown, fields: string[]) => {
+  const needle = String(term || '').trim().toLowerCase();
+  if (!needle) return true;
+  return fields.some((field) => String(item[field] ?? '').toLowerCase().includes(needle));
+};
+
+// Shop staff only see their own shop's records, as the real API scopes them
+const scopeToShop = <T extends { shop?: number | null }>(items: T[], user: User) =>
+  user.role === 'sub_stock_manager' ? items.filter((item) => item.shop === user.shop) : items;
+
+const notify = (
+  userIds: number[],
+  fields: Pick<Notification, 'notification_type' | 'title' | 'message'> & Partial<Notification>
+) => {
+  userIds.forEach((userId) => {
+    db.notifications.unshift({
+      id: nextId(db.notifications),
+      user: userId,
+      is_read: false,
+      created_at: now(),
+      ...fields,
+    });
+  });
+};
+
+const inventoryManagerIds = () =>
+  db.users
+    .filter((user) => user.role === 'super_admin' || user.role === 'main_inventory_manager')
+    .map((user) => user.id);
+
+const shopStaffIds = (shopId: number) =>
+  db.users.filter((user) => user.shop === shopId).map((user) => user.id);
+
+// ---------------------------------------------------------------------------
+// Serializers: fill in the denormalized names the real API returns
+// ---------------------------------------------------------------------------
+
+const productOf = (batch: StockBatch) => findById(db.products, batch.product, 'Product');
+
+const gstRateOf = (batch: StockBatch) =>
+  db.gstSlabs.find((slab) => slab.id === batch.gst_slab)?.rate || batch.gst_rate || '0';
+
+const presentBatch = (batch: StockBatch): StockBatch => {
+  const product = productOf(batch);
+  return {
+    ...batch,
+    product_name: product.name,
+    product_is_imei_tracked: product.is_imei_tracked,
+    product_brand_name: product.brand_name,
+    product_variant_name: product.variant_name,
+    product_color_name: product.color_name,
+    product_category_name: product.category_name,
+    gst_rate: gstRateOf(batch),
+    supplier_name: db.suppliers.find((supplier) => supplier.id === batch.supplier)?.name || batch.supplier_name,
+  };
+};
+
+const presentSubStock = (subStock: SubStock): SubStock => {
+  const batch = findById(db.stockBatches, subStock.stock_batch, 'Stock batch');
+  return {
+    ...subStock,
+    shop_name: db.shops.find((shop) => shop.id === subStock.shop)?.name,
+    product_name: productOf(batch).name,
+    batch_number: batch.batch_number,
+    selling_price: batch.selling_price,
+    is_low_stock: subStock.quantity <= subStock.reorder_level,
+  };
+};
+
+const presentProduct = (product: Product): Product => {
+  const batches = db.stockBatches.filter((batch) => batch.product === product.id);
+  const conditions = Array.from(new Set(batches.map((batch) => batch.condition)));
+  const stockByCondition = conditions.map((condition) => {
+    const conditionBatches = batches.filter((batch) => batch.condition === condition);
+    const batchIds = new Set(conditionBatches.map((batch) => batch.id));
+    const shopStocks = db.subStocks.filter((subStock) => batchIds.has(subStock.stock_batch) && subStock.quantity > 0);
+    const mainStock = conditionBatches.reduce((sum, batch) => sum + batch.available_quantity, 0);
+    const shopStock = shopStocks.reduce((sum, subStock) => sum + subStock.quantity, 0);
+    const prices = conditionBatches.map((batch) => parseFloat(batch.selling_price));
+    return {
+      condition,
+      quantity: mainStock + shopStock,
+      main_stock: mainStock,
+      shop_stock: shopStock,
+      shops: db.shops
+        .map((shop) => ({
+          shop_id: shop.id,
+          shop_name: shop.name,
+          quantity: shopStocks.filter((subStock) => subStock.shop === shop.id).reduce((sum, subStock) => sum + subStock.quantity, 0),
+        }))
+        .filter((entry) => entry.quantity > 0),
+      avg_price: money(prices.reduce((sum, price) => sum + price, 0) / Math.max(prices.length, 1)),
+    };
+  });
+  const prices = batches.map((batch) => parseFloat(batch.selling_price));
+  const min = prices.length ? Math.min(...prices) : undefined;
+  const max = prices.length ? Math.max(...prices) : undefined;
+
+  return {
+    ...product,
+    category_name: db.categories.find((category) => category.id === product.category)?.name,
+    brand_name: db.brands.find((brand) => brand.id === product.brand)?.name,
+    variant_name: db.variants.find((variant) => variant.id === product.variant)?.name,
+    color_name: db.colors.find((color) => color.id === product.color)?.name,
+    total_stock: stockByCondition.reduce((sum, entry) => sum + entry.quantity, 0),
+    stock_by_condition: stockByCondition,
+    price_range: min === max ? { single_price: min } : { min, max },
+  };
+};
+
+const presentUser = (user: User): User => ({
+  ...user,
+  shop_name: db.shops.find((shop) => shop.id === user.shop)?.name,
+});
+
+// ---------------------------------------------------------------------------
+// Generic REST collections
+// ---------------------------------------------------------------------------
+
+type CollectionKey = {
+  [K in keyof MockDb]: MockDb[K] extends Array<{ id: number }> ? K : never;
+}[keyof MockDb];
+
+interface CollectionOptions {
+  searchFields?: string[];
+  present?: (item: any, user: User) => any;
+  /** Extra list filters on the presented rows, for query params that are not plain fields */
+  filter?: (item: any, query: Record<string, any>) => boolean;
+  scoped?: boolean;
+  create?: MockHandler;
+  readOnly?: boolean;
+}
+
+const collection = (path: string, key: CollectionKey, options: CollectionOptions = {}) => {
+  const items = () => db[key] as unknown as Array<Record<string, any> & { id: number; shop?: number | null }>;
+  const present = (item: any, user: User) => (options.present ? options.present(item, user) : item);
+
+  route('GET', `${path}/`, ({ query, user }) => {
+    const visible = options.scoped ? scopeToShop(items(), user) : items();
+    return visible
+      .filter((item) => matchesSearch(item, query.search, options.searchFields || ['name']))
+      .map((item) => present(item, user))
+      .filter((item) => !options.filter || options.filter(item, query));
+  });
+  route('GET', `${path}/:id/`, ({ params, user }) => present(findById(items(), params.id), user));
+
+  if (options.readOnly) return;
+
+  route('POST', `${path}/`, options.create || (({ body, user }) => {
+    const timestamp = now();
+    const created = { ...body, id: nextId(items()), created_at: timestamp, updated_at: timestamp };
+    items().push(created);
+    return present(created, user);
+  }));
+  route('PATCH', `${path}/:id/`, ({ params, body, user }) => {
+    const existing = findById(items(), params.id);
+    Object.assign(existing, body, { id: existing.id, updated_at: now() });
+    return present(existing, user);
+  }, { status: 200 });
+  route('DELETE', `${path}/:id/`, ({ params }) => {
+    findById(items(), params.id);
+    (db as any)[key] = items().filter((item) => item.id !== Number(params.id));
+  });
+  route('POST', `${path}/bulk_delete/`, ({ body }) => {
+    const ids = new Set<number>((body.ids || []).map(Number));
+    const before = items().length;
+    (db as any)[key] = items().filter((item) => !ids.has(item.id));
+    return { deleted_count: before - items().length };
+  }, { status: 200 });
+};
+
+// ---------------------------------------------------------------------------
+// Auth
+// ---------------------------------------------------------------------------
+
+const encodeSegment = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+// Unsigned JWTs: enough for jwt-decode in AuthContext, meaningless to a real server
+const issueToken = (user: User, tokenType: 'access' | 'refresh') => [
+  encodeSegment({ alg: 'none', typ: 'JWT' }),
+  encodeSegment({ token_type: tokenType, user_id: user.id, exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS }),
+  'mock',
+].join('.');
+
+const userFromToken = (token: string | undefined, tokenType: 'access' | 'refresh') => {
+  if (!token) return null;
+  try {
+    const decoded = jwtDecode<{ user_id: number; exp: number; token_type: string }>(token);
+    if (decoded.token_type !== tokenType || decoded.exp < Date.now() / 1000) return null;
+    return db.users.find((user) => user.id === decoded.user_id && user.is_active) || null;
+  } catch {
+    return null;
+  }
+};
+
+const signIn = (user: User) => ({
+  access: issueToken(user, 'access'),
+  refresh: issueToken(user, 'refresh'),
+  user: presentUser(user),
+});
+
+route('POST', '/auth/login/', ({ body }) => {
+  const user = db.users.find((entry) => entry.username === body.username && entry.is_active);
+  if (!user || body.password !== MOCK_PASSWORD) {
+    throw new MockHttpError(401, { detail: 'No active account found with the given credentials' });
+  }
+  return signIn(user);
+}, { status: 200, isPublic: true });
+
+route('POST', '/auth/register/', ({ body }) => {
+  if (db.users.some((user) => user.username === body.username)) {
+    throw new MockHttpError(400, { username: ['A user with that username already exists.'] });
+  }
+  const { password: _password, ...fields } = body;
+  const user: User = { ...fields, id: nextId(db.users), is_active: true, shop: body.shop ? Number(body.shop) : undefined };
+  db.users.push(user);
+  return signIn(user);
+}, { isPublic: true });
+
+route('POST', '/auth/refresh/', ({ body }) => {
+  const user = userFromToken(body.refresh, 'refresh');
+  if (!user) {
+    throw new MockHttpError(401, { detail: 'Token is invalid or expired', code: 'token_not_valid' });
+  }
+  return { access: issueToken(user, 'access') };
+}, { status: 200, isPublic: true });
+
+route('GET', '/auth/me/', ({ user }) => presentUser(user));
+
+// PINs are checked here rather than in the browser, so a shared terminal never holds other cashiers' tokens
+const PIN_MAX_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+route('POST', '/auth/pin/', ({ body, user }) => {
+  const pin = String(body.pin ?? '');
+  if (!/^\d{4,6}$/.test(pin)) {
+    throw new MockHttpError(400, { pin: ['PIN must be 4 to 6 digits'] });
+  }
+  db.cashierPins[user.id] = { pin, failed_attempts: 0, locked_until: null };
+}, { status: 204 });
+
+route('DELETE', '/auth/pin/', ({ user }) => {
+  delete db.cashierPins[user.id];
+});
+
+route('POST', '/auth/pin-login/', ({ body }) => {
+  const user = db.users.find((entry) => entry.id === Number(body.user_id) && entry.is_active);
+  const record = user ? db.cashierPins[user.id] : undefined;
+  if (!user || !record) {
+    throw new MockHttpError(400, { detail: 'No PIN is set for this cashier. Sign in with the password.' });
+  }
+  if (record.locked_until && record.locked_until > Date.now()) {
+    throw new MockHttpError(429, { detail: 'Too many wrong PINs. Sign in with the password.' });
+  }
+  if (record.pin !== String(body.pin ?? '')) {
+    record.failed_attempts += 1;
+    if (record.failed_attempts >= PIN_MAX_ATTEMPTS) {
+      record.failed_attempts = 0;
+      record.locked_until = Date.now() + PIN_LOCKOUT_MS;
+      throw new MockHttpError(429, { detail: 'Too many wrong PINs. Sign in with the password.' });
+    }
+    throw new MockHttpError(400, { detail: 'Incorrect PIN' });
+  }
+  record.failed_attempts = 0;
+  record.locked_until = null;
+  return signIn(user);
+}, { status: 200, isPublic: true });
+
+// ---------------------------------------------------------------------------
+// Masters
+// ---------------------------------------------------------------------------
+
+collection('/users', 'users', {
+  searchFields: ['username', 'first_name', 'last_name', 'email'],
+  present: presentUser,
+  create: ({ body }) => {
+    if (db.users.some((user) => user.username === body.username)) {
+      throw new MockHttpError(400, { username: ['A user with that username already exists.'] });
+    }
+    const { password: _password, ...fields } = body;
+    const user: User = { is_active: true, ...fields, id: nextId(db.users) };
+    db.users.push(user);
+    return presentUser(user);
+  },
+});
+collection('/categories', 'categories');
+collection('/brands', 'brands');
+collection('/variants', 'variants');
+collection('/colors', 'colors');
+collection('/conditions', 'conditions');
+collection('/sources', 'sources');
+collection('/gst-slabs', 'gstSlabs', { searchFields: ['rate'] });
+collection('/suppliers', 'suppliers', { searchFields: ['name', 'phone', 'gstin'] });
+collection('/shops', 'shops', { searchFields: ['name', 'code', 'address'] });
+collection('/customers', 'customers', { searchFields: ['name', 'phone', 'email', 'gstin'] });
+
+route('POST', '/products/bulk_upload/', () => fail(400, 'Bulk upload is not available on the mock backend'));
+// stock_condition / stock_shop / stock_location narrow products to where they are actually in stock
+const filterProductStock = (product: Product, query: Record<string, any>) => {
+  const stock = (product.stock_by_condition || []).filter((entry) => !query.stock_condition || entry.condition === query.stock_condition);
+  if (query.stock_condition && stock.length === 0) return false;
+  if (query.stock_shop) {
+    const shopId = Number(query.stock_shop);
+    return stock.some((entry) => entry.shops.some((shop) => shop.shop_id === shopId && shop.quantity > 0));
+  }
+  if (query.stock_location === 'main') return stock.some((entry) => entry.main_stock > 0);
+  return true;
+};
+
+collection('/products', 'products', {
+  searchFields: ['name', 'hsn_code', 'brand_name'],
+  present: presentProduct,
+  filter: filterProductStock,
+});
+
+route('GET', '/customers/search_by_phone/', ({ query }) => {
+  const customer = db.customers.find((entry) => entry.phone === String(query.phone || '').trim());
+  if (!customer) {
+    throw new MockHttpError(404, { detail: 'Customer not found' });
+  }
+  return customer;
+});
+
+route('GET', '/company-profile/', () => db.companyProfile);
+route('PATCH', '/company-profile/', ({ body }) => {
+  const { logo, signatory_image: signatoryImage, ...fields } = body;
+  Object.assign(db.companyProfile, fields, { updated_at: now() });
+  if (logo instanceof Blob) {
+    db.companyProfile.logo = URL.createObjectURL(logo);
+  } else if (logo === '') {
+    db.companyProfile.logo = null;
+  }
+  if (signatoryImage instanceof Blob) {
+    db.companyProfile.signatory_image = URL.createObjectURL(signatoryImage);
+  } else if (signatoryImage === '') {
+    db.companyProfile.signatory_image = null;
+  }
+  return db.companyProfile;
+});
+
+// ---------------------------------------------------------------------------
+// Purchases
+// ---------------------------------------------------------------------------
+
+const applyPurchasePayment = (invoiceId: number) => {
+  const invoice = findById(db.purchaseInvoices, invoiceId, 'Purchase invoice');
+  const paid = db.purchasePayments
+    .filter((payment) => payment.purchase_invoice === invoice.id)
+    .reduce((sum, payment) => sum + parseFloat(payment.amount), 0);
+  const total = parseFloat(invoice.total_amount);
+  invoice.amount_paid = money(paid);
+  invoice.balance_due = money(Math.max(0, total - paid));
+  invoice.status = paid >= total ? 'paid' : paid > 0 ? 'partial' : 'pending';
+  invoice.payments = db.purchasePayments.filter((payment) => payment.purchase_invoice === invoice.id);
+  invoice.updated_at = now();
+};
+
+collection('/purchase-invoices', 'purchaseInvoices', {
+  searchFields: ['invoice_number', 'supplier_name'],
+  present: (invoice) => ({
+    ...invoice,
+    payments: db.purchasePayments.filter((payment) => payment.purchase_invoice === invoice.id),
+  }),
+});
+collection('/purchase-payments', 'purchasePayments', {
+  searchFields: ['invoice_number', 'supplier_name', 'reference_number'],
+  // `supplier` reaches through the payment's invoice
+  filter: (payment, query) => !query.supplier
+    || db.purchaseInvoices.find((invoice) => invoice.id === payment.purchase_invoice)?.supplier === Number(query.supplier),
+  create: ({ body }) => {
+    const invoice = findById(db.purchaseInvoices, body.purchase_invoice, 'Purchase invoice');
+    const payment = {
+      ...body,
+      id: nextId(db.purchasePayments),
+      purchase_invoice: invoice.id,
+      amount: money(parseFloat(body.amount) || 0),
+      payment_date: body.payment_date || now().slice(0, 10),
+      invoice_number: invoice.invoice_number,
+      supplier_name: invoice.supplier_name,
+    };
+    db.purchasePayments.push(payment);
+    applyPurchasePayment(invoice.id);
+    return payment;
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Stock batches and IMEIs
+// ---------------------------------------------------------------------------
+
+const findOrCreateSubStock = (shopId: number, batchId: number) => {
+  let subStock = db.subStocks.find((entry) => entry.shop === shopId && entry.stock_batch === batchId);
+  if (!subStock) {
+    const timestamp = now();
+    subStock = { id: nextId(db.subStocks), shop: shopId, stock_batch: batchId, quantity: 0, reorder_level: 2, created_at: timestamp, updated_at: timestamp };
+    db.subStocks.push(subStock);
+  }
+  return subStock;
+};
+
+const addIMEIs = (batchId: number, imeis: string[], status: 'in_main_stock' | 'in_sub_stock', subStockId?: number) => {
+  imeis.forEach((imei) => {
+    const timestamp = now();
+    db.imeiNumbers.push({ id: nextId(db.imeiNumbers), imei, stock_batch: batchId, status, sub_stock: subStockId, created_at: timestamp, updated_at: timestamp });
+  });
+};
+
+const createBatch: MockHandler = ({ body, user }) => {
+  const product = findById(db.products, body.product, 'Product');
+  const imeis: string[] = body.imei_list || [];
+  const duplicate = imeis.find((imei) => db.imeiNumbers.some((entry) => entry.imei === imei));
+  if (duplicate) {
+    fail(400, `IMEI ${duplicate} already exists`);
+  }
+
+  const purchasedQuantity = Number(body.purchased_quantity) || 0;
+  const distributions: Array<{ shop: number; quantity: number; imei_list?: string[] }> = body.distributions || [];
+  const allocated = distributions.reduce((sum, dist) => sum + Number(dist.quantity), 0);
+  const timestamp = now();
+  const batch: StockBatch = {
+    id: nextId(db.stockBatches),
+    batch_number: body.batch_number || `B-${Date.now().toString(36).toUpperCase()}`,
+    product: product.id,
+    gst_slab: Number(body.gst_slab),
+    purchased_quantity: purchasedQuantity,
+    total_purchase_amount: money(parseFloat(body.total_purchase_amount) || 0),
+    unit_purchase_price: money((parseFloat(body.total_purchase_amount) || 0) / Math.max(purchasedQuantity, 1)),
+    selling_price: money(parseFloat(body.selling_price) || 0),
+    available_quantity: purchasedQuantity - allocated,
+    condition: body.condition || 'fresh',
+    source: body.source || 'distributor',
+    is_interstate: Boolean(body.is_interstate),
+    purchase_date: body.purchase_date || timestamp.slice(0, 10),
+    supplier: body.supplier ?? null,
+    supplier_name: body.supplier_name,
+    invoice_number: body.invoice_number,
+    notes: body.notes,
+    stock_status: 'active',
+    created_by: user.id,
+    created_by_name: fullName(user),
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+  db.stockBatches.push(batch);
+
+  const distributedImeis = new Set(distributions.flatMap((dist) => dist.imei_list || []));
+  addIMEIs(batch.id, imeis.filter((imei) => !distributedImeis.has(imei)), 'in_main_stock');
+  distributions.forEach((dist) => {
+    const subStock = findOrCreateSubStock(Number(dist.shop), batch.id);
+    subStock.quantity += Number(dist.quantity);
+    addIMEIs(batch.id, dist.imei_list || [], 'in_sub_stock', subStock.id);
+  });
+
+  return presentBatch(batch);
+};
+
+route('GET', '/stock-batches/low_stock/', () =>
+  db.stockBatches
+    .filter((batch) => batch.available_quantity > 0 && batch.available_quantity <= LOW_STOCK_THRESHOLD)
+    .map(presentBatch)
+);
+
+route('GET', '/stock-batches/dead_stock/', ({ query }) => {
+  const days = Number(query.days ?? DEFAULT_DEAD_STOCK_DAYS) + Number(query.hours || 0) / 24 + Number(query.minutes || 0) / 1440;
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  return db.stockBatches
+    .map((batch): DeadStockBatch | null => {
+      const shopQuantity = db.subStocks
+        .filter((subStock) => subStock.stock_batch === batch.id && (!query.shop || subStock.shop === Number(query.shop)))
+        .reduce((sum, subStock) => sum + subStock.quantity, 0);
+      const remaining = (query.shop ? 0 : batch.available_quantity) + shopQuantity;
+      const lastActivity = new Date(batch.last_sold_at || batch.purchase_date).getTime();
+      if (remaining <= 0 || lastActivity > cutoff) return null;
+      const product = productOf(batch);
+      return {
+        id: batch.id,
+        batch_number: batch.batch_number,
+        product: product.id,
+        product_name: product.name,
+        product_is_imei_tracked: product.is_imei_tracked,
+        condition: batch.condition,
+        condition_display: batch.condition_display,
+        selling_price: batch.selling_price,
+        purchase_date: batch.purchase_date,
+        last_sold_at: batch.last_sold_at,
+        stock_status: batch.stock_status,
+        remaining_stock: remaining,
+        stock_value: roundCurrency(remaining * parseFloat(batch.unit_purchase_price)),
+        days_since_last_sale: Math.floor((Date.now() - lastActivity) / (24 * 60 * 60 * 1000)),
+      };
+    })
+    .filter((entry): entry is DeadStockBatch => entry !== null);
+});
+
+route('POST', '/stock-batches/bulk_upload/', () => fail(400, 'Bulk upload is not available on the mock backend'));
+
+collection('/stock-batches', 'stockBatches', {
+  searchFields: ['batch_number', 'product_name', 'product_brand_name', 'invoice_number'],
+  present: presentBatch,
+  create: createBatch,
+});
+
+route('GET', '/stock-batches/:id/imei_numbers/', ({ params, query }) => {
+  const batch = findById(db.stockBatches, params.id, 'Stock batch');
+  const imeis = db.imeiNumbers.filter((entry) => entry.stock_batch === batch.id);
+  if (query.location === 'main') {
+    return imeis.filter((entry) => entry.status === 'in_main_stock');
+  }
+  if (query.location === 'shop' || query.shop) {
+    const subStockIds = new Set(db.subStocks
+      .filter((subStock) => subStock.stock_batch === batch.id && (!query.shop || subStock.shop === Number(query.shop)))
+      .map((subStock) => subStock.id));
+    return imeis.filter((entry) => entry.sub_stock !== undefined && subStockIds.has(entry.sub_stock));
+  }
+  return imeis;
+});
+
+route('POST', '/stock-batches/:id/mark_dead/', ({ params }) => {
+  const batch = findById(db.stockBatches, params.id, 'Stock batch');
+  batch.stock_status = 'dead';
+  batch.updated_at = now();
+  return presentBatch(batch);
+}, { status: 200 });
+
+route('POST', '/stock-batches/:id/set_clearance/', ({ params, body }) => {
+  const batch = findById(db.stockBatches, params.id, 'Stock batch');
+  batch.selling_price = money(parseFloat(body.selling_price) || 0);
+  batch.stock_status = 'clearance';
+  batch.updated_at = now();
+  return presentBatch(batch);
+}, { status: 200 });
+
+// ---------------------------------------------------------------------------
+// Stock adjustments
+// ---------------------------------------------------------------------------
+
+const recordAdjustment = (
+  user: User,
+  fields: {
+    stock_batch: number;
+    shop?: number | null;
+    adjustment_type: StockAdjustment['adjustment_type'];
+    quantity: number;
+    notes?: string;
+    imei_list?: string[];
+  }
+) => {
+  const batch = findById(db.stockBatches, fields.stock_batch, 'Stock batch');
+  const quantity = Number(fields.quantity) || 0;
+  // Manual adjustments carry their own sign; returns add stock and every other type removes it
+  const delta = fields.adjustment_type === 'manual'
+    ? quantity
+    : fields.adjustment_type === 'return' ? Math.abs(quantity) : -Math.abs(quantity);
+
+  if (fields.shop) {
+    const subStock = findOrCreateSubStock(Number(fields.shop), batch.id);
+    if (subStock.quantity + delta < 0) {
+      fail(400, `Only ${subStock.quantity} unit(s) in this shop`);
+    }
+    subStock.quantity += delta;
+    subStock.updated_at = now();
+  } else {
+    if (batch.available_quantity + delta < 0) {
+      fail(400, `Only ${batch.available_quantity} unit(s) in main stock`);
+    }
+    batch.available_quantity += delta;
+    batch.updated_at = now();
+  }
+
+  const imeis = fields.imei_list || [];
+  db.imeiNumbers
+    .filter((entry) => imeis.includes(entry.imei))
+    .forEach((entry) => {
+      entry.status = 'written_off';
+      entry.updated_at = now();
+    });
+
+  const adjustment: StockAdjustment = {
+    id: nextId(db.stockAdjustments),
+    stock_batch: batch.id,
+    stock_batch_number: batch.batch_number,
+    product_name: productOf(batch).name,
+    shop: fields.shop ? Number(fields.shop) : null,
+    shop_name: db.shops.find((shop) => shop.id === Number(fields.shop))?.name,
+    adjustment_type: fields.adjustment_type,
+    quantity: fields.adjustment_type === 'manual' ? quantity : Math.abs(quantity),
+    unit_purchase_price: batch.unit_purchase_price,
+    imei_numbers: imeis,
+    notes: fields.notes,
+    created_by: user.id,
+    created_by_name: fullName(user),
+    created_at: now(),
+  };
+  db.stockAdjustments.unshift(adjustment);
+  return adjustment;
+};
+
+route('POST', '/stock-batches/:id/write_off/', ({ params, body, user }) =>
+  recordAdjustment(user, {
+    stock_batch: params.id,
+    shop: body.shop,
+    adjustment_type: 'write_off',
+    quantity: body.imei_list?.length || body.quantity,
+    notes: body.notes,
+    imei_list: body.imei_list,
+  }), { status: 200 });
+
+collection('/stock-adjustments', 'stockAdjustments', {
+  searchFields: ['product_name', 'stock_batch_number', 'notes'],
+  create: ({ body, user }) => recordAdjustment(user, body),
+});
+
+// ---------------------------------------------------------------------------
+// Shop stock, requests and transfers
+// ---------------------------------------------------------------------------
+
+route('GET', '/sub-stocks/low_stock/', ({ user }) =>
+  scopeToShop(db.subStocks, user)
+    .filter((subStock) => subStock.quantity <= subStock.reorder_level)
+    .map(presentSubStock)
+);
+
+collection('/sub-stocks', 'subStocks', { present: presentSubStock, scoped: true, searchFields: [] });
+
+collection('/stock-requests', 'stockRequests', {
+  scoped: true,
+  searchFields: ['product_name', 'batch_number', 'shop_name'],
+  create: ({ body, user }) => {
+    const batch = findById(db.stockBatches, body.stock_batch, 'Stock batch');
+    const shopId = Number(body.shop || user.shop);
+    const shop = findById(db.shops, shopId, 'Shop');
+    const request: StockRequest = {
+      id: nextId(db.stockRequests),
+      shop: shop.id,
+      shop_name: shop.name,
+      stock_batch: batch.id,
+      product_name: productOf(batch).name,
+      batch_number: batch.batch_number,
+      requested_quantity: Number(body.requested_quantity) || 0,
+      status: 'pending',
+      requested_by: user.id,
+      requested_by_name: fullName(user),
+      requested_at: now(),
+      notes: body.notes,
+    };
+    db.stockRequests.unshift(request);
+    notify(inventoryManagerIds(), {
+      notification_type: 'stock_request',
+      title: 'New stock request',
+      message: `${shop.name} requested ${request.requested_quantity} x ${request.product_name}`,
+      shop: shop.id,
+      shop_name: shop.name,
+      stock_request: request.id,
+    });
+    return request;
+  },
+});
+
+route('POST', '/stock-requests/:id/approve/', ({ params, body, user }) => {
+  const request = findById(db.stockRequests, params.id, 'Stock request');
+  if (request.status !== 'pending') {
+    fail(400, `Request is already ${request.status}`);
+  }
+  request.approved_by = user.id;
+  request.approved_by_name = fullName(user);
+  request.approved_at = now();
+
+  if (!body.approved) {
+    request.status = 'rejected';
+    request.rejection_reason = body.rejection_reason;
+    notify([request.requested_by], {
+      notification_type: 'stock_rejected',
+      title: 'Stock request rejected',
+      message: `${request.product_name}: ${body.rejection_reason || 'No reason given'}`,
+      shop: request.shop,
+      shop_name: request.shop_name,
+      stock_request: request.id,
+    });
+    return { status: 'rejected' };
+  }
+
+  const batch = findById(db.stockBatches, request.stock_batch, 'Stock batch');
+  const product = productOf(batch);
+  if (batch.available_quantity < request.requested_quantity) {
+    fail(400, `Only ${batch.available_quantity} unit(s) left in main stock`);
+  }
+
+  const imeis = product.is_imei_tracked
+    ? db.imeiNumbers
+      .filter((entry) => entry.stock_batch === batch.id && entry.status === 'in_main_stock')
+      .slice(0, request.requested_quantity)
+    : [];
+  imeis.forEach((entry) => {
+    entry.status = 'in_transit';
+    entry.updated_at = now();
+  });
+  batch.available_quantity -= request.requested_quantity;
+  request.status = 'approved';
+
+  const transfer: StockTransfer = {
+    id: nextId(db.stockTransfers),
+    stock_batch: batch.id,
+    shop: request.shop,
+    shop_name: request.shop_name,
+    product: product.id,
+    product_name: product.name,
+    product_is_imei_tracked: product.is_imei_tracked,
+    batch_number: batch.batch_number,
+    quantity: request.requested_quantity,
+    transferred_by: user.id,
+    transferred_by_name: fullName(user),
+    transferred_at: now(),
+    stock_request: request.id,
+    status: 'in_transit',
+    imei_numbers: imeis.map((entry) => entry.imei),
+  };
+  db.stockTransfers.unshift(transfer);
+  notify([request.requested_by], {
+    notification_type: 'stock_approved',
+    title: 'Stock request approved',
+    message: `${request.requested_quantity} x ${request.product_name} is on its way`,
+    shop: request.shop,
+    shop_name: request.shop_name,
+    stock_request: request.id,
+  });
+  return { status: 'approved', transfer };
+}, { status: 200 });
+
+collection('/stock-transfers', 'stockTransfers', { scoped: true, readOnly: true, searchFields: ['product_name', 'batch_number'] });
+
+route('POST', '/stock-transfers/:id/receive/', ({ params, body, user }) => {
+  const transfer = findById(db.stockTransfers, params.id, 'Stock transfer');
+  if (transfer.status && transfer.status !== 'in_transit') {
+    fail(400, 'This transfer has already been received');
+  }
+  const receivedQuantity = Number(body.received_quantity) || 0;
+  if (receivedQuantity > transfer.quantity) {
+    fail(400, `Cannot receive more than the ${transfer.quantity} unit(s) sent`);
+  }
+  if (receivedQuantity < transfer.quantity && !String(body.discrepancy_notes || '').trim()) {
+    fail(400, 'Explain the shortage in the discrepancy notes');
+  }
+
+  const sent = transfer.imei_numbers || [];
+  const received: string[] = (body.received_imeis || []).filter((imei: string) => sent.includes(imei));
+  const subStock = findOrCreateSubStock(transfer.shop, transfer.stock_batch);
+  subStock.quantity += receivedQuantity;
+  subStock.updated_at = now();
+  db.imeiNumbers
+    .filter((entry) => received.includes(entry.imei))
+    .forEach((entry) => {
+      entry.status = 'in_sub_stock';
+      entry.sub_stock = subStock.id;
+      entry.updated_at = now();
+    });
+
+  Object.assign(transfer, {
+    status: receivedQuantity < transfer.quantity ? 'discrepancy' : 'received',
+    received_quantity: receivedQuantity,
+    received_imeis: received,
+    missing_imeis: sent.filter((imei) => !received.includes(imei)),
+    received_by: user.id,
+    received_by_name: fullName(user),
+    received_at: now(),
+    discrepancy_notes: body.discrepancy_notes,
+  });
+
+  if (transfer.status === 'discrepancy') {
+    notify(inventoryManagerIds(), {
+      notification_type: 'transfer_discrepancy',
+      title: 'Transfer discrepancy',
+      message: `${transfer.shop_name} received ${receivedQuantity} of ${transfer.quantity} x ${transfer.product_name}`,
+      shop: transfer.shop,
+      shop_name: transfer.shop_name,
+      stock_transfer: transfer.id,
+    });
+  }
+  return transfer;
+}, { status: 200 });
+
+// ---------------------------------------------------------------------------
+// Notifications
+// ---------------------------------------------------------------------------
+
+route('GET', '/notifications/', ({ user }) => db.notifications.filter((entry) => entry.user === user.id));
+route('GET', '/notifications/unread_count/', ({ user }) => ({
+  count: db.notifications.filter((entry) => entry.user === user.id && !entry.is_read).length,
+}));
+route('POST', '/notifications/mark_all_read/', ({ user }) => {
+  db.notifications
+    .filter((entry) => entry.user === user.id)
+    .forEach((entry) => {
+      entry.is_read = true;
+    });
+  return { status: 'ok' };
+}, { status: 200 });
+route('POST', '/notifications/:id/mark_read/', ({ params }) => {
+  findById(db.notifications, params.id, 'Notification').is_read = true;
+  return { status: 'ok' };
+}, { status: 200 });
+
+// ---------------------------------------------------------------------------
+// Sales, payments and returns
+// ---------------------------------------------------------------------------
+
+const refreshSalePayments = (sale: Sale) => {
+  sale.payments = db.salePayments.filter((payment) => payment.sale === sale.id);
+  const creditNotes = db.saleReturns.filter((entry) => entry.exchange_sale === sale.id);
+  const credit = creditNotes.reduce((sum, entry) => sum + parseFloat(entry.total_amount), 0);
+  sale.exchange_credit_note_number = creditNotes.map((entry) => entry.credit_note_number).join(', ') || null;
+  sale.exchange_credit_amount = creditNotes.length > 0 ? money(credit) : null;
+  const paid = sale.payments.reduce((sum, payment) => sum + parseFloat(payment.amount), 0) + credit;
+  const total = parseFloat(sale.grand_total);
+  sale.amount_paid = money(paid);
+  sale.balance_due = money(Math.max(0, total - paid));
+  sale.payment_status = paid >= total ? 'paid' : paid > 0 ? 'partial' : 'unpaid';
+};
+
+const findOrCreateCustomer = (body: any, shopId: number): Customer | undefined => {
+  if (body.customer) return db.customers.find((customer) => customer.id === Number(body.customer));
+  const phone = String(body.customer_phone || '').trim();
+  if (!phone) return undefined;
+  const existing = db.customers.find((customer) => customer.phone === phone);
+  if (existing) return existing;
+
+  const shop = findById(db.shops, shopId, 'Shop');
+  const timestamp = now();
+  const customer: Customer = {
+    id: nextId(db.customers),
+    name: body.customer_name,
+    phone,
+    email: body.customer_email,
+    address: body.customer_address,
+    gstin: body.customer_gstin,
+    customer_type: body.customer_gstin ? 'business' : 'individual',
+    created_at: timestamp,
+    updated_at: timestamp,
+    shops: [{ id: shop.id, name: shop.name, code: shop.code }],
+  };
+  db.customers.push(customer);
+  return customer;
+};
+
+// Parked carts release their IMEIs on their own once they expire
+const activeParkedCarts = () => {
+  db.parkedCarts = db.parkedCarts.filter((cart) => new Date(cart.expires_at).getTime() > Date.now());
+  return db.parkedCarts;
+};
+
+const heldByParkedCart = (imei: string, shopId: number) =>
+  activeParkedCarts().some((cart) => cart.shop === shopId && cart.imeis.includes(imei));
+
+const createSale: MockHandler = ({ body, user }) => {
+  // A replayed offline sale must not be recorded twice
+  const existingId = body.idempotency_key ? db.idempotencyKeys[body.idempotency_key] : undefined;
+  if (existingId) {
+    return findById(db.sales, existingId, 'Sale');
+  }
+
+  const shop = findById(db.shops, body.shop, 'Shop');
+  const requestedItems: Array<{ stock_batch: number; quantity: number; imei?: string }> = body.items || [];
+  if (requestedItems.length === 0) {
+    fail(400, 'A sale needs at least one item');
+  }
+
+  const requestedImeis = requestedItems.map((item) => item.imei).filter(Boolean);
+  if (new Set(requestedImeis).size !== requestedImeis.length) {
+    fail(400, 'The same IMEI appears twice in this sale');
+  }
+  const held = requestedImeis.find((imei) => heldByParkedCart(imei!, shop.id));
+  if (held) {
+    fail(400, `IMEI ${held} is held in a parked cart`);
+  }
+
+  const requestedBySubStock = new Map<number, number>();
+  const lines = requestedItems.map((item) => {
+    const batch = findById(db.stockBatches, item.stock_batch, 'Stock batch');
+    const product = productOf(batch);
+    const subStock = db.subStocks.find((entry) => entry.shop === shop.id && entry.stock_batch === batch.id);
+    const quantity = Number(item.quantity) || 0;
+    const requested = (requestedBySubStock.get(subStock?.id ?? 0) || 0) + quantity;
+    if (!subStock || subStock.quantity < requested) {
+      fail(400, `Only ${subStock?.quantity || 0} unit(s) of ${product.name} left in ${shop.name}`);
+    }
+    requestedBySubStock.set(subStock!.id, requested);
+
+    const imeiEntry = item.imei ? db.imeiNumbers.find((entry) => entry.imei === item.imei) : undefined;
+    if (product.is_imei_tracked) {
+      if (!item.imei) {
+        fail(400, `${product.name} needs an IMEI`);
+      }
+      if (!imeiEntry || imeiEntry.stock_batch !== batch.id || imeiEntry.status !== 'in_sub_stock' || imeiEntry.sub_stock !== subStock!.id) {
+        fail(400, `IMEI ${item.imei} is not available in ${shop.name}`);
+      }
+    }
+    return { batch, product, subStock: subStock!, imeiEntry, quantity, imei: item.imei };
+  });
+
+  const supplyType = resolveSupplyType({
+    sellerStateCode: shop.state_code || DEFAULT_STATE_CODE,
+    buyerStateCode: body.state_code,
+    buyerGstin: body.customer_gstin,
+  });
+  const saleId = nextId(db.sales);
+  const items: SaleItem[] = lines.map((line, index) => {
+    const unitPrice = parseFloat(line.batch.selling_price);
+    const gstRate = parseFloat(gstRateOf(line.batch));
+    const tax = computeLineTax({ amount: unitPrice * line.quantity, gstRate }, supplyType);
+    const unitCost = parseFloat(line.batch.unit_purchase_price);
+    const totalProfit = tax.taxableValue - unitCost * line.quantity;
+    return {
+      id: db.sales.reduce((max, sale) => Math.max(max, ...(sale.items || []).map((item) => item.id)), 0) + index + 1,
+      sale: saleId,
+      stock_batch: line.batch.id,
+      product: line.product.id,
+      product_name: line.product.name,
+      hsn_code: line.product.hsn_code,
+      batch_number: line.batch.batch_number,
+      condition: line.batch.condition,
+      quantity: line.quantity,
+      unit_price: money(unitPrice),
+      unit_cost: money(unitCost),
+      gst_rate: money(gstRate),
+      gst_amount: money(tax.totalTax),
+      total_amount: money(tax.total),
+      profit_per_unit: money(totalProfit / Math.max(line.quantity, 1)),
+      total_profit: money(totalProfit),
+      imei: line.imei,
+      returned_quantity: 0,
+    };
+  });
+
+  const sum = (pick: (item: SaleItem) => string) => items.reduce((total, item) => total + parseFloat(pick(item)), 0);
+  const totalGst = sum((item) => item.gst_amount);
+  const grandTotal = sum((item) => item.total_amount)
+    - (parseFloat(body.discount) || 0)
+    + (parseFloat(body.transport_charge) || 0)
+    + (parseFloat(body.loading_charge) || 0);
+  const creditNote = body.credit_note ? findById(db.saleReturns, body.credit_note, 'Credit note') : undefined;
+  if (creditNote?.exchange_sale) {
+    fail(400, `Credit note ${creditNote.credit_note_number} has already been used`);
+  }
+  if (creditNote && parseFloat(creditNote.total_amount) - grandTotal > 0.005) {
+    fail(400, `Credit note ${creditNote.credit_note_number} is worth more than this bill`);
+  }
+  const shopSaleCount = db.sales.filter((sale) => sale.shop === shop.id).length;
+  const customer = findOrCreateCustomer(body, shop.id);
+  // Offline replays name the cashier who made the sale; only staff of the same shop are accepted
+  const seller = db.users.find((entry) => entry.id === Number(body.sold_by) && entry.is_active && entry.shop === shop.id) || user;
+  const saleDate = body.sale_date || now();
+
+  const sale: Sale = {
+    id: saleId,
+    invoice_number: `${shop.code}/${String(shopSaleCount + 1).padStart(4, '0')}`,
+    shop: shop.id,
+    shop_name: shop.name,
+    shop_address: shop.address,
+    shop_phone: shop.phone,
+    shop_email: shop.email,
+    shop_state_code: shop.state_code,
+    customer: customer?.id,
+    customer_name: body.customer_name,
+    customer_phone: body.customer_phone,
+    customer_email: body.customer_email || null,
+    customer_gstin: body.customer_gstin || null,
+    customer_address: body.customer_address,
+    state_code: body.state_code,
+    subtotal: money(sum((item) => item.total_amount) - totalGst),
+    total_gst: money(totalGst),
+    discount: money(parseFloat(body.discount) || 0),
+    transport_charge: money(parseFloat(body.transport_charge) || 0),
+    loading_charge: money(parseFloat(body.loading_charge) || 0),
+    grand_total: money(grandTotal),
+    payment_method: body.payment_method,
+    payment_status: 'unpaid',
+    payment_reference: body.payment_reference,
+    reverse_charge: Boolean(body.reverse_charge),
+    vehicle_no: body.vehicle_no,
+    place_of_supply: body.place_of_supply,
+    consignee_name: body.consignee_name,
+    consignee_address: body.consignee_address,
+    sold_by: seller.id,
+    sold_by_name: fullName(seller),
+    sale_date: saleDate,
+    notes: body.notes,
+    items,
+  };
+  db.sales.unshift(sale);
+
+  lines.forEach((line) => {
+    line.subStock.quantity -= line.quantity;
+    line.subStock.updated_at = now();
+    line.batch.last_sold_at = saleDate;
+    if (line.imeiEntry) {
+      line.imeiEntry.status = 'sold';
+      line.imeiEntry.updated_at = now();
+    }
+    if (line.subStock.quantity <= line.subStock.reorder_level) {
+      notify(shopStaffIds(shop.id), {
+        notification_type: 'low_stock',
+        title: 'Low stock',
+        message: `${line.product.name} is down to ${line.subStock.quantity} in ${shop.name}`,
+        shop: shop.id,
+        shop_name: shop.name,
+        sub_stock: line.subStock.id,
+      });
+    }
+  });
+
+  const payments: Array<{ payment_method: SalePayment['payment_method']; amount: string; reference_number?: string }> =
+    body.payments || [];
+  payments.forEach((payment) => {
+    db.salePayments.push({
+      id: nextId(db.salePayments),
+      sale: sale.id,
+      payment_method: payment.payment_method,
+      amount: money(parseFloat(payment.amount) || 0),
+      payment_date: saleDate,
+      reference_number: payment.reference_number,
+      invoice_number: sale.invoice_number,
+      customer_name: sale.customer_name,
+      received_by_name: fullName(user),
+    });
+  });
+
+  if (creditNote) {
+    creditNote.exchange_sale = sale.id;
+  }
+  refreshSalePayments(sale);
+
+  if (body.idempotency_key) {
+    db.idempotencyKeys[body.idempotency_key] = sale.id;
+  }
+  return sale;
+};
+
+const salesInRange = (query: Record<string, any>) => {
+  const end = query.end_date ? new Date(`${query.end_date}T23:59:59`) : new Date();
+  const periodDays: Record<string, number> = { today: 1, week: 7, month: 30, quarter: 90, year: 365 };
+  const start = query.start_date
+    ? new Date(`${query.start_date}T00:00:00`)
+    : new Date(end.getTime() - (periodDays[query.period] || 30) * 24 * 60 * 60 * 1000);
+  const shopId = Number(query.shop_id || query.shop) || null;
+  const sales = db.sales.filter((sale) => {
+    const date = new Date(sale.sale_date);
+    return date >= start && date <= end && (!shopId || sale.shop === shopId);
+  });
+  return { sales, start: start.toISOString().slice(0, 10), end: end.toISOString().slice(0, 10) };
+};
+
+const saleProfit = (sale: Sale) =>
+  (sale.items || []).reduce((sum, item) => sum + parseFloat(item.total_profit), 0);
+
+const groupTotals = <K extends string>(
+  entries: Array<{ key: string; revenue: number; profit: number; units: number; sale: number }>,
+  keyName: K
+) => {
+  const groups = new Map<string, { revenue: number; profit: number; units_sold: number; sales: Set<number> }>();
+  entries.forEach((entry) => {
+    const group = groups.get(entry.key) || { revenue: 0, profit: 0, units_sold: 0, sales: new Set<number>() };
+    group.revenue += entry.revenue;
+    group.profit += entry.profit;
+    group.units_sold += entry.units;
+    group.sales.add(entry.sale);
+    groups.set(entry.key, group);
+  });
+  return Array.from(groups.entries()).map(([key, group]) => ({
+    [keyName]: key,
+    units_sold: group.units_sold,
+    revenue: roundCurrency(group.revenue),
+    profit: roundCurrency(group.profit),
+    sales_count: group.sales.size,
+  }) as Record<K, string> & { units_sold: number; revenue: number; profit: number; sales_count: number });
+};
+
+route('GET', '/sales/today_sales/', ({ user }) => {
+  const today = new Date().toDateString();
+  const sales = scopeToShop(db.sales, user).filter((sale) => new Date(sale.sale_date).toDateString() === today);
+  return {
+    date: new Date().toISOString().slice(0, 10),
+    sales_count: sales.length,
+    total_amount: money(sales.reduce((sum, sale) => sum + parseFloat(sale.grand_total), 0)),
+    total_profit: money(sales.reduce((sum, sale) => sum + saleProfit(sale), 0)),
+    sales,
+  };
+});
+
+route('GET', '/sales/sales_report/', ({ query }) => {
+  const { sales, start, end } = salesInRange(query);
+  const byDay = new Map<string, Sale[]>();
+  sales.forEach((sale) => {
+    const day = sale.sale_date.slice(0, 10);
+    byDay.set(day, [...(byDay.get(day) || []), sale]);
+  });
+  const items = sales.flatMap((sale) => sale.items || []);
+  return {
+    start_date: start,
+    end_date: end,
+    total_sales: sales.length,
+    total_revenue: money(sales.reduce((sum, sale) => sum + parseFloat(sale.grand_total), 0)),
+    total_profit: money(sales.reduce((sum, sale) => sum + saleProfit(sale), 0)),
+    daily_breakdown: Array.from(byDay.entries()).map(([date, daySales]) => ({
+      date,
+      sales_count: daySales.length,
+      revenue: money(daySales.reduce((sum, sale) => sum + parseFloat(sale.grand_total), 0)),
+      profit: money(daySales.reduce((sum, sale) => sum + saleProfit(sale), 0)),
+    })),
+    top_products: Array.from(new Set(items.map((item) => item.product))).map((productId) => {
+      const productItems = items.filter((item) => item.product === productId);
+      return {
+        product_id: productId,
+        product_name: productItems[0].product_name || '',
+        quantity_sold: productItems.reduce((sum, item) => sum + item.quantity, 0),
+        revenue: money(productItems.reduce((sum, item) => sum + parseFloat(item.total_amount), 0)),
+      };
+    }),
+  };
+});
+
+collection('/sales', 'sales', {
+  scoped: true,
+  searchFields: ['invoice_number', 'customer_name', 'customer_phone'],
+  create: createSale,
+  // The e-invoice export lists registered-buyer sales over a date range
+  filter: (sale: Sale, query) => {
+    const date = new Date(sale.sale_date);
+    if (query.b2b === 'true' && !sale.customer_gstin) return false;
+    if (query.start_date && date < new Date(`${query.start_date}T00:00:00`)) return false;
+    if (query.end_date && date > new Date(`${query.end_date}T23:59:59`)) return false;
+    return true;
+  },
+});
+// Terms and UPI ID follow the shop's current settings, like the company profile the bill is printed with
+route('GET', '/sales/:id/invoice/', ({ params }) => {
+  const sale = findById(db.sales, params.id, 'Sale');
+  const shop = db.shops.find((entry) => entry.id === sale.shop);
+  return { ...sale, shop_invoice_terms: shop?.invoice_terms || null, shop_upi_id: shop?.upi_id || null };
+});
+
+route('GET', '/sale-payments/', ({ query }) =>
+  db.salePayments.filter((payment) => {
+    if (query.sale && payment.sale !== Number(query.sale)) return false;
+    if (query.customer) {
+      const sale = db.sales.find((entry) => entry.id === payment.sale);
+      if (sale?.customer !== Number(query.customer)) return false;
+    }
+    return matchesSearch(payment, query.search, ['invoice_number', 'customer_name', 'reference_number']);
+  })
+);
+route('POST', '/sale-payments/', ({ body, user }) => {
+  const sale = findById(db.sales, body.sale, 'Sale');
+  const amount = parseFloat(body.amount) || 0;
+  if (amount <= 0 || amount > parseFloat(sale.balance_due || '0') + 0.005) {
+    fail(400, `Payment must be between 0 and the balance due of Rs ${sale.balance_due}`);
+  }
+  const payment: SalePayment = {
+    id: nextId(db.salePayments),
+    sale: sale.id,
+    payment_method: body.payment_method,
+    amount: money(amount),
+    payment_date: body.payment_date || now(),
+    reference_number: body.reference_number,
+    notes: body.notes,
+    invoice_number: sale.invoice_number,
+    customer_name: sale.customer_name,
+    received_by_name: fullName(user),
+  };
+  db.salePayments.push(payment);
+  refreshSalePayments(sale);
+  return payment;
+});
+route('DELETE', '/sale-payments/:id/', ({ params }) => {
+  const payment = findById(db.salePayments, params.id, 'Payment');
+  db.salePayments = db.salePayments.filter((entry) => entry.id !== payment.id);
+  refreshSalePayments(findById(db.sales, payment.sale, 'Sale'));
+});
+
+route('GET', '/sale-returns/', ({ query, user }) =>
+  scopeToShop(db.saleReturns, user).filter((entry) =>
+    (!query.sale || entry.sale === Number(query.sale))
+    && matchesSearch(entry, query.search, ['credit_note_number', 'invoice_number', 'customer_name'])
+  )
+);
+route('GET', '/sale-returns/:id/', ({ params }) => findById(db.saleReturns, params.id, 'Credit note'));
+route('GET', '/sale-returns/:id/credit_note/', ({ params }) => findById(db.saleReturns, params.id, 'Credit note'));
+route('POST', '/sale-returns/', ({ body, user }) => {
+  const sale = findById(db.sales, body.sale, 'Sale');
+  const returnId = nextId(db.saleReturns);
+  const discountFactor = getSaleDiscountFactor(sale);
+  const items: SaleReturnItem[] = (body.items || []).map((requested: any, index: number) => {
+    const saleItem = (sale.items || []).find((item) => item.id === Number(requested.sale_item));
+    if (!saleItem) {
+      fail(400, `Item ${requested.sale_item} is not on invoice ${sale.invoice_number}`);
+    }
+    const quantity = Number(requested.quantity) || 0;
+    if (quantity <= 0 || quantity > saleItem!.quantity - (saleItem!.returned_quantity || 0)) {
+      fail(400, `Cannot return ${quantity} of ${saleItem!.product_name}`);
+    }
+    const share = (quantity / saleItem!.quantity) * discountFactor;
+    return {
+      id: db.saleReturns.reduce((max, entry) => Math.max(max, ...(entry.items || []).map((item) => item.id)), 0) + index + 1,
+      sale_return: returnId,
+      sale_item: saleItem!.id,
+      stock_batch: saleItem!.stock_batch,
+      product_name: saleItem!.product_name,
+      hsn_code: db.products.find((product) => product.id === saleItem!.product)?.hsn_code,
+      imei: requested.imei || saleItem!.imei,
+      quantity,
+      unit_price: saleItem!.unit_price,
+      gst_rate: saleItem!.gst_rate,
+      gst_amount: money(parseFloat(saleItem!.gst_amount) * share),
+      total_amount: money(parseFloat(saleItem!.total_amount) * share),
+      restock_action: requested.restock_action,
+    };
+  });
+  if (items.length === 0) {
+    fail(400, 'Select at least one item to return');
+  }
+
+  items.forEach((item) => {
+    const saleItem = (sale.items || []).find((entry) => entry.id === item.sale_item)!;
+    saleItem.returned_quantity = (saleItem.returned_quantity || 0) + item.quantity;
+    if (item.restock_action !== 'restock') return;
+    const subStock = findOrCreateSubStock(sale.shop, item.stock_batch);
+    subStock.quantity += item.quantity;
+    const imeiEntry = db.imeiNumbers.find((entry) => entry.imei === item.imei);
+    if (imeiEntry) {
+      imeiEntry.status = 'in_sub_stock';
+      imeiEntry.sub_stock = subStock.id;
+      imeiEntry.updated_at = now();
+    }
+  });
+
+  const totalAmount = items.reduce((sum, item) => sum + parseFloat(item.total_amount), 0);
+  const totalGst = items.reduce((sum, item) => sum + parseFloat(item.gst_amount), 0);
+  const shop = findById(db.shops, sale.shop, 'Shop');
+  const saleReturn: SaleReturn = {
+    id: returnId,
+    credit_note_number: `CN-${shop.code}/${String(db.saleReturns.filter((entry) => entry.shop === shop.id).length + 1).padStart(4, '0')}`,
+    sale: sale.id,
+    invoice_number: sale.invoice_number,
+    invoice_date: sale.sale_date,
+    shop: shop.id,
+    shop_name: shop.name,
+    shop_address: shop.address,
+    shop_phone: shop.phone,
+    shop_email: shop.email,
+    shop_state_code: shop.state_code,
+    customer_name: sale.customer_name,
+    customer_phone: sale.customer_phone,
+    customer_address: sale.customer_address,
+    customer_gstin: sale.customer_gstin,
+    state_code: sale.state_code,
+    resolution: body.resolution,
+    refund_method: body.refund_method,
+    refund_reference: body.refund_reference,
+    reason: body.reason,
+    subtotal: money(totalAmount - totalGst),
+    total_gst: money(totalGst),
+    total_amount: money(totalAmount),
+    exchange_sale: null,
+    created_by: user.id,
+    created_by_name: fullName(user),
+    created_at: now(),
+    items,
+  };
+  db.saleReturns.unshift(saleReturn);
+  return saleReturn;
+});
+
+// ---------------------------------------------------------------------------
+// Parked carts
+// ---------------------------------------------------------------------------
+
+route('GET', '/parked-carts/', ({ query, user }) =>
+  scopeToShop(activeParkedCarts(), user).filter((cart) => !query.shop || cart.shop === Number(query.shop))
+);
+route('POST', '/parked-carts/', ({ body, user }) => {
+  const shop = findById(db.shops, body.shop, 'Shop');
+  if (user.role === 'sub_stock_manager' && user.shop !== shop.id) {
+    fail(403, 'You can only park carts in your own shop');
+  }
+  const items: ParkedCart['items'] = body.items || [];
+  if (items.length === 0) {
+    fail(400, 'Cannot park an empty cart');
+  }
+  const imeis = items.map((item) => item.imei).filter((imei): imei is string => !!imei);
+  imeis.forEach((imei) => {
+    const entry = db.imeiNumbers.find((imeiEntry) => imeiEntry.imei === imei);
+    if (!entry || entry.status !== 'in_sub_stock') {
+      fail(400, `IMEI ${imei} is no longer available`);
+    }
+    if (heldByParkedCart(imei, shop.id)) {
+      fail(400, `IMEI ${imei} is already held in another parked cart`);
+    }
+  });
+
+  const created = Date.now();
+  const cart: ParkedCart = {
+    id: nextId(db.parkedCarts),
+    shop: shop.id,
+    label: String(body.label || '').trim() || `Cart ${nextId(db.parkedCarts)}`,
+    items,
+    details: body.details,
+    imeis,
+    parked_by: user.id,
+    parked_by_name: fullName(user),
+    created_at: new Date(created).toISOString(),
+    expires_at: new Date(created + PARKED_CART_TTL_MS).toISOString(),
+  };
+  db.parkedCarts.unshift(cart);
+  return cart;
+});
+route('DELETE', '/parked-carts/:id/', ({ params }) => {
+  findById(db.parkedCarts, params.id, 'Parked cart');
+  db.parkedCarts = db.parkedCarts.filter((cart) => cart.id !== Number(params.id));
+});
+
+// ---------------------------------------------------------------------------
+// Dashboard
+// ---------------------------------------------------------------------------
+
+route('GET', '/dashboard/stats/', ({ user }) => {
+  const sales = scopeToShop(db.sales, user);
+  const since = (days: number) => sales.filter((sale) => Date.now() - new Date(sale.sale_date).getTime() < days * 24 * 60 * 60 * 1000);
+  const today = sales.filter((sale) => new Date(sale.sale_date).toDateString() === new Date().toDateString());
+  const revenue = (list: Sale[]) => roundCurrency(list.reduce((sum, sale) => sum + parseFloat(sale.grand_total), 0));
+  const profit = (list: Sale[]) => roundCurrency(list.reduce((sum, sale) => sum + saleProfit(sale), 0));
+  const stats: DashboardStats = {
+    total_products: db.products.length,
+    total_stock_value: money(db.stockBatches.reduce((sum, batch) => {
+      const shopQuantity = db.subStocks
+        .filter((subStock) => subStock.stock_batch === batch.id)
+        .reduce((total, subStock) => total + subStock.quantity, 0);
+      return sum + (batch.available_quantity + shopQuantity) * parseFloat(batch.unit_purchase_price);
+    }, 0)),
+    total_batches: db.stockBatches.length,
+    pending_requests: scopeToShop(db.stockRequests, user).filter((request) => request.status === 'pending').length,
+    low_stock_items: scopeToShop(db.subStocks, user).filter((subStock) => subStock.quantity <= subStock.reorder_level).length,
+    total_shops: db.shops.length,
+    today_sales_count: today.length,
+    today_revenue: revenue(today),
+    today_profit: profit(today),
+    week_sales_count: since(7).length,
+    week_revenue: revenue(since(7)),
+    week_profit: profit(since(7)),
+    month_sales_count: since(30).length,
+    month_revenue: revenue(since(30)),
+    month_profit: profit(since(30)),
+    total_customers: db.customers.length,
+  };
+  return stats;
+});
+
+route('GET', '/dashboard/analytics/', ({ query }) => {
+  const { sales, start, end } = salesInRange(query);
+  const revenue = sales.reduce((sum, sale) => sum + parseFloat(sale.grand_total), 0);
+  const profit = sales.reduce((sum, sale) => sum + saleProfit(sale), 0);
+  const lines = sales.flatMap((sale) => (sale.items || []).map((item) => ({ sale, item })));
+  const customerIds = new Set(sales.map((sale) => sale.customer).filter(Boolean));
+
+  return {
+    period: query.period || 'month',
+    start_date: start,
+    end_date: end,
+    kpis: {
+      total_sales: sales.length,
+      total_revenue: roundCurrency(revenue),
+      total_profit: roundCurrency(profit),
+      total_discount: roundCurrency(sales.reduce((sum, sale) => sum + parseFloat(sale.discount), 0)),
+      avg_order_value: roundCurrency(revenue / Math.max(sales.length, 1)),
+      profit_margin: roundCurrency(revenue ? (profit / revenue) * 100 : 0),
+      total_customers: customerIds.size,
+      new_customers: db.customers.filter((customer) => customer.created_at.slice(0, 10) >= start).length,
+    },
+    shop_sales: groupTotals(
+      sales.map((sale) => ({ key: sale.shop_name || '', revenue: parseFloat(sale.grand_total), profit: saleProfit(sale), units: 0, sale: sale.id })),
+      'shop__name'
+    ).map(({ units_sold: _units, ...entry }) => entry),
+    sales_trend: groupTotals(
+      sales.map((sale) => ({ key: sale.sale_date.slice(0, 10), revenue: parseFloat(sale.grand_total), profit: saleProfit(sale), units: 0, sale: sale.id })),
+      'period'
+    )
+      .map(({ units_sold: _units, ...entry }) => entry)
+      .sort((a, b) => a.period.localeCompare(b.period)),
+    top_products: groupTotals(
+      lines.map(({ sale, item }) => ({ key: item.product_name || '', revenue: parseFloat(item.total_amount), profit: parseFloat(item.total_profit), units: item.quantity, sale: sale.id })),
+      'stock_batch__product__name'
+    ).map(({ units_sold, sales_count: _count, ...entry }) => ({ ...entry, quantity_sold: units_sold })),
+    payment_methods: Array.from(new Set(sales.map((sale) => sale.payment_method))).map((method) => {
+      const methodSales = sales.filter((sale) => sale.payment_method === method);
+      return {
+        payment_method: method,
+        count: methodSales.length,
+        total: roundCurrency(methodSales.reduce((sum, sale) => sum + parseFloat(sale.grand_total), 0)),
+      };
+    }),
+  };
+});
+
+route('GET', '/dashboard/advanced-analytics/', ({ query }) => {
+  const { sales, start, end } = salesInRange(query);
+  const lines = sales.flatMap((sale) => (sale.items || []).map((item) => {
+    const batch = db.stockBatches.find((entry) => entry.id === item.stock_batch);
+    const product = db.products.find((entry) => entry.id === item.product);
+    return { sale, item, batch, product: product ? presentProduct(product) : undefined };
+  }));
+  const breakdown = <K extends string>(keyName: K, pick: (line: typeof lines[number]) => string | undefined) =>
+    groupTotals(
+      lines.map((line) => ({
+        key: pick(line) || 'Unknown',
+        revenue: parseFloat(line.item.total_amount),
+        profit: parseFloat(line.item.total_profit),
+        units: line.item.quantity,
+        sale: line.sale.id,
+      })),
+      keyName
+    );
+
+  return {
+    period: query.period || 'month',
+    start_date: start,
+    end_date: end,
+    breakdowns: {
+      by_category: breakdown('category_name', (line) => line.product?.category_name),
+      by_brand: breakdown('brand_name', (line) => line.product?.brand_name),
+      by_condition: breakdown('condition', (line) => line.batch?.condition),
+      by_source: breakdown('source', (line) => line.batch?.source),
+      by_variant: breakdown('variant_name', (line) => line.product?.variant_name),
+      by_shop: breakdown('shop_name', (line) => line.sale.shop_name),
+    },
+  };
+});
+
+route('GET', '/dashboard/charts/', ({ query }) => {
+  const { start, end } = salesInRange(query);
+  return { charts: {}, period: query.period || 'month', start_date: start, end_date: end };
+});
+
+// ---------------------------------------------------------------------------
+// Adapter
+// ---------------------------------------------------------------------------
+
+const resolvePath = (config: InternalAxiosRequestConfig) => {
+  let url = config.url || '';
+  if (config.baseURL && url.startsWith(config.baseURL)) {
+    url = url.slice(config.baseURL.length);
+  }
+  // Absolute URLs (the token refresh call) carry the host and the /api prefix
+  url = url.replace(/^https?:\/\/[^/]+/, '').replace(/^\/api(?=\/)/, '').split('?')[0];
+  return url.endsWith('/') ? url : `${url}/`;
+};
+
+const parseBody = (data: unknown) => {
+  if (typeof FormData !== 'undefined' && data instanceof FormData) {
+    return Object.fromEntries(data.entries());
+  }
+  if (typeof data === 'string' && data) {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return {};
+    }
+  }
+  return data || {};
+};
+
+const PAGINATION_KEYS = new Set(['page', 'page_size', 'ordering', 'search']);
+
+const compareValues = (a: unknown, b: unknown) => {
+  const left = Number(a);
+  const right = Number(b);
+  if (a !== '' && b !== '' && Number.isFinite(left) && Number.isFinite(right)) return left - right;
+  return String(a ?? '').localeCompare(String(b ?? ''));
+};
+
+/**
+ * DRF-style filtering, ordering and PageNumberPagination for list responses. Only applied when
+ * the caller asks for a page, so the older unpaginated list calls keep receiving plain arrays.
+ */
+const paginate = (rows: Array<Record<string, any>>, query: Record<string, any>, path: string) => {
+  let filtered = rows.filter((row) => Object.entries(query).every(([key, value]) => {
+    if (PAGINATION_KEYS.has(key) || value === undefined || value === '') return true;
+    const [field, lookup] = key.split('__');
+    if (!(field in row)) return true;
+    const actual = String(row[field] ?? '');
+    if (lookup === 'gte') return actual.slice(0, String(value).length) >= String(value);
+    if (lookup === 'lte') return actual.slice(0, String(value).length) <= String(value);
+    if (lookup === 'in') return String(value).split(',').includes(actual);
+    return actual === String(value);
+  }));
+
+  const orderings = String(query.ordering || '').split(',').filter(Boolean);
+  if (orderings.length) {
+    filtered = [...filtered].sort((a, b) => {
+      for (const ordering of orderings) {
+        const field = ordering.replace(/^-/, '');
+        const result = compareValues(a[field], b[field]);
+        if (result !== 0) return ordering.startsWith('-') ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  const pageSize = Math.max(1, Number(query.page_size) || 25);
+  const page = Math.max(1, Number(query.page) || 1);
+  const pageCount = Math.max(1, Math.ceil(filtered.length / pageSize));
+  if (page > pageCount) {
+    throw new MockHttpError(404, { detail: 'Invalid page.' });
+  }
+  const link = (target: number) => `${path}?page=${target}&page_size=${pageSize}`;
+  return {
+    count: filtered.length,
+    next: page < pageCount ? link(page + 1) : null,
+    previous: page > 1 ? link(page - 1) : null,
+    results: filtered.slice((page - 1) * pageSize, page * pageSize),
+  };
+};
+
+const findRoute = (method: string, path: string) => {
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+    const match = candidate.pattern.exec(path);
+    if (!match) continue;
+    const params = Object.fromEntries(candidate.keys.map((key, index) => [key, Number(match[index + 1])]));
+    return { route: candidate, params };
+  }
+  return null;
+};
+
+/**
+ * Axios adapter that answers every request from the in-memory fixtures instead of the network.
+ * Enabled with NEXT_PUBLIC_API_MOCK=true; see DEVELOPMENT.md for the demo accounts.
+ */
+export const mockAdapter: AxiosAdapter = async (config) => {
+  await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS));
+
+  const method = (config.method || 'get').toUpperCase();
+  const path = resolvePath(config);
+  const respond = (status: number, data: unknown): AxiosResponse => ({
+    // Hand out copies so callers can never mutate the mock's state by reference
+    data: data === undefined ? '' : JSON.parse(JSON.stringify(data)),
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+    request: { path },
+  });
+
+  try {
+    const match = findRoute(method, path);
+    if (!match) {
+      throw new MockHttpError(404, { detail: `The mock backend has no handler for ${method} ${path}` });
+    }
+
+    const token = String(config.headers?.Authorization || '').replace(/^Bearer\s+/i, '');
+    const user = userFromToken(token, 'access');
+    if (!match.route.isPublic && !user) {
+      throw new MockHttpError(401, { detail: 'Given token not valid for any token type', code: 'token_not_valid' });
+    }
+
+    const query = config.params || {};
+    const data = match.route.handler({
+      params: match.params,
+      query,
+      body: parseBody(config.data),
+      user: user as User,
+    });
+    const isPageRequest = method === 'GET' && Array.isArray(data) && (query.page || query.page_size);
+    return respond(match.route.status, isPageRequest ? paginate(data, query, path) : data);
+  } catch (error) {
+    if (!(error instanceof MockHttpError)) throw error;
+    const response = respond(error.status, error.data);
+    throw new AxiosError(
+      error.message,
+      error.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+};
+
+if (typeof window !== 'undefined') {
+  // Lets end-to-end tests reset state between scenarios without reloading the app
+  (window as any).__mockBackend = { reset: resetMockBackend };
+}
@@ -0,0 +1,340 @@
+import type {
+  User, Category, Brand, Variant, Color, Product, GSTSlab,
+  Condition, Source, Supplier, PurchaseInvoice, PurchasePayment,
+  StockBatch, Shop, SubStock, StockRequest, Notification,
+  StockTransfer, Customer, Sale, SalePayment, SaleReturn, CompanyProfile,
+  IMEINumber, StockAdjustment, ParkedCart
+} from '@/types';
+
+/** Every demo account signs in with this password. */
+export const MOCK_PASSWORD = 'demo1234';
+
+export interface MockDb {
+  users: User[];
+  categories: Category[];
+  brands: Brand[];
+  variants: Variant[];
+  colors: Color[];
+  conditions: Condition[];
+  sources: Source[];
+  gstSlabs: GSTSlab[];
+  suppliers: Supplier[];
+  purchaseInvoices: PurchaseInvoice[];
+  purchasePayments: PurchasePayment[];
+  products: Product[];
+  stockBatches: StockBatch[];
+  imeiNumbers: IMEINumber[];
+  shops: Shop[];
+  subStocks: SubStock[];
+  stockRequests: StockRequest[];
+  stockTransfers: StockTransfer[];
+  stockAdjustments: StockAdjustment[];
+  notifications: Notification[];
+  customers: Customer[];
+  sales: Sale[];
+  salePayments: SalePayment[];
+  saleReturns: SaleReturn[];
+  parkedCarts: ParkedCart[];
+  companyProfile: CompanyProfile;
+  /** Sales already recorded per client idempotency key, so replays return the original sale. */
+  idempotencyKeys: Record<string, number>;
+  /** Quick-unlock PINs by user id. A real backend keeps only a hash of the PIN. */
+  cashierPins: Record<number, { pin: string; failed_attempts: number; locked_until: number | null }>;
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const dateOnly = (iso: string) => iso.slice(0, 10);
+
+const named = <T extends { id: number; name: string }>(names: string[]) =>
+  names.map((name, index) => ({
+    id: index + 1,
+    name,
+    description: '',
+    created_at: daysAgo(90),
+    updated_at: daysAgo(90),
+  })) as unknown as T[];
+
+// Deterministic 15-digit IMEIs so demos and end-to-end tests can scan known numbers
+const imeisFor = (batchId: number, count: number) =>
+  Array.from({ length: count }, (_, index) => `35${String(batchId).padStart(4, '0')}${String(index + 1).padStart(9, '0')}`);
+
+export const createSeedData = (): MockDb => {
+  const users: User[] = [
+    { id: 1, username: 'owner', email: 'owner@demo.local', first_name: 'Anil', last_name: 'Kumar', role: 'super_admin', phone: '9847000001', is_active: true },
+    { id: 2, username: 'accounts', email: 'accounts@demo.local', first_name: 'Meera', last_name: 'Nair', role: 'admin', phone: '9847000002', is_active: true },
+    { id: 3, username: 'warehouse', email: 'warehouse@demo.local', first_name: 'Rahul', last_name: 'Menon', role: 'main_inventory_manager', phone: '9847000003', is_active: true },
+    { id: 4, username: 'kochi', email: 'kochi@demo.local', first_name: 'Fathima', last_name: 'S', role: 'sub_stock_manager', phone: '9847000004', shop: 1, shop_name: 'Kochi MG Road', is_active: true },
+    { id: 5, username: 'trivandrum', email: 'tvm@demo.local', first_name: 'Joseph', last_name: 'Thomas', role: 'sub_stock_manager', phone: '9847000005', shop: 2, shop_name: 'Trivandrum Statue', is_active: true },
+  ];
+
+  const shops: Shop[] = [
+    { id: 1, name: 'Kochi MG Road', code: 'KCH', address: 'MG Road, Ernakulam, Kochi 682016', state_code: '32', phone: '0484 2350001', email: 'kochi@demo.local', is_active: true, created_at: daysAgo(120), updated_at: daysAgo(120) },
+    { id: 2, name: 'Trivandrum Statue', code: 'TVM', address: 'Statue Junction, Thiruvananthapuram 695001', state_code: '32', phone: '0471 2330002', email: 'tvm@demo.local', is_active: true, created_at: daysAgo(120), updated_at: daysAgo(120) },
+  ];
+
+  const categories = named<Category>(['Smartphones', 'Accessories']);
+  const brands = named<Brand>(['Samsung', 'Apple', 'Xiaomi', 'Generic']);
+  const variants = named<Variant>(['8GB / 128GB', '4GB / 128GB', '6GB / 128GB', 'Standard']);
+  const colors: Color[] = [
+    { id: 1, name: 'Black', hex_code: '#111827', created_at: daysAgo(90), updated_at: daysAgo(90) },
+    { id: 2, name: 'Blue', hex_code: '#1d4ed8', created_at: daysAgo(90), updated_at: daysAgo(90) },
+    { id: 3, name: 'White', hex_code: '#f8fafc', created_at: daysAgo(90), updated_at: daysAgo(90) },
+  ];
+  const conditions = named<Condition>(['fresh', 'refurbished', 'second_hand']);
+  const sources = named<Source>(['distributor', 'wholesaler', 'customer']);
+
+  const gstSlabs: GSTSlab[] = [
+    { id: 1, rate: '18.00', cgst: '9.00', sgst: '9.00', igst: '18.00', effective_from: '2017-07-01', is_active: true, created_at: daysAgo(365) },
+    { id: 2, rate: '12.00', cgst: '6.00', sgst: '6.00', igst: '12.00', effective_from: '2017-07-01', is_active: true, created_at: daysAgo(365) },
+  ];
+
+  const suppliers: Supplier[] = [
+    { id: 1, name: 'Malabar Mobile Distributors', phone: '9846011111', email: 'sales@malabarmobiles.local', address: 'Kozhikode', gstin: '32AABCM1234F1Z5', is_active: true, created_at: daysAgo(100), updated_at: daysAgo(100) },
+    { id: 2, name: 'Southern Accessories Wholesale', phone: '9846022222', address: 'Chennai', gstin: '33AACCS5678K1Z2', is_active: true, created_at: daysAgo(100), updated_at: daysAgo(100) },
+  ];
+
+  const products: Product[] = [
+    { id: 1, name: 'Samsung Galaxy A55 5G', hsn_code: '85171300', is_imei_tracked: true, category: 1, brand: 1, variant: 1, color: 2, category_name: 'Smartphones', brand_name: 'Samsung', variant_name: '8GB / 128GB', color_name: 'Blue', created_at: daysAgo(60), updated_at: daysAgo(60) },
+    { id: 2, name: 'Apple iPhone 13', hsn_code: '85171300', is_imei_tracked: true, category: 1, brand: 2, variant: 2, color: 1, category_name: 'Smartphones', brand_name: 'Apple', variant_name: '4GB / 128GB', color_name: 'Black', created_at: daysAgo(60), updated_at: daysAgo(60) },
+    { id: 3, name: 'Redmi Note 13 5G', hsn_code: '85171300', is_imei_tracked: true, category: 1, brand: 3, variant: 3, color: 1, category_name: 'Smartphones', brand_name: 'Xiaomi', variant_name: '6GB / 128GB', color_name: 'Black', created_at: daysAgo(60), updated_at: daysAgo(60) },
+    { id: 4, name: '25W USB-C Charger', hsn_code: '85044030', is_imei_tracked: false, category: 2, brand: 4, variant: 4, color: 3, category_name: 'Accessories', brand_name: 'Generic', variant_name: 'Standard', color_name: 'White', created_at: daysAgo(60), updated_at: daysAgo(60) },
+  ];
+
+  const purchaseInvoices: PurchaseInvoice[] = [
+    { id: 1, supplier: 1, supplier_name: 'Malabar Mobile Distributors', invoice_number: 'MMD/24/1182', invoice_date: dateOnly(daysAgo(45)), total_amount: '648000.00', amount_paid: '400000.00', balance_due: '248000.00', status: 'partial', created_by: 3, created_by_name: 'Rahul Menon', created_at: daysAgo(45), updated_at: daysAgo(45) },
+    { id: 2, supplier: 2, supplier_name: 'Southern Accessories Wholesale', invoice_number: 'SAW-7741', invoice_date: dateOnly(daysAgo(30)), total_amount: '15000.00', amount_paid: '15000.00', balance_due: '0.00', status: 'paid', created_by: 3, created_by_name: 'Rahul Menon', created_at: daysAgo(30), updated_at: daysAgo(30) },
+  ];
+
+  const purchasePayments: PurchasePayment[] = [
+    { id: 1, purchase_invoice: 1, payment_method: 'bank_transfer', amount: '400000.00', payment_date: dateOnly(daysAgo(44)), reference_number: 'NEFT0042117', invoice_number: 'MMD/24/1182', supplier_name: 'Malabar Mobile Distributors' },
+    { id: 2, purchase_invoice: 2, payment_method: 'upi', amount: '15000.00', payment_date: dateOnly(daysAgo(30)), reference_number: 'UPI88213', invoice_number: 'SAW-7741', supplier_name: 'Southern Accessories Wholesale' },
+  ];
+
+  const batch = (
+    id: number,
+    productId: number,
+    fields: Pick<StockBatch, 'batch_number' | 'purchased_quantity' | 'unit_purchase_price' | 'selling_price' | 'available_quantity' | 'purchase_date'>
+      & Partial<StockBatch>
+  ): StockBatch => ({
+    id,
+    product: productId,
+    gst_slab: 1,
+    gst_rate: '18.00',
+    total_purchase_amount: (parseFloat(fields.unit_purchase_price) * fields.purchased_quantity).toFixed(2),
+    condition: 'fresh',
+    condition_display: 'Fresh',
+    source: 'distributor',
+    source_display: 'Distributor',
+    is_interstate: false,
+    stock_status: 'active',
+    created_by: 3,
+    created_by_name: 'Rahul Menon',
+    created_at: fields.purchase_date,
+    updated_at: fields.purchase_date,
+    ...fields,
+  });
+
+  const stockBatches: StockBatch[] = [
+    batch(1, 1, { batch_number: 'A55-2401', purchased_quantity: 12, unit_purchase_price: '32000.00', selling_price: '38999.00', available_quantity: 5, purchase_date: dateOnly(daysAgo(45)), supplier: 1, supplier_name: 'Malabar Mobile Distributors', invoice_number: 'MMD/24/1182', purchase_invoice: 1, purchase_invoice_number: 'MMD/24/1182' }),
+    batch(2, 2, { batch_number: 'IP13-2401', purchased_quantity: 6, unit_purchase_price: '44000.00', selling_price: '52900.00', available_quantity: 2, purchase_date: dateOnly(daysAgo(45)), supplier: 1, supplier_name: 'Malabar Mobile Distributors', invoice_number: 'MMD/24/1182', purchase_invoice: 1, purchase_invoice_number: 'MMD/24/1182' }),
+    batch(3, 3, { batch_number: 'RN13-R01', purchased_quantity: 5, unit_purchase_price: '14500.00', selling_price: '17999.00', available_quantity: 2, purchase_date: dateOnly(daysAgo(40)), condition: 'refurbished', condition_display: 'Refurbished', source: 'wholesaler', source_display: 'Wholesaler' }),
+    batch(4, 4, { batch_number: 'CHG-25W-01', purchased_quantity: 60, unit_purchase_price: '250.00', selling_price: '599.00', available_quantity: 28, purchase_date: dateOnly(daysAgo(30)), supplier: 2, supplier_name: 'Southern Accessories Wholesale', invoice_number: 'SAW-7741', purchase_invoice: 2, purchase_invoice_number: 'SAW-7741' }),
+  ];
+
+  const subStocks: SubStock[] = [
+    { id: 1, shop: 1, stock_batch: 1, quantity: 4, reorder_level: 2, created_at: daysAgo(40), updated_at: daysAgo(2) },
+    { id: 2, shop: 2, stock_batch: 1, quantity: 2, reorder_level: 2, created_at: daysAgo(40), updated_at: daysAgo(40) },
+    { id: 3, shop: 1, stock_batch: 2, quantity: 3, reorder_level: 1, created_at: daysAgo(40), updated_at: daysAgo(40) },
+    { id: 4, shop: 1, stock_batch: 3, quantity: 1, reorder_level: 2, created_at: daysAgo(35), updated_at: daysAgo(35) },
+    { id: 5, shop: 2, stock_batch: 3, quantity: 2, reorder_level: 2, created_at: daysAgo(35), updated_at: daysAgo(35) },
+    { id: 6, shop: 1, stock_batch: 4, quantity: 18, reorder_level: 10, created_at: daysAgo(28), updated_at: daysAgo(2) },
+    { id: 7, shop: 2, stock_batch: 4, quantity: 10, reorder_level: 10, created_at: daysAgo(28), updated_at: daysAgo(28) },
+  ];
+
+  // Lay out each tracked batch's IMEIs: main stock first, then each shop's units, then sold units
+  const imeiNumbers: IMEINumber[] = [];
+  const layout: Array<{ batchId: number; main: number; shops: Array<[number, number]>; sold: number }> = [
+    { batchId: 1, main: 5, shops: [[1, 4], [2, 2]], sold: 1 },
+    { batchId: 2, main: 2, shops: [[3, 3]], sold: 1 },
+    { batchId: 3, main: 2, shops: [[4, 1], [5, 2]], sold: 0 },
+  ];
+  layout.forEach(({ batchId, main, shops: shopUnits, sold }) => {
+    const codes = imeisFor(batchId, main + shopUnits.reduce((sum, [, count]) => sum + count, 0) + sold);
+    let cursor = 0;
+    const push = (status: IMEINumber['status'], subStock?: number) => {
+      imeiNumbers.push({
+        id: imeiNumbers.length + 1,
+        imei: codes[cursor++],
+        stock_batch: batchId,
+        status,
+        sub_stock: subStock,
+        created_at: daysAgo(45),
+        updated_at: daysAgo(2),
+      });
+    };
+    for (let i = 0; i < main; i++) push('in_main_stock');
+    shopUnits.forEach(([subStockId, count]) => {
+      for (let i = 0; i < count; i++) push('in_sub_stock', subStockId);
+    });
+    const subStockOfSale = shopUnits[0][0];
+    for (let i = 0; i < sold; i++) push('sold', subStockOfSale);
+  });
+
+  const soldA55 = imeiNumbers.find((entry) => entry.stock_batch === 1 && entry.status === 'sold')!.imei;
+  const soldIphone = imeiNumbers.find((entry) => entry.stock_batch === 2 && entry.status === 'sold')!.imei;
+
+  const customers: Customer[] = [
+    { id: 1, name: 'Priya Varghese', phone: '9895012345', email: 'priya@example.com', address: 'Kakkanad, Kochi', customer_type: 'individual', created_at: daysAgo(20), updated_at: daysAgo(20), shops: [{ id: 1, name: 'Kochi MG Road', code: 'KCH' }] },
+    { id: 2, name: 'Techline Solutions', phone: '9895067890', email: 'purchase@techline.local', address: 'Technopark, Thiruvananthapuram 695581', gstin: '32AAFCT4321L1ZG', customer_type: 'business', created_at: daysAgo(15), updated_at: daysAgo(15), shops: [{ id: 1, name: 'Kochi MG Road', code: 'KCH' }] },
+  ];
+
+  const sales: Sale[] = [
+    {
+      id: 1,
+      invoice_number: 'KCH/0001',
+      shop: 1,
+      shop_name: 'Kochi MG Road',
+      shop_address: shops[0].address,
+      shop_phone: shops[0].phone,
+      shop_email: shops[0].email,
+      shop_state_code: '32',
+      customer: 1,
+      customer_name: 'Priya Varghese',
+      customer_phone: '9895012345',
+      customer_email: 'priya@example.com',
+      customer_address: 'Kakkanad, Kochi',
+      state_code: '32',
+      subtotal: '33050.01',
+      total_gst: '5948.99',
+      discount: '0.00',
+      transport_charge: '0.00',
+      loading_charge: '0.00',
+      grand_total: '38999.00',
+      amount_paid: '38999.00',
+      balance_due: '0.00',
+      payment_method: 'upi',
+      payment_status: 'paid',
+      payment_reference: 'UPI4410021',
+      sold_by: 4,
+      sold_by_name: 'Fathima S',
+      sale_date: daysAgo(2),
+      items: [
+        { id: 1, sale: 1, stock_batch: 1, product: 1, product_name: 'Samsung Galaxy A55 5G', hsn_code: '85171300', batch_number: 'A55-2401', condition: 'fresh', quantity: 1, unit_price: '38999.00', unit_cost: '32000.00', gst_rate: '18.00', gst_amount: '5948.99', total_amount: '38999.00', profit_per_unit: '1050.01', total_profit: '1050.01', imei: soldA55, returned_quantity: 0 },
+      ],
+      payments: [
+        { id: 1, sale: 1, payment_method: 'upi', amount: '38999.00', payment_date: daysAgo(2), reference_number: 'UPI4410021', invoice_number: 'KCH/0001', customer_name: 'Priya Varghese', received_by_name: 'Fathima S' },
+      ],
+    },
+    {
+      id: 2,
+      invoice_number: 'KCH/0002',
+      shop: 1,
+      shop_name: 'Kochi MG Road',
+      shop_address: shops[0].address,
+      shop_phone: shops[0].phone,
+      shop_email: shops[0].email,
+      shop_state_code: '32',
+      customer: 2,
+      customer_name: 'Techline Solutions',
+      customer_phone: '9895067890',
+      customer_email: 'purchase@techline.local',
+      customer_gstin: '32AAFCT4321L1ZG',
+      customer_address: 'Technopark, Thiruvananthapuram 695581',
+      state_code: '32',
+      subtotal: '45845.76',
+      total_gst: '8252.24',
+      discount: '0.00',
+      transport_charge: '0.00',
+      loading_charge: '0.00',
+      grand_total: '54098.00',
+      amount_paid: '30000.00',
+      balance_due: '24098.00',
+      payment_method: 'net_banking',
+      payment_status: 'partial',
+      payment_reference: 'NEFT77120',
+      sold_by: 4,
+      sold_by_name: 'Fathima S',
+      sale_date: daysAgo(1),
+      items: [
+        { id: 2, sale: 2, stock_batch: 2, product: 2, product_name: 'Apple iPhone 13', hsn_code: '85171300', batch_number: 'IP13-2401', condition: 'fresh', quantity: 1, unit_price: '52900.00', unit_cost: '44000.00', gst_rate: '18.00', gst_amount: '8069.49', total_amount: '52900.00', profit_per_unit: '830.51', total_profit: '830.51', imei: soldIphone, returned_quantity: 0 },
+        { id: 3, sale: 2, stock_batch: 4, product: 4, product_name: '25W USB-C Charger', hsn_code: '85044030', batch_number: 'CHG-25W-01', condition: 'fresh', quantity: 2, unit_price: '599.00', unit_cost: '250.00', gst_rate: '18.00', gst_amount: '182.75', total_amount: '1198.00', profit_per_unit: '257.63', total_profit: '515.25', returned_quantity: 0 },
+      ],
+      payments: [
+        { id: 2, sale: 2, payment_method: 'net_banking', amount: '30000.00', payment_date: daysAgo(1), reference_number: 'NEFT77120', invoice_number: 'KCH/0002', customer_name: 'Techline Solutions', received_by_name: 'Fathima S' },
+      ],
+    },
+  ];
+
+  const salePayments: SalePayment[] = sales.flatMap((sale) => sale.payments || []);
+
+  const stockRequests: StockRequest[] = [
+    { id: 1, shop: 2, shop_name: 'Trivandrum Statue', stock_batch: 2, product_name: 'Apple iPhone 13', batch_number: 'IP13-2401', requested_quantity: 1, status: 'pending', requested_by: 5, requested_by_name: 'Joseph Thomas', requested_at: daysAgo(1), notes: 'Customer enquiry for black iPhone 13' },
+    { id: 2, shop: 1, shop_name: 'Kochi MG Road', stock_batch: 4, product_name: '25W USB-C Charger', batch_number: 'CHG-25W-01', requested_quantity: 20, status: 'approved', requested_by: 4, requested_by_name: 'Fathima S', requested_at: daysAgo(29), approved_by: 3, approved_by_name: 'Rahul Menon', approved_at: daysAgo(28) },
+  ];
+
+  const stockTransfers: StockTransfer[] = [
+    { id: 1, stock_batch: 4, shop: 1, shop_name: 'Kochi MG Road', product: 4, product_name: '25W USB-C Charger', product_is_imei_tracked: false, batch_number: 'CHG-25W-01', quantity: 20, transferred_by: 3, transferred_by_name: 'Rahul Menon', transferred_at: daysAgo(28), stock_request: 2, status: 'received', imei_numbers: [], received_quantity: 20, received_imeis: [], missing_imeis: [], received_by: 4, received_by_name: 'Fathima S', received_at: daysAgo(27) },
+  ];
+
+  const stockAdjustments: StockAdjustment[] = [
+    { id: 1, stock_batch: 4, stock_batch_number: 'CHG-25W-01', product_name: '25W USB-C Charger', shop: null, adjustment_type: 'damage', quantity: 2, unit_purchase_price: '250.00', notes: 'Cracked casing on arrival', created_by: 3, created_by_name: 'Rahul Menon', created_at: daysAgo(29) },
+  ];
+
+  const notifications: Notification[] = [
+    { id: 1, notification_type: 'stock_request', user: 3, title: 'New stock request', message: 'Trivandrum Statue requested 1 x Apple iPhone 13', shop: 2, shop_name: 'Trivandrum Statue', stock_request: 1, is_read: false, created_at: daysAgo(1) },
+    { id: 2, notification_type: 'low_stock', user: 4, title: 'Low stock', message: 'Redmi Note 13 5G is below its reorder level', shop: 1, shop_name: 'Kochi MG Road', sub_stock: 4, is_read: false, created_at: daysAgo(3) },
+  ];
+
+  return {
+    users,
+    categories,
+    brands,
+    variants,
+    colors,
+    conditions,
+    sources,
+    gstSlabs,
+    suppliers,
+    purchaseInvoices,
+    purchasePayments,
+    products,
+    stockBatches,
+    imeiNumbers,
+    shops,
+    subStocks,
+    stockRequests,
+    stockTransfers,
+    stockAdjustments,
+    notifications,
+    customers,
+    sales,
+    salePayments,
+    saleReturns: [],
+    parkedCarts: [],
+    companyProfile: {
+      id: 1,
+      logo: null,
+      legal_name: 'Cellular Mobile Retail Pvt Ltd',
+      gstin: '32EMRPK5012B1ZG',
+      registered_address: 'MG Road, Ernakulam, Kochi 682016',
+      bank_name: 'State Bank of India, MG Road',
+      bank_account_name: 'Cellular Mobile Retail Pvt Ltd',
+      bank_account_number: '38201234567',
+      bank_ifsc: 'SBIN0070123',
+      upi_id: 'cellularmobile@sbi',
+      invoice_terms: [
+        'Goods once sold will not be taken back or exchanged',
+        'Seller is not responsible for any loss or damage of goods in transit',
+        'Warranty is provided by the manufacturer as per their terms',
+        'Disputes if any will be subject to seller court jurisdiction',
+      ].join('\n'),
+      declaration: 'We declare that this invoice shows the actual price of the goods described and that all particulars are true and correct.',
+      signatory_image: null,
+      created_at: daysAgo(120),
+      updated_at: daysAgo(120),
+    },
+    idempotencyKeys: {},
+    cashierPins: {},
+  };
+};
@@ -0,0 +1,150 @@
+import type { salesAPI } from '@/lib/api';
+import type { IMEINumber, Shop, StockBatch, SubStock } from '@/types';
+
+const DB_NAME = 'cellular-pos';
+const DB_VERSION = 1;
+const SHOP_CATALOG_STORE = 'shop_catalog';
+const SALE_QUEUE_STORE = 'sale_queue';
+
+export type SaleCreatePayload = Parameters<typeof salesAPI.create>[0];
+
+/** Snapshot of what a shop can sell, refreshed while online so the POS can keep selling offline. */
+export interface ShopCatalog {
+  shop: Shop;
+  batches: StockBatch[];
+  sub_stocks: SubStock[];
+  imeis: IMEINumber[];
+  cached_at: string;
+}
+
+export interface ProvisionalReceipt {
+  provisional_number: string;
+  created_at: string;
+  shop_name: string;
+  shop_address?: string;
+  shop_phone?: string;
+  customer_name: string;
+  customer_phone?: string;
+  cashier_name?: string;
+  items: Array<{
+    product_name: string;
+    batch_number: string;
+    imei?: string;
+    quantity: number;
+    unit_price: number;
+    gst_rate: number;
+    amount: number;
+  }>;
+  taxable_value: number;
+  total_tax: number;
+  discount: number;
+  other_charges: number;
+  exchange_credit: number;
+  amount_payable: number;
+  payments: Array<{ payment_method: string; amount: string; reference_number?: string }>;
+  balance_due: number;
+}
+
+export interface QueuedSale {
+  idempotency_key: string;
+  shop: number;
+  created_at: string;
+  status: 'pending' | 'conflict';
+  attempts: number;
+  error?: string;
+  payload: SaleCreatePayload;
+  receipt: ProvisionalReceipt;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SHOP_CATALOG_STORE)) {
+          db.createObjectStore(SHOP_CATALOG_STORE, { keyPath: 'shop.id' });
+        }
+        if (!db.objectStoreNames.contains(SALE_QUEUE_STORE)) {
+          db.createObjectStore(SALE_QUEUE_STORE, { keyPath: 'idempotency_key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const saveShopCatalog = (catalog: ShopCatalog) =>
+  runRequest(SHOP_CATALOG_STORE, 'readwrite', (store) => store.put(catalog));
+
+export const getShopCatalog = async (shopId: number) =>
+  (await runRequest<ShopCatalog | undefined>(SHOP_CATALOG_STORE, 'readonly', (store) => store.get(shopId))) || null;
+
+export const listShopCatalogs = () =>
+  runRequest<ShopCatalog[]>(SHOP_CATALOG_STORE, 'readonly', (store) => store.getAll());
+
+export const listQueuedSales = async () => {
+  const sales = await runRequest<QueuedSale[]>(SALE_QUEUE_STORE, 'readonly', (store) => store.getAll());
+  return sales.sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+export const putQueuedSale = (sale: QueuedSale) =>
+  runRequest(SALE_QUEUE_STORE, 'readwrite', (store) => store.put(sale));
+
+export const deleteQueuedSale = (idempotencyKey: string) =>
+  runRequest(SALE_QUEUE_STORE, 'readwrite', (store) => store.delete(idempotencyKey));
+
+/** Take sold units out of the cached catalog so they cannot be sold twice while offline. */
+export const reserveCatalogStock = async (
+  shopId: number,
+  items: Array<{ stock_batch: number; quantity: number; imei?: string }>
+) => {
+  const catalog = await getShopCatalog(shopId);
+  if (!catalog) return null;
+
+  const soldImeis = new Set(items.map((item) => item.imei).filter(Boolean));
+  const updated: ShopCatalog = {
+    ...catalog,
+    sub_stocks: catalog.sub_stocks.map((subStock) => {
+      const sold = items
+        .filter((item) => item.stock_batch === subStock.stock_batch)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      return sold > 0 ? { ...subStock, quantity: Math.max(0, subStock.quantity - sold) } : subStock;
+    }),
+    imeis: catalog.imeis.filter((entry) => !soldImeis.has(entry.imei)),
+  };
+  await saveShopCatalog(updated);
+  return updated;
+};
+
+/** Axios errors without a response never reached the server - treat them as being offline. */
+export const isOfflineError = (error: any) => !error?.response;
+
+export const createIdempotencyKey = () => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
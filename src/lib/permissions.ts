@@ -0,0 +1,205 @@
+import type { User } from '@/types';
+
+/**
+ * What each role may do, in one place. Pages, the sidebar, route prefetching and the preloader
+ * ask for a capability rather than listing roles, so adding or changing a role only means
+ * editing ROLE_CAPABILITIES.
+ */
+
+export type Role = User['role'];
+
+export type Capability =
+  | 'dashboard.view'
+  | 'product.view'
+  | 'product.manage'
+  | 'catalog.manage'
+  | 'gstSlab.manage'
+  | 'batch.view'
+  | 'batch.viewCost'
+  | 'purchase.manage'
+  | 'supplier.manage'
+  | 'deadStock.view'
+  | 'deadStock.manage'
+  | 'stockAdjustment.view'
+  | 'stockAdjustment.create'
+  | 'stockAdjustment.delete'
+  | 'stockTake.perform'
+  | 'shop.manage'
+  | 'shop.viewAll'
+  | 'subStock.view'
+  | 'stockRequest.view'
+  | 'stockRequest.create'
+  | 'stockRequest.approve'
+  | 'stockTransfer.view'
+  | 'stockTransfer.receiveAny'
+  | 'imei.lookup'
+  | 'sale.create'
+  | 'sale.view'
+  | 'receivable.view'
+  | 'customer.view'
+  | 'notification.view'
+  | 'settings.manage'
+  | 'user.manage';
+
+/** Everyone who can sign in gets these */
+const BASE_CAPABILITIES: Capability[] = [
+  'dashboard.view',
+  'product.view',
+  'deadStock.view',
+  'deadStock.manage',
+  'stockAdjustment.view',
+  'imei.lookup',
+  'sale.view',
+  'receivable.view',
+  'customer.view',
+  'notification.view',
+];
+
+export const ROLE_CAPABILITIES: Record<Role, Capability[]> = {
+  super_admin: [
+    ...BASE_CAPABILITIES,
+    'product.manage',
+    'catalog.manage',
+    'gstSlab.manage',
+    'batch.view',
+    'batch.viewCost',
+    'purchase.manage',
+    'supplier.manage',
+    'stockAdjustment.create',
+    'stockAdjustment.delete',
+    'stockTake.perform',
+    'shop.manage',
+    'shop.viewAll',
+    'subStock.view',
+    'stockRequest.view',
+    'stockRequest.create',
+    'stockRequest.approve',
+    'stockTransfer.view',
+    'stockTransfer.receiveAny',
+    'sale.create',
+    'settings.manage',
+    'user.manage',
+  ],
+  admin: [
+    ...BASE_CAPABILITIES,
+    'product.manage',
+    'catalog.manage',
+    'batch.viewCost',
+    'purchase.manage',
+    'supplier.manage',
+    'shop.viewAll',
+    'settings.manage',
+    'user.manage',
+  ],
+  main_inventory_manager: [
+    ...BASE_CAPABILITIES,
+    'product.manage',
+    'catalog.manage',
+    'batch.view',
+    'batch.viewCost',
+    'purchase.manage',
+    'supplier.manage',
+    'stockAdjustment.create',
+    'stockTake.perform',
+    'shop.viewAll',
+    'subStock.view',
+    'stockRequest.view',
+    'stockRequest.approve',
+    'stockTransfer.view',
+    'sale.create',
+  ],
+  sub_stock_manager: [
+    ...BASE_CAPABILITIES,
+    'stockAdjustment.create',
+    'stockTake.perform',
+    'subStock.view',
+    'stockRequest.view',
+    'stockRequest.create',
+    'stockTransfer.view',
+    'sale.create',
+  ],
+};
+
+/**
+ * Dashboard pages and what opening them takes; `requiresShop` pages also need an assigned shop.
+ * Nested pages inherit their parent's entry unless they are listed themselves.
+ */
+export const DASHBOARD_ROUTES: Array<{ href: string; capability: Capability; requiresShop?: boolean }> = [
+  { href: '/dashboard', capability: 'dashboard.view' },
+  { href: '/dashboard/products', capability: 'product.view' },
+  { href: '/dashboard/products/bulk-add', capability: 'product.manage' },
+  { href: '/dashboard/categories', capability: 'catalog.manage' },
+  { href: '/dashboard/brands', capability: 'catalog.manage' },
+  { href: '/dashboard/variants', capability: 'catalog.manage' },
+  { href: '/dashboard/colors', capability: 'catalog.manage' },
+  { href: '/dashboard/conditions', capability: 'catalog.manage' },
+  { href: '/dashboard/sources', capability: 'catalog.manage' },
+  { href: '/dashboard/gst-slabs', capability: 'gstSlab.manage' },
+  { href: '/dashboard/stock-batches', capability: 'batch.view' },
+  { href: '/dashboard/purchase-invoices', capability: 'purchase.manage' },
+  { href: '/dashboard/suppliers', capability: 'supplier.manage' },
+  { href: '/dashboard/dead-stock', capability: 'deadStock.view' },
+  { href: '/dashboard/stock-adjustments', capability: 'stockAdjustment.view' },
+  { href: '/dashboard/stock-take', capability: 'stockTake.perform' },
+  { href: '/dashboard/shops', capability: 'shop.manage' },
+  { href: '/dashboard/sub-stocks', capability: 'subStock.view' },
+  { href: '/dashboard/stock-requests', capability: 'stockRequest.view' },
+  { href: '/dashboard/stock-transfers', capability: 'stockTransfer.view' },
+  { href: '/dashboard/imei-lookup', capability: 'imei.lookup' },
+  { href: '/dashboard/pos', capability: 'sale.create', requiresShop: true },
+  { href: '/dashboard/sales', capability: 'sale.view' },
+  { href: '/dashboard/receivables', capability: 'receivable.view' },
+  { href: '/dashboard/customers', capability: 'customer.view' },
+  { href: '/dashboard/notifications', capability: 'notification.view' },
+  { href: '/dashboard/settings', capability: 'settings.manage' },
+  { href: '/dashboard/users', capability: 'user.manage' },
+];
+
+/** Accepts the shapes older backends sent ('Super Admin', 'superadmin', { value: 'admin' }). */
+export const normalizeRole = (role: unknown): string => {
+  if (!role) return '';
+  if (typeof role === 'string') {
+    const normalized = role.trim().toLowerCase().replace(/[-\s]+/g, '_');
+    return normalized === 'superadmin' ? 'super_admin' : normalized;
+  }
+  if (typeof role === 'object') {
+    const roleObj = role as { name?: string; value?: string; slug?: string };
+    return normalizeRole(roleObj.value ?? roleObj.slug ?? roleObj.name ?? '');
+  }
+  return '';
+};
+
+const roleOf = (user: Pick<User, 'role' | 'username'>): Role | null => {
+  // Accounts created before roles existed only have the built-in 'admin' username to go by
+  const role = normalizeRole(user.role) || (user.username === 'admin' ? 'super_admin' : '');
+  return role in ROLE_CAPABILITIES ? (role as Role) : null;
+};
+
+export const can = (user: Pick<User, 'role' | 'username'> | null | undefined, capability: Capability) => {
+  if (!user) return false;
+  const role = roleOf(user);
+  return !!role && ROLE_CAPABILITIES[role].includes(capability);
+};
+
+export type RouteAccess = 'allowed' | 'forbidden' | 'requires-shop';
+
+/** Most specific entry for a path, so /dashboard/sales/12 is checked as /dashboard/sales. */
+export const findRoute = (pathname: string) =>
+  DASHBOARD_ROUTES
+    .filter((route) => pathname === route.href || (route.href !== '/dashboard' && pathname.startsWith(`${route.href}/`)))
+    .sort((a, b) => b.href.length - a.href.length)[0];
+
+export const getRouteAccess = (
+  user: Pick<User, 'role' | 'username' | 'shop'> | null | undefined,
+  pathname: string
+): RouteAccess => {
+  const route = findRoute(pathname);
+  // Unknown paths are left to the framework's 404
+  if (!route) return 'allowed';
+  if (!can(user, route.capability)) return 'forbidden';
+  if (route.requiresShop && !user?.shop) return 'requires-shop';
+  return 'allowed';
+};
+
+export const canAccessRoute = (user: Pick<User, 'role' | 'username' | 'shop'> | null | undefined, href: string) =>
+  !!findRoute(href) && getRouteAccess(user, href) === 'allowed';
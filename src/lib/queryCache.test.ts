@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildCacheKey,
+  cachedRequest,
+  clearCache,
+  DEFAULT_CACHE_TTL_MS,
+  invalidateAll,
+  invalidateTags,
+  peekCache,
+  subscribeToCache,
+  type CacheEvent,
+} from '@/lib/queryCache';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+beforeEach(() => {
+  clearCache();
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-03-15T10:00:00'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('buildCacheKey', () => {
+  it('ignores empty params and their order', () => {
+    expect(buildCacheKey('/sales/', { search: '', page: 1, shop: undefined, ordering: '-sale_date' }))
+      .toBe(buildCacheKey('/sales/', { ordering: '-sale_date', page: 1 }));
+    expect(buildCacheKey('/sales/', { search: undefined })).toBe('/sales/');
+  });
+});
+
+describe('cachedRequest', () => {
+  it('shares one in-flight request between identical callers', async () => {
+    const pending = deferred<string[]>();
+    const fetcher = vi.fn(() => pending.promise);
+
+    const first = cachedRequest('/sales/', ['sales'], fetcher);
+    const second = cachedRequest('/sales/', ['sales'], fetcher);
+    pending.resolve(['KCH/0001']);
+
+    await expect(first).resolves.toEqual(['KCH/0001']);
+    await expect(second).resolves.toEqual(['KCH/0001']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a fresh value from the cache until the TTL runs out', async () => {
+    const fetcher = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+
+    await cachedRequest('/shops/', ['shops'], fetcher);
+    await expect(cachedRequest('/shops/', ['shops'], fetcher)).resolves.toBe('first');
+
+    vi.advanceTimersByTime(DEFAULT_CACHE_TTL_MS);
+    await expect(cachedRequest('/shops/', ['shops'], fetcher)).resolves.toBe('second');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('refetches after one of its tags is invalidated and keeps the old value for stale readers', async () => {
+    const fetcher = vi.fn().mockResolvedValueOnce('before').mockResolvedValueOnce('after');
+
+    await cachedRequest('/sub-stocks/', ['sub-stocks'], fetcher);
+    invalidateTags(['products']);
+    await expect(cachedRequest('/sub-stocks/', ['sub-stocks'], fetcher)).resolves.toBe('before');
+
+    invalidateTags(['sub-stocks']);
+    expect(peekCache('/sub-stocks/')).toEqual({ value: 'before', isStale: true });
+    await expect(cachedRequest('/sub-stocks/', ['sub-stocks'], fetcher)).resolves.toBe('after');
+    expect(peekCache('/sub-stocks/')).toEqual({ value: 'after', isStale: false });
+  });
+
+  it('does not treat a response that raced an invalidation as fresh', async () => {
+    const pending = deferred<string>();
+    const fetcher = vi.fn()
+      .mockReturnValueOnce(pending.promise)
+      .mockResolvedValueOnce('after the sale');
+
+    const inFlight = cachedRequest('/stock-batches/', ['stock-batches'], fetcher);
+    invalidateTags(['stock-batches']);
+    pending.resolve('before the sale');
+    await inFlight;
+
+    await expect(cachedRequest('/stock-batches/', ['stock-batches'], fetcher)).resolves.toBe('after the sale');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache failures', async () => {
+    const fetcher = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValueOnce('ok');
+
+    await expect(cachedRequest('/customers/', ['customers'], fetcher)).rejects.toThrow('offline');
+    expect(peekCache('/customers/')).toBeNull();
+    await expect(cachedRequest('/customers/', ['customers'], fetcher)).resolves.toBe('ok');
+  });
+
+  it('forces a refetch when asked', async () => {
+    const fetcher = vi.fn().mockResolvedValueOnce('cached').mockResolvedValueOnce('forced');
+
+    await cachedRequest('/brands/', ['brands'], fetcher);
+    await expect(cachedRequest('/brands/', ['brands'], fetcher, { force: true })).resolves.toBe('forced');
+  });
+});
+
+describe('clearCache', () => {
+  it('drops values and ignores responses from the previous session', async () => {
+    const pending = deferred<string>();
+    const fetcher = vi.fn().mockReturnValueOnce(pending.promise).mockResolvedValueOnce('next user');
+
+    const inFlight = cachedRequest('/auth/me/', ['auth'], fetcher);
+    clearCache();
+    pending.resolve('previous user');
+    await expect(inFlight).resolves.toBe('previous user');
+
+    expect(peekCache('/auth/me/')).toBeNull();
+    await expect(cachedRequest('/auth/me/', ['auth'], fetcher)).resolves.toBe('next user');
+  });
+});
+
+describe('subscribeToCache', () => {
+  it('reports updates and invalidations until unsubscribed', async () => {
+    const events: CacheEvent[] = [];
+    const unsubscribe = subscribeToCache((event) => events.push(event));
+
+    await cachedRequest('/sales/', ['sales'], () => Promise.resolve([]));
+    await cachedRequest('/shops/', ['shops'], () => Promise.resolve([]));
+    invalidateAll();
+    unsubscribe();
+    invalidateTags(['sales']);
+
+    expect(events).toEqual([
+      { type: 'update', key: '/sales/', tags: ['sales'] },
+      { type: 'update', key: '/shops/', tags: ['shops'] },
+      { type: 'invalidate', tags: ['sales', 'shops'] },
+    ]);
+  });
+});
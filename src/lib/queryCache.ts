@@ -0,0 +1,128 @@
+/**
+ * Small request cache shared by the API layer and useCachedQuery.
+ *
+ * Every entry declares the tags it depends on (usually the backend resource, e.g. 'sales').
+ * Mutations invalidate tags rather than the whole cache, identical requests that are still
+ * in flight share one promise, and subscribers hear about invalidations so mounted views
+ * can revalidate in the background.
+ */
+
+export type CacheTag = string;
+
+export const DEFAULT_CACHE_TTL_MS = 15000;
+
+interface CacheEntry {
+  tags: CacheTag[];
+  value?: unknown;
+  timestamp: number;
+  /** Set by invalidateTags; the value is kept for stale-while-revalidate readers only */
+  invalidated: boolean;
+  /** Bumped on every invalidation so a request started before it is not treated as fresh */
+  version: number;
+  promise?: Promise<unknown>;
+  promiseVersion?: number;
+}
+
+export type CacheEvent =
+  | { type: 'invalidate'; tags: CacheTag[] }
+  | { type: 'update'; key: string; tags: CacheTag[] }
+  | { type: 'clear' };
+
+type CacheListener = (event: CacheEvent) => void;
+
+const entries = new Map<string, CacheEntry>();
+const listeners = new Set<CacheListener>();
+
+const emit = (event: CacheEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+const isFresh = (entry: CacheEntry, ttlMs: number) =>
+  'value' in entry && !entry.invalidated && Date.now() - entry.timestamp < ttlMs;
+
+/** Stable key for a request: undefined and empty params do not create separate entries. */
+export const buildCacheKey = (url: string, params?: Record<string, unknown>) => {
+  const cleaned = Object.entries(params || {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b));
+  return cleaned.length ? `${url}|${JSON.stringify(cleaned)}` : url;
+};
+
+export const cachedRequest = <T>(
+  key: string,
+  tags: CacheTag[],
+  fetcher: () => Promise<T>,
+  options: { ttlMs?: number; force?: boolean } = {}
+): Promise<T> => {
+  const { ttlMs = DEFAULT_CACHE_TTL_MS, force = false } = options;
+  const entry = entries.get(key);
+
+  if (entry?.promise && entry.promiseVersion === entry.version) return entry.promise as Promise<T>;
+  if (entry && !force && isFresh(entry, ttlMs)) return Promise.resolve(entry.value as T);
+
+  const next: CacheEntry = entry ?? { tags, timestamp: 0, invalidated: false, version: 0 };
+  const startVersion = next.version;
+  next.tags = tags;
+  const promise = fetcher().then(
+    (value) => {
+      // A clearCache() while this was in flight means the result belongs to another session
+      if (entries.get(key) !== next) return value;
+      if (next.promise === promise) next.promise = undefined;
+      if (next.version !== startVersion && 'value' in next) return value;
+      next.value = value;
+      next.timestamp = Date.now();
+      next.invalidated = next.version !== startVersion;
+      emit({ type: 'update', key, tags });
+      return value;
+    },
+    (error) => {
+      if (entries.get(key) === next && next.promise === promise) {
+        next.promise = undefined;
+        if (!('value' in next)) entries.delete(key);
+      }
+      throw error;
+    }
+  );
+  next.promise = promise;
+  next.promiseVersion = startVersion;
+  entries.set(key, next);
+  return promise;
+};
+
+/** Last value stored for a key, even if it has expired or been invalidated. */
+export const peekCache = <T>(key: string): { value: T; isStale: boolean } | null => {
+  const entry = entries.get(key);
+  if (!entry || !('value' in entry)) return null;
+  return { value: entry.value as T, isStale: !isFresh(entry, DEFAULT_CACHE_TTL_MS) };
+};
+
+export const invalidateTags = (tags: CacheTag[]) => {
+  if (tags.length === 0) return;
+  entries.forEach((entry) => {
+    if (entry.tags.some((tag) => tags.includes(tag))) {
+      entry.invalidated = true;
+      entry.version += 1;
+    }
+  });
+  emit({ type: 'invalidate', tags });
+};
+
+/** Marks every entry stale and revalidates mounted views, e.g. when another cashier takes over. */
+export const invalidateAll = () => {
+  const tags = new Set<CacheTag>();
+  entries.forEach((entry) => entry.tags.forEach((tag) => tags.add(tag)));
+  invalidateTags(Array.from(tags));
+};
+
+/** Drops everything, e.g. on logout so the next user never sees cached data. */
+export const clearCache = () => {
+  entries.clear();
+  emit({ type: 'clear' });
+};
+
+export const subscribeToCache = (listener: CacheListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
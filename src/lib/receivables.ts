@@ -0,0 +1,55 @@
+import type { ListQuery, Sale } from '@/types';
+import { roundCurrency } from '@/lib/tax';
+
+/** Exchange credit note value applied to the sale, counted as paid. */
+export const getSaleExchangeCredit = (sale: Sale) => parseFloat(sale.exchange_credit_amount || '0') || 0;
+
+/** Amount collected so far; prefers the backend figure and falls back to the payment rows plus any exchange credit. */
+export const getSaleAmountPaid = (sale: Sale) => {
+  if (sale.amount_paid !== undefined && sale.amount_paid !== null) {
+    return parseFloat(sale.amount_paid) || 0;
+  }
+  const credit = getSaleExchangeCredit(sale);
+  if ((sale.payments && sale.payments.length > 0) || credit > 0) {
+    return roundCurrency((sale.payments || []).reduce((sum, payment) => sum + (parseFloat(payment.amount) || 0), credit));
+  }
+  return sale.payment_status === 'paid' ? parseFloat(sale.grand_total) || 0 : 0;
+};
+
+export const getSaleBalance = (sale: Sale) => {
+  if (sale.balance_due !== undefined && sale.balance_due !== null) {
+    return parseFloat(sale.balance_due) || 0;
+  }
+  return roundCurrency(Math.max(0, (parseFloat(sale.grand_total) || 0) - getSaleAmountPaid(sale)));
+};
+
+/**
+ * Share of each line total the customer actually paid once the sale-level discount is spread
+ * across the lines by value. Returns pro-rate by it so a credit note never exceeds what was paid.
+ */
+export const getSaleDiscountFactor = (sale: Sale) => {
+  const itemsTotal = (sale.items || []).reduce((sum, item) => sum + (parseFloat(item.total_amount) || 0), 0);
+  const discount = parseFloat(sale.discount) || 0;
+  return itemsTotal > 0 ? Math.max(0, 1 - discount / itemsTotal) : 1;
+};
+
+/** Groups sales that belong to the same customer, falling back to phone/name for walk-in records. */
+export const getSaleCustomerKey = (sale: Sale) => {
+  if (sale.customer) return `id:${sale.customer}`;
+  if (sale.customer_phone) return `phone:${sale.customer_phone}`;
+  return `name:${sale.customer_name.trim().toLowerCase()}`;
+};
+
+/** Server-side `/sales/` filters that narrow a list to one customer key; name keys can only search. */
+export const getSaleFiltersForCustomerKey = (key: string): ListQuery => {
+  const separator = key.indexOf(':');
+  const value = key.slice(separator + 1);
+  switch (key.slice(0, separator)) {
+    case 'id':
+      return { customer: value };
+    case 'phone':
+      return { customer_phone: value };
+    default:
+      return { search: value };
+  }
+};
@@ -0,0 +1,49 @@
+/**
+ * Audible feedback for barcode scans, generated with the Web Audio API so no
+ * sound assets need to be shipped.
+ */
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = () => {
+  if (typeof window === 'undefined') return null;
+  const Ctor = window.AudioContext
+    || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!Ctor) return null;
+  if (!audioContext) {
+    audioContext = new Ctor();
+  }
+  return audioContext;
+};
+
+const playTone = (ctx: AudioContext, frequency: number, startAt: number, durationSec: number) => {
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = 'square';
+  oscillator.frequency.value = frequency;
+  gain.gain.setValueAtTime(0.08, startAt);
+  gain.gain.exponentialRampToValueAtTime(0.0001, startAt + durationSec);
+  oscillator.connect(gain);
+  gain.connect(ctx.destination);
+  oscillator.start(startAt);
+  oscillator.stop(startAt + durationSec);
+};
+
+export const playScanTone = (kind: 'success' | 'error') => {
+  try {
+    const ctx = getAudioContext();
+    if (!ctx) return;
+    if (ctx.state === 'suspended') {
+      void ctx.resume();
+    }
+    const now = ctx.currentTime;
+    if (kind === 'success') {
+      playTone(ctx, 1760, now, 0.12);
+    } else {
+      // Two low buzzes so an error is distinguishable without looking at the screen
+      playTone(ctx, 220, now, 0.18);
+      playTone(ctx, 220, now + 0.25, 0.18);
+    }
+  } catch (error) {
+    console.error('Failed to play scan tone:', error);
+  }
+};
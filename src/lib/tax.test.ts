@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeLineTax,
+  computeRoundOff,
+  computeTaxSummary,
+  resolveBuyerStateCode,
+  resolveSupplyType,
+  summarizeByHsn,
+  validateGSTIN,
+} from '@/lib/tax';
+
+describe('computeLineTax', () => {
+  it('splits intra-state GST evenly into CGST and SGST', () => {
+    expect(computeLineTax({ amount: 1180, gstRate: 18 }, 'intra_state')).toEqual({
+      taxableValue: 1000,
+      gstRate: 18,
+      cgstRate: 9,
+      sgstRate: 9,
+      igstRate: 0,
+      cgst: 90,
+      sgst: 90,
+      igst: 0,
+      totalTax: 180,
+      total: 1180,
+    });
+  });
+
+  it('charges the whole inter-state GST as IGST', () => {
+    const line = computeLineTax({ amount: 1180, gstRate: 18 }, 'inter_state');
+    expect(line).toMatchObject({ igstRate: 18, igst: 180, cgst: 0, sgst: 0, taxableValue: 1000 });
+  });
+
+  it('gives the odd paisa to CGST and keeps the heads summing to the total tax', () => {
+    const line = computeLineTax({ amount: 0.2, gstRate: 18, gstAmount: 0.03 }, 'intra_state');
+    expect(line.cgst).toBe(0.02);
+    expect(line.sgst).toBe(0.01);
+    expect(line.cgst + line.sgst).toBeCloseTo(line.totalTax, 10);
+  });
+
+  it('never lets rounded heads drift from the line tax', () => {
+    [1001, 99.99, 54321.57, 0.01].forEach((amount) => {
+      const line = computeLineTax({ amount, gstRate: 18 }, 'intra_state');
+      expect(Math.round((line.cgst + line.sgst) * 100)).toBe(Math.round(line.totalTax * 100));
+      expect(Math.abs(line.cgst - line.sgst)).toBeLessThanOrEqual(0.01 + Number.EPSILON);
+      expect(Math.round((line.taxableValue + line.totalTax) * 100)).toBe(Math.round(line.total * 100));
+    });
+  });
+
+  it('uses the GST already computed by the backend when given', () => {
+    const line = computeLineTax({ amount: 52900, gstRate: 18, gstAmount: 8069.49 }, 'intra_state');
+    expect(line).toMatchObject({ totalTax: 8069.49, taxableValue: 44830.51, cgst: 4034.75, sgst: 4034.74 });
+  });
+
+  it('treats a zero-rated line as untaxed', () => {
+    expect(computeLineTax({ amount: 500, gstRate: 0 }, 'intra_state')).toMatchObject({ totalTax: 0, taxableValue: 500 });
+  });
+});
+
+describe('resolveBuyerStateCode', () => {
+  it('prefers the state code in the buyer GSTIN over the declared one', () => {
+    expect(resolveBuyerStateCode({ buyerStateCode: '32', buyerGstin: '33AACCS5678K1ZY' })).toBe('33');
+  });
+
+  it('falls back to the declared state code, padded to two digits', () => {
+    expect(resolveBuyerStateCode({ buyerStateCode: '7', buyerGstin: '' })).toBe('07');
+    expect(resolveBuyerStateCode({ buyerStateCode: '32', buyerGstin: 'not-a-gstin' })).toBe('32');
+  });
+
+  it('returns an empty code when nothing is known', () => {
+    expect(resolveBuyerStateCode({})).toBe('');
+  });
+});
+
+describe('resolveSupplyType', () => {
+  it('is intra-state when the buyer is in the seller state or unknown', () => {
+    expect(resolveSupplyType({ sellerStateCode: '32', buyerStateCode: '32' })).toBe('intra_state');
+    expect(resolveSupplyType({ sellerStateCode: '32' })).toBe('intra_state');
+  });
+
+  it('is inter-state when the buyer GSTIN belongs to another state', () => {
+    expect(resolveSupplyType({ sellerStateCode: '32', buyerStateCode: '32', buyerGstin: '33AACCS5678K1ZY' })).toBe('inter_state');
+  });
+});
+
+describe('computeTaxSummary', () => {
+  it('totals every head across lines', () => {
+    const summary = computeTaxSummary(
+      [
+        { amount: 1180, gstRate: 18 },
+        { amount: 105, gstRate: 5 },
+      ],
+      { sellerStateCode: '32', buyerStateCode: '29' }
+    );
+    expect(summary).toMatchObject({
+      supplyType: 'inter_state',
+      taxableValue: 1100,
+      igst: 185,
+      cgst: 0,
+      sgst: 0,
+      totalTax: 185,
+      total: 1285,
+    });
+    expect(summary.lines).toHaveLength(2);
+  });
+});
+
+describe('validateGSTIN', () => {
+  it('accepts a well-formed GSTIN with a matching check digit', () => {
+    expect(validateGSTIN('32AAFCT4321L1ZG')).toBe('');
+    expect(validateGSTIN(' 32emrpk5012b1zg ')).toBe('');
+  });
+
+  it('rejects a GSTIN whose check digit does not match', () => {
+    expect(validateGSTIN('32AAFCT4321L1Z9')).toMatch(/check digit/);
+  });
+
+  it('rejects an unknown state code', () => {
+    expect(validateGSTIN('99AAFCT4321L1ZG')).toMatch(/state code 99/);
+  });
+
+  it('rejects malformed values', () => {
+    expect(validateGSTIN('')).toMatch(/15 characters/);
+    expect(validateGSTIN('32AAFCT4321L1XG')).toMatch(/15 characters/);
+  });
+});
+
+describe('summarizeByHsn', () => {
+  it('groups lines by HSN code and GST rate in first-seen order', () => {
+    const rows = summarizeByHsn([
+      { hsnCode: '85171300', tax: computeLineTax({ amount: 1180, gstRate: 18 }, 'intra_state') },
+      { hsnCode: '85044030', tax: computeLineTax({ amount: 118, gstRate: 18 }, 'intra_state') },
+      { hsnCode: '85171300', tax: computeLineTax({ amount: 2360, gstRate: 18 }, 'intra_state') },
+      { hsnCode: '85171300', tax: computeLineTax({ amount: 105, gstRate: 5 }, 'intra_state') },
+    ]);
+    expect(rows.map((row) => [row.hsnCode, row.gstRate, row.taxableValue, row.totalTax])).toEqual([
+      ['85171300', 18, 3000, 540],
+      ['85044030', 18, 100, 18],
+      ['85171300', 5, 100, 5],
+    ]);
+  });
+});
+
+describe('computeRoundOff', () => {
+  it('rounds to the nearest rupee and reports the adjustment', () => {
+    expect(computeRoundOff(999.6)).toEqual({ rounded: 1000, roundOff: 0.4 });
+    expect(computeRoundOff(54098.49)).toEqual({ rounded: 54098, roundOff: -0.49 });
+    expect(computeRoundOff(250)).toEqual({ rounded: 250, roundOff: 0 });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * GST tax engine shared by POS and the tax invoice.
+ *
+ * Decides between intra-state (CGST + SGST) and inter-state (IGST) supply from
+ * the seller's and buyer's state codes, and splits each line's GST with one
+ * rounding rule so the screen and the printed bill always agree.
+ */
+
+export const DEFAULT_STATE_CODE = '32';
+
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+};
+
+export type SupplyType = 'intra_state' | 'inter_state';
+
+export interface TaxParties {
+  sellerStateCode?: string | null;
+  buyerStateCode?: string | null;
+  buyerGstin?: string | null;
+}
+
+export interface TaxLineInput {
+  /** Line amount including GST (selling prices in this app are tax-inclusive) */
+  amount: number;
+  gstRate: number;
+  /** GST already computed for the line, e.g. `SaleItem.gst_amount` from the backend */
+  gstAmount?: number;
+}
+
+export interface TaxLine {
+  taxableValue: number;
+  gstRate: number;
+  cgstRate: number;
+  sgstRate: number;
+  igstRate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  total: number;
+}
+
+export interface TaxSummary {
+  supplyType: SupplyType;
+  lines: TaxLine[];
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  total: number;
+}
+
+export const roundCurrency = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const normalizeStateCode = (value?: string | null) => {
+  const digits = (value || '').replace(/\D/g, '');
+  if (!digits) return '';
+  return digits.padStart(2, '0').slice(-2);
+};
+
+export const stateCodeFromGSTIN = (gstin?: string | null) => {
+  const trimmed = (gstin || '').trim();
+  if (!/^\d{2}/.test(trimmed)) return '';
+  return trimmed.slice(0, 2);
+};
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/** Returns an error message for a malformed GSTIN, or '' when it is valid (format, state code and check digit). */
+export const validateGSTIN = (value?: string | null) => {
+  const gstin = (value || '').trim().toUpperCase();
+  if (!GSTIN_PATTERN.test(gstin)) {
+    return 'GSTIN must be 15 characters: 2-digit state code, PAN, entity number, Z and a check digit';
+  }
+  if (!GST_STATES[gstin.slice(0, 2)]) {
+    return `GSTIN state code ${gstin.slice(0, 2)} is not a valid GST state`;
+  }
+
+  const sum = gstin.slice(0, 14).split('').reduce((acc, char, index) => {
+    const product = GSTIN_CHARSET.indexOf(char) * (index % 2 === 0 ? 1 : 2);
+    return acc + Math.floor(product / 36) + (product % 36);
+  }, 0);
+  const checkChar = GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+  if (gstin[14] !== checkChar) {
+    return 'GSTIN check digit does not match; please re-check the number';
+  }
+  return '';
+};
+
+export const getStateName = (stateCode?: string | null) => GST_STATES[normalizeStateCode(stateCode)] || '';
+
+/** A registered buyer's GSTIN is authoritative; otherwise fall back to the declared state code. */
+export const resolveBuyerStateCode = ({ buyerStateCode, buyerGstin }: TaxParties) =>
+  stateCodeFromGSTIN(buyerGstin) || normalizeStateCode(buyerStateCode);
+
+export const resolveSupplyType = (parties: TaxParties): SupplyType => {
+  const seller = normalizeStateCode(parties.sellerStateCode) || DEFAULT_STATE_CODE;
+  const buyer = resolveBuyerStateCode(parties) || seller;
+  return seller === buyer ? 'intra_state' : 'inter_state';
+};
+
+/**
+ * Split one line's GST into its heads. The total tax is rounded once, then
+ * CGST is rounded and SGST takes the remainder so the heads always sum exactly.
+ */
+export const computeLineTax = (line: TaxLineInput, supplyType: SupplyType): TaxLine => {
+  const total = roundCurrency(line.amount);
+  const gstRate = line.gstRate || 0;
+  const totalTax = roundCurrency(
+    line.gstAmount ?? (gstRate > 0 ? (line.amount * gstRate) / (100 + gstRate) : 0)
+  );
+  const taxableValue = roundCurrency(total - totalTax);
+
+  if (supplyType === 'inter_state') {
+    return {
+      taxableValue,
+      gstRate,
+      cgstRate: 0,
+      sgstRate: 0,
+      igstRate: gstRate,
+      cgst: 0,
+      sgst: 0,
+      igst: totalTax,
+      totalTax,
+      total,
+    };
+  }
+
+  const cgst = roundCurrency(totalTax / 2);
+  return {
+    taxableValue,
+    gstRate,
+    cgstRate: gstRate / 2,
+    sgstRate: gstRate / 2,
+    igstRate: 0,
+    cgst,
+    sgst: roundCurrency(totalTax - cgst),
+    igst: 0,
+    totalTax,
+    total,
+  };
+};
+
+export const computeTaxSummary = (lines: TaxLineInput[], parties: TaxParties): TaxSummary => {
+  const supplyType = resolveSupplyType(parties);
+  const computed = lines.map((line) => computeLineTax(line, supplyType));
+  const sum = (pick: (line: TaxLine) => number) =>
+    roundCurrency(computed.reduce((acc, line) => acc + pick(line), 0));
+
+  return {
+    supplyType,
+    lines: computed,
+    taxableValue: sum((line) => line.taxableValue),
+    cgst: sum((line) => line.cgst),
+    sgst: sum((line) => line.sgst),
+    igst: sum((line) => line.igst),
+    totalTax: sum((line) => line.totalTax),
+    total: sum((line) => line.total),
+  };
+};
+
+export interface HsnSummaryRow {
+  hsnCode: string;
+  gstRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+/** HSN-wise summary for the tax invoice: one row per HSN code and GST rate, in first-seen order. */
+export const summarizeByHsn = (lines: Array<{ hsnCode?: string | null; tax: TaxLine }>): HsnSummaryRow[] => {
+  const rows = new Map<string, HsnSummaryRow>();
+  lines.forEach(({ hsnCode, tax }) => {
+    const code = (hsnCode || '').trim();
+    const key = `${code}|${tax.gstRate}`;
+    const row = rows.get(key) || {
+      hsnCode: code,
+      gstRate: tax.gstRate,
+      taxableValue: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      totalTax: 0,
+    };
+    rows.set(key, {
+      ...row,
+      taxableValue: roundCurrency(row.taxableValue + tax.taxableValue),
+      cgst: roundCurrency(row.cgst + tax.cgst),
+      sgst: roundCurrency(row.sgst + tax.sgst),
+      igst: roundCurrency(row.igst + tax.igst),
+      totalTax: roundCurrency(row.totalTax + tax.totalTax),
+    });
+  });
+  return Array.from(rows.values());
+};
+
+/** Invoice value rounded to the nearest rupee, with the adjustment printed as the round-off line. */
+export const computeRoundOff = (total: number) => {
+  const rounded = Math.round(roundCurrency(total));
+  return { rounded, roundOff: roundCurrency(rounded - total) };
+};
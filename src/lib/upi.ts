@@ -0,0 +1,37 @@
+/**
+ * UPI intent links (NPCI "upi://pay") for the QR codes on bills and at the POS. Any UPI app
+ * that scans one opens a payment to the payee with the amount and note already filled in.
+ */
+
+export const UPI_ID_PATTERN = /^[\w.-]{2,256}@[a-zA-Z][\w.-]{1,63}$/;
+
+// UPI apps truncate or reject longer transaction notes
+const MAX_NOTE_LENGTH = 50;
+
+export interface UpiPayment {
+  /** Payee virtual payment address, e.g. shop@okbank */
+  vpa: string;
+  payeeName: string;
+  amount: number;
+  note?: string;
+}
+
+export const isValidUpiId = (value?: string | null) => UPI_ID_PATTERN.test((value || '').trim());
+
+// Encoded by hand: URLSearchParams turns spaces into '+', which several UPI apps show literally
+export const buildUpiUri = ({ vpa, payeeName, amount, note }: UpiPayment) => {
+  const params: Array<[string, string]> = [
+    ['pa', vpa.trim()],
+    ['pn', payeeName.trim()],
+    ['am', amount.toFixed(2)],
+    ['cu', 'INR'],
+  ];
+  if (note) {
+    params.push(['tn', note.trim().slice(0, MAX_NOTE_LENGTH)]);
+  }
+  return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&')}`;
+};
+
+/** A shop's own UPI ID collects its payments; otherwise the company account does. */
+export const resolveUpiId = (shopUpiId?: string | null, companyUpiId?: string | null) =>
+  [shopUpiId, companyUpiId].map((value) => (value || '').trim()).find((value) => isValidUpiId(value)) || '';
@@ -15,6 +15,7 @@ import {
     dashboardAPI,
     subStocksAPI,
 } from '@/lib/api';
+import { can } from '@/lib/permissions';
 import type {
     Category,
     Brand,
@@ -65,6 +66,7 @@ interface DataStoreState {
     preloadAll: (user: User) => Promise<void>;
     resetPreload: () => void;
     refreshData: (key: keyof Pick<DataStoreState, 'categories' | 'brands' | 'variants' | 'colors' | 'conditions' | 'sources' | 'shops' | 'products' | 'stockBatches' | 'customers' | 'subStocks'>) => Promise<void>;
+    reloadForUser: (user: User) => Promise<void>;
 }
 
 const createInitialSteps = (user: User): PreloadStep[] => {
@@ -77,22 +79,22 @@ const createInitialSteps = (user: User): PreloadStep[] => {
         { id: 'sources', label: 'Loading sources...', status: 'pending' },
     ];
 
-    // Role-based steps
-    if (['super_admin'].includes(user.role)) {
+    // Capability-based steps
+    if (can(user, 'shop.manage')) {
         steps.push({ id: 'shops', label: 'Loading shops...', status: 'pending' });
     }
 
     steps.push({ id: 'products', label: 'Loading products...', status: 'pending' });
 
-    if (['super_admin', 'main_inventory_manager'].includes(user.role)) {
+    if (can(user, 'batch.view')) {
         steps.push({ id: 'stockBatches', label: 'Loading stock batches...', status: 'pending' });
     }
 
-    if (['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'].includes(user.role)) {
+    if (can(user, 'customer.view')) {
         steps.push({ id: 'customers', label: 'Loading customers...', status: 'pending' });
     }
 
-    if (['super_admin', 'main_inventory_manager', 'sub_stock_manager'].includes(user.role) && user.shop) {
+    if (can(user, 'subStock.view') && user.shop) {
         steps.push({ id: 'subStocks', label: 'Loading sub-stocks...', status: 'pending' });
     }
 
@@ -188,8 +190,8 @@ export const useDataStore = create<DataStoreState>((set, get) => ({
                 incrementProgress();
             });
 
-            // Load shops if super_admin
-            if (['super_admin'].includes(user.role)) {
+            // Load shops for users who manage them
+            if (can(user, 'shop.manage')) {
                 updateStep('shops', 'loading');
                 try {
                     const res = await shopsAPI.list();
@@ -215,7 +217,7 @@ export const useDataStore = create<DataStoreState>((set, get) => ({
             incrementProgress();
 
             // Load stock batches
-            if (['super_admin', 'main_inventory_manager'].includes(user.role)) {
+            if (can(user, 'batch.view')) {
                 updateStep('stockBatches', 'loading');
                 try {
                     const res = await stockBatchesAPI.list();
@@ -229,7 +231,7 @@ export const useDataStore = create<DataStoreState>((set, get) => ({
             }
 
             // Load customers
-            if (['super_admin', 'admin', 'main_inventory_manager', 'sub_stock_manager'].includes(user.role)) {
+            if (can(user, 'customer.view')) {
                 updateStep('customers', 'loading');
                 try {
                     const res = await customersAPI.list();
@@ -243,7 +245,7 @@ export const useDataStore = create<DataStoreState>((set, get) => ({
             }
 
             // Load sub-stocks
-            if (['super_admin', 'main_inventory_manager', 'sub_stock_manager'].includes(user.role) && user.shop) {
+            if (can(user, 'subStock.view') && user.shop) {
                 updateStep('subStocks', 'loading');
                 try {
                     const res = await subStocksAPI.list();
@@ -328,4 +330,20 @@ export const useDataStore = create<DataStoreState>((set, get) => ({
             }
         }
     },
+
+    // Cashier switch: reload what depends on the user in the background, keeping the masters
+    reloadForUser: async (user) => {
+        const { refreshData } = get();
+        set({
+            shops: can(user, 'shop.manage') ? get().shops : [],
+            stockBatches: can(user, 'batch.view') ? get().stockBatches : [],
+            subStocks: can(user, 'subStock.view') && user.shop ? get().subStocks : [],
+        });
+
+        const tasks: Array<Promise<void>> = [refreshData('products'), refreshData('customers')];
+        if (can(user, 'shop.manage')) tasks.push(refreshData('shops'));
+        if (can(user, 'batch.view')) tasks.push(refreshData('stockBatches'));
+        if (can(user, 'subStock.view') && user.shop) tasks.push(refreshData('subStocks'));
+        await Promise.allSettled(tasks);
+    },
 }));
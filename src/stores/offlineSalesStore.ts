@@ -0,0 +1,127 @@
+'use client';
+
+import { create } from 'zustand';
+import { salesAPI } from '@/lib/api';
+import {
+    deleteQueuedSale,
+    isOfflineError,
+    listQueuedSales,
+    putQueuedSale,
+    type QueuedSale,
+} from '@/lib/offlineDb';
+
+// Only a validation rejection is final; server errors, auth and rate limits are worth retrying later
+const CONFLICT_STATUSES = new Set([400, 409, 422]);
+
+export interface SyncResult {
+    synced: number;
+    conflicts: number;
+}
+
+interface OfflineSalesState {
+    isOnline: boolean;
+    queue: QueuedSale[];
+    syncing: boolean;
+    lastSyncedAt: string | null;
+
+    setOnline: (isOnline: boolean) => void;
+    loadQueue: () => Promise<void>;
+    enqueueSale: (sale: QueuedSale) => Promise<void>;
+    syncQueue: () => Promise<SyncResult>;
+    retrySale: (idempotencyKey: string) => Promise<SyncResult>;
+    discardSale: (idempotencyKey: string) => Promise<void>;
+}
+
+const describeSyncError = (error: any) => {
+    const data = error.response?.data;
+    if (!data) return error.message || 'Sync failed';
+    if (typeof data === 'string') return data;
+    return data.error || data.detail || JSON.stringify(data);
+};
+
+export const useOfflineSalesStore = create<OfflineSalesState>((set, get) => ({
+    isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+    queue: [],
+    syncing: false,
+    lastSyncedAt: null,
+
+    setOnline: (isOnline) => set({ isOnline }),
+
+    loadQueue: async () => {
+        try {
+            set({ queue: await listQueuedSales() });
+        } catch (error) {
+            console.error('[OfflineSales] Failed to load queued sales:', error);
+        }
+    },
+
+    enqueueSale: async (sale) => {
+        await putQueuedSale(sale);
+        set((state) => ({ queue: [...state.queue, sale] }));
+    },
+
+    syncQueue: async () => {
+        const result: SyncResult = { synced: 0, conflicts: 0 };
+        if (get().syncing || !navigator.onLine) return result;
+
+        const pending = get().queue.filter((sale) => sale.status === 'pending');
+        if (pending.length === 0) return result;
+
+        set({ syncing: true });
+        try {
+            // Replay oldest first; the idempotency key makes a repeat of an already-recorded sale harmless
+            for (const sale of pending) {
+                try {
+                    await salesAPI.create({ ...sale.payload, idempotency_key: sale.idempotency_key });
+                    await deleteQueuedSale(sale.idempotency_key);
+                    set((state) => ({
+                        queue: state.queue.filter((entry) => entry.idempotency_key !== sale.idempotency_key),
+                    }));
+                    result.synced += 1;
+                } catch (error: any) {
+                    if (isOfflineError(error) || !CONFLICT_STATUSES.has(error?.response?.status)) {
+                        // Unreachable or temporarily failing - leave the rest queued for the next attempt
+                        break;
+                    }
+                    // The server rejected the sale (e.g. an IMEI sold elsewhere meanwhile) - needs a person to resolve
+                    const conflict: QueuedSale = {
+                        ...sale,
+                        status: 'conflict',
+                        attempts: sale.attempts + 1,
+                        error: describeSyncError(error),
+                    };
+                    await putQueuedSale(conflict);
+                    set((state) => ({
+                        queue: state.queue.map((entry) => (
+                            entry.idempotency_key === sale.idempotency_key ? conflict : entry
+                        )),
+                    }));
+                    result.conflicts += 1;
+                }
+            }
+        } finally {
+            set({ syncing: false, lastSyncedAt: result.synced > 0 ? new Date().toISOString() : get().lastSyncedAt });
+        }
+
+        return result;
+    },
+
+    retrySale: async (idempotencyKey) => {
+        const sale = get().queue.find((entry) => entry.idempotency_key === idempotencyKey);
+        if (!sale) return { synced: 0, conflicts: 0 };
+
+        const pending: QueuedSale = { ...sale, status: 'pending', error: undefined };
+        await putQueuedSale(pending);
+        set((state) => ({
+            queue: state.queue.map((entry) => (entry.idempotency_key === idempotencyKey ? pending : entry)),
+        }));
+        return get().syncQueue();
+    },
+
+    discardSale: async (idempotencyKey) => {
+        await deleteQueuedSale(idempotencyKey);
+        set((state) => ({
+            queue: state.queue.filter((entry) => entry.idempotency_key !== idempotencyKey),
+        }));
+    },
+}));
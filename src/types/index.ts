@@ -176,6 +176,7 @@ export interface StockBatch {
   source_display?: string;
   is_interstate: boolean;
   purchase_date: string;
+  supplier?: number | null;
   supplier_name?: string;
   invoice_number?: string;
   purchase_invoice?: number;
@@ -223,6 +224,8 @@ export interface StockAdjustment {
   shop_name?: string;
   adjustment_type: 'write_off' | 'clearance' | 'return' | 'damage' | 'manual';
   quantity: number;
+  unit_purchase_price?: string;
+  imei_numbers?: string[];
   notes?: string;
   created_by: number;
   created_by_name?: string;
@@ -233,7 +236,7 @@ export interface IMEINumber {
   id: number;
   imei: string;
   stock_batch: number;
-  status: 'in_main_stock' | 'in_sub_stock' | 'sold' | 'written_off';
+  status: 'in_main_stock' | 'in_transit' | 'in_sub_stock' | 'sold' | 'written_off';
   sub_stock?: number;
   created_at: string;
   updated_at: string;
@@ -244,8 +247,13 @@ export interface Shop {
   name: string;
   code: string;
   address: string;
+  state_code?: string;
   phone?: string;
   email?: string;
+  /** Printed on this shop's bills instead of the company-wide terms when set */
+  invoice_terms?: string | null;
+  /** Collects this shop's UPI payments instead of the company UPI ID when set */
+  upi_id?: string | null;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -254,6 +262,18 @@ export interface Shop {
 export interface CompanyProfile {
   id: number;
   logo?: string | null;
+  legal_name?: string;
+  gstin?: string;
+  registered_address?: string;
+  bank_name?: string;
+  bank_account_name?: string;
+  bank_account_number?: string;
+  bank_ifsc?: string;
+  upi_id?: string;
+  /** One term per line */
+  invoice_terms?: string;
+  declaration?: string;
+  signatory_image?: string | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -294,13 +314,14 @@ export interface StockRequest {
 
 export interface Notification {
   id: number;
-  notification_type: 'low_stock' | 'stock_request' | 'stock_approved' | 'stock_rejected';
+  notification_type: 'low_stock' | 'stock_request' | 'stock_approved' | 'stock_rejected' | 'transfer_discrepancy';
   user: number;
   title: string;
   message: string;
   shop?: number;
   shop_name?: string;
   stock_request?: number;
+  stock_transfer?: number;
   sub_stock?: number;
   is_read: boolean;
   created_at: string;
@@ -319,6 +340,17 @@ export interface StockTransfer {
   transferred_at: string;
   stock_request?: number;
   notes?: string;
+  product?: number;
+  product_is_imei_tracked?: boolean;
+  status?: 'in_transit' | 'received' | 'discrepancy';
+  imei_numbers?: string[];
+  received_quantity?: number | null;
+  received_imeis?: string[];
+  missing_imeis?: string[];
+  received_by?: number | null;
+  received_by_name?: string;
+  received_at?: string | null;
+  discrepancy_notes?: string;
 }
 
 export interface Customer {
@@ -346,6 +378,9 @@ export interface SalePayment {
   payment_date: string;
   reference_number?: string;
   notes?: string;
+  invoice_number?: string;
+  customer_name?: string;
+  received_by_name?: string;
 }
 
 export interface SaleItem {
@@ -354,6 +389,7 @@ export interface SaleItem {
   stock_batch: number;
   product: number;
   product_name?: string;
+  hsn_code?: string;
   batch_number?: string;
   condition?: string;
   quantity: number;
@@ -365,6 +401,7 @@ export interface SaleItem {
   profit_per_unit: string;
   total_profit: string;
   imei?: string;
+  returned_quantity?: number;
 }
 
 export interface Sale {
@@ -375,6 +412,9 @@ export interface Sale {
   shop_address?: string;
   shop_phone?: string;
   shop_email?: string;
+  shop_state_code?: string;
+  shop_invoice_terms?: string | null;
+  shop_upi_id?: string | null;
   customer?: number;
   customer_name: string;
   customer_phone?: string;
@@ -388,6 +428,8 @@ export interface Sale {
   transport_charge?: string;
   loading_charge?: string;
   grand_total: string;
+  amount_paid?: string;
+  balance_due?: string;
   payment_method: 'cash' | 'card' | 'upi' | 'net_banking' | 'cheque';
   payment_status: 'paid' | 'partial' | 'unpaid';
   payment_reference?: string;
@@ -402,6 +444,105 @@ export interface Sale {
   notes?: string;
   items?: SaleItem[];
   payments?: SalePayment[];
+  /** Credit note redeemed against this sale in an exchange; already counted in `amount_paid` */
+  exchange_credit_note_number?: string | null;
+  exchange_credit_amount?: string | null;
+}
+
+export interface SaleReturnItem {
+  id: number;
+  sale_return: number;
+  sale_item: number;
+  stock_batch: number;
+  product_name?: string;
+  hsn_code?: string;
+  imei?: string;
+  quantity: number;
+  unit_price: string;
+  gst_rate: string;
+  gst_amount: string;
+  total_amount: string;
+  restock_action: 'restock' | 'damaged';
+}
+
+export interface SaleReturn {
+  id: number;
+  credit_note_number: string;
+  sale: number;
+  invoice_number?: string;
+  invoice_date?: string;
+  shop: number;
+  shop_name?: string;
+  shop_address?: string;
+  shop_phone?: string;
+  shop_email?: string;
+  shop_state_code?: string;
+  customer_name?: string;
+  customer_phone?: string;
+  customer_address?: string;
+  customer_gstin?: string | null;
+  state_code?: string;
+  resolution: 'refund' | 'exchange';
+  refund_method?: SalePayment['payment_method'];
+  refund_reference?: string;
+  reason?: string;
+  subtotal: string;
+  total_gst: string;
+  total_amount: string;
+  exchange_sale?: number | null;
+  created_by: number;
+  created_by_name?: string;
+  created_at: string;
+  items?: SaleReturnItem[];
+}
+
+export interface ParkedCartItem {
+  stock_batch_id: number;
+  batch_number: string;
+  product_name: string;
+  condition: string;
+  unit_price: number;
+  gst_rate: number;
+  quantity: number;
+  imei?: string;
+  is_imei_tracked: boolean;
+  available_quantity: number;
+}
+
+/** Checkout form as it was when the cart was parked, restored as-is on resume */
+export interface ParkedCartDetails {
+  customer?: Customer | null;
+  customer_phone: string;
+  customer_name: string;
+  customer_email: string;
+  customer_gstin: string;
+  customer_address: string;
+  state_code: string;
+  discount: string;
+  transport_charge: string;
+  loading_charge: string;
+  notes: string;
+  reverse_charge: 'yes' | 'no' | '';
+  vehicle_no: string;
+  place_of_supply: string;
+  consignee_name: string;
+  consignee_address: string;
+  tenders: Array<{ method: SalePayment['payment_method']; amount: string; reference: string }>;
+  credit_note?: number | null;
+}
+
+export interface ParkedCart {
+  id: number;
+  shop: number;
+  label: string;
+  items: ParkedCartItem[];
+  details: ParkedCartDetails;
+  /** IMEIs held for this cart; the server refuses to sell them elsewhere until it is resumed or discarded */
+  imeis: string[];
+  parked_by: number;
+  parked_by_name?: string;
+  created_at: string;
+  expires_at: string;
 }
 
 export interface DashboardStats {
@@ -444,3 +585,20 @@ export interface RegisterRequest {
   phone?: string;
   shop?: number;
 }
+
+/** Query for paginated list endpoints; any other key is passed through as a DRF filter */
+export interface ListQuery {
+  page?: number;
+  page_size?: number;
+  /** DRF ordering field, prefixed with '-' for descending, e.g. '-sale_date' */
+  ordering?: string;
+  search?: string;
+  [filter: string]: string | number | boolean | undefined;
+}
+
+export interface PaginatedList<T> {
+  results: T[];
+  count: number;
+  next: string | null;
+  previous: string | null;
+}